@@ -6,8 +6,21 @@ import * as useWebLLMModule from './hooks/useWebLLM';
 
 // Mock the WebLLM hook
 vi.mock('./hooks/useWebLLM', () => ({
-  useWebLLM: vi.fn(() => ({
+  useWebLLM: vi.fn(),
+}));
+
+type UseWebLLMResult = ReturnType<typeof useWebLLMModule.useWebLLM>;
+
+/**
+ * Build a useWebLLM result with idle defaults, overriding only what a test cares about
+ */
+function createMockWebLLM(overrides: Partial<UseWebLLMResult> = {}): UseWebLLMResult {
+  return {
     messages: [],
+    branchPositions: {},
+    queue: [],
+    conversations: [],
+    activeConversationId: null,
     status: 'idle',
     mode: null,
     loadingProgress: { text: '', progress: 0 },
@@ -15,21 +28,44 @@ vi.mock('./hooks/useWebLLM', () => ({
     gpuInfo: null,
     suggestedModelId: null,
     cachedModelId: null,
+    residentModelId: null,
+    contextNotice: null,
+    keepModelLoaded: false,
+    setKeepModelLoaded: vi.fn(),
     initializeEngine: vi.fn(),
     sendMessage: vi.fn(),
+    editMessage: vi.fn(),
+    regenerateMessage: vi.fn(),
+    continueMessage: vi.fn(),
+    showSibling: vi.fn(),
+    cancelQueuedPrompt: vi.fn(),
+    moveQueuedPrompt: vi.fn(),
+    clearQueue: vi.fn(),
     stopGeneration: vi.fn(),
     clearMessages: vi.fn(),
+    createConversation: vi.fn(),
+    switchConversation: vi.fn(),
+    showMessage: vi.fn(),
+    renameConversation: vi.fn(),
+    deleteConversation: vi.fn(),
+    clearAllConversations: vi.fn(),
+    editSummary: vi.fn(),
+    addCodeResult: vi.fn(),
+    setConversationSettings: vi.fn(),
+    setConversationModel: vi.fn(),
     reset: vi.fn(),
     isReady: false,
     isLoading: false,
     isGenerating: false,
     isDemo: false,
-  })),
-}));
+    ...overrides,
+  };
+}
 
 describe('App', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue(createMockWebLLM());
   });
 
   afterEach(() => {
@@ -67,25 +103,13 @@ describe('App', () => {
 
 describe('App - Loading State', () => {
   beforeEach(() => {
-    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue({
-      messages: [],
-      status: 'loading',
-      mode: null,
-      loadingProgress: { text: 'Loading model...', progress: 50 },
-      error: null,
-      gpuInfo: null,
-      suggestedModelId: null,
-      cachedModelId: null,
-      initializeEngine: vi.fn(),
-      sendMessage: vi.fn(),
-      stopGeneration: vi.fn(),
-      clearMessages: vi.fn(),
-      reset: vi.fn(),
-      isReady: false,
-      isLoading: true,
-      isGenerating: false,
-      isDemo: false,
-    });
+    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue(
+      createMockWebLLM({
+        status: 'loading',
+        loadingProgress: { text: 'Loading model...', progress: 50 },
+        isLoading: true,
+      })
+    );
   });
 
   test('shows loading indicator when loading', () => {
@@ -97,25 +121,16 @@ describe('App - Loading State', () => {
 
 describe('App - Ready State', () => {
   beforeEach(() => {
-    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue({
-      messages: [],
-      status: 'ready',
-      mode: 'gpu',
-      loadingProgress: { text: 'Ready', progress: 100 },
-      error: null,
-      gpuInfo: 'GPU detected',
-      suggestedModelId: null,
-      cachedModelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
-      initializeEngine: vi.fn(),
-      sendMessage: vi.fn(),
-      stopGeneration: vi.fn(),
-      clearMessages: vi.fn(),
-      reset: vi.fn(),
-      isReady: true,
-      isLoading: false,
-      isGenerating: false,
-      isDemo: false,
-    });
+    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue(
+      createMockWebLLM({
+        status: 'ready',
+        mode: 'gpu',
+        loadingProgress: { text: 'Ready', progress: 100 },
+        gpuInfo: 'GPU detected',
+        cachedModelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
+        isReady: true,
+      })
+    );
   });
 
   test('shows chat interface when ready and on chat page', () => {
@@ -129,25 +144,16 @@ describe('App - Ready State', () => {
 
 describe('App - Demo Mode', () => {
   beforeEach(() => {
-    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue({
-      messages: [],
-      status: 'demo',
-      mode: 'demo',
-      loadingProgress: { text: 'Demo mode active', progress: 100 },
-      error: null,
-      gpuInfo: 'No GPU detected',
-      suggestedModelId: null,
-      cachedModelId: null,
-      initializeEngine: vi.fn(),
-      sendMessage: vi.fn(),
-      stopGeneration: vi.fn(),
-      clearMessages: vi.fn(),
-      reset: vi.fn(),
-      isReady: true,
-      isLoading: false,
-      isGenerating: false,
-      isDemo: true,
-    });
+    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue(
+      createMockWebLLM({
+        status: 'demo',
+        mode: 'demo',
+        loadingProgress: { text: 'Demo mode active', progress: 100 },
+        gpuInfo: 'No GPU detected',
+        isReady: true,
+        isDemo: true,
+      })
+    );
   });
 
   test('shows demo banner in demo mode', () => {
@@ -166,25 +172,17 @@ describe('App - With Messages', () => {
   ];
 
   beforeEach(() => {
-    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue({
-      messages: mockMessages,
-      status: 'ready',
-      mode: 'gpu',
-      loadingProgress: { text: 'Ready', progress: 100 },
-      error: null,
-      gpuInfo: 'GPU detected',
-      suggestedModelId: null,
-      cachedModelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
-      initializeEngine: vi.fn(),
-      sendMessage: vi.fn(),
-      stopGeneration: vi.fn(),
-      clearMessages: vi.fn(),
-      reset: vi.fn(),
-      isReady: true,
-      isLoading: false,
-      isGenerating: false,
-      isDemo: false,
-    });
+    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue(
+      createMockWebLLM({
+        messages: mockMessages,
+        status: 'ready',
+        mode: 'gpu',
+        loadingProgress: { text: 'Ready', progress: 100 },
+        gpuInfo: 'GPU detected',
+        cachedModelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
+        isReady: true,
+      })
+    );
   });
 
   test('renders home page by default even with messages', () => {
@@ -196,25 +194,12 @@ describe('App - With Messages', () => {
 
 describe('App - Error State', () => {
   beforeEach(() => {
-    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue({
-      messages: [],
-      status: 'error',
-      mode: null,
-      loadingProgress: { text: '', progress: 0 },
-      error: 'Failed to load model',
-      gpuInfo: null,
-      suggestedModelId: null,
-      cachedModelId: null,
-      initializeEngine: vi.fn(),
-      sendMessage: vi.fn(),
-      stopGeneration: vi.fn(),
-      clearMessages: vi.fn(),
-      reset: vi.fn(),
-      isReady: false,
-      isLoading: false,
-      isGenerating: false,
-      isDemo: false,
-    });
+    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue(
+      createMockWebLLM({
+        status: 'error',
+        error: 'Failed to load model',
+      })
+    );
   });
 
   test('shows error message', () => {
@@ -231,25 +216,7 @@ describe('App - Error State', () => {
 
 describe('App - Navigation', () => {
   beforeEach(() => {
-    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue({
-      messages: [],
-      status: 'idle',
-      mode: null,
-      loadingProgress: { text: '', progress: 0 },
-      error: null,
-      gpuInfo: null,
-      suggestedModelId: null,
-      cachedModelId: null,
-      initializeEngine: vi.fn(),
-      sendMessage: vi.fn(),
-      stopGeneration: vi.fn(),
-      clearMessages: vi.fn(),
-      reset: vi.fn(),
-      isReady: false,
-      isLoading: false,
-      isGenerating: false,
-      isDemo: false,
-    });
+    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue(createMockWebLLM({}));
   });
 
   test('navigates to dashboard page', async () => {
@@ -266,6 +233,47 @@ describe('App - Navigation', () => {
     expect(screen.getByText(/Dashboard/)).toBeInTheDocument();
   });
 
+  test('shows semantic search progress on the dashboard', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByTestId('menu-button'));
+    await user.click(screen.getByTestId('nav-dashboard'));
+
+    expect(await screen.findByTestId('semantic-index-count')).toHaveTextContent('0 of 0 messages');
+  });
+
+  test('navigates to the memory page', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByTestId('menu-button'));
+    await user.click(screen.getByTestId('nav-memory'));
+
+    expect(screen.getByTestId('memory-enabled-toggle')).not.toBeChecked();
+  });
+
+  test('navigates to the personas page', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByTestId('menu-button'));
+    await user.click(screen.getByTestId('nav-personas'));
+
+    expect(screen.getByTestId('personas-empty')).toBeInTheDocument();
+  });
+
+  test('navigates to documents page', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByTestId('menu-button'));
+    await user.click(screen.getByTestId('nav-documents'));
+
+    expect(screen.getByTestId('import-documents-button')).toBeInTheDocument();
+    expect(screen.queryByTestId('menu-dropdown')).not.toBeInTheDocument();
+  });
+
   test('shows dashboard menu item in dropdown', async () => {
     const user = userEvent.setup();
     render(<App />);
@@ -274,4 +282,84 @@ describe('App - Navigation', () => {
 
     expect(screen.getByTestId('nav-dashboard')).toBeInTheDocument();
   });
+
+  test('navigates to settings page', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByTestId('menu-button'));
+    await user.click(screen.getByTestId('nav-settings'));
+
+    expect(await screen.findByText(/Settings/)).toBeInTheDocument();
+    expect(screen.getByTestId('temperature-input')).toHaveValue(0.7);
+  });
+
+  test('passes saved settings to the chat engine', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByTestId('menu-button'));
+    await user.click(screen.getByTestId('nav-settings'));
+    const temperature = await screen.findByTestId('temperature-input');
+    await user.clear(temperature);
+    await user.type(temperature, '1.2');
+    await user.click(screen.getByTestId('save-settings-button'));
+
+    expect(useWebLLMModule.useWebLLM).toHaveBeenLastCalledWith(
+      expect.objectContaining({ temperature: 1.2 }),
+      { retrieveSources: expect.any(Function) }
+    );
+  });
+
+  test('keeps the loaded model for a conversation started with another', async () => {
+    const user = userEvent.setup();
+    const setConversationModel = vi.fn();
+    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue(
+      createMockWebLLM({
+        status: 'ready',
+        mode: 'gpu',
+        // Loaded while the settings still select the default 1B model
+        cachedModelId: 'Llama-3.2-3B-Instruct-q4f32_1-MLC',
+        isReady: true,
+        conversations: [
+          {
+            id: 'conv-1',
+            title: 'Older chat',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            modelId: 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC',
+          },
+        ],
+        activeConversationId: 'conv-1',
+        setConversationModel,
+      })
+    );
+
+    render(<App />);
+    await user.click(screen.getByTestId('menu-button'));
+    await user.click(screen.getByTestId('nav-chat'));
+    await user.click(await screen.findByTestId('keep-loaded-model'));
+
+    expect(setConversationModel).toHaveBeenCalledWith(
+      'conv-1',
+      'Llama-3.2-3B-Instruct-q4f32_1-MLC'
+    );
+  });
+
+  test('selects the model kept loaded in the service worker', () => {
+    vi.mocked(useWebLLMModule.useWebLLM).mockReturnValue(
+      createMockWebLLM({
+        residentModelId: 'Llama-3.2-3B-Instruct-q4f32_1-MLC',
+        cachedModelId: 'Llama-3.2-3B-Instruct-q4f32_1-MLC',
+      })
+    );
+
+    render(<App />);
+
+    expect(useWebLLMModule.useWebLLM).toHaveBeenLastCalledWith(
+      expect.objectContaining({ modelId: 'Llama-3.2-3B-Instruct-q4f32_1-MLC' }),
+      { retrieveSources: expect.any(Function) }
+    );
+    expect(screen.getByText(/Selected: Llama 3.2 3B \(f32\)/)).toBeInTheDocument();
+  });
 });
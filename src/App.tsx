@@ -1,9 +1,20 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { LoadingIndicator } from './components';
 import { HomePage } from './HomePage';
 import { ChatPage } from './ChatPage';
+import { SettingsPage } from './SettingsPage';
 import { DashboardPage } from './DashboardPage';
+import { DocumentsPage } from './DocumentsPage';
+import { MemoryPage } from './MemoryPage';
+import { PersonasPage } from './PersonasPage';
 import { useWebLLM } from './hooks/useWebLLM';
+import { useDocumentLibrary } from './hooks/useDocumentLibrary';
+import { useEmbedder } from './hooks/useEmbedder';
+import { useMessageIndex } from './hooks/useMessageIndex';
+import { useMemory } from './hooks/useMemory';
+import { usePersonas } from './hooks/usePersonas';
+import { useChatConfig } from './hooks/useChatConfig';
+import type { Persona } from './types/persona';
 import type { PageType } from './utils/navigation';
 import './App.css';
 
@@ -12,28 +23,76 @@ import './App.css';
  * A Progressive Web App for running LLMs directly in the browser
  */
 function App() {
-  const [selectedModelId, setSelectedModelId] = useState('Llama-3.2-1B-Instruct-q4f32_1-MLC');
+  const { config: chatConfig, loaded: chatConfigLoaded, updateConfig } = useChatConfig();
+  const selectedModelId = chatConfig.modelId;
   const [currentPage, setCurrentPage] = useState<PageType>('home');
   const [menuOpen, setMenuOpen] = useState(false);
+  const getEmbedder = useEmbedder();
+  const library = useDocumentLibrary(getEmbedder);
+  const memory = useMemory();
+  const personaLibrary = usePersonas();
 
   const {
     messages,
+    branchPositions,
+    queue,
+    conversations,
+    activeConversationId,
     status,
     loadingProgress,
     error,
     gpuInfo,
     suggestedModelId,
     cachedModelId,
+    residentModelId,
+    contextNotice,
+    keepModelLoaded,
+    setKeepModelLoaded,
     initializeEngine,
     sendMessage,
+    editMessage,
+    regenerateMessage,
+    continueMessage,
+    showSibling,
+    cancelQueuedPrompt,
+    moveQueuedPrompt,
+    clearQueue,
     stopGeneration,
     clearMessages,
+    createConversation,
+    switchConversation,
+    showMessage,
+    renameConversation,
+    setConversationSettings,
+    setConversationModel,
+    deleteConversation,
+    clearAllConversations,
+    editSummary,
+    addCodeResult,
     reset,
     isReady,
     isLoading,
     isGenerating,
     isDemo,
-  } = useWebLLM({ modelId: selectedModelId });
+  } = useWebLLM(chatConfig, {
+    retrieveSources: library.retrieve,
+    // Memory stays out of prompts entirely while it is off
+    ...(memory.enabled && {
+      retrieveMemories: memory.retrieveMemories,
+      proposeMemories: memory.proposeMemories,
+    }),
+  });
+
+  // Embed stored messages while the GPU is free: a model is loaded and nothing is generating
+  const messageIndex = useMessageIndex({ enabled: status === 'ready', getEmbedder });
+  const { refreshStats: refreshIndexStats } = messageIndex;
+
+  // Select the model the service worker kept loaded, so loading reattaches to it
+  useEffect(() => {
+    if (residentModelId) {
+      updateConfig({ modelId: residentModelId });
+    }
+  }, [residentModelId, updateConfig]);
 
   const handleSendMessage = useCallback(
     async (content: string) => {
@@ -53,11 +112,11 @@ function App() {
         console.warn('Cannot change model while generating');
         return;
       }
-      setSelectedModelId(modelId);
+      await updateConfig({ modelId });
       // Reset the engine when changing models
       await reset();
     },
-    [reset, isGenerating]
+    [reset, isGenerating, updateConfig]
   );
 
   const handleLoadModel = useCallback(async () => {
@@ -72,6 +131,29 @@ function App() {
     setCurrentPage('chat');
   }, [initializeEngine, isLoading, isGenerating]);
 
+  const handleLoadConversationModel = useCallback(
+    async (modelId: string) => {
+      if (isGenerating) {
+        console.warn('Cannot change model while generating');
+        return;
+      }
+      await updateConfig({ modelId });
+      await reset();
+      await initializeEngine(modelId);
+    },
+    [isGenerating, updateConfig, reset, initializeEngine]
+  );
+
+  const handleKeepModel = useCallback(
+    (conversationId: string) => {
+      // The loaded model, which may differ from the one picked for the next load
+      if (cachedModelId) {
+        setConversationModel(conversationId, cachedModelId);
+      }
+    },
+    [setConversationModel, cachedModelId]
+  );
+
   const handleNavigate = useCallback(
     (page: PageType) => {
       // Warn if navigating during generation
@@ -94,10 +176,18 @@ function App() {
     await reset();
   }, [reset, isLoading, isGenerating]);
 
-  const handleClearHistory = useCallback(async () => {
-    // Clear messages from the WebLLM hook
-    await clearMessages();
-  }, [clearMessages]);
+  const handleClearHistory = useCallback(() => {
+    // Storage was wiped by the dashboard - drop the hook's in-memory conversations too
+    clearAllConversations();
+    void refreshIndexStats();
+  }, [clearAllConversations, refreshIndexStats]);
+
+  const handleNewConversation = useCallback(
+    async (persona?: Persona) => {
+      await createConversation(undefined, persona);
+    },
+    [createConversation]
+  );
 
   return (
     <div className="app">
@@ -128,6 +218,39 @@ function App() {
               >
                 💬 Chat
               </button>
+              <button
+                className="menu-item"
+                onClick={() => handleNavigate('documents')}
+                data-testid="nav-documents"
+              >
+                📚 Documents
+              </button>
+              <button
+                className="menu-item"
+                onClick={() => handleNavigate('memory')}
+                data-testid="nav-memory"
+              >
+                🧠 Memory
+                {memory.proposedCount > 0 && (
+                  <span className="menu-badge" data-testid="memory-proposed-count">
+                    {memory.proposedCount}
+                  </span>
+                )}
+              </button>
+              <button
+                className="menu-item"
+                onClick={() => handleNavigate('personas')}
+                data-testid="nav-personas"
+              >
+                🎭 Personas
+              </button>
+              <button
+                className="menu-item"
+                onClick={() => handleNavigate('settings')}
+                data-testid="nav-settings"
+              >
+                ⚙️ Settings
+              </button>
               <button
                 className="menu-item"
                 onClick={() => handleNavigate('dashboard')}
@@ -164,7 +287,7 @@ function App() {
             <span className="error-icon">⚠️</span>
             <span>{error}</span>
             <div className="error-actions">
-              <button onClick={initializeEngine} className="retry-button">
+              <button onClick={() => initializeEngine()} className="retry-button">
                 Retry
               </button>
               {suggestedModelId && (
@@ -194,17 +317,88 @@ function App() {
         {currentPage === 'chat' && isReady && !error && (
           <ChatPage
             messages={messages}
+            branchPositions={branchPositions}
+            queue={queue}
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            personas={personaLibrary.personas}
             status={status}
             isGenerating={isGenerating}
             isDemo={isDemo}
+            contextNotice={contextNotice}
+            globalConfig={chatConfig}
+            loadedModelId={isDemo ? null : cachedModelId}
             onSendMessage={handleSendMessage}
+            onEditMessage={editMessage}
+            onRegenerateMessage={regenerateMessage}
+            onContinueMessage={continueMessage}
+            onShowSibling={showSibling}
             onStopGeneration={stopGeneration}
+            onCancelQueuedPrompt={cancelQueuedPrompt}
+            onMoveQueuedPrompt={moveQueuedPrompt}
+            onClearQueue={clearQueue}
             onClearMessages={clearMessages}
+            onNewConversation={handleNewConversation}
+            onSwitchConversation={switchConversation}
+            onShowMessage={showMessage}
+            onSearchByMeaning={isDemo ? undefined : messageIndex.searchByMeaning}
+            onFindSimilar={isDemo ? undefined : messageIndex.findSimilar}
+            onRenameConversation={renameConversation}
+            onDeleteConversation={deleteConversation}
+            onEditSummary={editSummary}
+            onAddCodeResult={addCodeResult}
+            onConversationSettingsChange={setConversationSettings}
+            onLoadModel={handleLoadConversationModel}
+            onKeepModel={handleKeepModel}
           />
         )}
 
+        {currentPage === 'documents' && (
+          <DocumentsPage
+            documents={library.documents}
+            importProgress={library.importProgress}
+            error={library.error}
+            onImport={library.importFiles}
+            onRemove={library.removeDocument}
+          />
+        )}
+
+        {currentPage === 'memory' && (
+          <MemoryPage
+            enabled={memory.enabled}
+            memories={memory.memories}
+            onEnabledChange={memory.setEnabled}
+            onAdd={memory.addMemory}
+            onUpdate={memory.updateMemory}
+            onDelete={memory.deleteMemory}
+            onClear={memory.clearMemories}
+          />
+        )}
+
+        {currentPage === 'personas' && (
+          <PersonasPage
+            personas={personaLibrary.personas}
+            globalConfig={chatConfig}
+            onCreate={personaLibrary.createPersona}
+            onUpdate={personaLibrary.updatePersona}
+            onDuplicate={personaLibrary.duplicatePersona}
+            onDelete={personaLibrary.deletePersona}
+          />
+        )}
+
+        {currentPage === 'settings' && chatConfigLoaded && (
+          <SettingsPage config={chatConfig} onSave={updateConfig} />
+        )}
+
         {currentPage === 'dashboard' && (
-          <DashboardPage onClearCache={handleClearCache} onClearHistory={handleClearHistory} />
+          <DashboardPage
+            onClearCache={handleClearCache}
+            onClearHistory={handleClearHistory}
+            keepModelLoaded={keepModelLoaded}
+            onKeepModelLoadedChange={setKeepModelLoaded}
+            semanticIndex={messageIndex.stats}
+            indexingMessages={messageIndex.isIndexing}
+          />
         )}
       </main>
     </div>
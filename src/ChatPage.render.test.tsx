@@ -0,0 +1,102 @@
+/**
+ * Render-count benchmark for streaming replies in ChatPage
+ * Counts how often each chat message renders while one reply streams in
+ */
+
+import type { ComponentProps, FunctionComponent, MemoExoticComponent } from 'react';
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ChatPage } from './ChatPage';
+import type { ChatMessage } from './types/chat';
+import { DEFAULT_CHAT_CONFIG } from './types/chat';
+
+const renders = vi.hoisted(() => vi.fn<(messageId: string) => void>());
+
+// Wrap the message component so each render is recorded, keeping its memoization
+vi.mock('./components/ChatMessage', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./components/ChatMessage')>();
+  const { memo } = await import('react');
+  type Props = ComponentProps<typeof actual.ChatMessage>;
+  const component = actual.ChatMessage as MemoExoticComponent<FunctionComponent<Props>> & {
+    compare: (previous: Props, next: Props) => boolean;
+  };
+  function CountedChatMessage(props: Props) {
+    'use no memo';
+    renders(props.message.id);
+    return component.type(props);
+  }
+  const ChatMessage = memo(CountedChatMessage, component.compare);
+  return { ChatMessage, default: ChatMessage };
+});
+
+const history: ChatMessage[] = Array.from({ length: 50 }, (_, i) => ({
+  id: `msg-${i}`,
+  role: i % 2 === 0 ? 'user' : 'assistant',
+  content: `Message ${i}`,
+  timestamp: new Date(),
+}));
+
+const reply: ChatMessage = {
+  id: 'reply',
+  role: 'assistant',
+  content: '',
+  timestamp: new Date(),
+};
+
+/**
+ * Props for a render partway through the reply
+ * The actions are recreated whenever the messages change, as they are in the app
+ */
+const streamingProps = (content: string) => ({
+  messages: [...history, { ...reply, content }],
+  branchPositions: {},
+  queue: [],
+  conversations: [],
+  activeConversationId: null,
+  status: 'generating' as const,
+  isGenerating: true,
+  isDemo: false,
+  globalConfig: DEFAULT_CHAT_CONFIG,
+  loadedModelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
+  onSendMessage: vi.fn(),
+  onEditMessage: vi.fn(),
+  onRegenerateMessage: vi.fn(),
+  onContinueMessage: vi.fn(),
+  onShowSibling: vi.fn(),
+  onStopGeneration: vi.fn(),
+  onCancelQueuedPrompt: vi.fn(),
+  onMoveQueuedPrompt: vi.fn(),
+  onClearQueue: vi.fn(),
+  onClearMessages: vi.fn(),
+  onNewConversation: vi.fn(),
+  onSwitchConversation: vi.fn(),
+  onShowMessage: vi.fn(),
+  onRenameConversation: vi.fn(),
+  onDeleteConversation: vi.fn(),
+  onEditSummary: vi.fn(),
+  onAddCodeResult: vi.fn(),
+  onConversationSettingsChange: vi.fn(),
+  onLoadModel: vi.fn(),
+  onKeepModel: vi.fn(),
+});
+
+describe('ChatPage rendering', () => {
+  test('re-renders only the streaming message as tokens arrive', () => {
+    const { rerender } = render(<ChatPage {...streamingProps('')} />);
+    // Only the messages around the bottom of the window are rendered
+    expect(renders.mock.calls.length).toBeLessThan(history.length);
+    expect(renders).toHaveBeenLastCalledWith('reply');
+    renders.mockClear();
+
+    const tokens = 100;
+    let content = '';
+    for (let i = 0; i < tokens; i++) {
+      content += 'token ';
+      rerender(<ChatPage {...streamingProps(content)} />);
+    }
+
+    expect(renders).toHaveBeenCalledTimes(tokens);
+    expect(new Set(renders.mock.calls.map(([messageId]) => messageId))).toEqual(new Set(['reply']));
+    expect(screen.getByText(content.trim())).toBeInTheDocument();
+  });
+});
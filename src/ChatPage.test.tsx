@@ -6,17 +6,55 @@ import { describe, test, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ChatPage } from './ChatPage';
-import type { ChatMessage } from './types/chat';
+import type { ChatMessage, Conversation } from './types/chat';
+import { DEFAULT_CHAT_CONFIG } from './types/chat';
+import type { Persona } from './types/persona';
+import { getGenerationSettings } from './utils/settings';
+import { runJavaScript } from './utils/codeRunner';
+import { searchMessages } from './utils/storage';
+
+vi.mock('./utils/codeRunner', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./utils/codeRunner')>()),
+  runJavaScript: vi.fn(),
+}));
+
+vi.mock('./utils/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./utils/storage')>()),
+  searchMessages: vi.fn(),
+}));
 
 describe('ChatPage', () => {
   const defaultProps = {
     messages: [] as ChatMessage[],
+    branchPositions: {},
+    queue: [],
+    conversations: [] as Conversation[],
+    activeConversationId: null,
     status: 'ready' as const,
     isGenerating: false,
     isDemo: false,
+    globalConfig: DEFAULT_CHAT_CONFIG,
+    loadedModelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
     onSendMessage: vi.fn(),
+    onEditMessage: vi.fn(),
+    onRegenerateMessage: vi.fn(),
+    onContinueMessage: vi.fn(),
+    onShowSibling: vi.fn(),
     onStopGeneration: vi.fn(),
+    onCancelQueuedPrompt: vi.fn(),
+    onMoveQueuedPrompt: vi.fn(),
+    onClearQueue: vi.fn(),
     onClearMessages: vi.fn(),
+    onNewConversation: vi.fn(),
+    onSwitchConversation: vi.fn(),
+    onShowMessage: vi.fn(),
+    onRenameConversation: vi.fn(),
+    onDeleteConversation: vi.fn(),
+    onEditSummary: vi.fn(),
+    onAddCodeResult: vi.fn(),
+    onConversationSettingsChange: vi.fn(),
+    onLoadModel: vi.fn(),
+    onKeepModel: vi.fn(),
   };
 
   test('renders empty state when no messages', () => {
@@ -94,4 +132,416 @@ describe('ChatPage', () => {
     render(<ChatPage {...defaultProps} />);
     expect(screen.getByTestId('messages-list')).toBeInTheDocument();
   });
+
+  test('renders conversation sidebar', () => {
+    const conversations: Conversation[] = [
+      {
+        id: 'conv-1',
+        title: 'First chat',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        modelId: 'test-model',
+      },
+    ];
+
+    render(
+      <ChatPage {...defaultProps} conversations={conversations} activeConversationId="conv-1" />
+    );
+    expect(screen.getByTestId('conversation-sidebar')).toBeInTheDocument();
+    expect(screen.getByText('First chat')).toBeInTheDocument();
+  });
+
+  test('shows replies as the persona the conversation was started with', () => {
+    const conversations: Conversation[] = [
+      {
+        id: 'conv-1',
+        title: 'Homework',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        modelId: 'test-model',
+        personaId: 'persona-1',
+      },
+    ];
+    const persona: Persona = {
+      id: 'persona-1',
+      name: 'Tutor',
+      avatar: '🦉',
+      modelId: null,
+      settings: getGenerationSettings(DEFAULT_CHAT_CONFIG),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const messages: ChatMessage[] = [
+      { id: '1', role: 'assistant', content: 'Where shall we start?', timestamp: new Date() },
+    ];
+
+    render(
+      <ChatPage
+        {...defaultProps}
+        conversations={conversations}
+        activeConversationId="conv-1"
+        personas={[persona]}
+        messages={messages}
+      />
+    );
+
+    expect(screen.getByTestId('message-1')).toHaveTextContent('Tutor');
+    expect(screen.getByPlaceholderText('Ask Tutor anything...')).toBeInTheDocument();
+  });
+
+  test('does not show a context notice by default', () => {
+    render(<ChatPage {...defaultProps} />);
+    expect(screen.queryByTestId('context-notice')).not.toBeInTheDocument();
+  });
+
+  test('says how many earlier messages were left out of the context', () => {
+    render(<ChatPage {...defaultProps} contextNotice={{ droppedCount: 3, shortened: false }} />);
+    expect(screen.getByTestId('context-notice')).toHaveTextContent(
+      "3 earlier messages were left out to fit the model's context window."
+    );
+  });
+
+  test('says when an earlier message was shortened', () => {
+    render(<ChatPage {...defaultProps} contextNotice={{ droppedCount: 1, shortened: true }} />);
+    expect(screen.getByTestId('context-notice')).toHaveTextContent(
+      '1 earlier message was left out and another was shortened'
+    );
+  });
+
+  test('renders summaries as editable summary cards', async () => {
+    const user = userEvent.setup();
+    const onEditSummary = vi.fn();
+    const messages: ChatMessage[] = [
+      { id: 'msg-1', role: 'user', content: 'Hello', timestamp: new Date() },
+      {
+        id: 'summary-1',
+        role: 'system',
+        content: 'They said hello.',
+        timestamp: new Date(),
+        kind: 'summary',
+      },
+    ];
+
+    render(<ChatPage {...defaultProps} messages={messages} onEditSummary={onEditSummary} />);
+    expect(screen.getByTestId('summary-summary-1')).toHaveTextContent('They said hello.');
+
+    await user.click(screen.getByTestId('edit-summary-summary-1'));
+    await user.type(screen.getByTestId('summary-textarea'), ' Twice.');
+    await user.click(screen.getByTestId('summary-save-button'));
+
+    expect(onEditSummary).toHaveBeenCalledWith('summary-1', 'They said hello. Twice.');
+  });
+
+  test('lets messages be regenerated and their branches browsed', async () => {
+    const user = userEvent.setup();
+    const onRegenerateMessage = vi.fn();
+    const onShowSibling = vi.fn();
+    const messages: ChatMessage[] = [
+      { id: 'msg-1', role: 'user', content: 'Hello', timestamp: new Date() },
+      { id: 'msg-2', role: 'assistant', content: 'Hi!', timestamp: new Date(), parentId: 'msg-1' },
+    ];
+
+    render(
+      <ChatPage
+        {...defaultProps}
+        messages={messages}
+        branchPositions={{ 'msg-2': { index: 1, count: 2 } }}
+        onRegenerateMessage={onRegenerateMessage}
+        onShowSibling={onShowSibling}
+      />
+    );
+
+    expect(screen.getByTestId('branch-position')).toHaveTextContent('2/2');
+    await user.click(screen.getByTestId('previous-branch'));
+    await user.click(screen.getByTestId('regenerate-msg-2'));
+
+    expect(onShowSibling).toHaveBeenCalledWith('msg-2', -1);
+    expect(onRegenerateMessage).toHaveBeenCalledWith('msg-2');
+  });
+
+  test('offers to continue only the latest reply', () => {
+    const cutOff = { finishReason: 'length' as const };
+    const messages: ChatMessage[] = [
+      { id: 'msg-1', role: 'user', content: 'Hello', timestamp: new Date() },
+      { id: 'msg-2', role: 'assistant', content: 'Hi', timestamp: new Date(), stats: cutOff },
+      { id: 'msg-3', role: 'user', content: 'Go on', timestamp: new Date() },
+      { id: 'msg-4', role: 'assistant', content: 'Well', timestamp: new Date(), stats: cutOff },
+    ];
+
+    render(<ChatPage {...defaultProps} messages={messages} />);
+
+    expect(screen.queryByTestId('continue-msg-2')).not.toBeInTheDocument();
+    expect(screen.getByTestId('continue-msg-4')).toBeInTheDocument();
+  });
+
+  test('opens previews of the pages in finished replies', async () => {
+    const user = userEvent.setup();
+    const messages: ChatMessage[] = [
+      { id: 'msg-1', role: 'user', content: 'Make a page', timestamp: new Date() },
+      {
+        id: 'msg-2',
+        role: 'assistant',
+        content: '```html\n<h1>Hi</h1>\n```',
+        timestamp: new Date(),
+      },
+    ];
+
+    const { rerender } = render(<ChatPage {...defaultProps} messages={messages} isGenerating />);
+    expect(screen.queryByTestId('artifacts-button')).not.toBeInTheDocument();
+
+    rerender(<ChatPage {...defaultProps} messages={messages} />);
+    await user.click(screen.getByTestId('artifacts-button'));
+
+    expect(screen.getByTestId('artifacts-panel')).toBeInTheDocument();
+    expect(screen.getByTestId('artifact-frame').getAttribute('srcdoc')).toContain('<h1>Hi</h1>');
+  });
+
+  test('runs a script from a reply and posts its output', async () => {
+    const user = userEvent.setup();
+    vi.mocked(runJavaScript).mockResolvedValue({
+      logs: [{ level: 'log', text: 'hello' }],
+      result: '3',
+      durationMs: 4,
+    });
+    const onAddCodeResult = vi.fn();
+    const messages: ChatMessage[] = [
+      { id: 'msg-1', role: 'user', content: 'Add numbers', timestamp: new Date() },
+      {
+        id: 'msg-2',
+        role: 'assistant',
+        content: "```js\nconsole.log('hello');\n1 + 2\n```",
+        timestamp: new Date(),
+      },
+    ];
+
+    render(<ChatPage {...defaultProps} messages={messages} onAddCodeResult={onAddCodeResult} />);
+    await user.click(screen.getByTestId('run-code'));
+
+    expect(runJavaScript).toHaveBeenCalledWith("console.log('hello');\n1 + 2");
+    expect(onAddCodeResult).toHaveBeenCalledWith(expect.stringContaining('hello'));
+    expect(onAddCodeResult).toHaveBeenCalledWith(expect.stringContaining('Result:\n```\n3\n```'));
+  });
+
+  test('opens a search result in its conversation', async () => {
+    const user = userEvent.setup();
+    const found: ChatMessage = {
+      id: 'msg-7',
+      role: 'assistant',
+      content: 'Knead the sourdough for ten minutes.',
+      timestamp: new Date(),
+    };
+    vi.mocked(searchMessages).mockResolvedValue([
+      { conversationId: 'conv-2', message: found, score: 1 },
+    ]);
+    const onShowMessage = vi.fn().mockResolvedValue(true);
+    render(
+      <ChatPage
+        {...defaultProps}
+        messages={[found]}
+        conversations={[
+          {
+            id: 'conv-2',
+            title: 'Baking',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            modelId: DEFAULT_CHAT_CONFIG.modelId,
+          },
+        ]}
+        onShowMessage={onShowMessage}
+      />
+    );
+
+    await user.click(screen.getByTestId('search-button'));
+    await user.type(screen.getByTestId('search-input'), 'sourdough');
+    const result = await screen.findByTestId('search-result-msg-7');
+    expect(result).toHaveTextContent('Baking');
+    expect(result.querySelector('mark')).toHaveTextContent('sourdough');
+
+    await user.click(result);
+
+    expect(onShowMessage).toHaveBeenCalledWith('conv-2', 'msg-7');
+    expect(
+      screen.getByTestId('messages-list').querySelector('[data-message-id="msg-7"]')
+    ).toHaveClass('highlighted');
+  });
+
+  test('lists the messages similar to one in the chat', async () => {
+    const user = userEvent.setup();
+    const message: ChatMessage = {
+      id: 'msg-1',
+      role: 'user',
+      content: 'How long should bread rise?',
+      timestamp: new Date(),
+    };
+    const similar: ChatMessage = {
+      id: 'msg-7',
+      role: 'assistant',
+      content: 'Let the dough prove overnight.',
+      timestamp: new Date(),
+    };
+    const onFindSimilar = vi
+      .fn()
+      .mockResolvedValue([{ conversationId: 'conv-2', message: similar, score: 0.9 }]);
+    render(<ChatPage {...defaultProps} messages={[message]} onFindSimilar={onFindSimilar} />);
+
+    await user.click(screen.getByTestId('find-similar-msg-1'));
+
+    expect(screen.getByTestId('search-similar')).toHaveTextContent('How long should bread rise?');
+    expect(await screen.findByTestId('search-result-msg-7')).toBeInTheDocument();
+    expect(onFindSimilar).toHaveBeenCalledWith('msg-1', {});
+
+    // Closing forgets the message, so search opens with a query next time
+    await user.click(screen.getByTestId('close-search'));
+    await user.click(screen.getByTestId('search-button'));
+    expect(screen.getByTestId('search-input')).toBeInTheDocument();
+  });
+
+  test('hides finding similar messages when it is not available', () => {
+    const message: ChatMessage = {
+      id: 'msg-1',
+      role: 'user',
+      content: 'How long should bread rise?',
+      timestamp: new Date(),
+    };
+    render(<ChatPage {...defaultProps} messages={[message]} />);
+
+    expect(screen.queryByTestId('find-similar-msg-1')).not.toBeInTheDocument();
+  });
+
+  describe('prompt queue', () => {
+    const queue = [
+      { id: 'q1', content: 'Next question' },
+      { id: 'q2', content: 'Another one' },
+    ];
+
+    test('shows queued prompts', () => {
+      render(<ChatPage {...defaultProps} isGenerating={true} queue={queue} />);
+      expect(screen.getByTestId('prompt-queue')).toHaveTextContent('Next question');
+    });
+
+    test('offers to clear the queue when stopping', async () => {
+      const user = userEvent.setup();
+      const onClearQueue = vi.fn();
+      const onStopGeneration = vi.fn();
+      const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+      render(
+        <ChatPage
+          {...defaultProps}
+          isGenerating={true}
+          queue={queue}
+          onClearQueue={onClearQueue}
+          onStopGeneration={onStopGeneration}
+        />
+      );
+
+      await user.click(screen.getByTestId('stop-button'));
+
+      expect(confirmSpy).toHaveBeenCalledWith('Also remove the 2 queued messages?');
+      expect(onClearQueue).toHaveBeenCalled();
+      expect(onStopGeneration).toHaveBeenCalled();
+      confirmSpy.mockRestore();
+    });
+
+    test('keeps the queue when the offer is declined', async () => {
+      const user = userEvent.setup();
+      const onClearQueue = vi.fn();
+      const onStopGeneration = vi.fn();
+      const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(false);
+      render(
+        <ChatPage
+          {...defaultProps}
+          isGenerating={true}
+          queue={queue}
+          onClearQueue={onClearQueue}
+          onStopGeneration={onStopGeneration}
+        />
+      );
+
+      await user.click(screen.getByTestId('stop-button'));
+
+      expect(onClearQueue).not.toHaveBeenCalled();
+      expect(onStopGeneration).toHaveBeenCalled();
+      confirmSpy.mockRestore();
+    });
+  });
+
+  describe('per-conversation model', () => {
+    const conversation: Conversation = {
+      id: 'conv-1',
+      title: 'Drafting',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      modelId: 'Llama-3.1-8B-Instruct-q4f32_1-MLC',
+    };
+
+    test('offers to load the model the conversation was using', async () => {
+      const user = userEvent.setup();
+      const onLoadModel = vi.fn();
+      const onKeepModel = vi.fn();
+      render(
+        <ChatPage
+          {...defaultProps}
+          conversations={[conversation]}
+          activeConversationId="conv-1"
+          onLoadModel={onLoadModel}
+          onKeepModel={onKeepModel}
+        />
+      );
+
+      expect(screen.getByTestId('model-mismatch')).toHaveTextContent(
+        'This chat was using Llama 3.1 8B (f32). Llama 3.2 1B (f32) is loaded.'
+      );
+
+      await user.click(screen.getByTestId('load-conversation-model'));
+      expect(onLoadModel).toHaveBeenCalledWith('Llama-3.1-8B-Instruct-q4f32_1-MLC');
+
+      await user.click(screen.getByTestId('keep-loaded-model'));
+      expect(onKeepModel).toHaveBeenCalledWith('conv-1');
+    });
+
+    test('does not offer a model switch when the conversation model is loaded', () => {
+      render(
+        <ChatPage
+          {...defaultProps}
+          conversations={[{ ...conversation, modelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC' }]}
+          activeConversationId="conv-1"
+        />
+      );
+      expect(screen.queryByTestId('model-mismatch')).not.toBeInTheDocument();
+    });
+
+    test('does not offer a model switch in demo mode', () => {
+      render(
+        <ChatPage
+          {...defaultProps}
+          conversations={[conversation]}
+          activeConversationId="conv-1"
+          loadedModelId={null}
+        />
+      );
+      expect(screen.queryByTestId('model-mismatch')).not.toBeInTheDocument();
+    });
+
+    test('opens the settings of the active conversation', async () => {
+      const user = userEvent.setup();
+      const onConversationSettingsChange = vi.fn();
+      render(
+        <ChatPage
+          {...defaultProps}
+          conversations={[conversation]}
+          activeConversationId="conv-1"
+          onConversationSettingsChange={onConversationSettingsChange}
+        />
+      );
+
+      await user.click(screen.getByTestId('chat-settings-button'));
+      expect(screen.getByTestId('conversation-settings')).toHaveTextContent('Drafting');
+
+      await user.clear(screen.getByTestId('temperature-input'));
+      await user.type(screen.getByTestId('temperature-input'), '0.2');
+      await user.click(screen.getByTestId('save-settings-button'));
+
+      expect(onConversationSettingsChange).toHaveBeenCalledWith('conv-1', { temperature: 0.2 });
+    });
+  });
 });
@@ -2,18 +2,114 @@
  * Chat Page - Main chat interface
  */
 
-import { useRef, useEffect, useCallback } from 'react';
-import { ChatMessage, ChatInput } from './components';
-import type { ChatMessage as ChatMessageType, LLMStatus } from './types/chat';
+import { useCallback, useMemo, useState } from 'react';
+import {
+  ArtifactsPanel,
+  ChatMessage,
+  ChatInput,
+  ConversationSettingsPanel,
+  ConversationSidebar,
+  MessageList,
+  PromptQueue,
+  SearchPanel,
+  SummaryMessage,
+} from './components';
+import type { ScrollTarget } from './components/MessageList';
+import type {
+  ChatConfig,
+  ChatMessage as ChatMessageType,
+  ContextNotice,
+  Conversation,
+  ConversationSettings,
+  LLMStatus,
+  QueuedPrompt,
+} from './types/chat';
+import type { Persona } from './types/persona';
+import { DEFAULT_PERSONA } from './types/persona';
+import type { SearchFilters, SearchResult } from './types/search';
+import { useStableCallback } from './hooks/useStableCallback';
+import { collectArtifacts } from './utils/artifacts';
+import { formatCodeRunResult, runJavaScript } from './utils/codeRunner';
+import { getModelById } from './utils/models';
+import type { BranchPosition } from './utils/tree';
 
 export interface ChatPageProps {
+  /** Messages of the branch being shown */
   messages: ChatMessageType[];
+  /** Where each message sits among its alternatives */
+  branchPositions: Record<string, BranchPosition>;
+  /** Prompts waiting for the current reply, next first */
+  queue: QueuedPrompt[];
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  /** Personas conversations can be started with */
+  personas?: Persona[];
   status: LLMStatus;
   isGenerating: boolean;
   isDemo: boolean;
+  /** Set when the last request left out older turns to fit the context window */
+  contextNotice?: ContextNotice | null;
+  /** Global settings that conversations fall back to */
+  globalConfig: ChatConfig;
+  /** Model currently loaded, or null in demo mode */
+  loadedModelId: string | null;
   onSendMessage: (content: string) => Promise<void>;
+  /** Send an edited copy of a user message as a new branch */
+  onEditMessage: (messageId: string, content: string) => Promise<void>;
+  /** Generate another reply next to an assistant message */
+  onRegenerateMessage: (messageId: string) => Promise<void>;
+  /** Resume a reply that was cut off at max tokens */
+  onContinueMessage: (messageId: string) => Promise<void>;
+  /** Show the alternative `offset` places away from a message */
+  onShowSibling: (messageId: string, offset: number) => void;
   onStopGeneration: () => void;
+  onCancelQueuedPrompt: (promptId: string) => void;
+  onMoveQueuedPrompt: (promptId: string, offset: number) => void;
+  onClearQueue: () => void;
   onClearMessages: () => void;
+  onNewConversation: (persona?: Persona) => void;
+  onSwitchConversation: (conversationId: string) => void;
+  /** Show a message found by search in its conversation; resolves to whether it was found */
+  onShowMessage: (conversationId: string, messageId: string) => Promise<boolean>;
+  /** Search stored messages by meaning; leaving it out offers word search only */
+  onSearchByMeaning?: (query: string, filters: SearchFilters) => Promise<SearchResult[]>;
+  /** Find the stored messages closest in meaning to one; leaving it out hides the action */
+  onFindSimilar?: (messageId: string, filters: SearchFilters) => Promise<SearchResult[]>;
+  onRenameConversation: (conversationId: string, title: string) => void;
+  onDeleteConversation: (conversationId: string) => void;
+  onEditSummary: (messageId: string, content: string) => void;
+  /** Add the output of a code block run at the end of the conversation */
+  onAddCodeResult: (content: string) => void;
+  onConversationSettingsChange: (
+    conversationId: string,
+    settings: ConversationSettings | undefined
+  ) => void;
+  /** Load the model a conversation was using */
+  onLoadModel: (modelId: string) => void;
+  /** Keep going with the loaded model in a conversation that was using another one */
+  onKeepModel: (conversationId: string) => void;
+}
+
+/**
+ * Display name of a model, falling back to its id
+ */
+function modelName(modelId: string): string {
+  return getModelById(modelId)?.name ?? modelId;
+}
+
+/**
+ * Describe which turns the model did not see
+ */
+function describeContextNotice({ droppedCount, shortened }: ContextNotice): string {
+  const dropped =
+    droppedCount === 1 ? '1 earlier message was' : `${droppedCount} earlier messages were`;
+  if (droppedCount > 0 && shortened) {
+    return `${dropped} left out and another was shortened to fit the model's context window.`;
+  }
+  if (droppedCount > 0) {
+    return `${dropped} left out to fit the model's context window.`;
+  }
+  return "An earlier message was shortened to fit the model's context window.";
 }
 
 /**
@@ -21,22 +117,62 @@ export interface ChatPageProps {
  */
 export function ChatPage({
   messages,
+  branchPositions,
+  queue,
+  conversations,
+  activeConversationId,
+  personas = [],
   status,
   isGenerating,
   isDemo,
+  contextNotice = null,
+  globalConfig,
+  loadedModelId,
   onSendMessage,
+  onEditMessage,
+  onRegenerateMessage,
+  onContinueMessage,
+  onShowSibling,
   onStopGeneration,
+  onCancelQueuedPrompt,
+  onMoveQueuedPrompt,
+  onClearQueue,
   onClearMessages,
+  onNewConversation,
+  onSwitchConversation,
+  onShowMessage,
+  onSearchByMeaning,
+  onFindSimilar,
+  onRenameConversation,
+  onDeleteConversation,
+  onEditSummary,
+  onAddCodeResult,
+  onConversationSettingsChange,
+  onLoadModel,
+  onKeepModel,
 }: ChatPageProps) {
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showArtifacts, setShowArtifacts] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [scrollTarget, setScrollTarget] = useState<ScrollTarget | null>(null);
+  const [similarTo, setSimilarTo] = useState<ChatMessageType | null>(null);
 
-  // Auto-scroll to bottom when new messages arrive
-  useEffect(() => {
-    // scrollIntoView may not be available in test environments
-    if (messagesEndRef.current?.scrollIntoView) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [messages]);
+  const activeConversation = conversations.find((c) => c.id === activeConversationId) ?? null;
+  // A deleted persona's conversations are shown as the default assistant
+  const persona = personas.find((p) => p.id === activeConversation?.personaId) ?? DEFAULT_PERSONA;
+  // A reply still being written would reload its preview with every token
+  const artifacts = useMemo(
+    () => collectArtifacts(isGenerating ? messages.slice(0, -1) : messages),
+    [messages, isGenerating]
+  );
+  // Offer the conversation's own model when another one is loaded
+  const conversationModelId =
+    activeConversation &&
+    loadedModelId &&
+    activeConversation.modelId !== loadedModelId &&
+    getModelById(activeConversation.modelId)
+      ? activeConversation.modelId
+      : null;
 
   const handleSendMessage = useCallback(
     async (content: string) => {
@@ -49,39 +185,253 @@ export function ChatPage({
     [onSendMessage]
   );
 
+  // A conversation opened by hand starts at its latest message, not at an earlier search result
+  const handleNewConversation = useCallback(
+    (persona?: Persona) => {
+      setScrollTarget(null);
+      onNewConversation(persona);
+    },
+    [onNewConversation]
+  );
+
+  const handleSwitchConversation = useCallback(
+    (conversationId: string) => {
+      setScrollTarget(null);
+      onSwitchConversation(conversationId);
+    },
+    [onSwitchConversation]
+  );
+
+  const handleOpenSearchResult = useCallback(
+    async ({ conversationId, message }: SearchResult) => {
+      try {
+        if (await onShowMessage(conversationId, message.id)) {
+          setScrollTarget({ messageId: message.id });
+        }
+      } catch (err) {
+        console.error('Failed to open search result:', err);
+      }
+    },
+    [onShowMessage]
+  );
+
+  const handleCloseSearch = useCallback(() => {
+    setShowSearch(false);
+    setSimilarTo(null);
+  }, []);
+
+  const handleStopGeneration = useCallback(() => {
+    // Otherwise the next queued prompt starts as soon as this reply stops
+    if (
+      queue.length > 0 &&
+      confirm(
+        queue.length === 1
+          ? 'Also remove the queued message?'
+          : `Also remove the ${queue.length} queued messages?`
+      )
+    ) {
+      onClearQueue();
+    }
+    onStopGeneration();
+  }, [queue.length, onClearQueue, onStopGeneration]);
+
+  // Message actions keep their identity while a reply streams, so only the streaming
+  // message re-renders
+  const handleEditMessage = useStableCallback(async (messageId: string, content: string) => {
+    try {
+      await onEditMessage(messageId, content);
+    } catch (err) {
+      console.error('Failed to send edited message:', err);
+    }
+  });
+
+  const handleRegenerateMessage = useStableCallback(async (messageId: string) => {
+    try {
+      await onRegenerateMessage(messageId);
+    } catch (err) {
+      console.error('Failed to regenerate message:', err);
+    }
+  });
+
+  const handleContinueMessage = useStableCallback(async (messageId: string) => {
+    try {
+      await onContinueMessage(messageId);
+    } catch (err) {
+      console.error('Failed to continue message:', err);
+    }
+  });
+
+  const handleShowSibling = useStableCallback(onShowSibling);
+
+  const handleFindSimilar = useStableCallback((message: ChatMessageType) => {
+    setSimilarTo(message);
+    setShowSearch(true);
+  });
+
+  const handleRunCode = useStableCallback(async (code: string) => {
+    try {
+      const result = await runJavaScript(code);
+      onAddCodeResult(formatCodeRunResult(result));
+    } catch (err) {
+      console.error('Failed to run code:', err);
+    }
+  });
+
   return (
     <div className="chat-page">
-      <div className="chat-container">
-        <div className="messages-list" data-testid="messages-list">
-          {messages.length === 0 ? (
-            <div className="empty-state">
-              <p>
-                {isDemo
-                  ? '⚡ Demo mode active! Try chatting to see how TerziAI works.'
-                  : '✨ Model loaded! Start chatting with TerziAI.'}
-              </p>
+      <ConversationSidebar
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        personas={personas}
+        onNewConversation={handleNewConversation}
+        onSwitchConversation={handleSwitchConversation}
+        onRenameConversation={onRenameConversation}
+        onDeleteConversation={onDeleteConversation}
+        disabled={isGenerating}
+      />
+      <div className="chat-main">
+        {showSettings && activeConversation && (
+          <ConversationSettingsPanel
+            conversation={activeConversation}
+            globalConfig={globalConfig}
+            onSave={onConversationSettingsChange}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+        <div className="chat-container">
+          <MessageList
+            // Each conversation opens at its latest message
+            key={activeConversationId ?? 'new'}
+            messages={messages}
+            scrollTarget={scrollTarget}
+            renderMessage={(message, index) =>
+              message.kind === 'summary' ? (
+                <SummaryMessage message={message} onEdit={onEditSummary} disabled={isGenerating} />
+              ) : (
+                <ChatMessage
+                  message={message}
+                  persona={persona}
+                  branch={branchPositions[message.id]}
+                  onShowSibling={handleShowSibling}
+                  onEdit={handleEditMessage}
+                  onRegenerate={handleRegenerateMessage}
+                  // Only the latest reply can be continued without rewriting what follows it
+                  onContinue={index === messages.length - 1 ? handleContinueMessage : undefined}
+                  onFindSimilar={onFindSimilar ? handleFindSimilar : undefined}
+                  onRunCode={handleRunCode}
+                  disabled={isGenerating}
+                  streaming={isGenerating && index === messages.length - 1}
+                />
+              )
+            }
+          >
+            {messages.length === 0 && (
+              <div className="empty-state">
+                <p>
+                  {isDemo
+                    ? '⚡ Demo mode active! Try chatting to see how TerziAI works.'
+                    : `✨ Model loaded! Start chatting with ${persona.name}.`}
+                </p>
+              </div>
+            )}
+            <PromptQueue
+              queue={queue}
+              onCancel={onCancelQueuedPrompt}
+              onMove={onMoveQueuedPrompt}
+            />
+          </MessageList>
+        </div>
+
+        <div className="chat-footer">
+          {conversationModelId && loadedModelId && activeConversation && (
+            <div className="model-mismatch" data-testid="model-mismatch">
+              <span>
+                This chat was using {modelName(conversationModelId)}. {modelName(loadedModelId)} is
+                loaded.
+              </span>
+              <div className="model-mismatch-actions">
+                <button
+                  onClick={() => onLoadModel(conversationModelId)}
+                  disabled={isGenerating}
+                  data-testid="load-conversation-model"
+                >
+                  Load {modelName(conversationModelId)}
+                </button>
+                <button
+                  onClick={() => onKeepModel(activeConversation.id)}
+                  data-testid="keep-loaded-model"
+                >
+                  Keep using {modelName(loadedModelId)}
+                </button>
+              </div>
             </div>
-          ) : (
-            messages.map((message) => <ChatMessage key={message.id} message={message} />)
           )}
-          <div ref={messagesEndRef} />
+          {contextNotice && (
+            <div className="context-notice" data-testid="context-notice">
+              ✂️ {describeContextNotice(contextNotice)}
+            </div>
+          )}
+          <ChatInput
+            onSend={handleSendMessage}
+            disabled={status === 'loading'}
+            isGenerating={isGenerating}
+            onStop={handleStopGeneration}
+            placeholder={
+              isDemo ? 'Try a message (demo mode)...' : `Ask ${persona.name} anything...`
+            }
+          />
+          <div className="chat-footer-actions">
+            <button
+              className="search-button"
+              onClick={() => (showSearch ? handleCloseSearch() : setShowSearch(true))}
+              aria-expanded={showSearch}
+              data-testid="search-button"
+            >
+              🔍 Search
+            </button>
+            {artifacts.length > 0 && (
+              <button
+                className="artifacts-button"
+                onClick={() => setShowArtifacts(!showArtifacts)}
+                aria-expanded={showArtifacts}
+                data-testid="artifacts-button"
+              >
+                🧩 Artifacts ({artifacts.length})
+              </button>
+            )}
+            {activeConversation && (
+              <button
+                className="chat-settings-button"
+                onClick={() => setShowSettings(!showSettings)}
+                aria-expanded={showSettings}
+                data-testid="chat-settings-button"
+              >
+                ⚙️ Chat Settings
+              </button>
+            )}
+            {messages.length > 0 && (
+              <button className="clear-button" onClick={onClearMessages} data-testid="clear-button">
+                Clear Chat
+              </button>
+            )}
+          </div>
         </div>
       </div>
-
-      <div className="chat-footer">
-        <ChatInput
-          onSend={handleSendMessage}
-          disabled={status === 'loading'}
-          isGenerating={isGenerating}
-          onStop={onStopGeneration}
-          placeholder={isDemo ? 'Try a message (demo mode)...' : 'Ask TerziAI anything...'}
+      {showSearch && (
+        <SearchPanel
+          conversations={conversations}
+          onOpen={handleOpenSearchResult}
+          onClose={handleCloseSearch}
+          disabled={isGenerating}
+          onSearchByMeaning={onSearchByMeaning}
+          similarTo={similarTo}
+          onFindSimilar={onFindSimilar}
+          onClearSimilar={() => setSimilarTo(null)}
         />
-        {messages.length > 0 && (
-          <button className="clear-button" onClick={onClearMessages} data-testid="clear-button">
-            Clear Chat
-          </button>
-        )}
-      </div>
+      )}
+      {showArtifacts && artifacts.length > 0 && (
+        <ArtifactsPanel artifacts={artifacts} onClose={() => setShowArtifacts(false)} />
+      )}
     </div>
   );
 }
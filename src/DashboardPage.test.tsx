@@ -287,4 +287,55 @@ describe('DashboardPage', () => {
 
     confirmSpy.mockRestore();
   });
+
+  test('toggles keeping the model loaded across reloads', async () => {
+    const user = userEvent.setup();
+    const onKeepModelLoadedChange = vi.fn();
+    render(<DashboardPage onKeepModelLoadedChange={onKeepModelLoadedChange} />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('keep-model-loaded-toggle')).not.toBeChecked();
+    });
+
+    await user.click(screen.getByTestId('keep-model-loaded-toggle'));
+    expect(onKeepModelLoadedChange).toHaveBeenCalledWith(true);
+  });
+
+  test('warns when no service worker can host the model', async () => {
+    render(<DashboardPage keepModelLoaded={true} onKeepModelLoadedChange={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('keep-model-loaded-toggle')).toBeChecked();
+    });
+    expect(screen.getByTestId('service-worker-unavailable')).toBeInTheDocument();
+  });
+
+  test('shows how far messages have been embedded for searching by meaning', async () => {
+    const stats = { messageCount: 4, embeddedCount: 1, sizeBytes: 1536 };
+    const { rerender } = render(<DashboardPage semanticIndex={stats} indexingMessages={true} />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('semantic-index-count')).toHaveTextContent('1 of 4 messages');
+    });
+    expect(screen.getByTestId('semantic-index-size')).toHaveTextContent('1536 bytes');
+    expect(screen.getByTestId('semantic-index-progress')).toHaveStyle({ width: '25%' });
+    expect(screen.getByTestId('semantic-index-status')).toHaveTextContent(
+      'Embedding messages in the background'
+    );
+
+    rerender(<DashboardPage semanticIndex={stats} />);
+    expect(screen.getByTestId('semantic-index-status')).toHaveTextContent('Paused');
+
+    rerender(<DashboardPage semanticIndex={{ ...stats, embeddedCount: 4 }} />);
+    expect(screen.getByTestId('semantic-index-status')).toHaveTextContent('Up to date');
+  });
+
+  test('hides semantic search until its stats have loaded', async () => {
+    render(<DashboardPage />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('keep-model-loaded-toggle')).toBeInTheDocument();
+    });
+    expect(screen.queryByTestId('semantic-index-count')).not.toBeInTheDocument();
+  });
 });
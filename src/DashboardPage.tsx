@@ -3,6 +3,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import type { SemanticIndexStats } from './types/search';
 import type { StorageInfo, MemoryInfo, CacheInfo } from './utils/dashboard';
 import {
   getStorageInfo,
@@ -13,17 +14,45 @@ import {
   formatPercentage,
 } from './utils/dashboard';
 import { clearMessages } from './utils/storage';
+import { isServiceWorkerEngineAvailable } from './utils/engine';
 import './DashboardPage.css';
 
 export interface DashboardPageProps {
   onClearCache?: () => void;
   onClearHistory?: () => void;
+  /** Whether the model is kept loaded in the service worker across reloads */
+  keepModelLoaded?: boolean;
+  onKeepModelLoadedChange?: (enabled: boolean) => void;
+  /** How far stored messages have been embedded for searching by meaning */
+  semanticIndex?: SemanticIndexStats | null;
+  /** Whether messages are being embedded right now */
+  indexingMessages?: boolean;
+}
+
+/**
+ * Describe where background embedding of messages stands
+ */
+function describeIndexing({ messageCount, embeddedCount }: SemanticIndexStats, indexing: boolean) {
+  if (indexing) {
+    return 'Embedding messages in the background…';
+  }
+  if (embeddedCount >= messageCount) {
+    return 'Up to date';
+  }
+  return 'Paused - continues while a model is loaded and not generating';
 }
 
 /**
  * Dashboard page for monitoring app usage and managing data
  */
-export function DashboardPage({ onClearCache, onClearHistory }: DashboardPageProps) {
+export function DashboardPage({
+  onClearCache,
+  onClearHistory,
+  keepModelLoaded = false,
+  onKeepModelLoadedChange,
+  semanticIndex = null,
+  indexingMessages = false,
+}: DashboardPageProps) {
   const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
   const [memoryInfo, setMemoryInfo] = useState<MemoryInfo | null>(null);
   const [cacheInfo, setCacheInfo] = useState<CacheInfo | null>(null);
@@ -260,6 +289,66 @@ export function DashboardPage({ onClearCache, onClearHistory }: DashboardPagePro
           )}
         </section>
 
+        {/* Engine Section */}
+        <section className="dashboard-section">
+          <h3>⚡ Engine</h3>
+          <label className="toggle-item">
+            <input
+              type="checkbox"
+              checked={keepModelLoaded}
+              onChange={(e) => onKeepModelLoadedChange?.(e.target.checked)}
+              disabled={!onKeepModelLoadedChange}
+              data-testid="keep-model-loaded-toggle"
+            />
+            <span>Keep model loaded across reloads</span>
+          </label>
+          <p className="action-description">
+            Runs the model in the app's service worker, so reloading the page reattaches to it
+            instead of loading it again. Takes effect the next time a model is loaded.
+          </p>
+          {keepModelLoaded && !isServiceWorkerEngineAvailable() && (
+            <p className="info-unavailable" data-testid="service-worker-unavailable">
+              Service worker not active - the model will load in the page instead
+            </p>
+          )}
+        </section>
+
+        {/* Semantic Search Section */}
+        {semanticIndex && (
+          <section className="dashboard-section">
+            <h3>🧭 Semantic Search</h3>
+            <div className="info-grid">
+              <div className="info-item">
+                <span className="info-label">Embedded:</span>
+                <span className="info-value" data-testid="semantic-index-count">
+                  {semanticIndex.embeddedCount} of {semanticIndex.messageCount} messages
+                </span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Index size:</span>
+                <span className="info-value" data-testid="semantic-index-size">
+                  {formatBytes(semanticIndex.sizeBytes)}
+                </span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Status:</span>
+                <span className="info-value" data-testid="semantic-index-status">
+                  {describeIndexing(semanticIndex, indexingMessages)}
+                </span>
+              </div>
+              <div className="progress-bar">
+                <div
+                  className="progress-fill"
+                  style={{
+                    width: `${semanticIndex.messageCount > 0 ? (semanticIndex.embeddedCount / semanticIndex.messageCount) * 100 : 100}%`,
+                  }}
+                  data-testid="semantic-index-progress"
+                />
+              </div>
+            </div>
+          </section>
+        )}
+
         {/* Actions Section */}
         <section className="dashboard-section dashboard-actions">
           <h3>🛠️ Data Management</h3>
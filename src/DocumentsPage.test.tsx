@@ -0,0 +1,108 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DocumentsPage } from './DocumentsPage';
+import type { LibraryDocument } from './types/documents';
+
+describe('DocumentsPage', () => {
+  const documents: LibraryDocument[] = [
+    {
+      id: 'doc-1',
+      name: 'handbook.md',
+      type: 'text/markdown',
+      size: 2048,
+      importedAt: new Date('2024-01-15T10:30:00'),
+      chunkCount: 3,
+    },
+  ];
+
+  test('shows an empty library', () => {
+    render(
+      <DocumentsPage documents={[]} importProgress={null} onImport={vi.fn()} onRemove={vi.fn()} />
+    );
+    expect(screen.getByTestId('documents-empty')).toBeInTheDocument();
+  });
+
+  test('lists documents with their size and passages', () => {
+    render(
+      <DocumentsPage
+        documents={documents}
+        importProgress={null}
+        onImport={vi.fn()}
+        onRemove={vi.fn()}
+      />
+    );
+    const item = screen.getByTestId('document-doc-1');
+    expect(item).toHaveTextContent('handbook.md');
+    expect(item).toHaveTextContent('2.00 KB');
+    expect(item).toHaveTextContent('3 passages');
+    expect(screen.queryByTestId('documents-empty')).not.toBeInTheDocument();
+  });
+
+  test('imports the chosen files', async () => {
+    const user = userEvent.setup();
+    const onImport = vi.fn();
+    render(
+      <DocumentsPage documents={[]} importProgress={null} onImport={onImport} onRemove={vi.fn()} />
+    );
+
+    const files = [new File(['Notes'], 'notes.txt'), new File(['# Plan'], 'plan.md')];
+    await user.upload(screen.getByTestId('document-file-input'), files);
+
+    expect(onImport).toHaveBeenCalledWith(files);
+    expect(screen.getByTestId('document-file-input')).toHaveAttribute('accept', '.txt,.md,.pdf');
+  });
+
+  test('shows import progress and disables importing more', () => {
+    render(
+      <DocumentsPage
+        documents={[]}
+        importProgress={{ fileName: 'plan.md', text: 'Embedding passages (16/40)…', progress: 40 }}
+        onImport={vi.fn()}
+        onRemove={vi.fn()}
+      />
+    );
+    expect(screen.getByTestId('import-progress')).toHaveTextContent(
+      'plan.md: Embedding passages (16/40)…'
+    );
+    expect(screen.getByTestId('import-documents-button')).toBeDisabled();
+  });
+
+  test('shows import errors', () => {
+    render(
+      <DocumentsPage
+        documents={[]}
+        importProgress={null}
+        error="Could not import photo.png: unsupported file type"
+        onImport={vi.fn()}
+        onRemove={vi.fn()}
+      />
+    );
+    expect(screen.getByTestId('documents-error')).toHaveTextContent('photo.png');
+  });
+
+  test('removes a document after confirmation', async () => {
+    const user = userEvent.setup();
+    const onRemove = vi.fn();
+    const confirmSpy = vi
+      .spyOn(window, 'confirm')
+      .mockReturnValueOnce(false)
+      .mockReturnValueOnce(true);
+    render(
+      <DocumentsPage
+        documents={documents}
+        importProgress={null}
+        onImport={vi.fn()}
+        onRemove={onRemove}
+      />
+    );
+
+    await user.click(screen.getByTestId('remove-document-doc-1'));
+    expect(onRemove).not.toHaveBeenCalled();
+
+    await user.click(screen.getByTestId('remove-document-doc-1'));
+    expect(confirmSpy).toHaveBeenCalledWith('Remove "handbook.md" from the library?');
+    expect(onRemove).toHaveBeenCalledWith('doc-1');
+    confirmSpy.mockRestore();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Documents Page - Library of files the model can answer from
+ */
+
+import { useCallback, useRef } from 'react';
+import type { LibraryDocument } from './types/documents';
+import type { ImportProgress } from './hooks/useDocumentLibrary';
+import { SUPPORTED_DOCUMENT_EXTENSIONS } from './utils/documents';
+import { formatBytes } from './utils/dashboard';
+import './DocumentsPage.css';
+
+export interface DocumentsPageProps {
+  documents: LibraryDocument[];
+  /** What the current import is working on, or null when idle */
+  importProgress: ImportProgress | null;
+  /** Why the last import failed, if it did */
+  error?: string | null;
+  onImport: (files: File[]) => void;
+  onRemove: (documentId: string) => void;
+}
+
+/**
+ * Document library page for importing and removing files
+ */
+export function DocumentsPage({
+  documents,
+  importProgress,
+  error = null,
+  onImport,
+  onRemove,
+}: DocumentsPageProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFilesChosen = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files ?? []);
+      // Allow choosing the same file again
+      e.target.value = '';
+      if (files.length > 0) {
+        onImport(files);
+      }
+    },
+    [onImport]
+  );
+
+  const handleRemove = useCallback(
+    (document: LibraryDocument) => {
+      if (confirm(`Remove "${document.name}" from the library?`)) {
+        onRemove(document.id);
+      }
+    },
+    [onRemove]
+  );
+
+  return (
+    <div className="documents-page">
+      <div className="documents-header">
+        <h2>📚 Documents</h2>
+        <button
+          className="import-button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importProgress !== null}
+          data-testid="import-documents-button"
+        >
+          ＋ Import files
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+          multiple
+          hidden
+          onChange={handleFilesChosen}
+          data-testid="document-file-input"
+        />
+      </div>
+      <p className="documents-description">
+        Import text, Markdown or PDF files to ask questions about them. Files are split into
+        passages and indexed by a small embedding model in your browser; the passages closest to
+        each message are sent to the model with it. Nothing leaves your device.
+      </p>
+
+      {importProgress && (
+        <div className="import-progress" data-testid="import-progress">
+          <div className="import-progress-text">
+            {importProgress.fileName}: {importProgress.text}
+          </div>
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${importProgress.progress}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="documents-error" role="alert" data-testid="documents-error">
+          {error}
+        </div>
+      )}
+
+      {documents.length === 0 ? (
+        <p className="documents-empty" data-testid="documents-empty">
+          No documents yet.
+        </p>
+      ) : (
+        <ul className="document-list">
+          {documents.map((document) => (
+            <li key={document.id} className="document-item" data-testid={`document-${document.id}`}>
+              <div className="document-info">
+                <span className="document-name">{document.name}</span>
+                <span className="document-meta">
+                  {formatBytes(document.size)} · {document.chunkCount}{' '}
+                  {document.chunkCount === 1 ? 'passage' : 'passages'} · imported{' '}
+                  {document.importedAt.toLocaleDateString()}
+                </span>
+              </div>
+              <button
+                className="document-remove"
+                onClick={() => handleRemove(document)}
+                aria-label={`Remove ${document.name}`}
+                data-testid={`remove-document-${document.id}`}
+              >
+                🗑️
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default DocumentsPage;
@@ -0,0 +1,195 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryPage } from './MemoryPage';
+import type { MemoryPageProps } from './MemoryPage';
+import type { Memory } from './types/memory';
+
+describe('MemoryPage', () => {
+  const memories: Memory[] = [
+    {
+      id: 'proposed-1',
+      content: 'Lives in Lisbn',
+      status: 'proposed',
+      createdAt: new Date('2024-02-01'),
+      updatedAt: new Date('2024-02-01'),
+    },
+    {
+      id: 'approved-1',
+      content: 'Prefers TypeScript examples',
+      status: 'approved',
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+    },
+  ];
+
+  let props: MemoryPageProps;
+
+  beforeEach(() => {
+    props = {
+      enabled: true,
+      memories,
+      onEnabledChange: vi.fn(),
+      onAdd: vi.fn().mockResolvedValue(undefined),
+      onUpdate: vi.fn().mockResolvedValue(undefined),
+      onDelete: vi.fn().mockResolvedValue(undefined),
+      onClear: vi.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('lists proposals apart from remembered facts', () => {
+    render(<MemoryPage {...props} />);
+
+    expect(screen.getByTestId('proposed-memories')).toHaveTextContent('Lives in Lisbn');
+    expect(screen.getByTestId('approved-memories')).toHaveTextContent(
+      'Prefers TypeScript examples'
+    );
+    expect(screen.queryByTestId('approve-memory-approved-1')).not.toBeInTheDocument();
+  });
+
+  test('shows when nothing is remembered', () => {
+    render(<MemoryPage {...props} memories={[]} />);
+
+    expect(screen.getByTestId('memory-empty')).toBeInTheDocument();
+    expect(screen.queryByTestId('proposed-memories')).not.toBeInTheDocument();
+    expect(screen.getByTestId('export-memories-button')).toBeDisabled();
+    expect(screen.getByTestId('clear-memories-button')).toBeDisabled();
+  });
+
+  test('turns memory off and says what that means', async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(<MemoryPage {...props} />);
+    expect(screen.getByTestId('memory-enabled-toggle')).toBeChecked();
+    expect(screen.queryByTestId('memory-off')).not.toBeInTheDocument();
+
+    await user.click(screen.getByTestId('memory-enabled-toggle'));
+    expect(props.onEnabledChange).toHaveBeenCalledWith(false);
+
+    rerender(<MemoryPage {...props} enabled={false} />);
+    expect(screen.getByTestId('memory-off')).toBeInTheDocument();
+  });
+
+  test('approves a proposal as it is', async () => {
+    const user = userEvent.setup();
+    render(<MemoryPage {...props} />);
+
+    await user.click(screen.getByTestId('approve-memory-proposed-1'));
+
+    expect(props.onUpdate).toHaveBeenCalledWith('proposed-1', undefined);
+  });
+
+  test('corrects a proposal before keeping it', async () => {
+    const user = userEvent.setup();
+    render(<MemoryPage {...props} />);
+
+    await user.click(screen.getByTestId('edit-memory-proposed-1'));
+    const input = screen.getByTestId('memory-input-proposed-1');
+    await user.clear(input);
+    await user.type(input, 'Lives in Lisbon{Enter}');
+
+    expect(props.onUpdate).toHaveBeenCalledWith('proposed-1', 'Lives in Lisbon');
+    expect(screen.queryByTestId('memory-input-proposed-1')).not.toBeInTheDocument();
+  });
+
+  test('discards an edit with Escape', async () => {
+    const user = userEvent.setup();
+    render(<MemoryPage {...props} />);
+
+    await user.click(screen.getByTestId('edit-memory-approved-1'));
+    await user.type(screen.getByTestId('memory-input-approved-1'), ' too{Escape}');
+
+    expect(props.onUpdate).not.toHaveBeenCalled();
+    expect(screen.getByTestId('memory-approved-1')).toHaveTextContent(
+      'Prefers TypeScript examples'
+    );
+  });
+
+  test('adds and forgets facts', async () => {
+    const user = userEvent.setup();
+    render(<MemoryPage {...props} />);
+
+    await user.type(screen.getByTestId('new-memory-input'), 'Has two cats');
+    await user.click(screen.getByTestId('add-memory-button'));
+    expect(props.onAdd).toHaveBeenCalledWith('Has two cats');
+    expect(screen.getByTestId('new-memory-input')).toHaveValue('');
+
+    await user.click(screen.getByTestId('delete-memory-approved-1'));
+    expect(props.onDelete).toHaveBeenCalledWith('approved-1');
+  });
+
+  test('exports the memories as a JSON download', async () => {
+    const user = userEvent.setup();
+    const createObjectURL = vi.fn().mockReturnValue('blob:memories');
+    const revokeObjectURL = vi.fn();
+    // jsdom has no object URLs
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    render(<MemoryPage {...props} />);
+
+    await user.click(screen.getByTestId('export-memories-button'));
+
+    const blob: Blob = createObjectURL.mock.calls[0][0];
+    expect(blob.type).toBe('application/json');
+    expect(click).toHaveBeenCalled();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:memories');
+  });
+
+  test('wipes every memory after confirming', async () => {
+    const user = userEvent.setup();
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValueOnce(false);
+    render(<MemoryPage {...props} />);
+
+    await user.click(screen.getByTestId('clear-memories-button'));
+    expect(props.onClear).not.toHaveBeenCalled();
+
+    confirmSpy.mockReturnValueOnce(true);
+    await user.click(screen.getByTestId('clear-memories-button'));
+    expect(props.onClear).toHaveBeenCalled();
+  });
+
+  test('says when wiping fails', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<MemoryPage {...props} onClear={vi.fn().mockRejectedValue(new Error('Blocked'))} />);
+
+    await user.click(screen.getByTestId('clear-memories-button'));
+
+    expect(await screen.findByTestId('memory-error')).toBeInTheDocument();
+  });
+
+  test('says when a change cannot be saved', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(
+      <MemoryPage
+        {...props}
+        onAdd={vi.fn().mockRejectedValue(new Error('Blocked'))}
+        onUpdate={vi.fn().mockRejectedValue(new Error('Blocked'))}
+      />
+    );
+
+    await user.type(screen.getByTestId('new-memory-input'), 'Has two cats');
+    await user.click(screen.getByTestId('add-memory-button'));
+    expect(await screen.findByTestId('memory-error')).toHaveTextContent('Could not save');
+    // Kept, to try again
+    expect(screen.getByTestId('new-memory-input')).toHaveValue('Has two cats');
+
+    await user.click(screen.getByTestId('approve-memory-proposed-1'));
+    expect(await screen.findByTestId('memory-error')).toHaveTextContent('Could not save');
+  });
+
+  test('says when forgetting a memory fails', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<MemoryPage {...props} onDelete={vi.fn().mockRejectedValue(new Error('Blocked'))} />);
+
+    await user.click(screen.getByTestId('delete-memory-approved-1'));
+
+    expect(await screen.findByTestId('memory-error')).toHaveTextContent('Could not delete');
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Memory Page - Facts about the user the model remembers across conversations
+ */
+
+import { useCallback, useState } from 'react';
+import type { Memory } from './types/memory';
+import { formatMemoryExport } from './utils/memory';
+import './MemoryPage.css';
+
+export interface MemoryPageProps {
+  /** Whether memory is on: remembered facts are sent with prompts and new ones proposed */
+  enabled: boolean;
+  memories: Memory[];
+  onEnabledChange: (enabled: boolean) => void;
+  /** Remember a fact written by the user */
+  onAdd: (content: string) => Promise<void>;
+  /** Change a memory's text; a proposed memory is approved with it */
+  onUpdate: (memoryId: string, content?: string) => Promise<void>;
+  /** Forget a memory, or turn down a proposed one */
+  onDelete: (memoryId: string) => Promise<void>;
+  /** Forget every memory */
+  onClear: () => Promise<void>;
+}
+
+/**
+ * A memory, with its text editable in place
+ */
+function MemoryItem({
+  memory,
+  onUpdate,
+  onDelete,
+}: {
+  memory: Memory;
+  onUpdate: MemoryPageProps['onUpdate'];
+  onDelete: MemoryPageProps['onDelete'];
+}) {
+  const proposed = memory.status === 'proposed';
+  // Proposals can be corrected before they are approved
+  const [draft, setDraft] = useState<string | null>(null);
+  const editing = draft !== null;
+
+  const save = useCallback(() => {
+    if (draft?.trim()) {
+      onUpdate(memory.id, draft);
+    }
+    setDraft(null);
+  }, [draft, memory.id, onUpdate]);
+
+  return (
+    <li className={`memory-item ${proposed ? 'proposed' : ''}`} data-testid={`memory-${memory.id}`}>
+      {editing ? (
+        <input
+          className="memory-edit-input"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              save();
+            } else if (e.key === 'Escape') {
+              setDraft(null);
+            }
+          }}
+          aria-label="Memory"
+          autoFocus
+          data-testid={`memory-input-${memory.id}`}
+        />
+      ) : (
+        <span className="memory-content">{memory.content}</span>
+      )}
+      <div className="memory-actions">
+        {editing ? (
+          <button onClick={save} data-testid={`save-memory-${memory.id}`}>
+            Save
+          </button>
+        ) : (
+          <>
+            {proposed && (
+              <button
+                className="memory-approve"
+                onClick={() => onUpdate(memory.id)}
+                data-testid={`approve-memory-${memory.id}`}
+              >
+                ✓ Remember
+              </button>
+            )}
+            <button
+              onClick={() => setDraft(memory.content)}
+              aria-label="Edit memory"
+              title="Edit"
+              data-testid={`edit-memory-${memory.id}`}
+            >
+              ✏️
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => onDelete(memory.id)}
+          aria-label={proposed ? 'Discard memory' : 'Forget memory'}
+          title={proposed ? 'Discard' : 'Forget'}
+          data-testid={`delete-memory-${memory.id}`}
+        >
+          🗑️
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Memory page for reviewing, editing, exporting and wiping remembered facts
+ */
+export function MemoryPage({
+  enabled,
+  memories,
+  onEnabledChange,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onClear,
+}: MemoryPageProps) {
+  const [newMemory, setNewMemory] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const proposed = memories.filter((m) => m.status === 'proposed');
+  const approved = memories.filter((m) => m.status === 'approved');
+
+  const handleAdd = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!newMemory.trim()) {
+        return;
+      }
+      setError(null);
+      try {
+        await onAdd(newMemory);
+        setNewMemory('');
+      } catch (err) {
+        console.error('Failed to add memory:', err);
+        setError('Could not save the memory. Please try again.');
+      }
+    },
+    [newMemory, onAdd]
+  );
+
+  const handleUpdate = useCallback(
+    async (memoryId: string, content?: string) => {
+      setError(null);
+      try {
+        await onUpdate(memoryId, content);
+      } catch (err) {
+        console.error('Failed to update memory:', err);
+        setError('Could not save the memory. Please try again.');
+      }
+    },
+    [onUpdate]
+  );
+
+  const handleDelete = useCallback(
+    async (memoryId: string) => {
+      setError(null);
+      try {
+        await onDelete(memoryId);
+      } catch (err) {
+        console.error('Failed to delete memory:', err);
+        setError('Could not delete the memory. Please try again.');
+      }
+    },
+    [onDelete]
+  );
+
+  const handleExport = useCallback(() => {
+    const blob = new Blob([formatMemoryExport(memories)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'terziai-memories.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [memories]);
+
+  const handleClear = useCallback(async () => {
+    if (!confirm('Forget everything the assistant remembers about you? This cannot be undone.')) {
+      return;
+    }
+    setError(null);
+    try {
+      await onClear();
+    } catch (err) {
+      console.error('Failed to clear memories:', err);
+      setError('Could not delete the memories. Please try again.');
+    }
+  }, [onClear]);
+
+  return (
+    <div className="memory-page">
+      <h2>🧠 Memory</h2>
+      <p className="memory-description">
+        With memory on, the assistant can suggest short facts about you as you chat, like the
+        languages you work in. Facts you approve are sent with your messages in later chats. They
+        are stored only in this browser.
+      </p>
+
+      <label className="memory-toggle">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          data-testid="memory-enabled-toggle"
+        />
+        <span>Remember facts about me across chats</span>
+      </label>
+      {!enabled && (
+        <p className="memory-off" data-testid="memory-off">
+          Memory is off. Nothing below is sent to the model and no new facts are suggested.
+        </p>
+      )}
+
+      {error && (
+        <div className="memory-error" role="alert" data-testid="memory-error">
+          {error}
+        </div>
+      )}
+
+      {proposed.length > 0 && (
+        <section className="memory-section">
+          <h3>Suggested by the assistant ({proposed.length})</h3>
+          <ul className="memory-list" data-testid="proposed-memories">
+            {proposed.map((memory) => (
+              <MemoryItem
+                key={memory.id}
+                memory={memory}
+                onUpdate={handleUpdate}
+                onDelete={handleDelete}
+              />
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="memory-section">
+        <h3>Remembered</h3>
+        {approved.length === 0 ? (
+          <p className="memory-empty" data-testid="memory-empty">
+            Nothing remembered yet.
+          </p>
+        ) : (
+          <ul className="memory-list" data-testid="approved-memories">
+            {approved.map((memory) => (
+              <MemoryItem
+                key={memory.id}
+                memory={memory}
+                onUpdate={handleUpdate}
+                onDelete={handleDelete}
+              />
+            ))}
+          </ul>
+        )}
+        <form className="memory-add" onSubmit={handleAdd}>
+          <input
+            value={newMemory}
+            onChange={(e) => setNewMemory(e.target.value)}
+            placeholder="Add a fact, e.g. Prefers metric units"
+            aria-label="New memory"
+            data-testid="new-memory-input"
+          />
+          <button type="submit" disabled={!newMemory.trim()} data-testid="add-memory-button">
+            Add
+          </button>
+        </form>
+      </section>
+
+      <div className="memory-footer">
+        <button
+          onClick={handleExport}
+          disabled={memories.length === 0}
+          data-testid="export-memories-button"
+        >
+          ⬇️ Export
+        </button>
+        <button
+          className="danger"
+          onClick={handleClear}
+          disabled={memories.length === 0}
+          data-testid="clear-memories-button"
+        >
+          🗑️ Forget everything
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default MemoryPage;
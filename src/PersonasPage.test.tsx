@@ -0,0 +1,129 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PersonasPage } from './PersonasPage';
+import type { PersonasPageProps } from './PersonasPage';
+import type { Persona } from './types/persona';
+import { DEFAULT_CHAT_CONFIG } from './types/chat';
+import { getGenerationSettings } from './utils/settings';
+
+describe('PersonasPage', () => {
+  const tutor: Persona = {
+    id: 'tutor',
+    name: 'Tutor',
+    avatar: '🦉',
+    modelId: 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC',
+    settings: {
+      ...getGenerationSettings(DEFAULT_CHAT_CONFIG),
+      systemPrompt: 'Explain patiently, one step at a time.',
+      temperature: 0.3,
+    },
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  let props: PersonasPageProps;
+
+  beforeEach(() => {
+    props = {
+      personas: [tutor],
+      globalConfig: DEFAULT_CHAT_CONFIG,
+      onCreate: vi.fn(),
+      onUpdate: vi.fn(),
+      onDuplicate: vi.fn(),
+      onDelete: vi.fn(),
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('lists personas with their model and prompt', () => {
+    render(<PersonasPage {...props} />);
+
+    const item = screen.getByTestId('persona-tutor');
+    expect(item).toHaveTextContent('🦉');
+    expect(item).toHaveTextContent('Tutor');
+    expect(item).toHaveTextContent('Qwen 2.5 1.5B');
+    expect(item).toHaveTextContent('Explain patiently, one step at a time.');
+  });
+
+  test('shows when there are no personas', () => {
+    render(<PersonasPage {...props} personas={[]} />);
+
+    expect(screen.getByTestId('personas-empty')).toBeInTheDocument();
+  });
+
+  test('creates a persona from the global settings', async () => {
+    const user = userEvent.setup();
+    render(<PersonasPage {...props} />);
+
+    await user.click(screen.getByTestId('new-persona-button'));
+    await user.type(screen.getByTestId('persona-name-input'), 'Reviewer');
+    await user.clear(screen.getByTestId('persona-avatar-input'));
+    await user.type(screen.getByTestId('persona-avatar-input'), '🧐');
+    await user.clear(screen.getByTestId('system-prompt-input'));
+    await user.type(screen.getByTestId('system-prompt-input'), 'Review code strictly.');
+    await user.click(screen.getByTestId('save-settings-button'));
+
+    expect(props.onCreate).toHaveBeenCalledWith({
+      name: 'Reviewer',
+      avatar: '🧐',
+      modelId: null,
+      settings: {
+        ...getGenerationSettings(DEFAULT_CHAT_CONFIG),
+        systemPrompt: 'Review code strictly.',
+      },
+    });
+    expect(screen.queryByTestId('persona-editor')).not.toBeInTheDocument();
+  });
+
+  test('edits a persona starting from its own values', async () => {
+    const user = userEvent.setup();
+    render(<PersonasPage {...props} />);
+
+    await user.click(screen.getByTestId('edit-persona-tutor'));
+    expect(screen.getByTestId('persona-name-input')).toHaveValue('Tutor');
+    expect(screen.getByTestId('persona-model-select')).toHaveValue(tutor.modelId);
+    expect(screen.getByTestId('temperature-input')).toHaveValue(0.3);
+
+    await user.selectOptions(screen.getByTestId('persona-model-select'), '');
+    await user.click(screen.getByTestId('save-settings-button'));
+
+    expect(props.onUpdate).toHaveBeenCalledWith('tutor', {
+      name: 'Tutor',
+      avatar: '🦉',
+      modelId: null,
+      settings: tutor.settings,
+    });
+  });
+
+  test('closes the editor without saving', async () => {
+    const user = userEvent.setup();
+    render(<PersonasPage {...props} />);
+
+    await user.click(screen.getByTestId('edit-persona-tutor'));
+    await user.clear(screen.getByTestId('persona-name-input'));
+    await user.click(screen.getByTestId('cancel-persona-button'));
+
+    expect(screen.queryByTestId('persona-editor')).not.toBeInTheDocument();
+    expect(props.onUpdate).not.toHaveBeenCalled();
+  });
+
+  test('duplicates and deletes personas', async () => {
+    const user = userEvent.setup();
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValueOnce(false);
+    render(<PersonasPage {...props} />);
+
+    await user.click(screen.getByTestId('duplicate-persona-tutor'));
+    expect(props.onDuplicate).toHaveBeenCalledWith('tutor');
+
+    await user.click(screen.getByTestId('delete-persona-tutor'));
+    expect(props.onDelete).not.toHaveBeenCalled();
+
+    confirmSpy.mockReturnValueOnce(true);
+    await user.click(screen.getByTestId('delete-persona-tutor'));
+    expect(props.onDelete).toHaveBeenCalledWith('tutor');
+  });
+});
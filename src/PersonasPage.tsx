@@ -0,0 +1,241 @@
+/**
+ * Personas Page - Named system prompts and settings to start conversations with
+ */
+
+import { useCallback, useState } from 'react';
+import { ChatConfigForm } from './components';
+import type { ChatConfig } from './types/chat';
+import type { Persona } from './types/persona';
+import { DEFAULT_PERSONA } from './types/persona';
+import type { PersonaFields } from './hooks/usePersonas';
+import { AVAILABLE_MODELS, getModelById } from './utils/models';
+import { getGenerationSettings } from './utils/settings';
+import './PersonasPage.css';
+
+export interface PersonasPageProps {
+  personas: Persona[];
+  /** Global settings a new persona starts from */
+  globalConfig: ChatConfig;
+  onCreate: (fields: PersonaFields) => void;
+  onUpdate: (personaId: string, fields: PersonaFields) => void;
+  onDuplicate: (personaId: string) => void;
+  onDelete: (personaId: string) => void;
+}
+
+/**
+ * Name a persona is saved under when left blank
+ */
+const UNTITLED_PERSONA_NAME = 'Untitled persona';
+
+/**
+ * Form for a persona's name, avatar and model, followed by its prompt and sampling options
+ */
+function PersonaEditor({
+  persona,
+  globalConfig,
+  onSave,
+  onCancel,
+}: {
+  /** Persona being edited, or undefined for a new one */
+  persona?: Persona;
+  globalConfig: ChatConfig;
+  onSave: (fields: PersonaFields) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(persona?.name ?? '');
+  const [avatar, setAvatar] = useState(persona?.avatar ?? DEFAULT_PERSONA.avatar);
+  const [modelId, setModelId] = useState(persona?.modelId ?? '');
+
+  const handleSave = useCallback(
+    (changes: Partial<ChatConfig>) => {
+      onSave({
+        name: name.trim() || UNTITLED_PERSONA_NAME,
+        avatar: avatar.trim() || DEFAULT_PERSONA.avatar,
+        modelId: modelId || null,
+        settings: getGenerationSettings({ ...globalConfig, ...changes }),
+      });
+    },
+    [name, avatar, modelId, globalConfig, onSave]
+  );
+
+  return (
+    <div className="persona-editor" data-testid="persona-editor">
+      <div className="persona-editor-header">
+        <h3>{persona ? `Edit ${persona.name}` : 'New persona'}</h3>
+        <button
+          className="persona-editor-close"
+          onClick={onCancel}
+          aria-label="Close persona editor"
+          data-testid="cancel-persona-button"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="persona-identity">
+        <label className="settings-field persona-avatar-field">
+          <span className="settings-label">Avatar</span>
+          <input
+            value={avatar}
+            onChange={(e) => setAvatar(e.target.value)}
+            data-testid="persona-avatar-input"
+          />
+        </label>
+        <label className="settings-field persona-name-field">
+          <span className="settings-label">Name</span>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Code reviewer"
+            autoFocus
+            data-testid="persona-name-input"
+          />
+        </label>
+      </div>
+      <label className="settings-field">
+        <span className="settings-label">Preferred model</span>
+        <select
+          value={modelId}
+          onChange={(e) => setModelId(e.target.value)}
+          data-testid="persona-model-select"
+        >
+          <option value="">Whichever model is loaded</option>
+          {AVAILABLE_MODELS.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.name}
+            </option>
+          ))}
+        </select>
+        <span className="settings-hint">New chats with this persona offer to load it</span>
+      </label>
+      <ChatConfigForm
+        config={{ ...globalConfig, ...persona?.settings }}
+        resetConfig={globalConfig}
+        resetLabel="Use Global Settings"
+        showSummaryThreshold={false}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
+
+/**
+ * Persona library page for creating, editing, duplicating and deleting personas
+ */
+export function PersonasPage({
+  personas,
+  globalConfig,
+  onCreate,
+  onUpdate,
+  onDuplicate,
+  onDelete,
+}: PersonasPageProps) {
+  // Persona being edited, 'new' while creating one, or null when the editor is closed
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing = personas.find((p) => p.id === editingId);
+
+  const handleSave = useCallback(
+    (fields: PersonaFields) => {
+      if (editing) {
+        onUpdate(editing.id, fields);
+      } else {
+        onCreate(fields);
+      }
+      setEditingId(null);
+    },
+    [editing, onCreate, onUpdate]
+  );
+
+  const handleDelete = useCallback(
+    (persona: Persona) => {
+      if (confirm(`Delete the persona "${persona.name}"? Chats started with it are kept.`)) {
+        onDelete(persona.id);
+      }
+    },
+    [onDelete]
+  );
+
+  return (
+    <div className="personas-page">
+      <div className="personas-header">
+        <h2>🎭 Personas</h2>
+        <button
+          className="new-persona-button"
+          onClick={() => setEditingId('new')}
+          disabled={editingId !== null}
+          data-testid="new-persona-button"
+        >
+          ＋ New persona
+        </button>
+      </div>
+      <p className="personas-description">
+        A persona is a system prompt with its own name, avatar, model and sampling settings. Pick
+        one next to New chat to start a conversation with it.
+      </p>
+
+      {editingId !== null && (
+        <PersonaEditor
+          // A fresh form for each persona
+          key={editingId}
+          persona={editing}
+          globalConfig={globalConfig}
+          onSave={handleSave}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+
+      {personas.length === 0 ? (
+        <p className="personas-empty" data-testid="personas-empty">
+          No personas yet. Chats use the system prompt from Settings.
+        </p>
+      ) : (
+        <ul className="persona-list" data-testid="persona-list">
+          {personas.map((persona) => (
+            <li key={persona.id} className="persona-item" data-testid={`persona-${persona.id}`}>
+              <span className="persona-avatar">{persona.avatar}</span>
+              <div className="persona-info">
+                <span className="persona-name">{persona.name}</span>
+                <span className="persona-meta">
+                  {persona.modelId
+                    ? (getModelById(persona.modelId)?.name ?? persona.modelId)
+                    : 'Any model'}{' '}
+                  · temperature {persona.settings.temperature}
+                </span>
+                <span className="persona-prompt" title={persona.settings.systemPrompt}>
+                  {persona.settings.systemPrompt}
+                </span>
+              </div>
+              <div className="persona-actions">
+                <button
+                  onClick={() => setEditingId(persona.id)}
+                  aria-label={`Edit ${persona.name}`}
+                  title="Edit"
+                  data-testid={`edit-persona-${persona.id}`}
+                >
+                  ✏️
+                </button>
+                <button
+                  onClick={() => onDuplicate(persona.id)}
+                  aria-label={`Duplicate ${persona.name}`}
+                  title="Duplicate"
+                  data-testid={`duplicate-persona-${persona.id}`}
+                >
+                  📄
+                </button>
+                <button
+                  onClick={() => handleDelete(persona)}
+                  aria-label={`Delete ${persona.name}`}
+                  title="Delete"
+                  data-testid={`delete-persona-${persona.id}`}
+                >
+                  🗑️
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default PersonasPage;
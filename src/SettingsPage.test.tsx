@@ -0,0 +1,183 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SettingsPage } from './SettingsPage';
+import { DEFAULT_CHAT_CONFIG } from './types/chat';
+
+describe('SettingsPage', () => {
+  const config = {
+    ...DEFAULT_CHAT_CONFIG,
+    systemPrompt: 'Be brief.',
+    maxTokens: 256,
+    temperature: 1.2,
+    summaryThreshold: 0.5,
+  };
+
+  test('shows the current settings', () => {
+    render(<SettingsPage config={config} onSave={vi.fn()} />);
+
+    expect(screen.getByTestId('system-prompt-input')).toHaveValue('Be brief.');
+    expect(screen.getByTestId('max-tokens-input')).toHaveValue(256);
+    expect(screen.getByTestId('temperature-input')).toHaveValue(1.2);
+    expect(screen.getByTestId('summary-threshold-input')).toHaveValue(50);
+  });
+
+  test('saves valid changes', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    render(<SettingsPage config={config} onSave={onSave} />);
+
+    await user.clear(screen.getByTestId('system-prompt-input'));
+    await user.type(screen.getByTestId('system-prompt-input'), 'Answer in French.');
+    await user.clear(screen.getByTestId('max-tokens-input'));
+    await user.type(screen.getByTestId('max-tokens-input'), '1024');
+    await user.click(screen.getByTestId('save-settings-button'));
+
+    expect(onSave).toHaveBeenCalledWith(
+      expect.objectContaining({
+        systemPrompt: 'Answer in French.',
+        maxTokens: 1024,
+        temperature: 1.2,
+        summaryThreshold: 0.5,
+      })
+    );
+    expect(screen.getByTestId('settings-message')).toHaveTextContent('Settings saved');
+  });
+
+  test('does not save an out-of-range temperature', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    render(<SettingsPage config={config} onSave={onSave} />);
+
+    await user.clear(screen.getByTestId('temperature-input'));
+    await user.type(screen.getByTestId('temperature-input'), '3');
+    await user.click(screen.getByTestId('save-settings-button'));
+
+    expect(onSave).not.toHaveBeenCalled();
+    expect(screen.getByTestId('temperature-error')).toHaveTextContent(
+      'Temperature must be between 0 and 2'
+    );
+    expect(screen.getByTestId('temperature-input')).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  test('does not save empty number fields', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    render(<SettingsPage config={config} onSave={onSave} />);
+
+    await user.clear(screen.getByTestId('max-tokens-input'));
+    await user.click(screen.getByTestId('save-settings-button'));
+
+    expect(onSave).not.toHaveBeenCalled();
+    expect(screen.getByTestId('max-tokens-error')).toBeInTheDocument();
+  });
+
+  test('resets the form to the defaults', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    render(<SettingsPage config={config} onSave={onSave} />);
+
+    await user.click(screen.getByTestId('reset-settings-button'));
+
+    expect(screen.getByTestId('system-prompt-input')).toHaveValue(DEFAULT_CHAT_CONFIG.systemPrompt);
+    expect(screen.getByTestId('temperature-input')).toHaveValue(DEFAULT_CHAT_CONFIG.temperature);
+    expect(onSave).not.toHaveBeenCalled();
+
+    await user.click(screen.getByTestId('save-settings-button'));
+
+    const [saved] = onSave.mock.calls[0];
+    expect({ ...saved, modelId: DEFAULT_CHAT_CONFIG.modelId }).toEqual(DEFAULT_CHAT_CONFIG);
+    // The selected model is not a form setting
+    expect(saved).not.toHaveProperty('modelId');
+  });
+
+  describe('advanced sampling', () => {
+    test('saves sampling options', async () => {
+      const user = userEvent.setup();
+      const onSave = vi.fn();
+      render(<SettingsPage config={config} onSave={onSave} />);
+
+      await user.click(screen.getByText('Advanced sampling'));
+      await user.clear(screen.getByTestId('top-p-input'));
+      await user.type(screen.getByTestId('top-p-input'), '0.9');
+      await user.clear(screen.getByTestId('frequency-penalty-input'));
+      await user.type(screen.getByTestId('frequency-penalty-input'), '0.5');
+      await user.type(screen.getByTestId('seed-input'), '42');
+      await user.type(screen.getByTestId('stop-input'), '###{Enter}{Enter}END');
+      await user.type(screen.getByTestId('logit-bias-input'), '128: -100{Enter}7:2.5');
+      await user.click(screen.getByTestId('save-settings-button'));
+
+      expect(onSave).toHaveBeenCalledWith(
+        expect.objectContaining({
+          topP: 0.9,
+          frequencyPenalty: 0.5,
+          presencePenalty: 0,
+          seed: 42,
+          stop: ['###', 'END'],
+          logitBias: { '128': -100, '7': 2.5 },
+        })
+      );
+    });
+
+    test('shows the saved sampling options', () => {
+      render(
+        <SettingsPage
+          config={{ ...config, seed: 7, stop: ['###'], logitBias: { '128': -100 } }}
+          onSave={vi.fn()}
+        />
+      );
+
+      expect(screen.getByTestId('seed-input')).toHaveValue(7);
+      expect(screen.getByTestId('stop-input')).toHaveValue('###');
+      expect(screen.getByTestId('logit-bias-input')).toHaveValue('128: -100');
+    });
+
+    test('a blank seed means random sampling', async () => {
+      const user = userEvent.setup();
+      const onSave = vi.fn();
+      render(<SettingsPage config={{ ...config, seed: 7 }} onSave={onSave} />);
+
+      await user.click(screen.getByText('Advanced sampling'));
+      await user.clear(screen.getByTestId('seed-input'));
+      await user.click(screen.getByTestId('save-settings-button'));
+
+      expect(onSave).toHaveBeenCalledWith(expect.objectContaining({ seed: null }));
+    });
+
+    test('reveals out-of-range values instead of saving them', async () => {
+      const user = userEvent.setup();
+      const onSave = vi.fn();
+      render(<SettingsPage config={config} onSave={onSave} />);
+
+      await user.click(screen.getByText('Advanced sampling'));
+      await user.clear(screen.getByTestId('presence-penalty-input'));
+      await user.type(screen.getByTestId('presence-penalty-input'), '3');
+      await user.clear(screen.getByTestId('top-p-input'));
+      await user.type(screen.getByTestId('top-p-input'), '0');
+      await user.click(screen.getByText('Advanced sampling'));
+      await user.click(screen.getByTestId('save-settings-button'));
+
+      expect(onSave).not.toHaveBeenCalled();
+      expect(screen.getByTestId('advanced-settings')).toHaveAttribute('open');
+      expect(screen.getByTestId('presence-penalty-error')).toHaveTextContent(
+        'Presence penalty must be between -2 and 2'
+      );
+      expect(screen.getByTestId('top-p-error')).toBeInTheDocument();
+    });
+
+    test('rejects malformed logit bias lines', async () => {
+      const user = userEvent.setup();
+      const onSave = vi.fn();
+      render(<SettingsPage config={config} onSave={onSave} />);
+
+      await user.click(screen.getByText('Advanced sampling'));
+      await user.type(screen.getByTestId('logit-bias-input'), 'hello: 5');
+      await user.click(screen.getByTestId('save-settings-button'));
+
+      expect(onSave).not.toHaveBeenCalled();
+      expect(screen.getByTestId('logit-bias-error')).toHaveTextContent(
+        'Enter one "token id: bias" pair per line'
+      );
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Settings Page - Generation settings
+ */
+
+import { ChatConfigForm } from './components';
+import type { ChatConfig } from './types/chat';
+import { DEFAULT_CHAT_CONFIG } from './types/chat';
+import './SettingsPage.css';
+
+export interface SettingsPageProps {
+  /** Settings currently in use */
+  config: ChatConfig;
+  onSave: (changes: Partial<ChatConfig>) => void | Promise<void>;
+}
+
+/**
+ * Settings page for the system prompt and sampling options
+ */
+export function SettingsPage({ config, onSave }: SettingsPageProps) {
+  return (
+    <div className="settings-page">
+      <div className="settings-header">
+        <h2>⚙️ Settings</h2>
+      </div>
+
+      <ChatConfigForm
+        config={config}
+        resetConfig={DEFAULT_CHAT_CONFIG}
+        resetLabel="Reset to Defaults"
+        onSave={onSave}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ArtifactsPanel } from './ArtifactsPanel';
+import type { Artifact } from '../utils/artifacts';
+
+describe('ArtifactsPanel', () => {
+  const page: Artifact = {
+    id: 'html-1',
+    kind: 'html',
+    title: 'Clock',
+    versions: [
+      { messageId: 'a1', code: '<p>First</p>' },
+      { messageId: 'a2', code: '<p>Second</p>' },
+    ],
+  };
+  const image: Artifact = {
+    id: 'svg-1',
+    kind: 'svg',
+    title: 'SVG image 1',
+    versions: [{ messageId: 'a2', code: '<svg></svg>' }],
+  };
+
+  test('previews the latest version in a sandboxed frame', () => {
+    render(<ArtifactsPanel artifacts={[page]} onClose={vi.fn()} />);
+
+    const frame = screen.getByTestId('artifact-frame');
+    // A static page gets no scripts at all
+    expect(frame).toHaveAttribute('sandbox', '');
+    expect(frame.getAttribute('srcdoc')).toContain('<p>Second</p>');
+    expect(frame.getAttribute('srcdoc')).toContain('Content-Security-Policy');
+    expect(screen.getByTestId('artifact-version')).toHaveTextContent('v2/2');
+  });
+
+  test('lets scripted pages run scripts', () => {
+    const clock: Artifact = {
+      ...page,
+      versions: [{ messageId: 'a1', code: '<p id="t"></p><script>t.textContent = 1</script>' }],
+    };
+    render(<ArtifactsPanel artifacts={[clock]} onClose={vi.fn()} />);
+
+    expect(screen.getByTestId('artifact-frame')).toHaveAttribute('sandbox', 'allow-scripts');
+  });
+
+  test('moves between versions', async () => {
+    const user = userEvent.setup();
+    render(<ArtifactsPanel artifacts={[page]} onClose={vi.fn()} />);
+
+    await user.click(screen.getByTestId('previous-artifact-version'));
+
+    expect(screen.getByTestId('artifact-version')).toHaveTextContent('v1/2');
+    expect(screen.getByTestId('artifact-frame').getAttribute('srcdoc')).toContain('<p>First</p>');
+    expect(screen.getByTestId('previous-artifact-version')).toBeDisabled();
+  });
+
+  test('switches between artifacts and shows their code', async () => {
+    const user = userEvent.setup();
+    render(<ArtifactsPanel artifacts={[page, image]} onClose={vi.fn()} />);
+
+    expect(screen.getByTestId('artifact-frame')).toHaveAttribute('title', 'SVG image 1');
+    await user.selectOptions(screen.getByTestId('artifact-select'), 'html-1');
+    await user.click(screen.getByTestId('toggle-artifact-code'));
+
+    expect(screen.queryByTestId('artifact-frame')).not.toBeInTheDocument();
+    expect(screen.getByTestId('code-block')).toHaveTextContent('<p>Second</p>');
+  });
+
+  test('closes', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    render(<ArtifactsPanel artifacts={[page]} onClose={onClose} />);
+
+    await user.click(screen.getByTestId('close-artifacts'));
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
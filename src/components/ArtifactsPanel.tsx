@@ -0,0 +1,126 @@
+import { useCallback, useState } from 'react';
+import type { Artifact } from '../utils/artifacts';
+import { artifactNeedsScripts, buildArtifactDocument } from '../utils/artifacts';
+import { CodeBlock } from './CodeBlock';
+import './ArtifactsPanel.css';
+
+interface ArtifactsPanelProps {
+  /** Artifacts found in the conversation, oldest first */
+  artifacts: Artifact[];
+  onClose: () => void;
+}
+
+/**
+ * Side panel previewing the pages, images and scripts in a conversation
+ * Previews run in a sandboxed frame with its own origin, so they cannot reach the app or its data
+ */
+export function ArtifactsPanel({ artifacts, onClose }: ArtifactsPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Versions picked by hand; otherwise each artifact shows its latest
+  const [versionIndexes, setVersionIndexes] = useState<Record<string, number>>({});
+  const [showCode, setShowCode] = useState(false);
+
+  const artifact = artifacts.find((a) => a.id === selectedId) ?? artifacts.at(-1);
+  const latestIndex = artifact ? artifact.versions.length - 1 : 0;
+  const versionIndex = Math.min(
+    artifact ? (versionIndexes[artifact.id] ?? latestIndex) : 0,
+    latestIndex
+  );
+
+  const showVersion = useCallback(
+    (index: number) => {
+      if (artifact) {
+        setVersionIndexes((prev) => ({ ...prev, [artifact.id]: index }));
+      }
+    },
+    [artifact]
+  );
+
+  if (!artifact) {
+    return null;
+  }
+
+  const version = artifact.versions[versionIndex];
+  const language = artifact.kind === 'javascript' ? 'javascript' : 'xml';
+
+  return (
+    <aside className="artifacts-panel" data-testid="artifacts-panel">
+      <div className="artifacts-header">
+        <h3>🧩 Artifacts</h3>
+        <button
+          className="artifacts-close"
+          onClick={onClose}
+          aria-label="Close artifacts"
+          data-testid="close-artifacts"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="artifact-toolbar">
+        {artifacts.length > 1 ? (
+          <select
+            value={artifact.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+            aria-label="Artifact"
+            data-testid="artifact-select"
+          >
+            {artifacts.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.title}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="artifact-title">{artifact.title}</span>
+        )}
+        {artifact.versions.length > 1 && (
+          <span className="artifact-versions">
+            <button
+              onClick={() => showVersion(versionIndex - 1)}
+              disabled={versionIndex === 0}
+              aria-label="Previous version"
+              data-testid="previous-artifact-version"
+            >
+              ‹
+            </button>
+            <span data-testid="artifact-version">
+              v{versionIndex + 1}/{artifact.versions.length}
+            </span>
+            <button
+              onClick={() => showVersion(versionIndex + 1)}
+              disabled={versionIndex === latestIndex}
+              aria-label="Next version"
+              data-testid="next-artifact-version"
+            >
+              ›
+            </button>
+          </span>
+        )}
+        <button
+          className="artifact-view-toggle"
+          onClick={() => setShowCode(!showCode)}
+          data-testid="toggle-artifact-code"
+        >
+          {showCode ? '👁️ Preview' : '</> Code'}
+        </button>
+      </div>
+      {showCode ? (
+        <div className="artifact-code">
+          <CodeBlock code={version.code} language={language} />
+        </div>
+      ) : (
+        <iframe
+          // No allow-same-origin: the preview gets an opaque origin of its own
+          sandbox={artifactNeedsScripts(artifact.kind, version.code) ? 'allow-scripts' : ''}
+          srcDoc={buildArtifactDocument(artifact.kind, version.code)}
+          referrerPolicy="no-referrer"
+          title={artifact.title}
+          className="artifact-frame"
+          data-testid="artifact-frame"
+        />
+      )}
+    </aside>
+  );
+}
+
+export default ArtifactsPanel;
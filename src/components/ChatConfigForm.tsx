@@ -0,0 +1,365 @@
+import { useState, useCallback } from 'react';
+import type { FormEvent } from 'react';
+import type { ChatConfig } from '../types/chat';
+import type { ChatConfigErrors } from '../utils/settings';
+import {
+  LOGIT_BIAS_RANGE,
+  MAX_STOP_SEQUENCES,
+  MAX_TOKENS_RANGE,
+  PENALTY_RANGE,
+  SUMMARY_THRESHOLD_RANGE,
+  TEMPERATURE_RANGE,
+  formatLogitBias,
+  parseLogitBias,
+  parseStopSequences,
+  validateChatConfig,
+} from '../utils/settings';
+import './ChatConfigForm.css';
+
+interface ChatConfigFormProps {
+  /** Settings currently in use */
+  config: ChatConfig;
+  /** Settings the reset button fills in */
+  resetConfig: ChatConfig;
+  resetLabel: string;
+  /** Whether to offer the summary threshold, which only exists globally */
+  showSummaryThreshold?: boolean;
+  /** Called with every form setting once they are all valid */
+  onSave: (changes: Partial<ChatConfig>) => void | Promise<void>;
+}
+
+/**
+ * Form values, kept as typed so half-entered numbers can be edited
+ */
+interface SettingsDraft {
+  systemPrompt: string;
+  maxTokens: string;
+  temperature: string;
+  summaryPercent: string;
+  topP: string;
+  frequencyPenalty: string;
+  presencePenalty: string;
+  seed: string;
+  stop: string;
+  logitBias: string;
+}
+
+function toDraft(config: ChatConfig): SettingsDraft {
+  return {
+    systemPrompt: config.systemPrompt,
+    maxTokens: String(config.maxTokens),
+    temperature: String(config.temperature),
+    summaryPercent: String(Math.round(config.summaryThreshold * 100)),
+    topP: String(config.topP),
+    frequencyPenalty: String(config.frequencyPenalty),
+    presencePenalty: String(config.presencePenalty),
+    seed: config.seed === null ? '' : String(config.seed),
+    stop: config.stop.join('\n'),
+    logitBias: formatLogitBias(config.logitBias),
+  };
+}
+
+/**
+ * Fields shown in the collapsible advanced section
+ */
+const ADVANCED_FIELDS: (keyof ChatConfig)[] = [
+  'topP',
+  'frequencyPenalty',
+  'presencePenalty',
+  'seed',
+  'stop',
+  'logitBias',
+];
+
+/**
+ * Parse a number field, treating blank input as invalid rather than zero
+ */
+function parseNumber(value: string): number {
+  return value.trim() === '' ? NaN : Number(value);
+}
+
+interface NumberFieldProps {
+  label: string;
+  hint: string;
+  value: string;
+  error?: string;
+  min: number;
+  max: number;
+  step: number;
+  placeholder?: string;
+  onChange: (value: string) => void;
+  testId: string;
+}
+
+/**
+ * Labelled number input that shows its validation error in place of the hint
+ */
+function NumberField({
+  label,
+  hint,
+  value,
+  error,
+  min,
+  max,
+  step,
+  placeholder,
+  onChange,
+  testId,
+}: NumberFieldProps) {
+  return (
+    <label className="settings-field">
+      <span className="settings-label">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        aria-invalid={!!error}
+        data-testid={`${testId}-input`}
+      />
+      {error ? (
+        <span className="settings-error" data-testid={`${testId}-error`}>
+          {error}
+        </span>
+      ) : (
+        <span className="settings-hint">{hint}</span>
+      )}
+    </label>
+  );
+}
+
+/**
+ * Form for the system prompt and sampling options, validated before saving
+ */
+export function ChatConfigForm({
+  config,
+  resetConfig,
+  resetLabel,
+  showSummaryThreshold = true,
+  onSave,
+}: ChatConfigFormProps) {
+  const [draft, setDraft] = useState<SettingsDraft>(() => toDraft(config));
+  const [errors, setErrors] = useState<ChatConfigErrors>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  const updateDraft = useCallback((changes: Partial<SettingsDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setMessage(null);
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const logitBias = parseLogitBias(draft.logitBias);
+    const changes = {
+      systemPrompt: draft.systemPrompt.trim(),
+      maxTokens: parseNumber(draft.maxTokens),
+      temperature: parseNumber(draft.temperature),
+      ...(showSummaryThreshold && {
+        summaryThreshold: parseNumber(draft.summaryPercent) / 100,
+      }),
+      topP: parseNumber(draft.topP),
+      frequencyPenalty: parseNumber(draft.frequencyPenalty),
+      presencePenalty: parseNumber(draft.presencePenalty),
+      // A blank seed means random sampling
+      seed: draft.seed.trim() === '' ? null : parseNumber(draft.seed),
+      stop: parseStopSequences(draft.stop),
+      logitBias: logitBias ?? {},
+    };
+
+    const validationErrors = validateChatConfig({ ...config, ...changes });
+    if (!logitBias) {
+      validationErrors.logitBias = 'Enter one "token id: bias" pair per line';
+    }
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      setMessage(null);
+      // Reveal errors in the collapsed section
+      if (ADVANCED_FIELDS.some((field) => validationErrors[field])) {
+        setShowAdvanced(true);
+      }
+      return;
+    }
+
+    await onSave(changes);
+    setMessage('Settings saved');
+  };
+
+  const handleReset = () => {
+    updateDraft(toDraft(resetConfig));
+    setErrors({});
+  };
+
+  return (
+    <form className="settings-form" onSubmit={handleSubmit} noValidate>
+      <label className="settings-field">
+        <span className="settings-label">System prompt</span>
+        <textarea
+          value={draft.systemPrompt}
+          onChange={(e) => updateDraft({ systemPrompt: e.target.value })}
+          rows={5}
+          data-testid="system-prompt-input"
+        />
+        <span className="settings-hint">Instructions the model follows in every conversation</span>
+      </label>
+
+      <NumberField
+        label="Max tokens"
+        hint="Longest reply the model may write"
+        value={draft.maxTokens}
+        error={errors.maxTokens}
+        min={MAX_TOKENS_RANGE.min}
+        max={MAX_TOKENS_RANGE.max}
+        step={1}
+        onChange={(maxTokens) => updateDraft({ maxTokens })}
+        testId="max-tokens"
+      />
+
+      <NumberField
+        label="Temperature"
+        hint="Lower is more focused, higher is more creative"
+        value={draft.temperature}
+        error={errors.temperature}
+        min={TEMPERATURE_RANGE.min}
+        max={TEMPERATURE_RANGE.max}
+        step={0.1}
+        onChange={(temperature) => updateDraft({ temperature })}
+        testId="temperature"
+      />
+
+      {showSummaryThreshold && (
+        <NumberField
+          label="Summarize at (% of context window)"
+          hint="Older messages are summarized once a request fills this much of the context window"
+          value={draft.summaryPercent}
+          error={errors.summaryThreshold}
+          min={SUMMARY_THRESHOLD_RANGE.min * 100}
+          max={SUMMARY_THRESHOLD_RANGE.max * 100}
+          step={5}
+          onChange={(summaryPercent) => updateDraft({ summaryPercent })}
+          testId="summary-threshold"
+        />
+      )}
+
+      <details
+        className="settings-advanced"
+        open={showAdvanced}
+        onToggle={(e) => setShowAdvanced(e.currentTarget.open)}
+        data-testid="advanced-settings"
+      >
+        <summary>Advanced sampling</summary>
+
+        <NumberField
+          label="Top P"
+          hint="Only sample from the most likely tokens within this probability mass"
+          value={draft.topP}
+          error={errors.topP}
+          min={0}
+          max={1}
+          step={0.05}
+          onChange={(topP) => updateDraft({ topP })}
+          testId="top-p"
+        />
+
+        <NumberField
+          label="Frequency penalty"
+          hint="Positive values discourage repeating the same words"
+          value={draft.frequencyPenalty}
+          error={errors.frequencyPenalty}
+          min={PENALTY_RANGE.min}
+          max={PENALTY_RANGE.max}
+          step={0.1}
+          onChange={(frequencyPenalty) => updateDraft({ frequencyPenalty })}
+          testId="frequency-penalty"
+        />
+
+        <NumberField
+          label="Presence penalty"
+          hint="Positive values encourage moving on to new topics"
+          value={draft.presencePenalty}
+          error={errors.presencePenalty}
+          min={PENALTY_RANGE.min}
+          max={PENALTY_RANGE.max}
+          step={0.1}
+          onChange={(presencePenalty) => updateDraft({ presencePenalty })}
+          testId="presence-penalty"
+        />
+
+        <NumberField
+          label="Seed"
+          hint="The same seed and settings reproduce the same reply. Leave blank for random."
+          value={draft.seed}
+          error={errors.seed}
+          min={0}
+          max={Number.MAX_SAFE_INTEGER}
+          step={1}
+          placeholder="Random"
+          onChange={(seed) => updateDraft({ seed })}
+          testId="seed"
+        />
+
+        <label className="settings-field">
+          <span className="settings-label">Stop sequences</span>
+          <textarea
+            value={draft.stop}
+            onChange={(e) => updateDraft({ stop: e.target.value })}
+            rows={3}
+            aria-invalid={!!errors.stop}
+            data-testid="stop-input"
+          />
+          {errors.stop ? (
+            <span className="settings-error" data-testid="stop-error">
+              {errors.stop}
+            </span>
+          ) : (
+            <span className="settings-hint">
+              One per line, up to {MAX_STOP_SEQUENCES}. Generation ends when one is produced.
+            </span>
+          )}
+        </label>
+
+        <label className="settings-field">
+          <span className="settings-label">Logit bias</span>
+          <textarea
+            value={draft.logitBias}
+            onChange={(e) => updateDraft({ logitBias: e.target.value })}
+            rows={3}
+            placeholder="50256: -100"
+            aria-invalid={!!errors.logitBias}
+            data-testid="logit-bias-input"
+          />
+          {errors.logitBias ? (
+            <span className="settings-error" data-testid="logit-bias-error">
+              {errors.logitBias}
+            </span>
+          ) : (
+            <span className="settings-hint">
+              One "token id: bias" pair per line, with biases from {LOGIT_BIAS_RANGE.min} (never) to{' '}
+              {LOGIT_BIAS_RANGE.max} (always)
+            </span>
+          )}
+        </label>
+      </details>
+
+      {message && (
+        <div className="settings-message" data-testid="settings-message">
+          {message}
+        </div>
+      )}
+
+      <div className="settings-actions">
+        <button type="button" onClick={handleReset} data-testid="reset-settings-button">
+          {resetLabel}
+        </button>
+        <button type="submit" className="primary" data-testid="save-settings-button">
+          Save
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ChatConfigForm;
@@ -62,6 +62,20 @@ describe('ChatInput', () => {
     expect(mockOnStop).toHaveBeenCalled();
   });
 
+  test('queues messages sent while generating', () => {
+    const mockOnSend = vi.fn();
+    render(<ChatInput onSend={mockOnSend} isGenerating={true} onStop={() => {}} />);
+
+    const input = screen.getByTestId('chat-input');
+    fireEvent.change(input, { target: { value: 'Next question' } });
+    const sendButton = screen.getByTestId('send-button');
+    expect(sendButton).toHaveTextContent('Queue');
+    fireEvent.click(sendButton);
+
+    expect(mockOnSend).toHaveBeenCalledWith('Next question');
+    expect(input).toHaveValue('');
+  });
+
   test('input is disabled when disabled prop is true', () => {
     render(<ChatInput onSend={() => {}} disabled={true} />);
     expect(screen.getByTestId('chat-input')).toBeDisabled();
@@ -6,7 +6,7 @@ interface ChatInputProps {
   onSend: (message: string) => void;
   /** Whether the input should be disabled */
   disabled?: boolean;
-  /** Whether a message is currently being generated */
+  /** Whether a message is currently being generated; messages sent meanwhile are queued */
   isGenerating?: boolean;
   /** Callback to stop generation */
   onStop?: () => void;
@@ -30,12 +30,12 @@ export function ChatInput({
     (e: FormEvent) => {
       e.preventDefault();
       const trimmedInput = input.trim();
-      if (trimmedInput && !disabled && !isGenerating) {
+      if (trimmedInput && !disabled) {
         onSend(trimmedInput);
         setInput('');
       }
     },
-    [input, disabled, isGenerating, onSend]
+    [input, disabled, onSend]
   );
 
   const handleKeyDown = useCallback(
@@ -43,13 +43,13 @@ export function ChatInput({
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
         const trimmedInput = input.trim();
-        if (trimmedInput && !disabled && !isGenerating) {
+        if (trimmedInput && !disabled) {
           onSend(trimmedInput);
           setInput('');
         }
       }
     },
-    [input, disabled, isGenerating, onSend]
+    [input, disabled, onSend]
   );
 
   return (
@@ -66,7 +66,7 @@ export function ChatInput({
           aria-label="Chat message input"
           data-testid="chat-input"
         />
-        {isGenerating ? (
+        {isGenerating && (
           <button
             type="button"
             className="chat-button stop"
@@ -76,19 +76,22 @@ export function ChatInput({
           >
             ⏹️ Stop
           </button>
-        ) : (
-          <button
-            type="submit"
-            className="chat-button send"
-            disabled={disabled || !input.trim()}
-            aria-label="Send message"
-            data-testid="send-button"
-          >
-            ➤ Send
-          </button>
         )}
+        <button
+          type="submit"
+          className="chat-button send"
+          disabled={disabled || !input.trim()}
+          aria-label={isGenerating ? 'Queue message' : 'Send message'}
+          data-testid="send-button"
+        >
+          {isGenerating ? '⏳ Queue' : '➤ Send'}
+        </button>
+      </div>
+      <div className="chat-input-hint">
+        {isGenerating
+          ? 'Messages sent now wait until the current reply is done'
+          : 'Press Enter to send, Shift+Enter for new line'}
       </div>
-      <div className="chat-input-hint">Press Enter to send, Shift+Enter for new line</div>
     </form>
   );
 }
@@ -1,7 +1,9 @@
-import { describe, test, expect } from 'vitest';
+import { describe, test, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { ChatMessage } from './ChatMessage';
 import type { ChatMessage as ChatMessageType } from '../types/chat';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
 
 describe('ChatMessage', () => {
   const baseMessage: ChatMessageType = {
@@ -69,6 +71,17 @@ describe('ChatMessage', () => {
     expect(screen.getByText('🤖')).toBeInTheDocument();
   });
 
+  test('shows the persona a reply was written as', () => {
+    const assistantMessage: ChatMessageType = {
+      ...baseMessage,
+      role: 'assistant',
+    };
+    render(<ChatMessage message={assistantMessage} persona={{ name: 'Tutor', avatar: '🦉' }} />);
+    expect(screen.getByText('Tutor')).toBeInTheDocument();
+    expect(screen.getByText('🦉')).toBeInTheDocument();
+    expect(screen.queryByText('TerziAI')).not.toBeInTheDocument();
+  });
+
   test('shows typing animation for empty assistant message', () => {
     const assistantMessage: ChatMessageType = {
       ...baseMessage,
@@ -101,4 +114,230 @@ describe('ChatMessage', () => {
     expect(screen.queryByTestId('typing-indicator')).not.toBeInTheDocument();
     expect(screen.getByText('Hello there!')).toBeInTheDocument();
   });
+
+  test('renders Markdown in assistant messages only', () => {
+    const content = '**Hi** and `code`';
+    const { rerender } = render(
+      <ChatMessage message={{ ...baseMessage, role: 'assistant', content }} />
+    );
+    expect(screen.getByText('Hi').tagName).toBe('STRONG');
+
+    rerender(<ChatMessage message={{ ...baseMessage, id: 'test-id-3', content }} />);
+    expect(screen.queryByTestId('markdown')).not.toBeInTheDocument();
+    expect(screen.getByText(content)).toBeInTheDocument();
+  });
+
+  test('shows code output as Markdown, without an edit action', () => {
+    const message: ChatMessageType = {
+      ...baseMessage,
+      kind: 'code-result',
+      content: '**Ran JavaScript** (3 ms)\n\nResult:\n```\n42\n```',
+    };
+    render(<ChatMessage message={message} onEdit={vi.fn()} />);
+
+    expect(screen.getByText('Code output')).toBeInTheDocument();
+    expect(screen.getByText('🧪')).toBeInTheDocument();
+    expect(screen.getByTestId('code-block')).toHaveTextContent('42');
+    expect(screen.queryByTestId('edit-message-test-id-1')).not.toBeInTheDocument();
+  });
+
+  test('shows the sources of a finished reply', () => {
+    const message: ChatMessageType = {
+      ...baseMessage,
+      role: 'assistant',
+      content: 'You get 25 days [1].',
+      citations: [
+        {
+          number: 1,
+          documentId: 'doc-1',
+          documentName: 'handbook.md',
+          chunkId: 'chunk-1',
+          chunkIndex: 0,
+          text: 'Holidays are 25 days a year.',
+        },
+      ],
+    };
+    const { rerender } = render(<ChatMessage message={message} />);
+    expect(screen.getByTestId('citation-1')).toHaveClass('cited');
+
+    rerender(<ChatMessage message={message} streaming />);
+    expect(screen.queryByTestId('citations')).not.toBeInTheDocument();
+  });
+
+  test('runs JavaScript blocks of a finished reply', async () => {
+    const user = userEvent.setup();
+    const onRunCode = vi.fn().mockResolvedValue(undefined);
+    const message: ChatMessageType = {
+      ...baseMessage,
+      role: 'assistant',
+      content: '```javascript\n[1, 2].map((n) => n * 2)\n```',
+    };
+    const { rerender } = render(<ChatMessage message={message} onRunCode={onRunCode} />);
+
+    await user.click(screen.getByTestId('run-code'));
+    expect(onRunCode).toHaveBeenCalledWith('[1, 2].map((n) => n * 2)');
+
+    rerender(<ChatMessage message={message} onRunCode={onRunCode} disabled />);
+    expect(screen.queryByTestId('run-code')).not.toBeInTheDocument();
+  });
+
+  test('shows which model wrote an assistant message', () => {
+    const assistantMessage: ChatMessageType = {
+      ...baseMessage,
+      role: 'assistant',
+      content: 'Hello there!',
+      modelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
+    };
+    render(<ChatMessage message={assistantMessage} />);
+    expect(screen.getByTestId('message-model')).toHaveTextContent('Llama 3.2 1B');
+  });
+
+  test('does not show a model for messages without one', () => {
+    render(<ChatMessage message={baseMessage} />);
+    expect(screen.queryByTestId('message-model')).not.toBeInTheDocument();
+  });
+
+  test('shows generation details in a collapsible row', () => {
+    const assistantMessage: ChatMessageType = {
+      ...baseMessage,
+      role: 'assistant',
+      content: 'Hello there!',
+      settings: { ...DEFAULT_CHAT_CONFIG, temperature: 0.3, seed: 7 },
+      stats: {
+        promptTokens: 120,
+        completionTokens: 48,
+        timeToFirstTokenMs: 1500,
+        tokensPerSecond: 21.44,
+        finishReason: 'length',
+      },
+    };
+    render(<ChatMessage message={assistantMessage} />);
+
+    const details = screen.getByTestId('message-details');
+    expect(details).not.toHaveAttribute('open');
+    expect(details).toHaveTextContent('Temperature0.3');
+    expect(details).toHaveTextContent('Seed7');
+    expect(details).toHaveTextContent('Prompt tokens120');
+    expect(details).toHaveTextContent('Completion tokens48');
+    expect(details).toHaveTextContent('Time to first token1.5 s');
+    expect(details).toHaveTextContent('Speed21.4 tokens/s');
+    expect(details).toHaveTextContent('Finish reasonReached max tokens');
+  });
+
+  test('does not show details for messages without generation info', () => {
+    render(<ChatMessage message={baseMessage} />);
+    expect(screen.queryByTestId('message-details')).not.toBeInTheDocument();
+  });
+
+  describe('branches', () => {
+    const reply: ChatMessageType = {
+      ...baseMessage,
+      id: 'reply-1',
+      role: 'assistant',
+      content: 'Hi there!',
+    };
+
+    test('shows the position among alternatives and moves between them', async () => {
+      const user = userEvent.setup();
+      const onShowSibling = vi.fn();
+      render(
+        <ChatMessage
+          message={reply}
+          branch={{ index: 1, count: 3 }}
+          onShowSibling={onShowSibling}
+        />
+      );
+
+      expect(screen.getByTestId('branch-position')).toHaveTextContent('2/3');
+      await user.click(screen.getByTestId('previous-branch'));
+      await user.click(screen.getByTestId('next-branch'));
+
+      expect(onShowSibling).toHaveBeenNthCalledWith(1, 'reply-1', -1);
+      expect(onShowSibling).toHaveBeenNthCalledWith(2, 'reply-1', 1);
+    });
+
+    test('hides the navigation without alternatives and disables it at the ends', () => {
+      const { rerender } = render(<ChatMessage message={reply} branch={{ index: 0, count: 1 }} />);
+      expect(screen.queryByTestId('branch-nav')).not.toBeInTheDocument();
+
+      rerender(<ChatMessage message={reply} branch={{ index: 0, count: 2 }} />);
+      expect(screen.getByTestId('previous-branch')).toBeDisabled();
+      expect(screen.getByTestId('next-branch')).toBeEnabled();
+    });
+
+    test('regenerates an assistant message', async () => {
+      const user = userEvent.setup();
+      const onRegenerate = vi.fn();
+      render(<ChatMessage message={reply} onRegenerate={onRegenerate} />);
+
+      await user.click(screen.getByTestId('regenerate-reply-1'));
+
+      expect(onRegenerate).toHaveBeenCalledWith('reply-1');
+    });
+
+    test('finds messages similar to a finished one', async () => {
+      const user = userEvent.setup();
+      const onFindSimilar = vi.fn();
+      const { rerender } = render(
+        <ChatMessage message={reply} onFindSimilar={onFindSimilar} streaming />
+      );
+      expect(screen.queryByTestId('find-similar-reply-1')).not.toBeInTheDocument();
+
+      rerender(<ChatMessage message={reply} onFindSimilar={onFindSimilar} />);
+      await user.click(screen.getByTestId('find-similar-reply-1'));
+
+      expect(onFindSimilar).toHaveBeenCalledWith(reply);
+    });
+
+    test('sends an edited copy of a user message', async () => {
+      const user = userEvent.setup();
+      const onEdit = vi.fn();
+      render(<ChatMessage message={baseMessage} onEdit={onEdit} />);
+
+      await user.click(screen.getByTestId('edit-message-test-id-1'));
+      const textarea = screen.getByTestId('message-edit-textarea');
+      expect(textarea).toHaveValue('Hello, world!');
+      await user.clear(textarea);
+      await user.type(textarea, '  Hello again  ');
+      await user.click(screen.getByTestId('message-edit-send'));
+
+      expect(onEdit).toHaveBeenCalledWith('test-id-1', 'Hello again');
+      expect(screen.queryByTestId('message-edit-textarea')).not.toBeInTheDocument();
+    });
+
+    test('cancelling an edit keeps the message', async () => {
+      const user = userEvent.setup();
+      const onEdit = vi.fn();
+      render(<ChatMessage message={baseMessage} onEdit={onEdit} />);
+
+      await user.click(screen.getByTestId('edit-message-test-id-1'));
+      await user.click(screen.getByTestId('message-edit-cancel'));
+
+      expect(onEdit).not.toHaveBeenCalled();
+      expect(screen.getByText('Hello, world!')).toBeInTheDocument();
+    });
+
+    test('offers to continue a reply cut off at max tokens', async () => {
+      const user = userEvent.setup();
+      const onContinue = vi.fn();
+      const cutOff = { ...reply, stats: { finishReason: 'length' as const } };
+      const { rerender } = render(<ChatMessage message={cutOff} onContinue={onContinue} />);
+
+      await user.click(screen.getByTestId('continue-reply-1'));
+      expect(onContinue).toHaveBeenCalledWith('reply-1');
+
+      rerender(
+        <ChatMessage
+          message={{ ...reply, stats: { finishReason: 'stop' } }}
+          onContinue={onContinue}
+        />
+      );
+      expect(screen.queryByTestId('continue-reply-1')).not.toBeInTheDocument();
+    });
+
+    test('disables the actions while generating', () => {
+      render(<ChatMessage message={baseMessage} onEdit={vi.fn()} disabled />);
+      expect(screen.getByTestId('edit-message-test-id-1')).toBeDisabled();
+    });
+  });
 });
@@ -1,42 +1,314 @@
+import { useState, useCallback, memo } from 'react';
 import type { ChatMessage as ChatMessageType } from '../types/chat';
+import type { Persona } from '../types/persona';
+import { DEFAULT_PERSONA } from '../types/persona';
+import { getModelById } from '../utils/models';
+import { describeFinishReason } from '../utils/stats';
+import type { BranchPosition } from '../utils/tree';
+import { Citations } from './Citations';
+import { Markdown } from './Markdown';
 import './ChatMessage.css';
 
 interface ChatMessageProps {
   /** The message to display */
   message: ChatMessageType;
+  /** Name and avatar the assistant is shown with, defaulting to TerziAI's */
+  persona?: Pick<Persona, 'name' | 'avatar'>;
+  /** Where the message sits among its alternatives; navigation shows when there are several */
+  branch?: BranchPosition;
+  /** Callback to show the alternative `offset` places away */
+  onShowSibling?: (messageId: string, offset: number) => void;
+  /** Callback to send an edited copy of a user message */
+  onEdit?: (messageId: string, content: string) => void;
+  /** Callback to generate another reply in place of an assistant message */
+  onRegenerate?: (messageId: string) => void;
+  /** Callback to resume an assistant message that was cut off at max tokens */
+  onContinue?: (messageId: string) => void;
+  /** Callback to list the stored messages closest in meaning to this one */
+  onFindSimilar?: (message: ChatMessageType) => void;
+  /** Callback to run a JavaScript code block from an assistant message */
+  onRunCode?: (code: string) => Promise<void>;
+  /** Whether the actions should be blocked (e.g. while generating) */
+  disabled?: boolean;
+  /** Whether the message is still being generated */
+  streaming?: boolean;
+}
+
+/**
+ * Format a duration in milliseconds for display
+ */
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Collapsible row with the model, settings and stats an assistant message was generated with
+ */
+function MessageDetails({ message }: { message: ChatMessageType }) {
+  const { settings, stats } = message;
+  const rows: [label: string, value: string][] = [];
+
+  if (message.modelId) {
+    rows.push(['Model', getModelById(message.modelId)?.name ?? message.modelId]);
+  }
+  if (settings) {
+    rows.push(['Temperature', String(settings.temperature)]);
+    rows.push(['Top P', String(settings.topP)]);
+    rows.push(['Max tokens', String(settings.maxTokens)]);
+    if (settings.frequencyPenalty !== 0 || settings.presencePenalty !== 0) {
+      rows.push([
+        'Penalties',
+        `frequency ${settings.frequencyPenalty}, presence ${settings.presencePenalty}`,
+      ]);
+    }
+    if (settings.seed !== null) {
+      rows.push(['Seed', String(settings.seed)]);
+    }
+  }
+  if (stats?.promptTokens !== undefined) {
+    rows.push(['Prompt tokens', String(stats.promptTokens)]);
+  }
+  if (stats?.completionTokens !== undefined) {
+    rows.push(['Completion tokens', String(stats.completionTokens)]);
+  }
+  if (stats?.timeToFirstTokenMs !== undefined) {
+    rows.push(['Time to first token', formatDuration(stats.timeToFirstTokenMs)]);
+  }
+  if (stats?.tokensPerSecond !== undefined) {
+    rows.push(['Speed', `${stats.tokensPerSecond.toFixed(1)} tokens/s`]);
+  }
+  if (stats?.finishReason) {
+    rows.push(['Finish reason', describeFinishReason(stats.finishReason)]);
+  }
+
+  return (
+    <details className="message-details" data-testid="message-details">
+      <summary>Details</summary>
+      <dl>
+        {rows.map(([label, value]) => (
+          <div key={label} className="message-detail">
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </details>
+  );
 }
 
 /**
  * Component for displaying a single chat message
  */
-export function ChatMessage({ message }: ChatMessageProps) {
+function ChatMessageView({
+  message,
+  persona = DEFAULT_PERSONA,
+  branch,
+  onShowSibling,
+  onEdit,
+  onRegenerate,
+  onContinue,
+  onFindSimilar,
+  onRunCode,
+  disabled = false,
+  streaming = false,
+}: ChatMessageProps) {
   const isUser = message.role === 'user';
   const isAssistant = message.role === 'assistant';
+  const isCodeResult = message.kind === 'code-result';
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const startEdit = useCallback(() => {
+    setDraft(message.content);
+    setEditing(true);
+  }, [message.content]);
+
+  const cancelEdit = useCallback(() => {
+    setEditing(false);
+    setDraft('');
+  }, []);
+
+  const sendEdit = useCallback(() => {
+    if (draft.trim()) {
+      onEdit?.(message.id, draft.trim());
+    }
+    cancelEdit();
+  }, [draft, message.id, onEdit, cancelEdit]);
+
+  const hasSiblings = branch !== undefined && branch.count > 1;
+  const canEdit = isUser && !isCodeResult && onEdit !== undefined;
+  // Nothing to regenerate until the reply has started
+  const canRegenerate = isAssistant && onRegenerate !== undefined && message.content !== '';
+  const canContinue =
+    isAssistant && onContinue !== undefined && message.stats?.finishReason === 'length';
+  // A message is only stored, and so can only be compared, once it is complete
+  const canFindSimilar = onFindSimilar !== undefined && !streaming && message.content !== '';
 
   return (
     <div
-      className={`chat-message ${isUser ? 'user' : ''} ${isAssistant ? 'assistant' : ''}`}
+      className={`chat-message ${isUser ? 'user' : ''} ${isAssistant ? 'assistant' : ''} ${isCodeResult ? 'code-result' : ''}`}
       data-testid={`message-${message.id}`}
     >
-      <div className="message-avatar">{isUser ? '👤' : '🤖'}</div>
+      <div className="message-avatar">{isCodeResult ? '🧪' : isUser ? '👤' : persona.avatar}</div>
       <div className="message-content">
-        <div className="message-role">{isUser ? 'You' : 'TerziAI'}</div>
-        <div className="message-text">
-          {message.content ||
-            (isAssistant ? (
+        <div className="message-role">
+          {isCodeResult ? 'Code output' : isUser ? 'You' : persona.name}
+        </div>
+        {editing ? (
+          <div className="message-editor">
+            <textarea
+              className="message-edit-textarea"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              aria-label="Edit message"
+              autoFocus
+              data-testid="message-edit-textarea"
+            />
+            <div className="message-editor-actions">
+              <button onClick={cancelEdit} data-testid="message-edit-cancel">
+                Cancel
+              </button>
+              <button
+                onClick={sendEdit}
+                disabled={!draft.trim() || disabled}
+                className="primary"
+                data-testid="message-edit-send"
+              >
+                Send
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="message-text">
+            {isCodeResult ? (
+              <Markdown content={message.content} />
+            ) : !isAssistant ? (
+              message.content
+            ) : message.content ? (
+              <Markdown
+                content={message.content}
+                streaming={streaming}
+                // Runs wait for the reply, and for any other reply being generated
+                onRunCode={streaming || disabled ? undefined : onRunCode}
+              />
+            ) : (
               <span className="typing-indicator" data-testid="typing-indicator">
                 <span></span>
                 <span></span>
                 <span></span>
               </span>
-            ) : (
-              ''
-            ))}
+            )}
+          </div>
+        )}
+        <div className="message-time">
+          {message.timestamp.toLocaleTimeString()}
+          {message.modelId && (
+            <span className="message-model" data-testid="message-model">
+              {' · '}
+              {getModelById(message.modelId)?.name ?? message.modelId}
+            </span>
+          )}
         </div>
-        <div className="message-time">{message.timestamp.toLocaleTimeString()}</div>
+        {!editing && (hasSiblings || canEdit || canRegenerate || canContinue || canFindSimilar) && (
+          <div className="message-actions">
+            {hasSiblings && (
+              <span className="branch-nav" data-testid="branch-nav">
+                <button
+                  onClick={() => onShowSibling?.(message.id, -1)}
+                  disabled={disabled || branch.index === 0}
+                  aria-label="Previous version"
+                  data-testid="previous-branch"
+                >
+                  ‹
+                </button>
+                <span data-testid="branch-position">
+                  {branch.index + 1}/{branch.count}
+                </span>
+                <button
+                  onClick={() => onShowSibling?.(message.id, 1)}
+                  disabled={disabled || branch.index === branch.count - 1}
+                  aria-label="Next version"
+                  data-testid="next-branch"
+                >
+                  ›
+                </button>
+              </span>
+            )}
+            {canEdit && (
+              <button
+                onClick={startEdit}
+                disabled={disabled}
+                aria-label="Edit and resend"
+                title="Edit and resend"
+                data-testid={`edit-message-${message.id}`}
+              >
+                ✏️
+              </button>
+            )}
+            {canRegenerate && (
+              <button
+                onClick={() => onRegenerate(message.id)}
+                disabled={disabled}
+                aria-label="Regenerate"
+                title="Regenerate"
+                data-testid={`regenerate-${message.id}`}
+              >
+                🔄
+              </button>
+            )}
+            {canFindSimilar && (
+              <button
+                onClick={() => onFindSimilar(message)}
+                aria-label="Find similar messages"
+                title="Find similar messages"
+                data-testid={`find-similar-${message.id}`}
+              >
+                🧭
+              </button>
+            )}
+            {canContinue && (
+              <button
+                className="continue-button"
+                onClick={() => onContinue(message.id)}
+                disabled={disabled}
+                title="The reply reached the max tokens limit"
+                data-testid={`continue-${message.id}`}
+              >
+                Continue ▸
+              </button>
+            )}
+          </div>
+        )}
+        {message.citations && message.citations.length > 0 && !streaming && (
+          <Citations citations={message.citations} content={message.content} />
+        )}
+        {(message.settings || message.stats) && <MessageDetails message={message} />}
       </div>
     </div>
   );
 }
 
+/**
+ * Whether a message would render the same, so only the streaming message re-renders per token
+ */
+function arePropsEqual(previous: ChatMessageProps, next: ChatMessageProps): boolean {
+  return (
+    previous.message === next.message &&
+    previous.persona?.name === next.persona?.name &&
+    previous.persona?.avatar === next.persona?.avatar &&
+    previous.branch?.index === next.branch?.index &&
+    previous.branch?.count === next.branch?.count &&
+    previous.onShowSibling === next.onShowSibling &&
+    previous.onEdit === next.onEdit &&
+    previous.onRegenerate === next.onRegenerate &&
+    previous.onContinue === next.onContinue &&
+    previous.onFindSimilar === next.onFindSimilar &&
+    previous.onRunCode === next.onRunCode &&
+    previous.disabled === next.disabled &&
+    previous.streaming === next.streaming
+  );
+}
+
+export const ChatMessage = memo(ChatMessageView, arePropsEqual);
+
 export default ChatMessage;
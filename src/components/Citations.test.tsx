@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Citations } from './Citations';
+import type { Citation } from '../types/chat';
+
+describe('Citations', () => {
+  const citations: Citation[] = [
+    {
+      number: 1,
+      documentId: 'doc-1',
+      documentName: 'handbook.md',
+      chunkId: 'chunk-1',
+      chunkIndex: 0,
+      text: 'Holidays are 25 days a year.',
+    },
+    {
+      number: 2,
+      documentId: 'doc-2',
+      documentName: 'policy.pdf',
+      chunkId: 'chunk-7',
+      chunkIndex: 6,
+      text: 'Unused holidays carry over until March.',
+    },
+  ];
+
+  test('lists each source and marks the ones the reply cites', () => {
+    render(<Citations citations={citations} content="You get 25 days [1]." />);
+
+    expect(screen.getByTestId('citation-1')).toHaveTextContent('[1] handbook.md');
+    expect(screen.getByTestId('citation-1')).toHaveClass('cited');
+    expect(screen.getByTestId('citation-2')).toHaveTextContent('[2] policy.pdf');
+    expect(screen.getByTestId('citation-2')).not.toHaveClass('cited');
+  });
+
+  test('opens and closes the cited passage', async () => {
+    const user = userEvent.setup();
+    render(<Citations citations={citations} content="See [2]." />);
+    expect(screen.queryByTestId('citation-passage')).not.toBeInTheDocument();
+
+    await user.click(screen.getByTestId('citation-2'));
+    const passage = screen.getByTestId('citation-passage');
+    expect(passage).toHaveTextContent('policy.pdf · part 7');
+    expect(passage).toHaveTextContent('Unused holidays carry over until March.');
+    expect(screen.getByTestId('citation-2')).toHaveAttribute('aria-expanded', 'true');
+
+    await user.click(screen.getByTestId('citation-1'));
+    expect(screen.getByTestId('citation-passage')).toHaveTextContent(
+      'Holidays are 25 days a year.'
+    );
+
+    await user.click(screen.getByTestId('citation-1'));
+    expect(screen.queryByTestId('citation-passage')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import type { Citation } from '../types/chat';
+import { getCitedNumbers } from '../utils/documents';
+import './Citations.css';
+
+interface CitationsProps {
+  /** Passages the reply was given */
+  citations: Citation[];
+  /** Text of the reply, to tell which passages it cites */
+  content: string;
+}
+
+/**
+ * Sources of a reply; each opens the passage it refers to
+ */
+export function Citations({ citations, content }: CitationsProps) {
+  const [openNumber, setOpenNumber] = useState<number | null>(null);
+  const cited = getCitedNumbers(content);
+  const open = citations.find((c) => c.number === openNumber);
+
+  return (
+    <div className="citations" data-testid="citations">
+      <div className="citation-list">
+        <span className="citations-label">Sources:</span>
+        {citations.map((citation) => (
+          <button
+            key={citation.number}
+            className={`citation ${cited.has(citation.number) ? 'cited' : ''} ${
+              citation.number === openNumber ? 'open' : ''
+            }`}
+            onClick={() => setOpenNumber(citation.number === openNumber ? null : citation.number)}
+            aria-expanded={citation.number === openNumber}
+            title={cited.has(citation.number) ? 'Cited in the reply' : 'Given to the model'}
+            data-testid={`citation-${citation.number}`}
+          >
+            [{citation.number}] {citation.documentName}
+          </button>
+        ))}
+      </div>
+      {open && (
+        <blockquote className="citation-passage" data-testid="citation-passage">
+          <div className="citation-source">
+            {open.documentName} · part {open.chunkIndex + 1}
+          </div>
+          {open.text}
+        </blockquote>
+      )}
+    </div>
+  );
+}
+
+export default Citations;
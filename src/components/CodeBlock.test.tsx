@@ -0,0 +1,84 @@
+import { describe, test, expect, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CodeBlock } from './CodeBlock';
+
+describe('CodeBlock', () => {
+  test('highlights code in a known language', () => {
+    const { container } = render(<CodeBlock code="const answer = 42;" language="javascript" />);
+
+    expect(screen.getByTestId('code-language')).toHaveTextContent('javascript');
+    expect(container.querySelector('.hljs-keyword')).toHaveTextContent('const');
+    expect(container.querySelector('.hljs-number')).toHaveTextContent('42');
+  });
+
+  test('shows code in an unknown language as plain text', () => {
+    const { container } = render(<CodeBlock code="just text" language="klingon" />);
+
+    expect(screen.getByTestId('code-block')).toHaveTextContent('just text');
+    expect(container.querySelector('[class^="hljs-"]')).toBeNull();
+  });
+
+  test('labels code without a language as text', () => {
+    render(<CodeBlock code="plain" />);
+    expect(screen.getByTestId('code-language')).toHaveTextContent('text');
+  });
+
+  test('copies the code', async () => {
+    const user = userEvent.setup();
+    render(<CodeBlock code={'print("hi")\nprint("bye")'} language="python" />);
+
+    await user.click(screen.getByTestId('copy-code'));
+
+    expect(await navigator.clipboard.readText()).toBe('print("hi")\nprint("bye")');
+    expect(screen.getByTestId('copy-code')).toHaveTextContent('Copied');
+  });
+
+  test('logs an error when copying fails', async () => {
+    const user = userEvent.setup();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(navigator.clipboard, 'writeText').mockRejectedValueOnce(new Error('Denied'));
+    render(<CodeBlock code="x" />);
+
+    await user.click(screen.getByTestId('copy-code'));
+
+    expect(consoleError).toHaveBeenCalledWith('Failed to copy code:', expect.any(Error));
+    expect(screen.getByTestId('copy-code')).toHaveTextContent('Copy');
+    consoleError.mockRestore();
+  });
+
+  test('has no Run button without a runner', () => {
+    render(<CodeBlock code="1 + 1" language="javascript" />);
+    expect(screen.queryByTestId('run-code')).toBeNull();
+  });
+
+  test('runs the code and waits for the run to finish', async () => {
+    const user = userEvent.setup();
+    let finish = () => {};
+    const onRun = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    render(<CodeBlock code="1 + 1" language="javascript" onRun={onRun} />);
+
+    await user.click(screen.getByTestId('run-code'));
+
+    expect(onRun).toHaveBeenCalledWith('1 + 1');
+    expect(screen.getByTestId('run-code')).toBeDisabled();
+    expect(screen.getByTestId('run-code')).toHaveTextContent('Running');
+
+    await act(async () => finish());
+    expect(screen.getByTestId('run-code')).toBeEnabled();
+    expect(screen.getByTestId('run-code')).toHaveTextContent('Run');
+  });
+
+  test('logs an error when running fails', async () => {
+    const user = userEvent.setup();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onRun = vi.fn().mockRejectedValue(new Error('No workers'));
+    render(<CodeBlock code="x" language="js" onRun={onRun} />);
+
+    await user.click(screen.getByTestId('run-code'));
+
+    expect(consoleError).toHaveBeenCalledWith('Failed to run code:', expect.any(Error));
+    expect(screen.getByTestId('run-code')).toBeEnabled();
+    consoleError.mockRestore();
+  });
+});
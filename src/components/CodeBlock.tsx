@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Fragment, jsx, jsxs } from 'react/jsx-runtime';
+import { toJsxRuntime } from 'hast-util-to-jsx-runtime';
+import { common, createLowlight } from 'lowlight';
+import './CodeBlock.css';
+
+/** Highlighter for the most common languages (JavaScript, Python, Bash, JSON, …) */
+const lowlight = createLowlight(common);
+
+/** How long the copy button confirms a copy, in milliseconds */
+const COPIED_DURATION = 2000;
+
+interface CodeBlockProps {
+  /** The code to show */
+  code: string;
+  /** Language named after the opening fence, if any */
+  language?: string;
+  /** Runs the code; without it, the block has no Run button */
+  onRun?: (code: string) => Promise<void>;
+}
+
+/**
+ * Syntax-highlighted block of code with its language, a copy button and, for code that can be
+ * run, a Run button
+ */
+export function CodeBlock({ code, language, onRun }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  // Languages the highlighter does not know are shown as plain text
+  const highlighted =
+    language && lowlight.registered(language)
+      ? toJsxRuntime(lowlight.highlight(language, code), { Fragment, jsx, jsxs })
+      : code;
+
+  useEffect(() => {
+    if (!copied) {
+      return;
+    }
+    const timer = setTimeout(() => setCopied(false), COPIED_DURATION);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy code:', err);
+    }
+  }, [code]);
+
+  const handleRun = useCallback(async () => {
+    if (!onRun) {
+      return;
+    }
+    setRunning(true);
+    try {
+      await onRun(code);
+    } catch (err) {
+      console.error('Failed to run code:', err);
+    } finally {
+      setRunning(false);
+    }
+  }, [code, onRun]);
+
+  return (
+    <div className="code-block" data-testid="code-block">
+      <div className="code-block-header">
+        <span className="code-block-language" data-testid="code-language">
+          {language || 'text'}
+        </span>
+        <span className="code-block-actions">
+          {onRun && (
+            <button
+              className="code-block-run"
+              onClick={handleRun}
+              disabled={running}
+              aria-label="Run code"
+              data-testid="run-code"
+            >
+              {running ? '⏳ Running…' : '▶ Run'}
+            </button>
+          )}
+          <button
+            className="code-block-copy"
+            onClick={handleCopy}
+            aria-label="Copy code"
+            data-testid="copy-code"
+          >
+            {copied ? '✓ Copied' : '📋 Copy'}
+          </button>
+        </span>
+      </div>
+      <pre>
+        <code className={language ? `hljs language-${language}` : 'hljs'}>{highlighted}</code>
+      </pre>
+    </div>
+  );
+}
+
+export default CodeBlock;
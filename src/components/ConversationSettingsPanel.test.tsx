@@ -0,0 +1,88 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ConversationSettingsPanel } from './ConversationSettingsPanel';
+import type { Conversation } from '../types/chat';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+
+describe('ConversationSettingsPanel', () => {
+  const conversation: Conversation = {
+    id: 'conv-1',
+    title: 'Quick Q&A',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    modelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
+  };
+  const globalConfig = { ...DEFAULT_CHAT_CONFIG, temperature: 0.9 };
+
+  test('shows the global settings for a conversation without its own', () => {
+    render(
+      <ConversationSettingsPanel
+        conversation={conversation}
+        globalConfig={globalConfig}
+        onSave={vi.fn()}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('This chat follows your global settings.')).toBeInTheDocument();
+    expect(screen.getByTestId('temperature-input')).toHaveValue(0.9);
+    // The summary threshold only exists globally
+    expect(screen.queryByTestId('summary-threshold-input')).not.toBeInTheDocument();
+  });
+
+  test('saves only the values that differ from the global settings', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    render(
+      <ConversationSettingsPanel
+        conversation={conversation}
+        globalConfig={globalConfig}
+        onSave={onSave}
+        onClose={vi.fn()}
+      />
+    );
+
+    await user.clear(screen.getByTestId('system-prompt-input'));
+    await user.type(screen.getByTestId('system-prompt-input'), 'Answer in one sentence.');
+    await user.click(screen.getByTestId('save-settings-button'));
+
+    expect(onSave).toHaveBeenCalledWith('conv-1', { systemPrompt: 'Answer in one sentence.' });
+  });
+
+  test('going back to the global settings clears the overrides', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    render(
+      <ConversationSettingsPanel
+        conversation={{ ...conversation, settings: { temperature: 0.1, seed: 7 } }}
+        globalConfig={globalConfig}
+        onSave={onSave}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('temperature-input')).toHaveValue(0.1);
+
+    await user.click(screen.getByTestId('reset-settings-button'));
+    await user.click(screen.getByTestId('save-settings-button'));
+
+    expect(onSave).toHaveBeenCalledWith('conv-1', undefined);
+  });
+
+  test('closes', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    render(
+      <ConversationSettingsPanel
+        conversation={conversation}
+        globalConfig={globalConfig}
+        onSave={vi.fn()}
+        onClose={onClose}
+      />
+    );
+
+    await user.click(screen.getByTestId('close-conversation-settings'));
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
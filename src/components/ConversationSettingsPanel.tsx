@@ -0,0 +1,63 @@
+import { useCallback } from 'react';
+import { ChatConfigForm } from './ChatConfigForm';
+import type { ChatConfig, Conversation, ConversationSettings } from '../types/chat';
+import { toConversationSettings } from '../utils/settings';
+import './ConversationSettingsPanel.css';
+
+interface ConversationSettingsPanelProps {
+  /** Conversation whose settings are edited */
+  conversation: Conversation;
+  /** Global settings the conversation falls back to */
+  globalConfig: ChatConfig;
+  /** Callback with the conversation's own settings, or undefined to follow the global ones */
+  onSave: (conversationId: string, settings: ConversationSettings | undefined) => void;
+  onClose: () => void;
+}
+
+/**
+ * Panel for overriding the system prompt and sampling options in one conversation
+ */
+export function ConversationSettingsPanel({
+  conversation,
+  globalConfig,
+  onSave,
+  onClose,
+}: ConversationSettingsPanelProps) {
+  const handleSave = useCallback(
+    (changes: Partial<ChatConfig>) => {
+      onSave(conversation.id, toConversationSettings(changes, globalConfig));
+    },
+    [conversation.id, globalConfig, onSave]
+  );
+
+  return (
+    <div className="conversation-settings" data-testid="conversation-settings">
+      <div className="conversation-settings-header">
+        <h3>⚙️ Settings for “{conversation.title}”</h3>
+        <button
+          className="conversation-settings-close"
+          onClick={onClose}
+          aria-label="Close chat settings"
+          data-testid="close-conversation-settings"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="conversation-settings-note">
+        {conversation.settings
+          ? 'This chat uses its own values where they differ from your global settings.'
+          : 'This chat follows your global settings.'}
+      </p>
+      <ChatConfigForm
+        key={conversation.id}
+        config={{ ...globalConfig, ...conversation.settings }}
+        resetConfig={globalConfig}
+        resetLabel="Use Global Settings"
+        showSummaryThreshold={false}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
+
+export default ConversationSettingsPanel;
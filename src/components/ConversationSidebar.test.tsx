@@ -0,0 +1,139 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ConversationSidebar } from './ConversationSidebar';
+import type { Conversation } from '../types/chat';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import type { Persona } from '../types/persona';
+import { getGenerationSettings } from '../utils/settings';
+
+describe('ConversationSidebar', () => {
+  const conversations: Conversation[] = [
+    {
+      id: 'conv-1',
+      title: 'First chat',
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-02'),
+      modelId: 'test-model',
+    },
+    {
+      id: 'conv-2',
+      title: 'Second chat',
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+      modelId: 'test-model',
+    },
+  ];
+
+  const defaultProps = {
+    conversations,
+    activeConversationId: 'conv-1',
+    onNewConversation: vi.fn(),
+    onSwitchConversation: vi.fn(),
+    onRenameConversation: vi.fn(),
+    onDeleteConversation: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('renders all conversation titles', () => {
+    render(<ConversationSidebar {...defaultProps} />);
+    expect(screen.getByText('First chat')).toBeInTheDocument();
+    expect(screen.getByText('Second chat')).toBeInTheDocument();
+  });
+
+  test('highlights the active conversation', () => {
+    render(<ConversationSidebar {...defaultProps} />);
+    expect(screen.getByTestId('conversation-conv-1')).toHaveClass('active');
+    expect(screen.getByTestId('conversation-conv-2')).not.toHaveClass('active');
+  });
+
+  test('calls onNewConversation when new chat is clicked', () => {
+    render(<ConversationSidebar {...defaultProps} />);
+    fireEvent.click(screen.getByTestId('new-conversation-button'));
+    expect(defaultProps.onNewConversation).toHaveBeenCalledTimes(1);
+  });
+
+  test('starts a new chat with the picked persona', () => {
+    const persona: Persona = {
+      id: 'persona-1',
+      name: 'Tutor',
+      avatar: '🦉',
+      modelId: null,
+      settings: getGenerationSettings(DEFAULT_CHAT_CONFIG),
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+    };
+    render(<ConversationSidebar {...defaultProps} personas={[persona]} />);
+
+    fireEvent.change(screen.getByTestId('new-conversation-persona'), {
+      target: { value: 'persona-1' },
+    });
+    fireEvent.click(screen.getByTestId('new-conversation-button'));
+
+    expect(defaultProps.onNewConversation).toHaveBeenCalledWith(persona);
+  });
+
+  test('only offers personas once there are some', () => {
+    render(<ConversationSidebar {...defaultProps} />);
+    expect(screen.queryByTestId('new-conversation-persona')).not.toBeInTheDocument();
+  });
+
+  test('calls onSwitchConversation when a conversation is clicked', () => {
+    render(<ConversationSidebar {...defaultProps} />);
+    fireEvent.click(screen.getByText('Second chat'));
+    expect(defaultProps.onSwitchConversation).toHaveBeenCalledWith('conv-2');
+  });
+
+  test('renames a conversation on submit', () => {
+    render(<ConversationSidebar {...defaultProps} />);
+    fireEvent.click(screen.getByTestId('rename-conversation-conv-2'));
+
+    const input = screen.getByTestId('conversation-rename-input');
+    fireEvent.change(input, { target: { value: 'Renamed chat' } });
+    fireEvent.submit(input.closest('form')!);
+
+    expect(defaultProps.onRenameConversation).toHaveBeenCalledWith('conv-2', 'Renamed chat');
+    expect(screen.queryByTestId('conversation-rename-input')).not.toBeInTheDocument();
+  });
+
+  test('cancels renaming on Escape', () => {
+    render(<ConversationSidebar {...defaultProps} />);
+    fireEvent.click(screen.getByTestId('rename-conversation-conv-2'));
+
+    const input = screen.getByTestId('conversation-rename-input');
+    fireEvent.change(input, { target: { value: 'Renamed chat' } });
+    fireEvent.keyDown(input, { key: 'Escape' });
+
+    expect(defaultProps.onRenameConversation).not.toHaveBeenCalled();
+    expect(screen.getByText('Second chat')).toBeInTheDocument();
+  });
+
+  test('deletes a conversation after confirmation', () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<ConversationSidebar {...defaultProps} />);
+
+    fireEvent.click(screen.getByTestId('delete-conversation-conv-2'));
+    expect(defaultProps.onDeleteConversation).toHaveBeenCalledWith('conv-2');
+  });
+
+  test('does not delete when confirmation is cancelled', () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(false);
+    render(<ConversationSidebar {...defaultProps} />);
+
+    fireEvent.click(screen.getByTestId('delete-conversation-conv-2'));
+    expect(defaultProps.onDeleteConversation).not.toHaveBeenCalled();
+  });
+
+  test('disables switching and deleting when disabled', () => {
+    render(<ConversationSidebar {...defaultProps} disabled={true} />);
+    expect(screen.getByText('Second chat')).toBeDisabled();
+    expect(screen.getByTestId('delete-conversation-conv-2')).toBeDisabled();
+    expect(screen.getByTestId('new-conversation-button')).toBeDisabled();
+  });
+});
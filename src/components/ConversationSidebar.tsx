@@ -0,0 +1,173 @@
+import { useState, useCallback, type FormEvent, type KeyboardEvent } from 'react';
+import type { Conversation } from '../types/chat';
+import type { Persona } from '../types/persona';
+import { DEFAULT_PERSONA } from '../types/persona';
+import './ConversationSidebar.css';
+
+interface ConversationSidebarProps {
+  /** Saved conversations, most recently updated first */
+  conversations: Conversation[];
+  /** ID of the conversation currently shown */
+  activeConversationId: string | null;
+  /** Personas a new conversation can be started with */
+  personas?: Persona[];
+  /** Callback to start a new conversation, with the persona picked for it if any */
+  onNewConversation: (persona?: Persona) => void;
+  /** Callback when a conversation is selected */
+  onSwitchConversation: (conversationId: string) => void;
+  /** Callback when a conversation is renamed */
+  onRenameConversation: (conversationId: string, title: string) => void;
+  /** Callback when a conversation is deleted */
+  onDeleteConversation: (conversationId: string) => void;
+  /** Whether switching and deleting should be blocked (e.g. while generating) */
+  disabled?: boolean;
+}
+
+/**
+ * Sidebar listing saved conversations with create, switch, rename and delete actions
+ */
+export function ConversationSidebar({
+  conversations,
+  activeConversationId,
+  personas = [],
+  onNewConversation,
+  onSwitchConversation,
+  onRenameConversation,
+  onDeleteConversation,
+  disabled = false,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [personaId, setPersonaId] = useState('');
+
+  const startRename = useCallback((conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  }, []);
+
+  const cancelRename = useCallback(() => {
+    setEditingId(null);
+    setDraftTitle('');
+  }, []);
+
+  const handleRenameSubmit = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault();
+      if (editingId && draftTitle.trim()) {
+        onRenameConversation(editingId, draftTitle.trim());
+      }
+      cancelRename();
+    },
+    [editingId, draftTitle, onRenameConversation, cancelRename]
+  );
+
+  const handleRenameKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Escape') {
+        cancelRename();
+      }
+    },
+    [cancelRename]
+  );
+
+  const handleNewConversation = useCallback(() => {
+    onNewConversation(personas.find((p) => p.id === personaId));
+  }, [personas, personaId, onNewConversation]);
+
+  const handleDelete = useCallback(
+    (conversation: Conversation) => {
+      if (!confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+        return;
+      }
+      onDeleteConversation(conversation.id);
+    },
+    [onDeleteConversation]
+  );
+
+  return (
+    <aside className="conversation-sidebar" data-testid="conversation-sidebar">
+      <button
+        className="new-conversation-button"
+        onClick={handleNewConversation}
+        disabled={disabled}
+        data-testid="new-conversation-button"
+      >
+        ＋ New chat
+      </button>
+      {personas.length > 0 && (
+        <select
+          className="new-conversation-persona"
+          value={personaId}
+          onChange={(e) => setPersonaId(e.target.value)}
+          aria-label="Persona for new chats"
+          data-testid="new-conversation-persona"
+        >
+          <option value="">
+            {DEFAULT_PERSONA.avatar} {DEFAULT_PERSONA.name}
+          </option>
+          {personas.map((persona) => (
+            <option key={persona.id} value={persona.id}>
+              {persona.avatar} {persona.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <ul className="conversation-list">
+        {conversations.map((conversation) => (
+          <li
+            key={conversation.id}
+            className={`conversation-item ${conversation.id === activeConversationId ? 'active' : ''}`}
+            data-testid={`conversation-${conversation.id}`}
+          >
+            {editingId === conversation.id ? (
+              <form className="conversation-rename-form" onSubmit={handleRenameSubmit}>
+                <input
+                  className="conversation-rename-input"
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={handleRenameKeyDown}
+                  onBlur={cancelRename}
+                  aria-label="Conversation title"
+                  autoFocus
+                  data-testid="conversation-rename-input"
+                />
+              </form>
+            ) : (
+              <>
+                <button
+                  className="conversation-title"
+                  onClick={() => onSwitchConversation(conversation.id)}
+                  disabled={disabled}
+                  title={conversation.title}
+                >
+                  {conversation.title}
+                </button>
+                <div className="conversation-actions">
+                  <button
+                    className="conversation-action"
+                    onClick={() => startRename(conversation)}
+                    aria-label={`Rename ${conversation.title}`}
+                    data-testid={`rename-conversation-${conversation.id}`}
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    className="conversation-action"
+                    onClick={() => handleDelete(conversation)}
+                    disabled={disabled}
+                    aria-label={`Delete ${conversation.title}`}
+                    data-testid={`delete-conversation-${conversation.id}`}
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
+
+export default ConversationSidebar;
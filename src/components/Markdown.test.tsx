@@ -0,0 +1,98 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { Markdown } from './Markdown';
+
+describe('Markdown', () => {
+  test('renders headings, lists, emphasis and tables', () => {
+    render(
+      <Markdown
+        content={[
+          '## Steps',
+          '',
+          '1. **Install** the app',
+          '2. Run it',
+          '',
+          '| Name | Size |',
+          '| ---- | ---- |',
+          '| Tiny | 1B   |',
+        ].join('\n')}
+      />
+    );
+
+    expect(screen.getByRole('heading', { level: 2 })).toHaveTextContent('Steps');
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+    expect(screen.getByText('Install').tagName).toBe('STRONG');
+    expect(screen.getByRole('table')).toHaveTextContent('Tiny');
+  });
+
+  test('shows raw HTML as text instead of rendering it', () => {
+    const { container } = render(
+      <Markdown content={'Hello <img src="x" onerror="alert(1)"> <script>alert(1)</script>'} />
+    );
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('script')).toBeNull();
+    expect(container).toHaveTextContent('<script>alert(1)</script>');
+  });
+
+  test('drops unsafe link targets and opens links in a new tab', () => {
+    render(<Markdown content="[safe](https://example.com) [unsafe](javascript:alert(1))" />);
+
+    expect(screen.getByText('safe')).toHaveAttribute('href', 'https://example.com');
+    expect(screen.getByText('safe')).toHaveAttribute('target', '_blank');
+    expect(screen.getByText('unsafe')).not.toHaveAttribute('href', 'javascript:alert(1)');
+  });
+
+  test('shows remote images as links instead of loading them', () => {
+    const { container } = render(
+      <Markdown content="![chart](https://example.com/log?q=secret) ![](https://example.com/x.png)" />
+    );
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(screen.getByText('🖼️ chart')).toHaveAttribute(
+      'href',
+      'https://example.com/log?q=secret'
+    );
+    expect(screen.getByText('🖼️ https://example.com/x.png')).toHaveAttribute('target', '_blank');
+  });
+
+  test('renders fenced code as a code block with its language', () => {
+    render(<Markdown content={'```python\nprint("hi")\n```'} />);
+
+    expect(screen.getByTestId('code-language')).toHaveTextContent('python');
+    expect(screen.getByTestId('code-block')).toHaveTextContent('print("hi")');
+  });
+
+  test('closes formatting left open while streaming', () => {
+    const { rerender } = render(<Markdown content="Some **bold text" streaming />);
+    expect(screen.getByText('bold text').tagName).toBe('STRONG');
+
+    rerender(<Markdown content={'Code:\n\n```js\nconst x = 1;'} streaming />);
+    expect(screen.getByTestId('code-block')).toHaveTextContent('const x = 1;');
+  });
+
+  test('typesets inline and display math', async () => {
+    render(<Markdown content={'Euler: $e^{i\\pi} + 1 = 0$\n\n$$\na^2 + b^2 = c^2\n$$'} />);
+
+    const formulas = await screen.findAllByTestId('math');
+    expect(formulas.map((formula) => formula.tagName)).toEqual(['SPAN', 'DIV']);
+  });
+
+  test('shows diagrams as code until the message is complete', () => {
+    render(<Markdown content={'```mermaid\ngraph TD; A-->B\n```'} streaming />);
+
+    expect(screen.getByTestId('code-language')).toHaveTextContent('mermaid');
+  });
+
+  test('offers to run JavaScript blocks once the message is complete', () => {
+    const onRunCode = vi.fn().mockResolvedValue(undefined);
+    const content = '```js\nconsole.log(1)\n```\n\n```python\nprint(1)\n```';
+    const { rerender } = render(<Markdown content={content} onRunCode={onRunCode} />);
+
+    expect(screen.getAllByTestId('code-block')).toHaveLength(2);
+    expect(screen.getAllByTestId('run-code')).toHaveLength(1);
+
+    rerender(<Markdown content={content} onRunCode={onRunCode} streaming />);
+    expect(screen.queryByTestId('run-code')).toBeNull();
+  });
+});
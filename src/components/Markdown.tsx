@@ -0,0 +1,123 @@
+import { useMemo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import type { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { closeOpenMarkdown } from '../utils/markdown';
+import { CodeBlock } from './CodeBlock';
+import { MathFormula } from './MathFormula';
+import { MermaidDiagram } from './MermaidDiagram';
+import './Markdown.css';
+
+/** Markdown plugins: GitHub-style tables, task lists and strikethrough, and $…$ / $$…$$ math */
+const remarkPlugins = [remarkGfm, remarkMath];
+
+/** Image sources that stay on the device; any other image would be fetched from the network */
+const LOCAL_IMAGE_SOURCE = /^(?:data:image\/|blob:)/i;
+
+/** Code block languages that can be run */
+const RUNNABLE_LANGUAGES = new Set(['js', 'javascript']);
+
+/**
+ * Elements rendered by the app instead of plain HTML
+ * @param streaming Whether the message is still arriving, so diagrams wait until it is complete
+ * @param onRunCode Runs a JavaScript block; without it, code blocks have no Run button
+ */
+function createComponents(
+  streaming: boolean,
+  onRunCode?: (code: string) => Promise<void>
+): Components {
+  return {
+    pre({ node, children }) {
+      const code = node?.children[0];
+      if (code?.type !== 'element' || code.tagName !== 'code') {
+        return <pre>{children}</pre>;
+      }
+      const classNames = Array.isArray(code.properties.className) ? code.properties.className : [];
+      const language = classNames
+        .map(String)
+        .find((name) => name.startsWith('language-'))
+        ?.slice('language-'.length);
+      const text = code.children
+        .map((child) => (child.type === 'text' ? child.value : ''))
+        .join('')
+        .replace(/\n$/, '');
+
+      if (language === 'math') {
+        return <MathFormula source={text} display streaming={streaming} />;
+      }
+      if (language === 'mermaid' && !streaming) {
+        return <MermaidDiagram source={text} />;
+      }
+      const canRun = !streaming && language !== undefined && RUNNABLE_LANGUAGES.has(language);
+      return <CodeBlock code={text} language={language} onRun={canRun ? onRunCode : undefined} />;
+    },
+    code({ className, children }) {
+      if (className?.split(' ').includes('math-inline')) {
+        return <MathFormula source={String(children)} streaming={streaming} />;
+      }
+      return <code className={className}>{children}</code>;
+    },
+    a({ href, children }) {
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer">
+          {children}
+        </a>
+      );
+    },
+    img({ src, alt }) {
+      if (typeof src === 'string' && LOCAL_IMAGE_SOURCE.test(src)) {
+        return <img src={src} alt={alt} />;
+      }
+      // Loading it would tell the image's host about the chat, and could leak text put in its URL
+      const label = `🖼️ ${alt || src || 'Image'}`;
+      return src ? (
+        <a
+          href={src}
+          target="_blank"
+          rel="noopener noreferrer"
+          title="Image not loaded: opens in a new tab"
+        >
+          {label}
+        </a>
+      ) : (
+        <span>{label}</span>
+      );
+    },
+  };
+}
+
+const components = createComponents(false);
+const streamingComponents = createComponents(true);
+
+interface MarkdownProps {
+  /** Markdown source; raw HTML in it is shown as text */
+  content: string;
+  /** Whether more text is still arriving, so open formatting is closed early */
+  streaming?: boolean;
+  /** Runs a JavaScript code block; without it, code blocks cannot be run */
+  onRunCode?: (code: string) => Promise<void>;
+}
+
+/**
+ * Rendered Markdown, with code, math and diagrams
+ */
+export function Markdown({ content, streaming = false, onRunCode }: MarkdownProps) {
+  const runnableComponents = useMemo(
+    () => (onRunCode ? createComponents(false, onRunCode) : components),
+    [onRunCode]
+  );
+
+  return (
+    <div className="markdown" data-testid="markdown">
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        components={streaming ? streamingComponents : runnableComponents}
+      >
+        {streaming ? closeOpenMarkdown(content) : content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+export default Markdown;
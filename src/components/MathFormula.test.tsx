@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MathFormula } from './MathFormula';
+
+describe('MathFormula', () => {
+  test('typesets an inline formula once the typesetter has loaded', async () => {
+    render(<MathFormula source="x^2" />);
+
+    const formula = await screen.findByTestId('math');
+    expect(formula.tagName).toBe('SPAN');
+    expect(formula.querySelector('.katex')).not.toBeNull();
+  });
+
+  test('typesets a display formula on its own line', async () => {
+    render(<MathFormula source="\int_0^1 x\,dx" display />);
+
+    const formula = await screen.findByTestId('math');
+    expect(formula.tagName).toBe('DIV');
+    expect(formula.querySelector('.katex-display')).not.toBeNull();
+  });
+
+  test('shows the source with an error when the formula does not parse', async () => {
+    render(<MathFormula source="\frac{1" />);
+
+    expect(await screen.findByTestId('math-error')).toHaveTextContent('KaTeX parse error');
+    expect(screen.getByText('$\\frac{1$')).toBeInTheDocument();
+  });
+
+  test('does not show errors while the formula is still streaming in', async () => {
+    render(<MathFormula source="x^2" />);
+    await screen.findByTestId('math');
+
+    render(<MathFormula source="\frac{1" streaming />);
+
+    expect(screen.getByText('$\\frac{1$')).toBeInTheDocument();
+    expect(screen.queryByTestId('math-error')).not.toBeInTheDocument();
+  });
+
+  test('keeps links and scripts out of formulas', async () => {
+    const { container } = render(<MathFormula source="\href{javascript:alert(1)}{x}" />);
+
+    await screen.findByTestId('math');
+    expect(container.querySelector('a')).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import type { KatexOptions } from 'katex';
+import './MathFormula.css';
+
+type Katex = typeof import('katex').default;
+
+/** The typesetter, once loaded; it is only fetched when a message contains math */
+let katex: Katex | null = null;
+let loadingKatex: Promise<Katex> | null = null;
+
+/**
+ * Load the typesetter and its stylesheet
+ */
+function loadKatex(): Promise<Katex> {
+  loadingKatex ??= Promise.all([import('katex'), import('katex/dist/katex.min.css')]).then(
+    ([module]) => {
+      katex = module.default;
+      return katex;
+    }
+  );
+  return loadingKatex;
+}
+
+interface MathFormulaProps {
+  /** LaTeX source, without the surrounding dollar signs */
+  source: string;
+  /** Whether the formula sits on its own line ($$…$$) rather than inline ($…$) */
+  display?: boolean;
+  /** Whether the message is still streaming in, so errors are expected and not shown */
+  streaming?: boolean;
+}
+
+/**
+ * LaTeX formula typeset with KaTeX, falling back to its source when it cannot be
+ */
+export function MathFormula({ source, display = false, streaming = false }: MathFormulaProps) {
+  const [loaded, setLoaded] = useState(katex !== null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (loaded) {
+      return;
+    }
+    let cancelled = false;
+    loadKatex().then(
+      () => {
+        if (!cancelled) {
+          setLoaded(true);
+        }
+      },
+      (err) => {
+        console.error('Failed to load the math renderer:', err);
+        if (!cancelled) {
+          setLoadError('Math could not be loaded');
+        }
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [loaded]);
+
+  let html: string | null = null;
+  let error = loadError;
+  if (loaded && katex) {
+    try {
+      // Commands that could add links or run code (\href, \htmlData, …) stay disabled
+      const options: KatexOptions = { displayMode: display, throwOnError: true, trust: false };
+      html = katex.renderToString(source, options);
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Invalid formula';
+    }
+  }
+
+  const Wrapper = display ? 'div' : 'span';
+  const className = display ? 'math math-display' : 'math math-inline';
+  if (html !== null) {
+    return (
+      <Wrapper
+        className={className}
+        data-testid="math"
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    );
+  }
+
+  return (
+    <Wrapper className={`${className} math-source`}>
+      <code>{display ? `$$${source}$$` : `$${source}$`}</code>
+      {error && !streaming && (
+        <span className="math-error" data-testid="math-error">
+          ⚠️ {error}
+        </span>
+      )}
+    </Wrapper>
+  );
+}
+
+export default MathFormula;
@@ -0,0 +1,40 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MermaidDiagram } from './MermaidDiagram';
+
+// jsdom cannot lay out SVG, so the renderer itself is mocked
+const mermaid = vi.hoisted(() => ({
+  initialize: vi.fn(),
+  parse: vi.fn(),
+  render: vi.fn(),
+}));
+vi.mock('mermaid', () => ({ default: mermaid }));
+
+describe('MermaidDiagram', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('renders the diagram as SVG in strict mode', async () => {
+    mermaid.parse.mockResolvedValue(true);
+    mermaid.render.mockResolvedValue({ svg: '<svg data-testid="diagram-svg"></svg>' });
+
+    render(<MermaidDiagram source="graph TD; A-->B" />);
+
+    expect(await screen.findByTestId('diagram-svg')).toBeInTheDocument();
+    expect(mermaid.render).toHaveBeenCalledWith(
+      expect.stringMatching(/^mermaid-[a-zA-Z0-9-]+$/),
+      'graph TD; A-->B'
+    );
+  });
+
+  test('shows the source with an error when the diagram does not parse', async () => {
+    mermaid.parse.mockRejectedValue(new Error('Parse error on line 1'));
+
+    render(<MermaidDiagram source="graph ??" />);
+
+    expect(await screen.findByTestId('mermaid-error')).toHaveTextContent('Parse error on line 1');
+    expect(screen.getByText('graph ??')).toBeInTheDocument();
+    expect(mermaid.render).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { useEffect, useId, useState } from 'react';
+import type { Mermaid } from 'mermaid';
+import './MermaidDiagram.css';
+
+let loadingMermaid: Promise<Mermaid> | null = null;
+
+/**
+ * Load the diagram renderer; it is only fetched when a message contains a diagram
+ */
+function loadMermaid(): Promise<Mermaid> {
+  loadingMermaid ??= import('mermaid').then(({ default: mermaid }) => {
+    const light = window.matchMedia?.('(prefers-color-scheme: light)').matches;
+    // Strict mode sanitizes labels and disables click handlers in diagrams
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: 'strict',
+      theme: light ? 'default' : 'dark',
+    });
+    return mermaid;
+  });
+  return loadingMermaid;
+}
+
+interface MermaidDiagramProps {
+  /** Mermaid source of the diagram */
+  source: string;
+}
+
+/**
+ * Mermaid diagram rendered as SVG, falling back to its source when it cannot be
+ */
+export function MermaidDiagram({ source }: MermaidDiagramProps) {
+  // Mermaid uses the id in selectors, so it may only contain safe characters
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9-]/g, '')}`;
+  const [result, setResult] = useState<{ svg: string } | { error: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMermaid()
+      .then(async (mermaid) => {
+        // Parsing first keeps mermaid from leaving an error graphic in the page
+        await mermaid.parse(source);
+        return mermaid.render(id, source);
+      })
+      .then(
+        ({ svg }) => {
+          if (!cancelled) {
+            setResult({ svg });
+          }
+        },
+        (err) => {
+          if (!cancelled) {
+            setResult({ error: err instanceof Error ? err.message : 'Invalid diagram' });
+          }
+        }
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [id, source]);
+
+  if (result && 'svg' in result) {
+    return (
+      <div
+        className="mermaid-diagram"
+        data-testid="mermaid-diagram"
+        dangerouslySetInnerHTML={{ __html: result.svg }}
+      />
+    );
+  }
+
+  return (
+    <div className="mermaid-diagram mermaid-source">
+      <pre>
+        <code>{source}</code>
+      </pre>
+      {result && (
+        <div className="mermaid-error" data-testid="mermaid-error">
+          ⚠️ {result.error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MermaidDiagram;
@@ -0,0 +1,123 @@
+import { describe, test, expect } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MessageList } from './MessageList';
+import type { ChatMessage } from '../types/chat';
+
+const conversation = (length: number): ChatMessage[] =>
+  Array.from({ length }, (_, i) => ({
+    id: `msg-${i}`,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `Message ${i}`,
+    timestamp: new Date(2024, 0, 1, 10, i),
+  }));
+
+const renderMessage = (message: ChatMessage) => <p>{message.content}</p>;
+
+/**
+ * Give the list a size, as jsdom does no layout, and scroll it
+ */
+const scrollList = (scrollTop: number, scrollHeight = 120_000) => {
+  const list = screen.getByTestId('messages-list');
+  Object.defineProperty(list, 'clientHeight', { value: 600, configurable: true });
+  Object.defineProperty(list, 'scrollHeight', { value: scrollHeight, configurable: true });
+  list.scrollTop = scrollTop;
+  fireEvent.scroll(list);
+  return list;
+};
+
+describe('MessageList', () => {
+  test('renders only the latest messages of a long conversation', () => {
+    render(<MessageList messages={conversation(1000)} renderMessage={renderMessage} />);
+
+    expect(screen.getByText('Message 999')).toBeInTheDocument();
+    expect(screen.queryByText('Message 0')).not.toBeInTheDocument();
+    expect(screen.getAllByRole('paragraph').length).toBeLessThan(30);
+    expect(screen.queryByTestId('jump-to-latest')).not.toBeInTheDocument();
+  });
+
+  test('renders the messages scrolled to and offers a jump back to the latest', async () => {
+    const user = userEvent.setup();
+    render(<MessageList messages={conversation(1000)} renderMessage={renderMessage} />);
+
+    const list = scrollList(0);
+
+    expect(screen.getByText('Message 0')).toBeInTheDocument();
+    expect(screen.queryByText('Message 999')).not.toBeInTheDocument();
+
+    await user.click(screen.getByTestId('jump-to-latest'));
+
+    expect(screen.getByText('Message 999')).toBeInTheDocument();
+    expect(list.scrollTop).toBe(120_000);
+    expect(screen.queryByTestId('jump-to-latest')).not.toBeInTheDocument();
+  });
+
+  test('follows new messages while scrolled to the bottom', () => {
+    const messages = conversation(10);
+    const { rerender } = render(<MessageList messages={messages} renderMessage={renderMessage} />);
+    const list = scrollList(600, 1200);
+
+    Object.defineProperty(list, 'scrollHeight', { value: 1320, configurable: true });
+    rerender(<MessageList messages={conversation(11)} renderMessage={renderMessage} />);
+
+    expect(list.scrollTop).toBe(1320);
+  });
+
+  test('keeps the scroll position when messages arrive while scrolled up', () => {
+    const messages = conversation(10);
+    const { rerender } = render(<MessageList messages={messages} renderMessage={renderMessage} />);
+    const list = scrollList(200, 1200);
+
+    Object.defineProperty(list, 'scrollHeight', { value: 1320, configurable: true });
+    rerender(<MessageList messages={conversation(11)} renderMessage={renderMessage} />);
+
+    expect(list.scrollTop).toBe(200);
+    expect(screen.getByTestId('jump-to-latest')).toBeInTheDocument();
+  });
+
+  test('scrolls to and highlights a requested message', () => {
+    const messages = conversation(1000);
+    const { rerender } = render(<MessageList messages={messages} renderMessage={renderMessage} />);
+
+    rerender(
+      <MessageList
+        messages={messages}
+        renderMessage={renderMessage}
+        scrollTarget={{ messageId: 'msg-10' }}
+      />
+    );
+
+    const list = screen.getByTestId('messages-list');
+    expect(list.scrollTop).toBe(10 * 120);
+    expect(screen.getByText('Message 10').parentElement).toHaveClass('highlighted');
+    expect(screen.queryByText('Message 999')).not.toBeInTheDocument();
+    expect(screen.getByTestId('jump-to-latest')).toBeInTheDocument();
+  });
+
+  test('waits for a requested message to arrive before scrolling to it', () => {
+    const target = { messageId: 'msg-5' };
+    const { rerender } = render(
+      <MessageList messages={[]} renderMessage={renderMessage} scrollTarget={target} />
+    );
+
+    rerender(
+      <MessageList
+        messages={conversation(1000)}
+        renderMessage={renderMessage}
+        scrollTarget={target}
+      />
+    );
+
+    expect(screen.getByText('Message 5').parentElement).toHaveClass('highlighted');
+  });
+
+  test('shows content after the messages', () => {
+    render(
+      <MessageList messages={conversation(2)} renderMessage={renderMessage}>
+        <div data-testid="after-messages" />
+      </MessageList>
+    );
+
+    expect(screen.getByTestId('after-messages')).toBeInTheDocument();
+  });
+});
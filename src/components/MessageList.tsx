@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { ChatMessage } from '../types/chat';
+import { getItemOffsets, getVisibleRange, isScrolledToBottom } from '../utils/virtualList';
+import './MessageList.css';
+
+/** Height assumed for a message until it has been measured, in pixels */
+const ESTIMATED_MESSAGE_HEIGHT = 120;
+
+/** Height rendered beyond each edge of the viewport, so scrolling does not show gaps */
+const OVERSCAN = 800;
+
+interface MessageListProps {
+  /** Messages to show, oldest first */
+  messages: ChatMessage[];
+  /** Render a message; `index` is its position in `messages` */
+  renderMessage: (message: ChatMessage, index: number) => ReactNode;
+  /** Content shown after the messages (e.g. the prompt queue) */
+  children?: ReactNode;
+  /** Message to scroll to and highlight; pass a new object to scroll to it again */
+  scrollTarget?: ScrollTarget | null;
+}
+
+/**
+ * A request to bring a message into view
+ */
+export interface ScrollTarget {
+  messageId: string;
+}
+
+/**
+ * Scrolling list of chat messages that only renders the ones on screen
+ * Follows new messages while scrolled to the bottom and offers a way back there otherwise
+ */
+export function MessageList({
+  messages,
+  renderMessage,
+  children,
+  scrollTarget = null,
+}: MessageListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [heights, setHeights] = useState<Record<string, number>>({});
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [following, setFollowing] = useState(true);
+
+  const ids = useMemo(() => messages.map((m) => m.id), [messages]);
+  const offsets = useMemo(
+    () => getItemOffsets(ids, heights, ESTIMATED_MESSAGE_HEIGHT),
+    [ids, heights]
+  );
+  const totalHeight = offsets[offsets.length - 1];
+
+  // Scroll to a requested message once it is in the list
+  const [scrolledTo, setScrolledTo] = useState<{ target: ScrollTarget; top: number } | null>(null);
+  if (scrollTarget && scrollTarget !== scrolledTo?.target && ids.includes(scrollTarget.messageId)) {
+    const top = offsets[ids.indexOf(scrollTarget.messageId)];
+    setScrolledTo({ target: scrollTarget, top });
+    setFollowing(false);
+    setViewport((prev) => ({ ...prev, scrollTop: top }));
+  }
+  const highlightedId = scrolledTo?.target.messageId;
+
+  // Before the list has been laid out, assume it fills the window
+  const viewportHeight = viewport.height || window.innerHeight;
+  const top = following ? totalHeight - viewportHeight : viewport.scrollTop;
+  const { start, end } = getVisibleRange(offsets, top - OVERSCAN, top + viewportHeight + OVERSCAN);
+
+  // Latest layout, for measurements that arrive between renders
+  const layoutRef = useRef({ ids, offsets, heights, following });
+  useLayoutEffect(() => {
+    layoutRef.current = { ids, offsets, heights, following };
+  });
+
+  /**
+   * Record the heights of rendered messages as they change
+   */
+  const measureMessage = useCallback((element: HTMLDivElement) => {
+    // Estimates are kept where sizes cannot be observed
+    if (typeof ResizeObserver === 'undefined') {
+      return;
+    }
+    observerRef.current ??= new ResizeObserver((entries) => {
+      const container = containerRef.current;
+      const { ids, offsets, heights, following } = layoutRef.current;
+      const changes: Record<string, number> = {};
+      let shift = 0;
+
+      for (const entry of entries) {
+        const target = entry.target as HTMLElement;
+        const id = target.dataset.messageId!;
+        const height = target.offsetHeight;
+        const previous = heights[id] ?? ESTIMATED_MESSAGE_HEIGHT;
+        if (height === previous) {
+          continue;
+        }
+        changes[id] = height;
+        // A message above the viewport changing size would otherwise move what is being read
+        const index = ids.indexOf(id);
+        if (container && !following && index !== -1 && offsets[index] < container.scrollTop) {
+          shift += height - previous;
+        }
+      }
+
+      if (Object.keys(changes).length === 0) {
+        return;
+      }
+      if (container && shift !== 0) {
+        container.scrollTop += shift;
+      }
+      setHeights((prev) => ({ ...prev, ...changes }));
+    });
+
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Track the viewport as the window is resized
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') {
+      return;
+    }
+    const observer = new ResizeObserver(() => {
+      setViewport((prev) => ({ ...prev, height: container.clientHeight }));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Stay at the bottom while following, as messages arrive and grow
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (following && container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [following, messages, totalHeight, viewportHeight, children]);
+
+  useLayoutEffect(() => {
+    if (scrolledTo && containerRef.current) {
+      containerRef.current.scrollTop = scrolledTo.top;
+    }
+  }, [scrolledTo]);
+
+  const handleScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const { scrollTop, clientHeight, scrollHeight } = container;
+    setViewport({ scrollTop, height: clientHeight });
+    setFollowing(isScrolledToBottom(scrollTop, clientHeight, scrollHeight));
+  }, []);
+
+  const jumpToLatest = useCallback(() => {
+    setFollowing(true);
+  }, []);
+
+  return (
+    <div className="message-list">
+      <div
+        ref={containerRef}
+        className="messages-list"
+        onScroll={handleScroll}
+        data-testid="messages-list"
+      >
+        <div style={{ height: offsets[start] }} aria-hidden="true" />
+        {messages.slice(start, end).map((message, i) => (
+          <div
+            key={message.id}
+            ref={measureMessage}
+            className={`message-list-item ${message.id === highlightedId ? 'highlighted' : ''}`}
+            data-message-id={message.id}
+          >
+            {renderMessage(message, start + i)}
+          </div>
+        ))}
+        <div style={{ height: totalHeight - offsets[end] }} aria-hidden="true" />
+        {children}
+      </div>
+      {!following && messages.length > 0 && (
+        <button className="jump-to-latest" onClick={jumpToLatest} data-testid="jump-to-latest">
+          ↓ Jump to latest
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default MessageList;
@@ -44,6 +44,7 @@ describe('ModelSelector', () => {
       description: 'Medium model with better reasoning capabilities',
       lowResource: true,
       shaderType: 'f16',
+      contextWindowSize: 4096,
     });
   });
 
@@ -0,0 +1,50 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PromptQueue } from './PromptQueue';
+import type { QueuedPrompt } from '../types/chat';
+
+describe('PromptQueue', () => {
+  const queue: QueuedPrompt[] = [
+    { id: 'q1', content: 'First follow-up' },
+    { id: 'q2', content: 'Second follow-up' },
+  ];
+
+  test('renders nothing when the queue is empty', () => {
+    render(<PromptQueue queue={[]} onCancel={vi.fn()} onMove={vi.fn()} />);
+    expect(screen.queryByTestId('prompt-queue')).not.toBeInTheDocument();
+  });
+
+  test('lists queued prompts in order', () => {
+    render(<PromptQueue queue={queue} onCancel={vi.fn()} onMove={vi.fn()} />);
+
+    expect(screen.getByTestId('prompt-queue')).toHaveTextContent('Queued (2)');
+    const items = screen.getAllByRole('listitem');
+    expect(items[0]).toHaveTextContent('First follow-up');
+    expect(items[1]).toHaveTextContent('Second follow-up');
+  });
+
+  test('moves prompts within the queue', async () => {
+    const user = userEvent.setup();
+    const onMove = vi.fn();
+    render(<PromptQueue queue={queue} onCancel={vi.fn()} onMove={onMove} />);
+
+    expect(screen.getByTestId('move-up-q1')).toBeDisabled();
+    expect(screen.getByTestId('move-down-q2')).toBeDisabled();
+    await user.click(screen.getByTestId('move-down-q1'));
+    await user.click(screen.getByTestId('move-up-q2'));
+
+    expect(onMove).toHaveBeenNthCalledWith(1, 'q1', 1);
+    expect(onMove).toHaveBeenNthCalledWith(2, 'q2', -1);
+  });
+
+  test('cancels a queued prompt', async () => {
+    const user = userEvent.setup();
+    const onCancel = vi.fn();
+    render(<PromptQueue queue={queue} onCancel={onCancel} onMove={vi.fn()} />);
+
+    await user.click(screen.getByTestId('cancel-queued-q2'));
+
+    expect(onCancel).toHaveBeenCalledWith('q2');
+  });
+});
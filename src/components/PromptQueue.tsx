@@ -0,0 +1,62 @@
+import type { QueuedPrompt } from '../types/chat';
+import './PromptQueue.css';
+
+interface PromptQueueProps {
+  /** Prompts waiting to be sent, next first */
+  queue: QueuedPrompt[];
+  /** Callback to remove a prompt without sending it */
+  onCancel: (promptId: string) => void;
+  /** Callback to move a prompt `offset` places in the queue */
+  onMove: (promptId: string, offset: number) => void;
+}
+
+/**
+ * List of prompts that will be sent one by one once the current reply is done
+ */
+export function PromptQueue({ queue, onCancel, onMove }: PromptQueueProps) {
+  if (queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="prompt-queue" data-testid="prompt-queue">
+      <div className="prompt-queue-header">⏳ Queued ({queue.length})</div>
+      <ol className="prompt-queue-list">
+        {queue.map((prompt, index) => (
+          <li key={prompt.id} className="queued-prompt" data-testid={`queued-${prompt.id}`}>
+            <span className="queued-prompt-text" title={prompt.content}>
+              {prompt.content}
+            </span>
+            <span className="queued-prompt-actions">
+              <button
+                onClick={() => onMove(prompt.id, -1)}
+                disabled={index === 0}
+                aria-label="Send earlier"
+                data-testid={`move-up-${prompt.id}`}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => onMove(prompt.id, 1)}
+                disabled={index === queue.length - 1}
+                aria-label="Send later"
+                data-testid={`move-down-${prompt.id}`}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => onCancel(prompt.id)}
+                aria-label="Remove from queue"
+                data-testid={`cancel-queued-${prompt.id}`}
+              >
+                ✕
+              </button>
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default PromptQueue;
@@ -0,0 +1,208 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SearchPanel } from './SearchPanel';
+import { searchMessages } from '../utils/storage';
+import type { Conversation } from '../types/chat';
+import type { SearchResult } from '../types/search';
+
+// Mock storage utilities
+vi.mock('../utils/storage', () => ({
+  searchMessages: vi.fn(),
+}));
+
+describe('SearchPanel', () => {
+  const conversations: Conversation[] = [
+    {
+      id: 'conv-1',
+      title: 'Trip planning',
+      createdAt: new Date('2024-03-01'),
+      updatedAt: new Date('2024-03-01'),
+      modelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
+    },
+  ];
+  const results: SearchResult[] = [
+    {
+      conversationId: 'conv-1',
+      message: {
+        id: 'msg-1',
+        role: 'assistant',
+        content: 'Lisbon is lovely in spring. Pack for rain in Lisbon.',
+        timestamp: new Date('2024-03-01T10:00:00'),
+        modelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
+      },
+      score: 2.5,
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(searchMessages).mockResolvedValue(results);
+  });
+
+  test('lists matches with their chat, sender and highlighted words', async () => {
+    const user = userEvent.setup();
+    render(<SearchPanel conversations={conversations} onOpen={vi.fn()} onClose={vi.fn()} />);
+
+    await user.type(screen.getByTestId('search-input'), 'lisbon');
+
+    const result = await screen.findByTestId('search-result-msg-1');
+    expect(result).toHaveTextContent('Trip planning');
+    expect(result).toHaveTextContent('Llama 3.2 1B');
+    expect([...result.querySelectorAll('mark')].map((m) => m.textContent)).toEqual([
+      'Lisbon',
+      'Lisbon',
+    ]);
+    expect(searchMessages).toHaveBeenLastCalledWith('lisbon', {});
+  });
+
+  test('waits for typing to pause before searching', async () => {
+    const user = userEvent.setup();
+    render(<SearchPanel conversations={conversations} onOpen={vi.fn()} onClose={vi.fn()} />);
+
+    await user.type(screen.getByTestId('search-input'), 'lisbon');
+
+    await screen.findByTestId('search-result-msg-1');
+    expect(searchMessages).toHaveBeenCalledTimes(1);
+  });
+
+  test('passes the chosen filters to the search', async () => {
+    const user = userEvent.setup();
+    render(<SearchPanel conversations={conversations} onOpen={vi.fn()} onClose={vi.fn()} />);
+
+    await user.selectOptions(screen.getByTestId('search-role'), 'assistant');
+    await user.selectOptions(
+      screen.getByTestId('search-model'),
+      'Llama-3.2-1B-Instruct-q4f32_1-MLC'
+    );
+    await user.type(screen.getByTestId('search-from'), '2024-03-01');
+    await user.type(screen.getByTestId('search-to'), '2024-03-31');
+    await user.type(screen.getByTestId('search-input'), 'rain');
+
+    await waitFor(() => {
+      expect(searchMessages).toHaveBeenLastCalledWith('rain', {
+        role: 'assistant',
+        modelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
+        from: new Date(2024, 2, 1),
+        to: new Date(2024, 3, 1),
+      });
+    });
+  });
+
+  test('says when nothing matches', async () => {
+    const user = userEvent.setup();
+    vi.mocked(searchMessages).mockResolvedValue([]);
+    render(<SearchPanel conversations={conversations} onOpen={vi.fn()} onClose={vi.fn()} />);
+
+    expect(screen.queryByTestId('search-empty')).not.toBeInTheDocument();
+    await user.type(screen.getByTestId('search-input'), 'nothing');
+
+    expect(await screen.findByTestId('search-empty')).toBeInTheDocument();
+  });
+
+  test('opens a result and closes', async () => {
+    const user = userEvent.setup();
+    const onOpen = vi.fn();
+    const onClose = vi.fn();
+    render(<SearchPanel conversations={conversations} onOpen={onOpen} onClose={onClose} />);
+
+    await user.type(screen.getByTestId('search-input'), 'lisbon');
+    await user.click(await screen.findByTestId('search-result-msg-1'));
+    expect(onOpen).toHaveBeenCalledWith(results[0]);
+
+    await user.click(screen.getByTestId('close-search'));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  test('does not open results while disabled', async () => {
+    const user = userEvent.setup();
+    render(
+      <SearchPanel conversations={conversations} onOpen={vi.fn()} onClose={vi.fn()} disabled />
+    );
+
+    await user.type(screen.getByTestId('search-input'), 'lisbon');
+
+    expect(await screen.findByTestId('search-result-msg-1')).toBeDisabled();
+  });
+
+  test('only offers searching by meaning when it is available', () => {
+    render(<SearchPanel conversations={conversations} onOpen={vi.fn()} onClose={vi.fn()} />);
+
+    expect(screen.queryByTestId('search-mode-meaning')).not.toBeInTheDocument();
+  });
+
+  test('searches by meaning', async () => {
+    const user = userEvent.setup();
+    const onSearchByMeaning = vi.fn().mockResolvedValue(results);
+    render(
+      <SearchPanel
+        conversations={conversations}
+        onOpen={vi.fn()}
+        onClose={vi.fn()}
+        onSearchByMeaning={onSearchByMeaning}
+      />
+    );
+
+    await user.click(screen.getByTestId('search-mode-meaning'));
+    await user.selectOptions(screen.getByTestId('search-role'), 'assistant');
+    await user.type(screen.getByTestId('search-input'), 'weather in Portugal');
+
+    expect(await screen.findByTestId('search-result-msg-1')).toBeInTheDocument();
+    expect(onSearchByMeaning).toHaveBeenLastCalledWith('weather in Portugal', {
+      role: 'assistant',
+    });
+    expect(searchMessages).not.toHaveBeenCalled();
+  });
+
+  test('says when searching by meaning is not available', async () => {
+    const user = userEvent.setup();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(
+      <SearchPanel
+        conversations={conversations}
+        onOpen={vi.fn()}
+        onClose={vi.fn()}
+        onSearchByMeaning={vi.fn().mockRejectedValue(new Error('No WebGPU'))}
+      />
+    );
+
+    await user.click(screen.getByTestId('search-mode-meaning'));
+    await user.type(screen.getByTestId('search-input'), 'weather');
+
+    expect(await screen.findByTestId('search-error')).toHaveTextContent(
+      'Searching by meaning is not available right now.'
+    );
+    expect(screen.queryByTestId('search-pending')).not.toBeInTheDocument();
+    consoleError.mockRestore();
+  });
+
+  test('lists the messages similar to another one', async () => {
+    const user = userEvent.setup();
+    const onFindSimilar = vi.fn().mockResolvedValue(results);
+    const onClearSimilar = vi.fn();
+    render(
+      <SearchPanel
+        conversations={conversations}
+        onOpen={vi.fn()}
+        onClose={vi.fn()}
+        similarTo={{
+          id: 'msg-0',
+          role: 'user',
+          content: 'Where should I go in spring?',
+          timestamp: new Date('2024-03-01T09:00:00'),
+        }}
+        onFindSimilar={onFindSimilar}
+        onClearSimilar={onClearSimilar}
+      />
+    );
+
+    expect(screen.getByTestId('search-similar')).toHaveTextContent('Where should I go in spring?');
+    expect(screen.queryByTestId('search-input')).not.toBeInTheDocument();
+    expect(screen.getByTestId('search-pending')).toBeInTheDocument();
+    expect(await screen.findByTestId('search-result-msg-1')).toBeInTheDocument();
+    expect(onFindSimilar).toHaveBeenCalledWith('msg-0', {});
+
+    await user.click(screen.getByTestId('clear-similar'));
+    expect(onClearSimilar).toHaveBeenCalled();
+  });
+});
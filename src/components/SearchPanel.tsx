@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ChatMessage, Conversation } from '../types/chat';
+import type { SearchFilters, SearchResult } from '../types/search';
+import { AVAILABLE_MODELS, getModelById } from '../utils/models';
+import { createSnippet } from '../utils/search';
+import { searchMessages } from '../utils/storage';
+import './SearchPanel.css';
+
+/**
+ * Pause in typing before a search runs
+ */
+const SEARCH_DEBOUNCE_MS = 200;
+
+interface SearchPanelProps {
+  /** Saved conversations, for the titles of results */
+  conversations: Conversation[];
+  /** Show a result in its conversation */
+  onOpen: (result: SearchResult) => void;
+  onClose: () => void;
+  /** Whether opening results should be blocked (e.g. while generating) */
+  disabled?: boolean;
+  /** Find messages by meaning rather than words; offered as a search mode when given */
+  onSearchByMeaning?: (query: string, filters: SearchFilters) => Promise<SearchResult[]>;
+  /** Message to show similar messages for, in place of a query */
+  similarTo?: ChatMessage | null;
+  /** Find the messages closest in meaning to `similarTo` */
+  onFindSimilar?: (messageId: string, filters: SearchFilters) => Promise<SearchResult[]>;
+  /** Go back to searching by query */
+  onClearSimilar?: () => void;
+}
+
+type SearchMode = 'words' | 'meaning';
+
+/**
+ * Turn the date inputs into a time range covering whole days
+ */
+function toDateRange(from: string, to: string): Pick<SearchFilters, 'from' | 'to'> {
+  const range: Pick<SearchFilters, 'from' | 'to'> = {};
+  if (from) {
+    range.from = new Date(`${from}T00:00`);
+  }
+  if (to) {
+    range.to = new Date(`${to}T00:00`);
+    range.to.setDate(range.to.getDate() + 1);
+  }
+  return range;
+}
+
+/**
+ * Side panel searching the messages of every saved conversation, by words or by meaning
+ */
+export function SearchPanel({
+  conversations,
+  onOpen,
+  onClose,
+  disabled = false,
+  onSearchByMeaning,
+  similarTo = null,
+  onFindSimilar,
+  onClearSimilar,
+}: SearchPanelProps) {
+  const [mode, setMode] = useState<SearchMode>('words');
+  const [query, setQuery] = useState('');
+  const [role, setRole] = useState<SearchFilters['role'] | ''>('');
+  const [modelId, setModelId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState<{
+    key: string;
+    query: string;
+    results: SearchResult[];
+    failed?: boolean;
+  } | null>(null);
+
+  const titles = useMemo(() => new Map(conversations.map((c) => [c.id, c.title])), [conversations]);
+  const trimmedQuery = query.trim();
+  const findingSimilar = similarTo !== null && onFindSimilar !== undefined;
+  const byMeaning = mode === 'meaning' && onSearchByMeaning !== undefined;
+  const active = findingSimilar || trimmedQuery !== '';
+  // Identifies a search, so the results on screen can be told apart from the ones asked for
+  const searchKey = JSON.stringify([
+    findingSimilar ? similarTo.id : trimmedQuery,
+    findingSimilar || byMeaning,
+    role,
+    modelId,
+    from,
+    to,
+  ]);
+
+  // Search once typing pauses; a newer search replaces results that arrive late
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const filters: SearchFilters = {
+        ...(role && { role }),
+        ...(modelId && { modelId }),
+        ...toDateRange(from, to),
+      };
+      const query = findingSimilar ? '' : trimmedQuery;
+      const request = findingSimilar
+        ? onFindSimilar(similarTo.id, filters)
+        : byMeaning
+          ? onSearchByMeaning(trimmedQuery, filters)
+          : searchMessages(trimmedQuery, filters);
+      request
+        .then((results) => {
+          if (!cancelled) {
+            setSearch({ key: searchKey, query, results });
+          }
+        })
+        .catch((err) => {
+          console.error('Failed to search messages:', err);
+          if (!cancelled) {
+            setSearch({ key: searchKey, query, results: [], failed: true });
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    active,
+    searchKey,
+    findingSimilar,
+    similarTo,
+    onFindSimilar,
+    byMeaning,
+    onSearchByMeaning,
+    trimmedQuery,
+    role,
+    modelId,
+    from,
+    to,
+  ]);
+
+  const results = active && search ? search.results : [];
+  const settled = active && search?.key === searchKey;
+
+  return (
+    <aside className="search-panel" data-testid="search-panel">
+      <div className="search-header">
+        <h3>🔍 Search chats</h3>
+        <button
+          className="search-close"
+          onClick={onClose}
+          aria-label="Close search"
+          data-testid="close-search"
+        >
+          ✕
+        </button>
+      </div>
+      {findingSimilar ? (
+        <div className="search-similar" data-testid="search-similar">
+          <span className="search-similar-label">Similar to</span>
+          <span className="search-similar-content">
+            {createSnippet(similarTo.content, '').map((part) => part.text)}
+          </span>
+          {onClearSimilar && (
+            <button
+              className="search-close"
+              onClick={onClearSimilar}
+              aria-label="Search by query instead"
+              data-testid="clear-similar"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ) : (
+        <>
+          {onSearchByMeaning && (
+            <div className="search-modes" role="group" aria-label="Search by">
+              <button
+                className={mode === 'words' ? 'active' : ''}
+                onClick={() => setMode('words')}
+                aria-pressed={mode === 'words'}
+                data-testid="search-mode-words"
+              >
+                Words
+              </button>
+              <button
+                className={mode === 'meaning' ? 'active' : ''}
+                onClick={() => setMode('meaning')}
+                aria-pressed={mode === 'meaning'}
+                title="Find messages about the same thing, even in other words"
+                data-testid="search-mode-meaning"
+              >
+                Meaning
+              </button>
+            </div>
+          )}
+          <input
+            type="search"
+            className="search-input"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={byMeaning ? 'Describe what you are looking for…' : 'Search all messages…'}
+            aria-label="Search all messages"
+            autoFocus
+            data-testid="search-input"
+          />
+        </>
+      )}
+      <div className="search-filters">
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as SearchFilters['role'] | '')}
+          aria-label="Sender"
+          data-testid="search-role"
+        >
+          <option value="">Anyone</option>
+          <option value="user">You</option>
+          <option value="assistant">Assistant</option>
+        </select>
+        <select
+          value={modelId}
+          onChange={(e) => setModelId(e.target.value)}
+          aria-label="Model"
+          data-testid="search-model"
+        >
+          <option value="">Any model</option>
+          {AVAILABLE_MODELS.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.name}
+            </option>
+          ))}
+        </select>
+        <label>
+          From
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            data-testid="search-from"
+          />
+        </label>
+        <label>
+          To
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            data-testid="search-to"
+          />
+        </label>
+      </div>
+
+      {active && !settled && (findingSimilar || byMeaning) && (
+        <p className="search-status" data-testid="search-pending">
+          Searching…
+        </p>
+      )}
+      {settled && search.failed && (
+        <p className="search-empty" data-testid="search-error">
+          {findingSimilar || byMeaning
+            ? 'Searching by meaning is not available right now.'
+            : 'Search failed.'}
+        </p>
+      )}
+      {settled && !search.failed && results.length === 0 && (
+        <p className="search-empty" data-testid="search-empty">
+          No messages match.
+        </p>
+      )}
+      <ul className="search-results">
+        {results.map((result) => {
+          const { message } = result;
+          const model = message.modelId ? getModelById(message.modelId) : undefined;
+          return (
+            <li key={message.id}>
+              <button
+                className="search-result"
+                onClick={() => onOpen(result)}
+                disabled={disabled}
+                data-testid={`search-result-${message.id}`}
+              >
+                <span className="search-result-meta">
+                  <span className="search-result-title">
+                    {titles.get(result.conversationId) ?? 'Untitled chat'}
+                  </span>
+                  <span>
+                    {message.role === 'user' ? 'You' : (model?.name ?? 'Assistant')} ·{' '}
+                    {message.timestamp.toLocaleDateString()}
+                  </span>
+                </span>
+                <span className="search-result-snippet">
+                  {createSnippet(message.content, search?.query ?? '').map((part, i) =>
+                    part.match ? <mark key={i}>{part.text}</mark> : part.text
+                  )}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+}
+
+export default SearchPanel;
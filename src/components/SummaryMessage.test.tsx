@@ -0,0 +1,66 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SummaryMessage } from './SummaryMessage';
+import type { ChatMessage } from '../types/chat';
+
+describe('SummaryMessage', () => {
+  const summary: ChatMessage = {
+    id: 'summary-1',
+    role: 'system',
+    content: 'The user is planning a trip to Lisbon.',
+    timestamp: new Date('2024-01-15T10:30:00'),
+    kind: 'summary',
+  };
+
+  test('renders the summary text', () => {
+    render(<SummaryMessage message={summary} onEdit={vi.fn()} />);
+    expect(screen.getByText('The user is planning a trip to Lisbon.')).toBeInTheDocument();
+    expect(screen.getByText(/Summary of earlier messages/)).toBeInTheDocument();
+  });
+
+  test('saves an edited summary', async () => {
+    const user = userEvent.setup();
+    const onEdit = vi.fn();
+    render(<SummaryMessage message={summary} onEdit={onEdit} />);
+
+    await user.click(screen.getByTestId('edit-summary-summary-1'));
+    const textarea = screen.getByTestId('summary-textarea');
+    expect(textarea).toHaveValue('The user is planning a trip to Lisbon.');
+
+    await user.clear(textarea);
+    await user.type(textarea, '  Trip to Porto instead.  ');
+    await user.click(screen.getByTestId('summary-save-button'));
+
+    expect(onEdit).toHaveBeenCalledWith('summary-1', 'Trip to Porto instead.');
+    expect(screen.queryByTestId('summary-textarea')).not.toBeInTheDocument();
+  });
+
+  test('cancelling leaves the summary unchanged', async () => {
+    const user = userEvent.setup();
+    const onEdit = vi.fn();
+    render(<SummaryMessage message={summary} onEdit={onEdit} />);
+
+    await user.click(screen.getByTestId('edit-summary-summary-1'));
+    await user.type(screen.getByTestId('summary-textarea'), ' More');
+    await user.click(screen.getByTestId('summary-cancel-button'));
+
+    expect(onEdit).not.toHaveBeenCalled();
+    expect(screen.getByText('The user is planning a trip to Lisbon.')).toBeInTheDocument();
+  });
+
+  test('cannot save an empty summary', async () => {
+    const user = userEvent.setup();
+    render(<SummaryMessage message={summary} onEdit={vi.fn()} />);
+
+    await user.click(screen.getByTestId('edit-summary-summary-1'));
+    await user.clear(screen.getByTestId('summary-textarea'));
+
+    expect(screen.getByTestId('summary-save-button')).toBeDisabled();
+  });
+
+  test('editing is blocked while disabled', () => {
+    render(<SummaryMessage message={summary} onEdit={vi.fn()} disabled={true} />);
+    expect(screen.getByTestId('edit-summary-summary-1')).toBeDisabled();
+  });
+});
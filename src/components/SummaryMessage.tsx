@@ -0,0 +1,88 @@
+import { useState, useCallback } from 'react';
+import type { ChatMessage as ChatMessageType } from '../types/chat';
+import './SummaryMessage.css';
+
+interface SummaryMessageProps {
+  /** The summary message to display */
+  message: ChatMessageType;
+  /** Callback when the summary text is edited */
+  onEdit: (messageId: string, content: string) => void;
+  /** Whether editing should be blocked (e.g. while generating) */
+  disabled?: boolean;
+}
+
+/**
+ * Card for a model-written summary of earlier turns, which the model sees instead of them
+ */
+export function SummaryMessage({ message, onEdit, disabled = false }: SummaryMessageProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const startEdit = useCallback(() => {
+    setDraft(message.content);
+    setEditing(true);
+  }, [message.content]);
+
+  const cancelEdit = useCallback(() => {
+    setEditing(false);
+    setDraft('');
+  }, []);
+
+  const saveEdit = useCallback(() => {
+    if (draft.trim()) {
+      onEdit(message.id, draft.trim());
+    }
+    cancelEdit();
+  }, [draft, message.id, onEdit, cancelEdit]);
+
+  return (
+    <div className="summary-message" data-testid={`summary-${message.id}`}>
+      <div className="summary-header">
+        <span className="summary-label">📝 Summary of earlier messages</span>
+        {!editing && (
+          <button
+            className="summary-edit-button"
+            onClick={startEdit}
+            disabled={disabled}
+            aria-label="Edit summary"
+            data-testid={`edit-summary-${message.id}`}
+          >
+            ✏️
+          </button>
+        )}
+      </div>
+      {editing ? (
+        <div className="summary-editor">
+          <textarea
+            className="summary-textarea"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            aria-label="Summary"
+            autoFocus
+            data-testid="summary-textarea"
+          />
+          <div className="summary-editor-actions">
+            <button onClick={cancelEdit} data-testid="summary-cancel-button">
+              Cancel
+            </button>
+            <button
+              onClick={saveEdit}
+              disabled={!draft.trim()}
+              className="primary"
+              data-testid="summary-save-button"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="summary-text">{message.content}</div>
+      )}
+      <div className="summary-note">
+        The model sees this summary instead of the messages above it.
+      </div>
+    </div>
+  );
+}
+
+export default SummaryMessage;
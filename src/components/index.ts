@@ -2,3 +2,16 @@ export { ChatMessage } from './ChatMessage';
 export { ChatInput } from './ChatInput';
 export { LoadingIndicator } from './LoadingIndicator';
 export { ModelSelector } from './ModelSelector';
+export { ConversationSidebar } from './ConversationSidebar';
+export { SummaryMessage } from './SummaryMessage';
+export { ChatConfigForm } from './ChatConfigForm';
+export { ConversationSettingsPanel } from './ConversationSettingsPanel';
+export { PromptQueue } from './PromptQueue';
+export { MessageList } from './MessageList';
+export { Markdown } from './Markdown';
+export { CodeBlock } from './CodeBlock';
+export { MathFormula } from './MathFormula';
+export { MermaidDiagram } from './MermaidDiagram';
+export { ArtifactsPanel } from './ArtifactsPanel';
+export { Citations } from './Citations';
+export { SearchPanel } from './SearchPanel';
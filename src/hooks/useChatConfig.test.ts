@@ -0,0 +1,80 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useChatConfig } from './useChatConfig';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import * as settings from '../utils/settings';
+
+// Mock settings persistence
+vi.mock('../utils/settings', () => ({
+  loadChatConfig: vi.fn(),
+  saveChatConfig: vi.fn().mockResolvedValue(undefined),
+}));
+
+describe('useChatConfig', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(settings.loadChatConfig).mockResolvedValue(DEFAULT_CHAT_CONFIG);
+  });
+
+  test('starts from the defaults and loads saved settings', async () => {
+    const saved = { ...DEFAULT_CHAT_CONFIG, temperature: 1.1 };
+    vi.mocked(settings.loadChatConfig).mockResolvedValue(saved);
+
+    const { result } = renderHook(() => useChatConfig());
+
+    expect(result.current.config).toEqual(DEFAULT_CHAT_CONFIG);
+    expect(result.current.loaded).toBe(false);
+
+    await waitFor(() => {
+      expect(result.current.loaded).toBe(true);
+    });
+    expect(result.current.config).toEqual(saved);
+  });
+
+  test('saves changes', async () => {
+    const { result } = renderHook(() => useChatConfig());
+    await waitFor(() => {
+      expect(result.current.loaded).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.updateConfig({ systemPrompt: 'Be brief.' });
+    });
+
+    expect(result.current.config.systemPrompt).toBe('Be brief.');
+    expect(settings.saveChatConfig).toHaveBeenCalledWith({
+      ...DEFAULT_CHAT_CONFIG,
+      systemPrompt: 'Be brief.',
+    });
+  });
+
+  test('keeps changes made before saved settings finished loading', async () => {
+    let resolveLoad: (config: typeof DEFAULT_CHAT_CONFIG) => void;
+    vi.mocked(settings.loadChatConfig).mockReturnValue(
+      new Promise((resolve) => {
+        resolveLoad = resolve;
+      })
+    );
+
+    const { result } = renderHook(() => useChatConfig());
+
+    await act(async () => {
+      await result.current.updateConfig({ modelId: 'Llama-3.2-3B-Instruct-q4f32_1-MLC' });
+    });
+    expect(settings.saveChatConfig).not.toHaveBeenCalled();
+
+    await act(async () => {
+      resolveLoad!({ ...DEFAULT_CHAT_CONFIG, temperature: 1.1 });
+    });
+
+    const expected = {
+      ...DEFAULT_CHAT_CONFIG,
+      temperature: 1.1,
+      modelId: 'Llama-3.2-3B-Instruct-q4f32_1-MLC',
+    };
+    await waitFor(() => {
+      expect(result.current.config).toEqual(expected);
+    });
+    expect(settings.saveChatConfig).toHaveBeenCalledWith(expected);
+  });
+});
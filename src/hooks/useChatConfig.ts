@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ChatConfig } from '../types/chat';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import { loadChatConfig, saveChatConfig } from '../utils/settings';
+
+/**
+ * Custom hook for the persisted chat configuration
+ * Starts from the defaults and switches to the saved settings once they are loaded
+ */
+export function useChatConfig() {
+  const [config, setConfig] = useState<ChatConfig>(DEFAULT_CHAT_CONFIG);
+  const [loaded, setLoaded] = useState(false);
+
+  const loadedRef = useRef(false);
+  const configRef = useRef<ChatConfig>(DEFAULT_CHAT_CONFIG); // Latest config, for saving
+  const earlyChangesRef = useRef<Partial<ChatConfig>>({}); // Changes made before loading finished
+
+  // Load saved settings on mount, keeping anything changed in the meantime
+  useEffect(() => {
+    let cancelled = false;
+    loadChatConfig()
+      .then(async (stored) => {
+        if (cancelled) {
+          return;
+        }
+        const merged = { ...stored, ...earlyChangesRef.current };
+        loadedRef.current = true;
+        configRef.current = merged;
+        setConfig(merged);
+        setLoaded(true);
+        if (Object.keys(earlyChangesRef.current).length > 0) {
+          await saveChatConfig(merged);
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to load settings:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /**
+   * Change some settings and save them
+   */
+  const updateConfig = useCallback(async (changes: Partial<ChatConfig>) => {
+    const next = { ...configRef.current, ...changes };
+    configRef.current = next;
+    setConfig(next);
+
+    if (!loadedRef.current) {
+      // Saved together with the stored settings once they are loaded
+      earlyChangesRef.current = { ...earlyChangesRef.current, ...changes };
+      return;
+    }
+    try {
+      await saveChatConfig(next);
+    } catch (err) {
+      console.error('Failed to save settings:', err);
+    }
+  }, []);
+
+  return {
+    config,
+    loaded,
+    updateConfig,
+  };
+}
+
+export default useChatConfig;
@@ -0,0 +1,187 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useDocumentLibrary } from './useDocumentLibrary';
+import { useEmbedder } from './useEmbedder';
+import * as storage from '../utils/storage';
+import * as embeddings from '../utils/embeddings';
+import type { DocumentChunk, LibraryDocument } from '../types/documents';
+
+// Mock storage utilities
+vi.mock('../utils/storage', () => ({
+  loadDocuments: vi.fn(),
+  loadDocumentChunks: vi.fn(),
+  saveDocument: vi.fn().mockResolvedValue(undefined),
+  deleteDocument: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock the embedding model
+vi.mock('../utils/embeddings', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/embeddings')>()),
+  createEmbedder: vi.fn(),
+}));
+
+/**
+ * Create a file that can be read (jsdom files have no text())
+ */
+function createFile(content: string, name: string): File {
+  return Object.assign(new File([content], name), { text: async () => content });
+}
+
+/**
+ * Embeds texts mentioning holidays along one axis and everything else along the other
+ */
+const embedder = {
+  modelId: 'embed',
+  embed: vi.fn(async (texts: string[]) =>
+    texts.map((text) => (/holiday/i.test(text) ? [1, 0] : [0, 1]))
+  ),
+  dispose: vi.fn().mockResolvedValue(undefined),
+};
+
+const storedDocument: LibraryDocument = {
+  id: 'doc-1',
+  name: 'handbook.md',
+  type: 'text/markdown',
+  size: 100,
+  importedAt: new Date('2024-01-01'),
+  chunkCount: 2,
+};
+
+const storedChunks: DocumentChunk[] = [
+  {
+    id: 'chunk-1',
+    documentId: 'doc-1',
+    index: 0,
+    text: 'Holidays are 25 days a year.',
+    embedding: [1, 0],
+    embeddingModelId: 'embed',
+  },
+  {
+    id: 'chunk-2',
+    documentId: 'doc-1',
+    index: 1,
+    text: 'The office opens at nine.',
+    embedding: [0, 1],
+    embeddingModelId: 'embed',
+  },
+];
+
+describe('useDocumentLibrary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.loadDocuments).mockResolvedValue([]);
+    vi.mocked(storage.loadDocumentChunks).mockResolvedValue([]);
+    vi.mocked(embeddings.createEmbedder).mockResolvedValue(embedder);
+  });
+
+  test('loads the library on mount', async () => {
+    vi.mocked(storage.loadDocuments).mockResolvedValue([storedDocument]);
+
+    const { result } = renderHook(() => useDocumentLibrary(useEmbedder()));
+
+    await waitFor(() => {
+      expect(result.current.documents).toEqual([storedDocument]);
+    });
+  });
+
+  test('imports files as embedded passages', async () => {
+    const { result } = renderHook(() => useDocumentLibrary(useEmbedder()));
+
+    await act(async () => {
+      await result.current.importFiles([
+        createFile('Holidays are 25 days a year.\n\nThe office opens at nine.', 'handbook.md'),
+      ]);
+    });
+
+    expect(storage.saveDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'handbook.md', chunkCount: 1 }),
+      [
+        expect.objectContaining({
+          index: 0,
+          text: 'Holidays are 25 days a year.\n\nThe office opens at nine.',
+          embedding: [1, 0],
+          embeddingModelId: 'embed',
+        }),
+      ]
+    );
+    expect(result.current.documents.map((d) => d.name)).toEqual(['handbook.md']);
+    expect(result.current.importProgress).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+
+  test('reports files that cannot be imported and carries on', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result } = renderHook(() => useDocumentLibrary(useEmbedder()));
+
+    await act(async () => {
+      await result.current.importFiles([
+        createFile('x', 'photo.png'),
+        createFile('  ', 'empty.txt'),
+        createFile('Notes', 'notes.txt'),
+      ]);
+    });
+
+    expect(result.current.documents.map((d) => d.name)).toEqual(['notes.txt']);
+    expect(result.current.error).toBe(
+      'Could not import photo.png: unsupported file type; empty.txt: no text found'
+    );
+    consoleError.mockRestore();
+  });
+
+  test('finds the passages relevant to a prompt', async () => {
+    vi.mocked(storage.loadDocuments).mockResolvedValue([storedDocument]);
+    vi.mocked(storage.loadDocumentChunks).mockResolvedValue(storedChunks);
+    const { result } = renderHook(() => useDocumentLibrary(useEmbedder()));
+    await waitFor(() => {
+      expect(result.current.documents).toHaveLength(1);
+    });
+
+    const citations = await result.current.retrieve('How many holidays do I get?');
+
+    expect(citations).toEqual([
+      expect.objectContaining({ number: 1, chunkId: 'chunk-1', documentName: 'handbook.md' }),
+    ]);
+  });
+
+  test('does not load the embedding model while the library is empty', async () => {
+    const { result } = renderHook(() => useDocumentLibrary(useEmbedder()));
+
+    await expect(result.current.retrieve('Hello')).resolves.toEqual([]);
+    expect(embeddings.createEmbedder).not.toHaveBeenCalled();
+  });
+
+  test('carries on without passages when the embedding model fails to load', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(storage.loadDocuments).mockResolvedValue([storedDocument]);
+    vi.mocked(storage.loadDocumentChunks).mockResolvedValue(storedChunks);
+    vi.mocked(embeddings.createEmbedder).mockRejectedValueOnce(new Error('No WebGPU'));
+    const { result } = renderHook(() => useDocumentLibrary(useEmbedder()));
+    await waitFor(() => {
+      expect(result.current.documents).toHaveLength(1);
+    });
+
+    await expect(result.current.retrieve('holidays')).resolves.toEqual([]);
+    expect(consoleError).toHaveBeenCalledWith('Failed to search documents:', expect.any(Error));
+
+    // Loading is tried again next time
+    await expect(result.current.retrieve('holidays')).resolves.toHaveLength(1);
+    consoleError.mockRestore();
+  });
+
+  test('removes documents and their passages', async () => {
+    vi.mocked(storage.loadDocuments).mockResolvedValue([storedDocument]);
+    vi.mocked(storage.loadDocumentChunks).mockResolvedValue(storedChunks);
+    const { result } = renderHook(() => useDocumentLibrary(useEmbedder()));
+    await waitFor(() => {
+      expect(result.current.documents).toHaveLength(1);
+    });
+
+    await act(async () => {
+      await result.current.removeDocument('doc-1');
+    });
+
+    expect(storage.deleteDocument).toHaveBeenCalledWith('doc-1');
+    expect(result.current.documents).toEqual([]);
+    await expect(result.current.retrieve('holidays')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Citation } from '../types/chat';
+import type { DocumentChunk, LibraryDocument } from '../types/documents';
+import {
+  chunkText,
+  isSupportedDocument,
+  rankChunks,
+  readDocumentText,
+  toCitations,
+} from '../utils/documents';
+import { embedQuery } from '../utils/embeddings';
+import {
+  deleteDocument as deleteDocumentFromStorage,
+  loadDocumentChunks,
+  loadDocuments,
+  saveDocument,
+} from '../utils/storage';
+import type { GetEmbedder } from './useEmbedder';
+
+/**
+ * Passages embedded per request, so progress shows while a long document is indexed
+ */
+const EMBEDDING_BATCH_SIZE = 16;
+
+/**
+ * What an import is working on
+ */
+export interface ImportProgress {
+  fileName: string;
+  text: string;
+  /** Share of the file done, from 0 to 100 */
+  progress: number;
+}
+
+/**
+ * Custom hook for the document library
+ * Imports files into IndexedDB with an embedding of each passage, and finds the passages
+ * relevant to a prompt. The embedding model is only loaded once it is needed.
+ * @param getEmbedder Shared embedding model, from useEmbedder
+ */
+export function useDocumentLibrary(getEmbedder: GetEmbedder) {
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const chunksRef = useRef<DocumentChunk[]>([]); // Passages of every document, for retrieval
+
+  // Load the library on mount
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadDocuments(), loadDocumentChunks()])
+      .then(([storedDocuments, storedChunks]) => {
+        if (cancelled) {
+          return;
+        }
+        chunksRef.current = storedChunks;
+        setDocuments(storedDocuments);
+      })
+      .catch((err) => {
+        console.error('Failed to load documents:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /**
+   * Import files into the library, one after another
+   * Files that cannot be read or embedded are skipped and reported in `error`
+   */
+  const importFiles = useCallback(
+    async (files: File[]) => {
+      setError(null);
+      const failures: string[] = [];
+
+      for (const file of files) {
+        const report = (text: string, progress: number) =>
+          setImportProgress({ fileName: file.name, text, progress });
+        try {
+          if (!isSupportedDocument(file.name)) {
+            throw new Error('unsupported file type');
+          }
+          report('Reading…', 0);
+          const texts = chunkText(await readDocumentText(file));
+          if (texts.length === 0) {
+            throw new Error('no text found');
+          }
+
+          report('Loading embedding model…', 0);
+          const embedder = await getEmbedder((text, progress) => report(text, progress));
+
+          const embeddings: number[][] = [];
+          for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+            report(
+              `Embedding passages (${start}/${texts.length})…`,
+              Math.round((start / texts.length) * 100)
+            );
+            embeddings.push(
+              ...(await embedder.embed(texts.slice(start, start + EMBEDDING_BATCH_SIZE)))
+            );
+          }
+
+          const document: LibraryDocument = {
+            id: crypto.randomUUID(),
+            name: file.name,
+            type: file.type || file.name.split('.').pop() || '',
+            size: file.size,
+            importedAt: new Date(),
+            chunkCount: texts.length,
+          };
+          const chunks: DocumentChunk[] = texts.map((text, index) => ({
+            id: crypto.randomUUID(),
+            documentId: document.id,
+            index,
+            text,
+            embedding: embeddings[index],
+            embeddingModelId: embedder.modelId,
+          }));
+
+          await saveDocument(document, chunks);
+          chunksRef.current = [...chunksRef.current, ...chunks];
+          setDocuments((prev) => [document, ...prev]);
+        } catch (err) {
+          console.error(`Failed to import ${file.name}:`, err);
+          failures.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+
+      setImportProgress(null);
+      if (failures.length > 0) {
+        setError(`Could not import ${failures.join('; ')}`);
+      }
+    },
+    [getEmbedder]
+  );
+
+  /**
+   * Remove a document and its passages from the library
+   */
+  const removeDocument = useCallback(async (documentId: string) => {
+    await deleteDocumentFromStorage(documentId);
+    chunksRef.current = chunksRef.current.filter((c) => c.documentId !== documentId);
+    setDocuments((prev) => prev.filter((d) => d.id !== documentId));
+  }, []);
+
+  /**
+   * Find the passages relevant to a prompt, numbered for the model to cite
+   * @returns No passages when the library is empty or retrieval fails, so chat carries on
+   */
+  const retrieve = useCallback(
+    async (query: string): Promise<Citation[]> => {
+      if (chunksRef.current.length === 0 || !query.trim()) {
+        return [];
+      }
+      try {
+        const embedder = await getEmbedder();
+        const queryEmbedding = await embedQuery(embedder, query);
+        return toCitations(
+          rankChunks(queryEmbedding, embedder.modelId, chunksRef.current, documents)
+        );
+      } catch (err) {
+        console.error('Failed to search documents:', err);
+        return [];
+      }
+    },
+    [documents, getEmbedder]
+  );
+
+  return {
+    documents,
+    importProgress,
+    isImporting: importProgress !== null,
+    error,
+    importFiles,
+    removeDocument,
+    retrieve,
+  };
+}
+
+export default useDocumentLibrary;
@@ -0,0 +1,67 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useEmbedder } from './useEmbedder';
+import * as embeddings from '../utils/embeddings';
+
+// Mock the embedding model
+vi.mock('../utils/embeddings', () => ({
+  createEmbedder: vi.fn(),
+}));
+
+const embedder = {
+  modelId: 'embed',
+  embed: vi.fn().mockResolvedValue([]),
+  dispose: vi.fn().mockResolvedValue(undefined),
+};
+
+describe('useEmbedder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(embeddings.createEmbedder).mockResolvedValue(embedder);
+  });
+
+  test('loads the model once, when it is first asked for', async () => {
+    const { result } = renderHook(() => useEmbedder());
+    expect(embeddings.createEmbedder).not.toHaveBeenCalled();
+
+    const onProgress = vi.fn();
+    await expect(result.current(onProgress)).resolves.toBe(embedder);
+    await expect(result.current()).resolves.toBe(embedder);
+
+    expect(embeddings.createEmbedder).toHaveBeenCalledTimes(1);
+    vi.mocked(embeddings.createEmbedder).mock.calls[0][0]?.({
+      text: 'Fetching',
+      progress: 0.5,
+      timeElapsed: 1,
+    });
+    expect(onProgress).toHaveBeenCalledWith('Fetching', 50);
+  });
+
+  test('tries again after a failed load', async () => {
+    vi.mocked(embeddings.createEmbedder).mockRejectedValueOnce(new Error('No WebGPU'));
+    const { result } = renderHook(() => useEmbedder());
+
+    await expect(result.current()).rejects.toThrow('No WebGPU');
+    await expect(result.current()).resolves.toBe(embedder);
+    expect(embeddings.createEmbedder).toHaveBeenCalledTimes(2);
+  });
+
+  test('unloads the model on unmount', async () => {
+    const { result, unmount } = renderHook(() => useEmbedder());
+    await result.current();
+
+    unmount();
+
+    await waitFor(() => {
+      expect(embedder.dispose).toHaveBeenCalled();
+    });
+  });
+
+  test('does not load the model on unmount when it was never used', () => {
+    const { unmount } = renderHook(() => useEmbedder());
+
+    unmount();
+
+    expect(embeddings.createEmbedder).not.toHaveBeenCalled();
+  });
+});
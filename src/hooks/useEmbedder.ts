@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { createEmbedder } from '../utils/embeddings';
+import type { Embedder } from '../utils/embeddings';
+
+/**
+ * Get the embedding model, loading it the first time
+ * @param onProgress Told how loading is going, when this call starts the load
+ */
+export type GetEmbedder = (
+  onProgress?: (text: string, progress: number) => void
+) => Promise<Embedder>;
+
+/**
+ * Custom hook sharing one embedding model between the features that need it
+ * The model is only loaded once it is asked for, and unloaded with the app. A failed load
+ * is tried again on the next request.
+ */
+export function useEmbedder(): GetEmbedder {
+  const embedderRef = useRef<Promise<Embedder> | null>(null);
+
+  // Unload the embedding model with the app
+  useEffect(() => {
+    return () => {
+      embedderRef.current
+        ?.then((embedder) => embedder.dispose())
+        .catch((err) => {
+          console.error('Error disposing embedding model:', err);
+        });
+      embedderRef.current = null;
+    };
+  }, []);
+
+  return useCallback<GetEmbedder>((onProgress) => {
+    embedderRef.current ??= createEmbedder((report) =>
+      onProgress?.(report.text, Math.round(report.progress * 100))
+    ).catch((err) => {
+      // Try again next time
+      embedderRef.current = null;
+      throw err;
+    });
+    return embedderRef.current;
+  }, []);
+}
+
+export default useEmbedder;
@@ -0,0 +1,157 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useMemory } from './useMemory';
+import * as storage from '../utils/storage';
+import type { Memory } from '../types/memory';
+
+// Mock storage utilities
+vi.mock('../utils/storage', () => ({
+  loadMemories: vi.fn(),
+  saveMemories: vi.fn().mockResolvedValue(undefined),
+  deleteMemory: vi.fn().mockResolvedValue(undefined),
+  clearMemories: vi.fn().mockResolvedValue(undefined),
+  loadSetting: vi.fn(),
+  saveSetting: vi.fn().mockResolvedValue(undefined),
+}));
+
+const storedMemory: Memory = {
+  id: 'memory-1',
+  content: 'Prefers TypeScript examples',
+  status: 'approved',
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+/**
+ * Render the hook once the stored memories have loaded
+ */
+async function renderMemory() {
+  const { result } = renderHook(() => useMemory());
+  await waitFor(() => {
+    expect(result.current.memories).toEqual([storedMemory]);
+  });
+  return result;
+}
+
+describe('useMemory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.loadMemories).mockResolvedValue([storedMemory]);
+    vi.mocked(storage.loadSetting).mockResolvedValue(undefined);
+  });
+
+  test('is off until turned on, and remembers the choice', async () => {
+    const result = await renderMemory();
+    expect(result.current.enabled).toBe(false);
+    expect(result.current.memories).toEqual([storedMemory]);
+
+    await act(async () => {
+      await result.current.setEnabled(true);
+    });
+
+    expect(result.current.enabled).toBe(true);
+    expect(storage.saveSetting).toHaveBeenCalledWith('memoryEnabled', true);
+  });
+
+  test('loads the saved setting', async () => {
+    vi.mocked(storage.loadSetting).mockResolvedValue(true);
+
+    const result = await renderMemory();
+
+    expect(result.current.enabled).toBe(true);
+  });
+
+  test('keeps new proposals for review, skipping known facts', async () => {
+    const result = await renderMemory();
+
+    await act(async () => {
+      await result.current.proposeMemories([
+        'prefers typescript examples.',
+        'Lives in Lisbon',
+        'Lives in Lisbon',
+      ]);
+    });
+
+    expect(storage.saveMemories).toHaveBeenCalledWith([
+      expect.objectContaining({ content: 'Lives in Lisbon', status: 'proposed' }),
+    ]);
+    expect(result.current.proposedCount).toBe(1);
+  });
+
+  test('approves a proposal, with the user’s edits', async () => {
+    const result = await renderMemory();
+    await act(async () => {
+      await result.current.proposeMemories(['Lives in Lisbn']);
+    });
+    const proposal = result.current.memories.find((m) => m.status === 'proposed')!;
+
+    await act(async () => {
+      await result.current.updateMemory(proposal.id, 'Lives in Lisbon');
+    });
+
+    expect(result.current.memories.find((m) => m.id === proposal.id)).toMatchObject({
+      content: 'Lives in Lisbon',
+      status: 'approved',
+    });
+    expect(result.current.proposedCount).toBe(0);
+  });
+
+  test('adds and forgets memories', async () => {
+    const result = await renderMemory();
+
+    await act(async () => {
+      await result.current.addMemory('Has two cats');
+    });
+    expect(result.current.memories.map((m) => m.content)).toEqual([
+      'Has two cats',
+      'Prefers TypeScript examples',
+    ]);
+
+    await act(async () => {
+      await result.current.deleteMemory('memory-1');
+    });
+    expect(storage.deleteMemory).toHaveBeenCalledWith('memory-1');
+    expect(result.current.memories.map((m) => m.content)).toEqual(['Has two cats']);
+
+    await act(async () => {
+      await result.current.clearMemories();
+    });
+    expect(storage.clearMemories).toHaveBeenCalled();
+    expect(result.current.memories).toEqual([]);
+  });
+
+  test('keeps the memories when wiping them fails', async () => {
+    vi.mocked(storage.clearMemories).mockRejectedValueOnce(new Error('Blocked'));
+    const result = await renderMemory();
+
+    await act(async () => {
+      await expect(result.current.clearMemories()).rejects.toThrow('Blocked');
+    });
+
+    expect(result.current.memories).toEqual([storedMemory]);
+  });
+
+  test('shows no change that could not be saved', async () => {
+    vi.mocked(storage.saveMemories).mockRejectedValueOnce(new Error('Quota exceeded'));
+    vi.mocked(storage.deleteMemory).mockRejectedValueOnce(new Error('Blocked'));
+    const result = await renderMemory();
+
+    await act(async () => {
+      await expect(result.current.addMemory('Has two cats')).rejects.toThrow('Quota exceeded');
+    });
+    await act(async () => {
+      await expect(result.current.deleteMemory('memory-1')).rejects.toThrow('Blocked');
+    });
+
+    expect(result.current.memories).toEqual([storedMemory]);
+  });
+
+  test('only retrieves approved memories', async () => {
+    const result = await renderMemory();
+    await act(async () => {
+      await result.current.proposeMemories(['Lives in Lisbon']);
+    });
+
+    await expect(result.current.retrieveMemories('anything')).resolves.toEqual([storedMemory]);
+  });
+});
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback, useLayoutEffect, useRef } from 'react';
+import type { Memory } from '../types/memory';
+import { isKnownMemory, normalizeMemory, selectMemories } from '../utils/memory';
+import {
+  clearMemories as clearMemoriesFromStorage,
+  deleteMemory as deleteMemoryFromStorage,
+  loadMemories,
+  loadSetting,
+  saveMemories,
+  saveSetting,
+} from '../utils/storage';
+
+/**
+ * Setting key for whether long-term memory is on
+ */
+const MEMORY_ENABLED_SETTING = 'memoryEnabled';
+
+/**
+ * Custom hook for long-term memory
+ * Keeps the facts the model proposed and the user approved in IndexedDB. Memory is off until
+ * the user turns it on; turning it off keeps the facts but stops using and proposing them.
+ */
+export function useMemory() {
+  const [enabled, setEnabledState] = useState(false);
+  const [memories, setMemories] = useState<Memory[]>([]);
+
+  // Latest memories, for callbacks that keep their identity while the list changes
+  const memoriesRef = useRef<Memory[]>([]);
+  useLayoutEffect(() => {
+    memoriesRef.current = memories;
+  });
+
+  // Load the setting and the memories on mount
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadSetting<boolean>(MEMORY_ENABLED_SETTING), loadMemories()])
+      .then(([storedEnabled, storedMemories]) => {
+        if (cancelled) {
+          return;
+        }
+        setEnabledState(storedEnabled ?? false);
+        setMemories(storedMemories);
+      })
+      .catch((err) => {
+        console.error('Failed to load memories:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /**
+   * Turn memory on or off
+   */
+  const setEnabled = useCallback(async (value: boolean) => {
+    setEnabledState(value);
+    await saveSetting(MEMORY_ENABLED_SETTING, value);
+  }, []);
+
+  /**
+   * Store facts, then show them in place of earlier versions of the same memories
+   * @throws When they could not be saved; nothing changes on screen then
+   */
+  const store = useCallback(async (changed: Memory[]) => {
+    await saveMemories(changed);
+    const ids = new Set(changed.map((m) => m.id));
+    setMemories((prev) => [...changed, ...prev.filter((m) => !ids.has(m.id))]);
+  }, []);
+
+  /**
+   * Remember a fact the user wrote themselves
+   */
+  const addMemory = useCallback(
+    async (content: string) => {
+      const fact = normalizeMemory(content);
+      if (!fact || isKnownMemory(memoriesRef.current, fact)) {
+        return;
+      }
+      const now = new Date();
+      await store([
+        {
+          id: crypto.randomUUID(),
+          content: fact,
+          status: 'approved',
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]);
+    },
+    [store]
+  );
+
+  /**
+   * Offer facts the model picked up for the user to review
+   * Facts already remembered or proposed are skipped.
+   */
+  const proposeMemories = useCallback(
+    async (facts: string[]) => {
+      const now = new Date();
+      const proposed: Memory[] = [];
+      for (const fact of facts) {
+        if (isKnownMemory([...memoriesRef.current, ...proposed], fact)) {
+          continue;
+        }
+        proposed.push({
+          id: crypto.randomUUID(),
+          content: normalizeMemory(fact),
+          status: 'proposed',
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      if (proposed.length > 0) {
+        await store(proposed);
+      }
+    },
+    [store]
+  );
+
+  /**
+   * Change a memory's text, approving it if it was only proposed
+   */
+  const updateMemory = useCallback(
+    async (memoryId: string, content: string = '') => {
+      const memory = memoriesRef.current.find((m) => m.id === memoryId);
+      const fact = normalizeMemory(content) || memory?.content;
+      if (!memory || !fact) {
+        return;
+      }
+      await store([{ ...memory, content: fact, status: 'approved', updatedAt: new Date() }]);
+    },
+    [store]
+  );
+
+  /**
+   * Forget a memory, or turn down a proposed one
+   * @throws When it could not be deleted
+   */
+  const deleteMemory = useCallback(async (memoryId: string) => {
+    await deleteMemoryFromStorage(memoryId);
+    setMemories((prev) => prev.filter((m) => m.id !== memoryId));
+  }, []);
+
+  /**
+   * Forget every memory
+   * @throws When they could not be deleted
+   */
+  const clearMemories = useCallback(async () => {
+    await clearMemoriesFromStorage();
+    setMemories([]);
+  }, []);
+
+  /**
+   * Pick the approved memories relevant to a prompt
+   */
+  const retrieveMemories = useCallback(
+    async (query: string): Promise<Memory[]> => selectMemories(memoriesRef.current, query),
+    []
+  );
+
+  return {
+    enabled,
+    memories,
+    proposedCount: memories.filter((m) => m.status === 'proposed').length,
+    setEnabled,
+    addMemory,
+    proposeMemories,
+    updateMemory,
+    deleteMemory,
+    clearMemories,
+    retrieveMemories,
+  };
+}
+
+export default useMemory;
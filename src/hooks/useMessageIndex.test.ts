@@ -0,0 +1,208 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useMessageIndex } from './useMessageIndex';
+import * as storage from '../utils/storage';
+import type { ConversationMessage } from '../types/search';
+
+// Mock storage utilities
+vi.mock('../utils/storage', () => ({
+  getSemanticIndexStats: vi.fn(),
+  loadEmbeddingBacklog: vi.fn(),
+  loadMessageEmbedding: vi.fn(),
+  loadMessagesById: vi.fn(),
+  saveMessageEmbeddings: vi.fn().mockResolvedValue(undefined),
+  searchSimilarMessages: vi.fn().mockResolvedValue([]),
+}));
+
+const embedder = {
+  modelId: 'snowflake-arctic-embed-s-q0f32-MLC-b4',
+  embed: vi.fn(async (texts: string[]) => texts.map(() => [1, 0])),
+  dispose: vi.fn().mockResolvedValue(undefined),
+};
+const getEmbedder = vi.fn().mockResolvedValue(embedder);
+
+/**
+ * A stored message with the given id
+ */
+function storedMessage(id: string, content = `Message ${id}`): ConversationMessage {
+  return {
+    conversationId: 'conv-1',
+    message: { id, role: 'user', content, timestamp: new Date('2024-01-01') },
+  };
+}
+
+/**
+ * Render the hook with indexing disabled, once its stats have loaded
+ */
+async function renderIdleIndex() {
+  const { result } = renderHook(() => useMessageIndex({ enabled: false, getEmbedder }));
+  await waitFor(() => {
+    expect(result.current.stats).not.toBeNull();
+  });
+  return result;
+}
+
+describe('useMessageIndex', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getSemanticIndexStats).mockResolvedValue({
+      messageCount: 2,
+      embeddedCount: 0,
+      sizeBytes: 0,
+    });
+    vi.mocked(storage.loadEmbeddingBacklog).mockResolvedValue([]);
+    vi.mocked(storage.loadMessagesById).mockImplementation(async (ids) =>
+      ids.map((id) => storedMessage(id))
+    );
+  });
+
+  test('embeds the messages that have no embedding while enabled', async () => {
+    vi.mocked(storage.loadEmbeddingBacklog).mockResolvedValue(['msg-1', 'msg-2']);
+    vi.mocked(storage.getSemanticIndexStats).mockResolvedValue({
+      messageCount: 2,
+      embeddedCount: 2,
+      sizeBytes: 3072,
+    });
+
+    const { result } = renderHook(() => useMessageIndex({ enabled: true, getEmbedder }));
+
+    await waitFor(() => {
+      expect(result.current.stats).toEqual({ messageCount: 2, embeddedCount: 2, sizeBytes: 3072 });
+    });
+    expect(embedder.embed).toHaveBeenCalledWith(['Message msg-1', 'Message msg-2']);
+    expect(storage.saveMessageEmbeddings).toHaveBeenCalledWith(
+      [
+        { message: storedMessage('msg-1'), embedding: [1, 0] },
+        { message: storedMessage('msg-2'), embedding: [1, 0] },
+      ],
+      embedder.modelId
+    );
+    await waitFor(() => {
+      expect(result.current.isIndexing).toBe(false);
+    });
+  });
+
+  test('embeds the start of long messages', async () => {
+    vi.mocked(storage.loadEmbeddingBacklog).mockResolvedValue(['msg-1']);
+    vi.mocked(storage.loadMessagesById).mockResolvedValue([
+      storedMessage('msg-1', 'a'.repeat(5000)),
+    ]);
+
+    renderHook(() => useMessageIndex({ enabled: true, getEmbedder }));
+
+    await waitFor(() => {
+      expect(embedder.embed).toHaveBeenCalledWith(['a'.repeat(1000)]);
+    });
+  });
+
+  test('only loads stats while disabled', async () => {
+    vi.mocked(storage.loadEmbeddingBacklog).mockResolvedValue(['msg-1']);
+
+    const { result } = renderHook(() => useMessageIndex({ enabled: false, getEmbedder }));
+
+    await waitFor(() => {
+      expect(result.current.stats).toEqual({ messageCount: 2, embeddedCount: 0, sizeBytes: 0 });
+    });
+    expect(getEmbedder).not.toHaveBeenCalled();
+    expect(result.current.isIndexing).toBe(false);
+  });
+
+  test('stops between batches once disabled', async () => {
+    const backlog = Array.from({ length: 40 }, (_, i) => `msg-${i}`);
+    vi.mocked(storage.loadEmbeddingBacklog).mockResolvedValue(backlog);
+    let finishBatch: (embeddings: number[][]) => void = () => {};
+    embedder.embed.mockImplementationOnce(
+      () => new Promise<number[][]>((resolve) => (finishBatch = resolve))
+    );
+
+    const { result, rerender } = renderHook(
+      ({ enabled }) => useMessageIndex({ enabled, getEmbedder }),
+      { initialProps: { enabled: true } }
+    );
+    await waitFor(() => {
+      expect(result.current.isIndexing).toBe(true);
+    });
+    await waitFor(() => {
+      expect(embedder.embed).toHaveBeenCalledTimes(1);
+    });
+
+    rerender({ enabled: false });
+    expect(result.current.isIndexing).toBe(false);
+    await act(async () => {
+      finishBatch(Array.from({ length: 16 }, () => [1, 0]));
+    });
+
+    // The batch in progress is kept, but no other starts
+    expect(storage.saveMessageEmbeddings).toHaveBeenCalledTimes(1);
+    expect(embedder.embed).toHaveBeenCalledTimes(1);
+  });
+
+  test('reports an embedding model that fails to load', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(storage.loadEmbeddingBacklog).mockResolvedValue(['msg-1']);
+    getEmbedder.mockRejectedValueOnce(new Error('No WebGPU'));
+
+    const { result } = renderHook(() => useMessageIndex({ enabled: true, getEmbedder }));
+
+    await waitFor(() => {
+      expect(consoleError).toHaveBeenCalledWith('Failed to index messages:', expect.any(Error));
+    });
+    await waitFor(() => {
+      expect(result.current.isIndexing).toBe(false);
+    });
+    consoleError.mockRestore();
+  });
+
+  test('searches by the meaning of a query', async () => {
+    const result = await renderIdleIndex();
+
+    await result.current.searchByMeaning('holidays', { role: 'user' });
+
+    expect(embedder.embed).toHaveBeenCalledWith([expect.stringMatching(/holidays$/)]);
+    expect(storage.searchSimilarMessages).toHaveBeenCalledWith([1, 0], embedder.modelId, {
+      role: 'user',
+    });
+  });
+
+  test('finds messages similar to an indexed one, leaving it out', async () => {
+    const embedding = Float32Array.from([0, 1]);
+    vi.mocked(storage.loadMessageEmbedding).mockResolvedValue(embedding);
+    const result = await renderIdleIndex();
+
+    await result.current.findSimilar('msg-1');
+
+    expect(getEmbedder).not.toHaveBeenCalled();
+    expect(storage.searchSimilarMessages).toHaveBeenCalledWith(
+      embedding,
+      embedder.modelId,
+      {},
+      50,
+      'msg-1'
+    );
+  });
+
+  test('embeds a message not indexed yet to find similar ones', async () => {
+    vi.mocked(storage.loadMessageEmbedding).mockResolvedValue(undefined);
+    const result = await renderIdleIndex();
+
+    await result.current.findSimilar('msg-1');
+
+    expect(embedder.embed).toHaveBeenCalledWith(['Message msg-1']);
+    expect(storage.searchSimilarMessages).toHaveBeenCalledWith(
+      [1, 0],
+      embedder.modelId,
+      {},
+      50,
+      'msg-1'
+    );
+  });
+
+  test('finds nothing for a message that no longer exists', async () => {
+    vi.mocked(storage.loadMessageEmbedding).mockResolvedValue(undefined);
+    vi.mocked(storage.loadMessagesById).mockResolvedValue([]);
+    const result = await renderIdleIndex();
+
+    await expect(result.current.findSimilar('gone')).resolves.toEqual([]);
+    expect(storage.searchSimilarMessages).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { SearchFilters, SearchResult, SemanticIndexStats } from '../types/search';
+import { CHUNK_SIZE } from '../utils/documents';
+import { EMBEDDING_MODEL_ID, embedQuery } from '../utils/embeddings';
+import { SEARCH_RESULT_LIMIT } from '../utils/search';
+import {
+  getSemanticIndexStats,
+  loadEmbeddingBacklog,
+  loadMessageEmbedding,
+  loadMessagesById,
+  saveMessageEmbeddings,
+  searchSimilarMessages,
+} from '../utils/storage';
+import type { GetEmbedder } from './useEmbedder';
+
+/**
+ * Messages embedded per request, so indexing stops soon after the GPU is needed again
+ */
+const INDEX_BATCH_SIZE = 16;
+
+interface UseMessageIndexOptions {
+  /** Whether the GPU is free for indexing; it stops after the current batch once this is false */
+  enabled: boolean;
+  /** Shared embedding model, from useEmbedder */
+  getEmbedder: GetEmbedder;
+}
+
+/**
+ * Text of a message to embed - the start of long messages, like a document passage
+ */
+function toEmbeddingText(content: string): string {
+  return content.slice(0, CHUNK_SIZE);
+}
+
+/**
+ * Custom hook for searching stored messages by meaning
+ * Embeds every stored message in the background while enabled, so messages can be found by
+ * what they are about rather than the words they use.
+ */
+export function useMessageIndex({ enabled, getEmbedder }: UseMessageIndexOptions) {
+  const [stats, setStats] = useState<SemanticIndexStats | null>(null);
+  const [indexing, setIndexing] = useState(false);
+
+  /**
+   * Reload how far indexing has got, e.g. after messages were deleted
+   */
+  const refreshStats = useCallback(async () => {
+    setStats(await getSemanticIndexStats(EMBEDDING_MODEL_ID));
+  }, []);
+
+  // Embed the messages that have no embedding yet, a batch at a time, while the GPU is free
+  useEffect(() => {
+    let cancelled = false;
+
+    const indexMessages = async () => {
+      const backlog = await loadEmbeddingBacklog(EMBEDDING_MODEL_ID);
+      if (cancelled) {
+        return;
+      }
+      setIndexing(enabled && backlog.length > 0);
+      if (!enabled || backlog.length === 0) {
+        setStats(await getSemanticIndexStats(EMBEDDING_MODEL_ID));
+        return;
+      }
+
+      try {
+        const embedder = await getEmbedder();
+        for (let start = 0; start < backlog.length && !cancelled; start += INDEX_BATCH_SIZE) {
+          const messages = await loadMessagesById(backlog.slice(start, start + INDEX_BATCH_SIZE));
+          if (cancelled) {
+            break;
+          }
+          const embeddings = await embedder.embed(
+            messages.map(({ message }) => toEmbeddingText(message.content))
+          );
+          await saveMessageEmbeddings(
+            messages.map((message, i) => ({ message, embedding: embeddings[i] })),
+            embedder.modelId
+          );
+          const progress = await getSemanticIndexStats(EMBEDDING_MODEL_ID);
+          if (!cancelled) {
+            setStats(progress);
+          }
+        }
+      } catch (err) {
+        console.error('Failed to index messages:', err);
+      }
+      if (!cancelled) {
+        setIndexing(false);
+      }
+    };
+
+    void indexMessages();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, getEmbedder]);
+
+  /**
+   * Find the stored messages closest in meaning to a query
+   */
+  const searchByMeaning = useCallback(
+    async (query: string, filters: SearchFilters = {}): Promise<SearchResult[]> => {
+      const embedder = await getEmbedder();
+      const embedding = await embedQuery(embedder, query);
+      return searchSimilarMessages(embedding, embedder.modelId, filters);
+    },
+    [getEmbedder]
+  );
+
+  /**
+   * Find the stored messages closest in meaning to another one
+   * A message not indexed yet is embedded on the spot.
+   * @returns Nothing when the message no longer exists
+   */
+  const findSimilar = useCallback(
+    async (messageId: string, filters: SearchFilters = {}): Promise<SearchResult[]> => {
+      let embedding: ArrayLike<number> | undefined = await loadMessageEmbedding(
+        messageId,
+        EMBEDDING_MODEL_ID
+      );
+      if (!embedding) {
+        const [stored] = await loadMessagesById([messageId]);
+        if (!stored) {
+          return [];
+        }
+        const embedder = await getEmbedder();
+        [embedding] = await embedder.embed([toEmbeddingText(stored.message.content)]);
+      }
+      return searchSimilarMessages(
+        embedding,
+        EMBEDDING_MODEL_ID,
+        filters,
+        SEARCH_RESULT_LIMIT,
+        messageId
+      );
+    },
+    [getEmbedder]
+  );
+
+  return {
+    stats,
+    // Indexing stops as soon as it is disabled, whatever the last batch reported
+    isIndexing: enabled && indexing,
+    refreshStats,
+    searchByMeaning,
+    findSimilar,
+  };
+}
+
+export default useMessageIndex;
@@ -0,0 +1,100 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { usePersonas } from './usePersonas';
+import * as storage from '../utils/storage';
+import type { Persona } from '../types/persona';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import { getGenerationSettings } from '../utils/settings';
+
+// Mock storage utilities
+vi.mock('../utils/storage', () => ({
+  loadPersonas: vi.fn(),
+  savePersona: vi.fn().mockResolvedValue(undefined),
+  deletePersona: vi.fn().mockResolvedValue(undefined),
+}));
+
+const storedPersona: Persona = {
+  id: 'persona-1',
+  name: 'Tutor',
+  avatar: '🦉',
+  modelId: 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC',
+  settings: { ...getGenerationSettings(DEFAULT_CHAT_CONFIG), systemPrompt: 'Explain patiently.' },
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+/**
+ * Render the hook once the stored personas have loaded
+ */
+async function renderPersonas() {
+  const { result } = renderHook(() => usePersonas());
+  await waitFor(() => {
+    expect(result.current.personas).toEqual([storedPersona]);
+  });
+  return result;
+}
+
+describe('usePersonas', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.loadPersonas).mockResolvedValue([storedPersona]);
+  });
+
+  test('creates a persona at the end of the library', async () => {
+    const result = await renderPersonas();
+
+    let created: Persona | undefined;
+    await act(async () => {
+      created = await result.current.createPersona({
+        name: 'Critic',
+        avatar: '🧐',
+        modelId: null,
+        settings: storedPersona.settings,
+      });
+    });
+
+    expect(result.current.personas.map((p) => p.name)).toEqual(['Tutor', 'Critic']);
+    expect(storage.savePersona).toHaveBeenCalledWith(created);
+  });
+
+  test('edits a persona in place', async () => {
+    const result = await renderPersonas();
+
+    await act(async () => {
+      await result.current.updatePersona('persona-1', { name: 'Math tutor' });
+    });
+
+    expect(result.current.personas[0]).toMatchObject({ id: 'persona-1', name: 'Math tutor' });
+    expect(storage.savePersona).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Math tutor', avatar: '🦉' })
+    );
+  });
+
+  test('duplicates a persona under a new id', async () => {
+    const result = await renderPersonas();
+
+    await act(async () => {
+      await result.current.duplicatePersona('persona-1');
+    });
+
+    const [, copy] = result.current.personas;
+    expect(copy).toMatchObject({
+      name: 'Tutor (copy)',
+      avatar: '🦉',
+      modelId: storedPersona.modelId,
+      settings: storedPersona.settings,
+    });
+    expect(copy.id).not.toBe('persona-1');
+  });
+
+  test('deletes a persona', async () => {
+    const result = await renderPersonas();
+
+    await act(async () => {
+      await result.current.deletePersona('persona-1');
+    });
+
+    expect(result.current.personas).toEqual([]);
+    expect(storage.deletePersona).toHaveBeenCalledWith('persona-1');
+  });
+});
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback, useLayoutEffect, useRef } from 'react';
+import type { Persona } from '../types/persona';
+import {
+  deletePersona as deletePersonaFromStorage,
+  loadPersonas,
+  savePersona,
+} from '../utils/storage';
+
+/**
+ * What the user fills in for a persona
+ */
+export type PersonaFields = Omit<Persona, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Custom hook for the persona library
+ * Keeps the named system prompts and their settings in IndexedDB, oldest first.
+ */
+export function usePersonas() {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+
+  // Latest personas, for callbacks that keep their identity while the list changes
+  const personasRef = useRef<Persona[]>([]);
+  useLayoutEffect(() => {
+    personasRef.current = personas;
+  });
+
+  // Load the personas on mount
+  useEffect(() => {
+    let cancelled = false;
+    loadPersonas()
+      .then((stored) => {
+        if (!cancelled) {
+          setPersonas(stored);
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to load personas:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /**
+   * Add a persona to the end of the library
+   */
+  const createPersona = useCallback(async (fields: PersonaFields): Promise<Persona> => {
+    const now = new Date();
+    const persona: Persona = { ...fields, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+    setPersonas((prev) => [...prev, persona]);
+    await savePersona(persona);
+    return persona;
+  }, []);
+
+  /**
+   * Change a persona; conversations already started with it keep their settings
+   */
+  const updatePersona = useCallback(async (personaId: string, changes: Partial<PersonaFields>) => {
+    const existing = personasRef.current.find((p) => p.id === personaId);
+    if (!existing) {
+      return;
+    }
+    const updated = { ...existing, ...changes, updatedAt: new Date() };
+    setPersonas((prev) => prev.map((p) => (p.id === personaId ? updated : p)));
+    await savePersona(updated);
+  }, []);
+
+  /**
+   * Add a copy of a persona, to start a variation from
+   */
+  const duplicatePersona = useCallback(
+    async (personaId: string): Promise<Persona | null> => {
+      const original = personasRef.current.find((p) => p.id === personaId);
+      if (!original) {
+        return null;
+      }
+      const { name, avatar, modelId, settings } = original;
+      return createPersona({ name: `${name} (copy)`, avatar, modelId, settings });
+    },
+    [createPersona]
+  );
+
+  /**
+   * Remove a persona from the library
+   */
+  const deletePersona = useCallback(async (personaId: string) => {
+    setPersonas((prev) => prev.filter((p) => p.id !== personaId));
+    await deletePersonaFromStorage(personaId);
+  }, []);
+
+  return { personas, createPersona, updatePersona, duplicatePersona, deletePersona };
+}
+
+export default usePersonas;
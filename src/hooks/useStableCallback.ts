@@ -0,0 +1,17 @@
+import { useCallback, useLayoutEffect, useRef } from 'react';
+
+/**
+ * Custom hook for a callback that keeps its identity across renders
+ * Always calls the latest `callback`, so memoized children are not re-rendered when it changes
+ */
+export function useStableCallback<Args extends unknown[], Result>(
+  callback: (...args: Args) => Result
+): (...args: Args) => Result {
+  const callbackRef = useRef(callback);
+
+  useLayoutEffect(() => {
+    callbackRef.current = callback;
+  });
+
+  return useCallback((...args: Args) => callbackRef.current(...args), []);
+}
@@ -6,16 +6,51 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { useWebLLM } from './useWebLLM';
+import * as storage from '../utils/storage';
 
 // Mock WebLLM engine with unload/dispose methods
 const mockEngineUnload = vi.fn().mockResolvedValue(undefined);
 const mockEngineDispose = vi.fn().mockResolvedValue(undefined);
 const mockChatCompletions = {
-  create: vi.fn().mockResolvedValue({
-    async *[Symbol.asyncIterator]() {
-      yield { choices: [{ delta: { content: 'Test response' } }] };
+  create: vi.fn(async (request: { stream?: boolean }) =>
+    request.stream
+      ? {
+          async *[Symbol.asyncIterator]() {
+            yield { choices: [{ delta: { content: 'Test response' } }] };
+          },
+        }
+      : { choices: [{ message: { content: 'Summary of the earlier turns' } }] }
+  ),
+};
+
+/**
+ * A conversation too long for a 1k context window, loaded from storage
+ */
+const mockLongConversation = () => {
+  const longHistory = Array.from({ length: 20 }, (_, i) => ({
+    id: `m${i}`,
+    role: i % 2 === 0 ? ('user' as const) : ('assistant' as const),
+    content: `${i} ${'x'.repeat(400)}`,
+    timestamp: new Date(2024, 0, 1, 10, i),
+  }));
+  vi.mocked(storage.loadConversations).mockResolvedValueOnce([
+    {
+      id: 'conv-1',
+      title: 'Long chat',
+      createdAt: new Date(2024, 0, 1),
+      updatedAt: new Date(2024, 0, 1),
+      modelId: 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC-1k',
     },
-  }),
+  ]);
+  vi.mocked(storage.loadMessages).mockResolvedValueOnce(longHistory);
+};
+
+/**
+ * The last streaming request sent to the model
+ */
+const lastStreamedMessages = () => {
+  const [request] = mockChatCompletions.create.mock.calls.filter(([r]) => r.stream).at(-1)!;
+  return (request as { messages: { role: string; content: string }[] }).messages;
 };
 
 const createMockEngine = (hasUnload = true, hasDispose = false) => {
@@ -38,6 +73,8 @@ const createMockEngine = (hasUnload = true, hasDispose = false) => {
 // Mock the @mlc-ai/web-llm module
 vi.mock('@mlc-ai/web-llm', () => ({
   CreateMLCEngine: vi.fn(),
+  CreateWebWorkerMLCEngine: vi.fn(),
+  CreateServiceWorkerMLCEngine: vi.fn(),
 }));
 
 // Mock the GPU utils - simulate GPU available for these tests
@@ -50,9 +87,15 @@ vi.mock('../utils/gpu', () => ({
 
 // Mock storage utilities
 vi.mock('../utils/storage', () => ({
-  saveMessages: vi.fn().mockResolvedValue(undefined),
+  putMessage: vi.fn().mockResolvedValue(undefined),
+  deleteMessage: vi.fn().mockResolvedValue(undefined),
   loadMessages: vi.fn().mockResolvedValue([]),
   clearMessages: vi.fn().mockResolvedValue(undefined),
+  loadConversations: vi.fn().mockResolvedValue([]),
+  saveConversation: vi.fn().mockResolvedValue(undefined),
+  deleteConversation: vi.fn().mockResolvedValue(undefined),
+  loadSetting: vi.fn().mockResolvedValue(undefined),
+  saveSetting: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock device utilities
@@ -121,6 +164,76 @@ describe('useWebLLM - Engine Cleanup', () => {
     expect(result.current.status).toBe('idle');
   });
 
+  test('terminates the engine worker on reset', async () => {
+    const terminate = vi.fn();
+    vi.stubGlobal(
+      'Worker',
+      class {
+        terminate = terminate;
+      }
+    );
+    const { CreateWebWorkerMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateWebWorkerMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(
+      createMockEngine(true, false)
+    );
+
+    const { result } = renderHook(() => useWebLLM());
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('ready');
+    });
+    expect(terminate).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await result.current.reset();
+    });
+
+    expect(mockEngineUnload).toHaveBeenCalledTimes(1);
+    expect(terminate).toHaveBeenCalledTimes(1);
+    vi.unstubAllGlobals();
+  });
+
+  test('hosts the engine in the service worker when keeping the model loaded', async () => {
+    vi.mocked(storage.loadSetting).mockResolvedValueOnce(true);
+    Object.defineProperty(navigator, 'serviceWorker', {
+      value: {
+        controller: {
+          postMessage: (_message: unknown, [port]: MessagePort[]) => {
+            port.postMessage({ modelIds: [] });
+          },
+        },
+      },
+      configurable: true,
+    });
+    const { CreateServiceWorkerMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateServiceWorkerMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(
+      createMockEngine(true, false)
+    );
+
+    const { result } = renderHook(() => useWebLLM());
+
+    await waitFor(() => {
+      expect(result.current.keepModelLoaded).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('ready');
+    });
+    expect(CreateServiceWorkerMLCEngine).toHaveBeenCalledTimes(1);
+    Object.defineProperty(navigator, 'serviceWorker', {
+      value: { controller: null },
+      configurable: true,
+    });
+  });
+
   test('handles engine without cleanup methods gracefully', async () => {
     const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
     const mockEngine = createMockEngine(false, false); // No unload or dispose
@@ -279,6 +392,736 @@ describe('useWebLLM - Engine Cleanup', () => {
     expect(result.current.status).toBe('ready');
   });
 
+  test('leaves out the oldest turns when summarizing fails', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockChatCompletions.create.mockRejectedValueOnce(new Error('Summary failed'));
+    mockLongConversation();
+
+    // 1k context window with 512 tokens reserved for the reply
+    const { result } = renderHook(() =>
+      useWebLLM({ modelId: 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC-1k' })
+    );
+
+    await waitFor(() => {
+      expect(result.current.messages).toHaveLength(20);
+    });
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Latest question');
+    });
+
+    const sent = lastStreamedMessages();
+    expect(sent[0].role).toBe('system');
+    expect(sent[sent.length - 1]).toEqual({ role: 'user', content: 'Latest question' });
+    expect(sent.length).toBeLessThan(22);
+    expect(sent.some((m) => m.content.startsWith('0 '))).toBe(false);
+    expect(result.current.contextNotice?.droppedCount).toBeGreaterThan(0);
+    expect(result.current.messages.some((m) => m.kind === 'summary')).toBe(false);
+  });
+
+  test('caps max tokens so a short-context model still gets the whole prompt', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+
+    const { result } = renderHook(() =>
+      useWebLLM({ modelId: 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC-1k', maxTokens: 4096 })
+    );
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Latest question');
+    });
+
+    expect(mockChatCompletions.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({ max_tokens: 512 })
+    );
+    expect(lastStreamedMessages().at(-1)).toEqual({ role: 'user', content: 'Latest question' });
+    expect(result.current.contextNotice).toBeNull();
+  });
+
+  test('budgets for the loaded model when another one is selected', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+
+    const { result, rerender } = renderHook((config) => useWebLLM(config), {
+      initialProps: { modelId: 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC-1k', maxTokens: 4096 },
+    });
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    // Picked for the next load; the 1k model keeps answering until then
+    rerender({ modelId: 'Llama-3.2-3B-Instruct-q4f32_1-MLC', maxTokens: 4096 });
+    await act(async () => {
+      await result.current.sendMessage('Latest question');
+    });
+
+    expect(mockChatCompletions.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({ max_tokens: 512 })
+    );
+  });
+
+  test('credits a reply to the model that wrote it', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+
+    const { result, rerender } = renderHook((config) => useWebLLM(config), {
+      initialProps: { modelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC' },
+    });
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    rerender({ modelId: 'Llama-3.2-3B-Instruct-q4f32_1-MLC' });
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+
+    expect(result.current.messages[1].modelId).toBe('Llama-3.2-1B-Instruct-q4f32_1-MLC');
+  });
+
+  test('summarizes the oldest turns once the conversation grows too long', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    mockLongConversation();
+
+    const { result } = renderHook(() =>
+      useWebLLM({ modelId: 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC-1k' })
+    );
+
+    await waitFor(() => {
+      expect(result.current.messages).toHaveLength(20);
+    });
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Latest question');
+    });
+
+    const summary = result.current.messages.find((m) => m.kind === 'summary');
+    expect(summary).toEqual(
+      expect.objectContaining({ role: 'system', content: 'Summary of the earlier turns' })
+    );
+    // The summary sits right after the turns it replaces
+    const summaryIndex = result.current.messages.indexOf(summary!);
+    expect(result.current.messages[summaryIndex - 1].id).toMatch(/^m\d+$/);
+    expect(storage.putMessage).toHaveBeenCalledWith('conv-1', expect.objectContaining(summary));
+
+    const sent = lastStreamedMessages();
+    expect(sent[0].content).toContain('Summary of the earlier turns');
+    expect(sent.filter((m) => m.role === 'system')).toHaveLength(1);
+    expect(sent.some((m) => m.content.startsWith('0 '))).toBe(false);
+    expect(sent[sent.length - 1]).toEqual({ role: 'user', content: 'Latest question' });
+
+    // The summary can be corrected by hand
+    act(() => {
+      result.current.editSummary(summary!.id, 'Corrected summary');
+    });
+    expect(result.current.messages.find((m) => m.id === summary!.id)?.content).toBe(
+      'Corrected summary'
+    );
+  });
+
+  test('passes sampling options to the model', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+
+    const { result } = renderHook(() =>
+      useWebLLM({
+        temperature: 0.2,
+        topP: 0.9,
+        frequencyPenalty: 0.5,
+        presencePenalty: 0.1,
+        seed: 42,
+        stop: ['###'],
+        logitBias: { '128': -100 },
+      })
+    );
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+
+    expect(mockChatCompletions.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        temperature: 0.2,
+        top_p: 0.9,
+        frequency_penalty: 0.5,
+        presence_penalty: 0.1,
+        seed: 42,
+        stop: ['###'],
+        logit_bias: { '128': -100 },
+        stream: true,
+      })
+    );
+  });
+
+  test('sends passages from the document library and keeps them as citations', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    const citation = {
+      number: 1,
+      documentId: 'doc-1',
+      documentName: 'handbook.md',
+      chunkId: 'chunk-1',
+      chunkIndex: 0,
+      text: 'Holidays are 25 days a year.',
+    };
+    const retrieveSources = vi.fn().mockResolvedValue([citation]);
+
+    const { result } = renderHook(() => useWebLLM({}, { retrieveSources }));
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('How many holidays do I get?');
+    });
+
+    expect(retrieveSources).toHaveBeenCalledWith('How many holidays do I get?');
+    const [system] = lastStreamedMessages();
+    expect(system.role).toBe('system');
+    expect(system.content).toContain('[1] handbook.md (part 1):\nHolidays are 25 days a year.');
+    expect(result.current.messages[1].citations).toEqual([citation]);
+  });
+
+  test('sends no passages when none are relevant', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    const retrieveSources = vi.fn().mockResolvedValue([]);
+
+    const { result } = renderHook(() => useWebLLM({}, { retrieveSources }));
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+
+    expect(lastStreamedMessages()[0].content).not.toContain('Excerpts');
+    expect(result.current.messages[1].citations).toBeUndefined();
+  });
+
+  test('sends remembered facts and passes on the ones the model proposes', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    mockChatCompletions.create.mockImplementationOnce(
+      async () =>
+        ({
+          async *[Symbol.asyncIterator]() {
+            yield { choices: [{ delta: { content: 'Here you go.\n<memory>Prefers ' } }] };
+            yield { choices: [{ delta: { content: 'TypeScript</memory>' } }] };
+          },
+        }) as never
+    );
+    const memory = {
+      id: 'memory-1',
+      content: 'Lives in Lisbon',
+      status: 'approved' as const,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const retrieveMemories = vi.fn().mockResolvedValue([memory]);
+    const proposeMemories = vi.fn().mockResolvedValue(undefined);
+
+    const { result } = renderHook(() => useWebLLM({}, { retrieveMemories, proposeMemories }));
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Show me a TypeScript example');
+    });
+
+    expect(retrieveMemories).toHaveBeenCalledWith('Show me a TypeScript example');
+    const [system] = lastStreamedMessages();
+    expect(system.content).toContain('earlier conversations:\n- Lives in Lisbon');
+    expect(result.current.messages[1].content).toBe('Here you go.');
+    expect(proposeMemories).toHaveBeenCalledWith(['Prefers TypeScript']);
+  });
+
+  test('keeps text at the end of a reply that only looked like a proposal', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    mockChatCompletions.create.mockImplementationOnce(
+      async () =>
+        ({
+          async *[Symbol.asyncIterator]() {
+            yield { choices: [{ delta: { content: 'Compare with a <m' } }] };
+          },
+        }) as never
+    );
+    const retrieveMemories = vi.fn().mockResolvedValue([]);
+    const proposeMemories = vi.fn().mockResolvedValue(undefined);
+
+    const { result } = renderHook(() => useWebLLM({}, { retrieveMemories, proposeMemories }));
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('How do I compare?');
+    });
+
+    expect(result.current.messages[1].content).toBe('Compare with a <m');
+    expect(proposeMemories).not.toHaveBeenCalled();
+  });
+
+  test('logs proposed facts that cannot be saved', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    mockChatCompletions.create.mockImplementationOnce(
+      async () =>
+        ({
+          async *[Symbol.asyncIterator]() {
+            yield { choices: [{ delta: { content: 'Noted.<memory>Has two cats</memory>' } }] };
+          },
+        }) as never
+    );
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const retrieveMemories = vi.fn().mockResolvedValue([]);
+    const proposeMemories = vi.fn().mockRejectedValue(new Error('Quota exceeded'));
+
+    const { result } = renderHook(() => useWebLLM({}, { retrieveMemories, proposeMemories }));
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('I have two cats');
+    });
+
+    await waitFor(() => {
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Failed to save proposed memories:',
+        expect.any(Error)
+      );
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.messages[1].content).toBe('Noted.');
+  });
+
+  test('neither sends nor asks for facts while memory is off', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+
+    const { result } = renderHook(() => useWebLLM());
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+
+    expect(lastStreamedMessages()[0].content).not.toContain('<memory>');
+  });
+
+  test("uses the active conversation's settings and records its model", async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    vi.mocked(storage.loadConversations).mockResolvedValueOnce([
+      {
+        id: 'conv-1',
+        title: 'Custom chat',
+        createdAt: new Date(2024, 0, 1),
+        updatedAt: new Date(2024, 0, 1),
+        modelId: 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC-1k',
+        settings: { temperature: 0.1, systemPrompt: 'Answer in French.' },
+      },
+    ]);
+
+    const { result } = renderHook(() =>
+      useWebLLM({ modelId: 'Llama-3.2-1B-Instruct-q4f16_1-MLC', temperature: 0.9 })
+    );
+
+    await waitFor(() => {
+      expect(result.current.activeConversationId).toBe('conv-1');
+    });
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+
+    expect(mockChatCompletions.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({ temperature: 0.1 })
+    );
+    expect(lastStreamedMessages()[0]).toEqual({
+      role: 'system',
+      content: 'Answer in French.',
+    });
+    expect(result.current.messages.at(-1)?.modelId).toBe('Llama-3.2-1B-Instruct-q4f16_1-MLC');
+    expect(storage.saveConversation).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'conv-1', modelId: 'Llama-3.2-1B-Instruct-q4f16_1-MLC' })
+    );
+  });
+
+  test('records the loaded model on the conversation when another one is selected', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    vi.mocked(storage.loadConversations).mockResolvedValueOnce([
+      {
+        id: 'conv-1',
+        title: 'Older chat',
+        createdAt: new Date(2024, 0, 1),
+        updatedAt: new Date(2024, 0, 1),
+        modelId: 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC-1k',
+      },
+    ]);
+
+    const { result, rerender } = renderHook((config) => useWebLLM(config), {
+      initialProps: { modelId: 'Llama-3.2-1B-Instruct-q4f32_1-MLC' },
+    });
+    await waitFor(() => {
+      expect(result.current.activeConversationId).toBe('conv-1');
+    });
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    // Picked for the next load; the 1B model keeps answering until then
+    rerender({ modelId: 'Llama-3.2-3B-Instruct-q4f32_1-MLC' });
+
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+    expect(result.current.conversations[0].modelId).toBe('Llama-3.2-1B-Instruct-q4f32_1-MLC');
+
+    act(() => {
+      result.current.setConversationModel('conv-1', 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC-1k');
+    });
+    await act(async () => {
+      await result.current.regenerateMessage(result.current.messages[1].id);
+    });
+    expect(result.current.conversations[0].modelId).toBe('Llama-3.2-1B-Instruct-q4f32_1-MLC');
+
+    // A new chat is for the loaded model too
+    await act(async () => {
+      await result.current.createConversation();
+    });
+    expect(result.current.conversations[0].modelId).toBe('Llama-3.2-1B-Instruct-q4f32_1-MLC');
+  });
+
+  test('records settings and stats on the assistant message', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    mockChatCompletions.create.mockImplementationOnce(
+      async () =>
+        ({
+          async *[Symbol.asyncIterator]() {
+            yield { choices: [{ delta: { content: 'Cut' }, finish_reason: null }] };
+            yield { choices: [{ delta: { content: ' short' }, finish_reason: 'length' }] };
+            yield {
+              choices: [],
+              usage: {
+                prompt_tokens: 30,
+                completion_tokens: 2,
+                extra: { decode_tokens_per_s: 12 },
+              },
+            };
+          },
+        }) as never
+    );
+
+    const { result } = renderHook(() => useWebLLM({ temperature: 0.4 }));
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+
+    expect(mockChatCompletions.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({ stream_options: { include_usage: true } })
+    );
+    const reply = result.current.messages.at(-1)!;
+    expect(reply.content).toBe('Cut short');
+    expect(reply.settings).toEqual(expect.objectContaining({ temperature: 0.4 }));
+    expect(reply.stats).toEqual({
+      promptTokens: 30,
+      completionTokens: 2,
+      timeToFirstTokenMs: expect.any(Number),
+      tokensPerSecond: 12,
+      finishReason: 'length',
+    });
+    await waitFor(() => {
+      expect(storage.putMessage).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ id: reply.id, stats: reply.stats })
+      );
+    });
+  });
+
+  test('edits a prompt into a new branch and sends only that branch', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+
+    const { result } = renderHook(() => useWebLLM());
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('First question');
+    });
+    await act(async () => {
+      await result.current.sendMessage('Follow-up');
+    });
+    const followUp = result.current.messages[2];
+
+    await act(async () => {
+      await result.current.editMessage(followUp.id, 'Better follow-up');
+    });
+
+    expect(result.current.messages.map((m) => m.content)).toEqual([
+      'First question',
+      'Test response',
+      'Better follow-up',
+      'Test response',
+    ]);
+    expect(result.current.messages[2].parentId).toBe(result.current.messages[1].id);
+    expect(result.current.branchPositions[result.current.messages[2].id]).toEqual({
+      index: 1,
+      count: 2,
+    });
+    expect(lastStreamedMessages().map((m) => m.content)).toEqual([
+      expect.any(String),
+      'First question',
+      'Test response',
+      'Better follow-up',
+    ]);
+
+    act(() => {
+      result.current.showSibling(result.current.messages[2].id, -1);
+    });
+
+    expect(result.current.messages[2].content).toBe('Follow-up');
+    expect(result.current.messages).toHaveLength(4);
+  });
+
+  test('regenerates a reply next to the original', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+
+    const { result } = renderHook(() => useWebLLM());
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+    const [prompt, original] = result.current.messages;
+
+    await act(async () => {
+      await result.current.regenerateMessage(original.id);
+    });
+
+    const [, regenerated] = result.current.messages;
+    expect(result.current.messages).toHaveLength(2);
+    expect(regenerated.id).not.toBe(original.id);
+    expect(regenerated.parentId).toBe(prompt.id);
+    expect(result.current.branchPositions[regenerated.id]).toEqual({ index: 1, count: 2 });
+    expect(lastStreamedMessages().map((m) => m.content)).toEqual([expect.any(String), 'Hello']);
+  });
+
+  test('continues a reply cut off at max tokens in the same message', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    const streamOf = (content: string, finishReason: string, completionTokens: number) =>
+      ({
+        async *[Symbol.asyncIterator]() {
+          yield { choices: [{ delta: { content }, finish_reason: finishReason }] };
+          yield { choices: [], usage: { prompt_tokens: 10, completion_tokens: completionTokens } };
+        },
+      }) as never;
+    mockChatCompletions.create
+      .mockImplementationOnce(async () => streamOf('The start', 'length', 5))
+      .mockImplementationOnce(async () => streamOf(' and the end.', 'stop', 4));
+
+    const { result } = renderHook(() => useWebLLM());
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Tell me a story');
+    });
+    const reply = result.current.messages[1];
+    expect(reply.stats?.finishReason).toBe('length');
+
+    await act(async () => {
+      await result.current.continueMessage(reply.id);
+    });
+
+    expect(result.current.messages).toHaveLength(2);
+    expect(result.current.messages[1]).toEqual(
+      expect.objectContaining({
+        id: reply.id,
+        content: 'The start and the end.',
+        stats: expect.objectContaining({ completionTokens: 9, finishReason: 'stop' }),
+      })
+    );
+    const sent = lastStreamedMessages();
+    expect(sent.slice(1, 3)).toEqual([
+      { role: 'user', content: 'Tell me a story' },
+      { role: 'assistant', content: 'The start' },
+    ]);
+    expect(sent[3].role).toBe('user');
+  });
+
+  test('queues prompts sent while generating and sends them in order', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    mockChatCompletions.create.mockImplementationOnce(
+      async () =>
+        ({
+          async *[Symbol.asyncIterator]() {
+            await released;
+            yield { choices: [{ delta: { content: 'First answer' } }] };
+          },
+        }) as never
+    );
+
+    const { result } = renderHook(() => useWebLLM());
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    let firstSend!: Promise<void>;
+    act(() => {
+      firstSend = result.current.sendMessage('First');
+    });
+    await waitFor(() => {
+      expect(result.current.isGenerating).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.sendMessage('Second');
+      await result.current.sendMessage('Third');
+      await result.current.sendMessage('Fourth');
+    });
+    expect(result.current.queue.map((p) => p.content)).toEqual(['Second', 'Third', 'Fourth']);
+
+    act(() => {
+      result.current.moveQueuedPrompt(result.current.queue[1].id, -1);
+      result.current.cancelQueuedPrompt(result.current.queue[2].id);
+    });
+    expect(result.current.queue.map((p) => p.content)).toEqual(['Third', 'Second']);
+
+    await act(async () => {
+      release();
+      await firstSend;
+    });
+
+    await waitFor(() => {
+      expect(result.current.messages.map((m) => m.content)).toEqual([
+        'First',
+        'First answer',
+        'Third',
+        'Test response',
+        'Second',
+        'Test response',
+      ]);
+    });
+    expect(result.current.queue).toEqual([]);
+    // Each queued prompt is sent with the replies before it
+    expect(lastStreamedMessages().map((m) => m.content)).toEqual([
+      expect.any(String),
+      'First',
+      'First answer',
+      'Third',
+      'Test response',
+      'Second',
+    ]);
+  });
+
+  test('stopping a reply with prompts queued sends them one at a time', async () => {
+    const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
+    (CreateMLCEngine as ReturnType<typeof vi.fn>).mockResolvedValue(createMockEngine(true, false));
+    let streaming = 0;
+    let maxStreaming = 0;
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const trackStream = (chunks: () => AsyncGenerator<unknown>) => async () =>
+      ({
+        async *[Symbol.asyncIterator]() {
+          streaming++;
+          maxStreaming = Math.max(maxStreaming, streaming);
+          try {
+            yield* chunks();
+          } finally {
+            streaming--;
+          }
+        },
+      }) as never;
+    mockChatCompletions.create
+      .mockImplementationOnce(
+        trackStream(async function* () {
+          yield { choices: [{ delta: { content: 'Partial' } }] };
+          // The engine is still busy when Stop is pressed
+          await released;
+          yield { choices: [{ delta: { content: ' answer' } }] };
+        })
+      )
+      .mockImplementationOnce(
+        trackStream(async function* () {
+          yield { choices: [{ delta: { content: 'Second answer' } }] };
+        })
+      );
+
+    const { result } = renderHook(() => useWebLLM());
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    let firstSend!: Promise<void>;
+    act(() => {
+      firstSend = result.current.sendMessage('First');
+    });
+    await waitFor(() => {
+      expect(result.current.messages[1]?.content).toBe('Partial');
+    });
+    await act(async () => {
+      await result.current.sendMessage('Second');
+    });
+
+    act(() => {
+      result.current.stopGeneration();
+    });
+    // The stopped reply has not wound down yet, so the queued prompt waits
+    expect(result.current.isGenerating).toBe(true);
+    expect(result.current.queue.map((p) => p.content)).toEqual(['Second']);
+
+    await act(async () => {
+      release();
+      await firstSend;
+    });
+
+    await waitFor(() => {
+      expect(result.current.messages.map((m) => m.content)).toEqual([
+        'First',
+        'Partial',
+        'Second',
+        'Second answer',
+      ]);
+    });
+    expect(result.current.messages[1].stats?.finishReason).toBe('abort');
+    expect(result.current.queue).toEqual([]);
+    expect(result.current.error).toBeNull();
+    expect(maxStreaming).toBe(1);
+  });
+
   test('aborts pending operations when switching models', async () => {
     const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
     const mockEngine = createMockEngine(true, false);
@@ -2,6 +2,10 @@ import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { useWebLLM } from './useWebLLM';
 import * as storage from '../utils/storage';
+import * as engine from '../utils/engine';
+import type { Persona } from '../types/persona';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import { getGenerationSettings } from '../utils/settings';
 
 // Mock the @mlc-ai/web-llm module
 vi.mock('@mlc-ai/web-llm', () => ({
@@ -16,9 +20,21 @@ vi.mock('../utils/gpu', () => ({
 
 // Mock storage utilities
 vi.mock('../utils/storage', () => ({
-  saveMessages: vi.fn().mockResolvedValue(undefined),
+  putMessage: vi.fn().mockResolvedValue(undefined),
+  deleteMessage: vi.fn().mockResolvedValue(undefined),
   loadMessages: vi.fn().mockResolvedValue([]),
   clearMessages: vi.fn().mockResolvedValue(undefined),
+  loadConversations: vi.fn().mockResolvedValue([]),
+  saveConversation: vi.fn().mockResolvedValue(undefined),
+  deleteConversation: vi.fn().mockResolvedValue(undefined),
+  loadSetting: vi.fn().mockResolvedValue(undefined),
+  saveSetting: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock engine creation - no service worker engine unless a test provides one
+vi.mock('../utils/engine', () => ({
+  createEngine: vi.fn(),
+  getResidentModels: vi.fn().mockResolvedValue([]),
 }));
 
 describe('useWebLLM', () => {
@@ -143,7 +159,123 @@ describe('useWebLLM', () => {
     expect(result.current.messages[0].role).toBe('user');
   });
 
+  test('cuts demo replies at max tokens and continues them', async () => {
+    const { result } = renderHook(() => useWebLLM({ maxTokens: 2 }));
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await waitFor(() => {
+      expect(result.current.isDemo).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+    const reply = result.current.messages[1];
+    expect(reply.content).toHaveLength(8);
+    expect(reply.stats?.finishReason).toBe('length');
+
+    await act(async () => {
+      await result.current.continueMessage(reply.id);
+    });
+
+    expect(result.current.messages).toHaveLength(2);
+    expect(result.current.messages[1].content).toHaveLength(16);
+    expect(result.current.messages[1].content.startsWith(reply.content)).toBe(true);
+  });
+
+  test('stopping a demo reply with prompts queued still sends them', async () => {
+    // Long enough to stop partway, short enough to keep the test quick
+    const { result } = renderHook(() => useWebLLM({ maxTokens: 10 }));
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await waitFor(() => {
+      expect(result.current.isDemo).toBe(true);
+    });
+    let firstSend!: Promise<void>;
+    act(() => {
+      firstSend = result.current.sendMessage('First');
+    });
+    await waitFor(() => {
+      expect(result.current.messages[1]?.content).toBeTruthy();
+    });
+    await act(async () => {
+      await result.current.sendMessage('Second');
+    });
+
+    await act(async () => {
+      result.current.stopGeneration();
+      await firstSend;
+    });
+    const stopped = result.current.messages[1];
+    expect(stopped.stats?.finishReason).toBe('abort');
+    expect(stopped.content.length).toBeLessThan(40);
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('demo');
+      expect(result.current.messages).toHaveLength(4);
+    });
+    // The queued prompt followed the stopped reply, whose text no longer changed
+    expect(result.current.messages[1].content).toBe(stopped.content);
+    expect(result.current.messages[2]).toEqual(
+      expect.objectContaining({ content: 'Second', parentId: stopped.id })
+    );
+    expect(result.current.messages[3].stats?.finishReason).toBe('length');
+    expect(result.current.queue).toEqual([]);
+    expect(result.current.error).toBeNull();
+  });
+
+  test('adds code output after the last reply and sends it with the next message', async () => {
+    // Short demo replies keep the test quick
+    const { result } = renderHook(() => useWebLLM({ maxTokens: 2 }));
+
+    await act(async () => {
+      await result.current.initializeEngine();
+    });
+    await waitFor(() => {
+      expect(result.current.isDemo).toBe(true);
+    });
+    await act(async () => {
+      await result.current.sendMessage('Write a script');
+    });
+    const reply = result.current.messages[1];
+
+    act(() => {
+      result.current.addCodeResult('Result: 42');
+    });
+
+    const output = result.current.messages[2];
+    expect(output).toEqual(
+      expect.objectContaining({
+        role: 'user',
+        kind: 'code-result',
+        content: 'Result: 42',
+        parentId: reply.id,
+      })
+    );
+    // No reply until the next message
+    expect(result.current.messages).toHaveLength(3);
+
+    await act(async () => {
+      await result.current.sendMessage('What did it print?');
+    });
+    expect(result.current.messages[3]).toEqual(
+      expect.objectContaining({ content: 'What did it print?', parentId: output.id })
+    );
+  });
+
   describe('chat persistence', () => {
+    const storedConversation = {
+      id: 'conv-1',
+      title: 'Previous chat',
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+      modelId: 'test-model',
+    };
+
     beforeEach(() => {
       vi.clearAllMocks();
     });
@@ -158,26 +290,29 @@ describe('useWebLLM', () => {
         },
       ];
 
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([storedConversation]);
       vi.mocked(storage.loadMessages).mockResolvedValueOnce(mockMessages);
 
       const { result } = renderHook(() => useWebLLM());
 
       await waitFor(() => {
         expect(storage.loadMessages).toHaveBeenCalledTimes(1);
+        expect(storage.loadMessages).toHaveBeenCalledWith('conv-1');
         expect(result.current.messages).toEqual(mockMessages);
+        expect(result.current.activeConversationId).toBe('conv-1');
       });
     });
 
     test('does not load messages if storage is empty', async () => {
-      vi.mocked(storage.loadMessages).mockResolvedValueOnce([]);
-
       const { result } = renderHook(() => useWebLLM());
 
       await waitFor(() => {
-        expect(storage.loadMessages).toHaveBeenCalledTimes(1);
+        expect(storage.loadConversations).toHaveBeenCalledTimes(1);
       });
 
+      expect(storage.loadMessages).not.toHaveBeenCalled();
       expect(result.current.messages).toEqual([]);
+      expect(result.current.activeConversationId).toBeNull();
     });
 
     test('saves messages to storage whenever they change', async () => {
@@ -196,12 +331,39 @@ describe('useWebLLM', () => {
       });
 
       await waitFor(() => {
-        expect(storage.saveMessages).toHaveBeenCalled();
+        expect(storage.putMessage).toHaveBeenCalledWith(
+          result.current.activeConversationId,
+          expect.objectContaining({ role: 'user', content: 'Test message' })
+        );
         expect(result.current.messages.length).toBeGreaterThan(0);
       });
     });
 
-    test('saves empty array to storage when messages are cleared', async () => {
+    test('writes the finished assistant reply once streaming ends', async () => {
+      const { result } = renderHook(() => useWebLLM());
+
+      await act(async () => {
+        await result.current.initializeEngine();
+      });
+
+      await act(async () => {
+        await result.current.sendMessage('Test message');
+      });
+
+      const assistantMessage = result.current.messages[1];
+      await waitFor(() => {
+        expect(storage.putMessage).toHaveBeenLastCalledWith(
+          result.current.activeConversationId,
+          assistantMessage
+        );
+      });
+      // The streamed reply is written far fewer times than it was updated
+      expect(vi.mocked(storage.putMessage).mock.calls.length).toBeLessThan(
+        assistantMessage.content.length / 2
+      );
+    });
+
+    test('deletes messages from storage when messages are cleared', async () => {
       const { result } = renderHook(() => useWebLLM());
 
       await act(async () => {
@@ -217,14 +379,18 @@ describe('useWebLLM', () => {
         await result.current.sendMessage('Test');
       });
 
+      const messageIds = result.current.messages.map((m) => m.id);
+
       // Clear messages
       await act(async () => {
         await result.current.clearMessages();
       });
 
       await waitFor(() => {
-        // Should save empty array instead of calling clearMessages
-        expect(storage.saveMessages).toHaveBeenCalledWith([]);
+        // Each removed message is deleted individually
+        messageIds.forEach((id) => {
+          expect(storage.deleteMessage).toHaveBeenCalledWith(id);
+        });
         expect(result.current.messages).toEqual([]);
       });
     });
@@ -239,6 +405,7 @@ describe('useWebLLM', () => {
         },
       ];
 
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([storedConversation]);
       vi.mocked(storage.loadMessages).mockResolvedValueOnce(mockMessages);
 
       const { result } = renderHook(() => useWebLLM());
@@ -247,6 +414,9 @@ describe('useWebLLM', () => {
         expect(result.current.messages).toEqual(mockMessages);
       });
 
+      // Loaded messages are not written back to storage
+      expect(storage.putMessage).not.toHaveBeenCalled();
+
       // Reset should NOT clear messages
       act(() => {
         result.current.reset();
@@ -275,13 +445,13 @@ describe('useWebLLM', () => {
       // Wait for message to be added and saved
       await waitFor(() => {
         expect(result.current.messages.length).toBeGreaterThan(0);
-        expect(storage.saveMessages).toHaveBeenCalled();
+        expect(storage.putMessage).toHaveBeenCalled();
       });
     });
 
     test('handles storage errors gracefully', async () => {
       // Mock error BEFORE rendering hook
-      vi.mocked(storage.loadMessages).mockRejectedValueOnce(new Error('Storage error'));
+      vi.mocked(storage.loadConversations).mockRejectedValueOnce(new Error('Storage error'));
 
       const { result } = renderHook(() => useWebLLM());
 
@@ -292,4 +462,311 @@ describe('useWebLLM', () => {
       expect(result.current.messages).toEqual([]);
     });
   });
+
+  describe('conversations', () => {
+    const olderConversation = {
+      id: 'conv-old',
+      title: 'Older chat',
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+      modelId: 'test-model',
+    };
+    const newerConversation = {
+      ...olderConversation,
+      id: 'conv-new',
+      title: 'Newer chat',
+      updatedAt: new Date('2024-02-01'),
+    };
+    const olderMessages = [
+      {
+        id: 'old-1',
+        role: 'user' as const,
+        content: 'Older message',
+        timestamp: new Date('2024-01-01'),
+      },
+    ];
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    test('first message starts a conversation titled after it', async () => {
+      const { result } = renderHook(() => useWebLLM());
+
+      await act(async () => {
+        await result.current.initializeEngine();
+      });
+
+      await act(async () => {
+        await result.current.sendMessage('What is WebGPU?');
+      });
+
+      expect(result.current.conversations).toHaveLength(1);
+      expect(result.current.conversations[0].title).toBe('What is WebGPU?');
+      expect(result.current.activeConversationId).toBe(result.current.conversations[0].id);
+      expect(storage.saveConversation).toHaveBeenCalled();
+    });
+
+    test('createConversation opens an empty conversation', async () => {
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([newerConversation]);
+      vi.mocked(storage.loadMessages).mockResolvedValueOnce(olderMessages);
+
+      const { result } = renderHook(() => useWebLLM());
+
+      await waitFor(() => {
+        expect(result.current.messages).toEqual(olderMessages);
+      });
+
+      await act(async () => {
+        await result.current.createConversation();
+      });
+
+      expect(result.current.messages).toEqual([]);
+      expect(result.current.conversations).toHaveLength(2);
+      expect(result.current.conversations[0].title).toBe('New chat');
+      expect(result.current.activeConversationId).toBe(result.current.conversations[0].id);
+    });
+
+    test('createConversation starts with a persona’s prompt, settings and model', async () => {
+      const { result } = renderHook(() => useWebLLM());
+      const persona: Persona = {
+        id: 'persona-1',
+        name: 'Tutor',
+        avatar: '🦉',
+        modelId: 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC',
+        settings: {
+          ...getGenerationSettings(DEFAULT_CHAT_CONFIG),
+          systemPrompt: 'Explain patiently.',
+          temperature: 0.2,
+        },
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01'),
+      };
+
+      await act(async () => {
+        await result.current.createConversation(undefined, persona);
+      });
+
+      expect(result.current.conversations[0]).toMatchObject({
+        title: 'New chat',
+        personaId: 'persona-1',
+        modelId: 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC',
+        settings: persona.settings,
+      });
+    });
+
+    test('switchConversation loads the messages of the selected conversation', async () => {
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([
+        newerConversation,
+        olderConversation,
+      ]);
+
+      const { result } = renderHook(() => useWebLLM());
+
+      await waitFor(() => {
+        expect(result.current.activeConversationId).toBe('conv-new');
+      });
+
+      vi.mocked(storage.loadMessages).mockResolvedValueOnce(olderMessages);
+
+      await act(async () => {
+        await result.current.switchConversation('conv-old');
+      });
+
+      expect(storage.loadMessages).toHaveBeenLastCalledWith('conv-old');
+      expect(result.current.activeConversationId).toBe('conv-old');
+      expect(result.current.messages).toEqual(olderMessages);
+    });
+
+    test('showMessage opens the conversation on the branch containing a message', async () => {
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([
+        newerConversation,
+        olderConversation,
+      ]);
+      const branchedMessages = [
+        {
+          id: 'q1',
+          role: 'user' as const,
+          content: 'First',
+          timestamp: new Date(1),
+          parentId: null,
+        },
+        {
+          id: 'q2',
+          role: 'user' as const,
+          content: 'Edited',
+          timestamp: new Date(2),
+          parentId: null,
+        },
+      ];
+
+      const { result } = renderHook(() => useWebLLM());
+
+      await waitFor(() => {
+        expect(result.current.activeConversationId).toBe('conv-new');
+      });
+
+      vi.mocked(storage.loadMessages).mockResolvedValueOnce(branchedMessages);
+      let shown = false;
+      await act(async () => {
+        shown = await result.current.showMessage('conv-old', 'q1');
+      });
+
+      expect(shown).toBe(true);
+      expect(result.current.activeConversationId).toBe('conv-old');
+      expect(result.current.messages.map((m) => m.id)).toEqual(['q1']);
+
+      // Within the open conversation only the branch changes
+      await act(async () => {
+        shown = await result.current.showMessage('conv-old', 'q2');
+      });
+      expect(shown).toBe(true);
+      expect(result.current.messages.map((m) => m.id)).toEqual(['q2']);
+      expect(storage.loadMessages).toHaveBeenCalledTimes(2);
+    });
+
+    test('showMessage stays put when the message no longer exists', async () => {
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([newerConversation]);
+      const { result } = renderHook(() => useWebLLM());
+      await waitFor(() => {
+        expect(result.current.activeConversationId).toBe('conv-new');
+      });
+
+      vi.mocked(storage.loadMessages).mockResolvedValueOnce(olderMessages);
+      let shown = true;
+      await act(async () => {
+        shown = await result.current.showMessage('conv-old', 'deleted');
+      });
+
+      expect(shown).toBe(false);
+      expect(result.current.activeConversationId).toBe('conv-new');
+    });
+
+    test('renameConversation updates the title in state and storage', async () => {
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([olderConversation]);
+
+      const { result } = renderHook(() => useWebLLM());
+
+      await waitFor(() => {
+        expect(result.current.conversations).toHaveLength(1);
+      });
+
+      await act(async () => {
+        await result.current.renameConversation('conv-old', '  Renamed chat  ');
+      });
+
+      expect(result.current.conversations[0].title).toBe('Renamed chat');
+      expect(storage.saveConversation).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'conv-old', title: 'Renamed chat' })
+      );
+    });
+
+    test('setConversationSettings stores the overrides and clears them with undefined', async () => {
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([olderConversation]);
+
+      const { result } = renderHook(() => useWebLLM());
+
+      await waitFor(() => {
+        expect(result.current.conversations).toHaveLength(1);
+      });
+
+      await act(async () => {
+        await result.current.setConversationSettings('conv-old', { temperature: 0.2 });
+      });
+
+      expect(result.current.conversations[0].settings).toEqual({ temperature: 0.2 });
+      expect(storage.saveConversation).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'conv-old', settings: { temperature: 0.2 } })
+      );
+
+      await act(async () => {
+        await result.current.setConversationSettings('conv-old', undefined);
+      });
+
+      expect(result.current.conversations[0].settings).toBeUndefined();
+    });
+
+    test('setConversationModel records the model for the conversation', async () => {
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([olderConversation]);
+
+      const { result } = renderHook(() => useWebLLM());
+
+      await waitFor(() => {
+        expect(result.current.conversations).toHaveLength(1);
+      });
+
+      await act(async () => {
+        await result.current.setConversationModel('conv-old', 'other-model');
+      });
+
+      expect(result.current.conversations[0].modelId).toBe('other-model');
+      expect(storage.saveConversation).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'conv-old', modelId: 'other-model' })
+      );
+    });
+
+    test('deleting the active conversation opens the next most recent one', async () => {
+      vi.mocked(storage.loadConversations).mockResolvedValueOnce([
+        newerConversation,
+        olderConversation,
+      ]);
+
+      const { result } = renderHook(() => useWebLLM());
+
+      await waitFor(() => {
+        expect(result.current.activeConversationId).toBe('conv-new');
+      });
+
+      vi.mocked(storage.loadMessages).mockResolvedValueOnce(olderMessages);
+
+      await act(async () => {
+        await result.current.deleteConversation('conv-new');
+      });
+
+      expect(storage.deleteConversation).toHaveBeenCalledWith('conv-new');
+      expect(result.current.conversations).toEqual([olderConversation]);
+      expect(result.current.activeConversationId).toBe('conv-old');
+      expect(result.current.messages).toEqual(olderMessages);
+    });
+  });
+
+  describe('keep model loaded', () => {
+    test('is off by default and does not look for a resident model', async () => {
+      const { result } = renderHook(() => useWebLLM());
+
+      await waitFor(() => {
+        expect(storage.loadSetting).toHaveBeenCalledWith('keepModelLoaded');
+      });
+      expect(result.current.keepModelLoaded).toBe(false);
+      expect(engine.getResidentModels).not.toHaveBeenCalled();
+      expect(result.current.residentModelId).toBeNull();
+    });
+
+    test('reports the model still loaded in the service worker', async () => {
+      vi.mocked(storage.loadSetting).mockResolvedValueOnce(true);
+      vi.mocked(engine.getResidentModels).mockResolvedValueOnce(['resident-model']);
+
+      const { result } = renderHook(() => useWebLLM());
+
+      await waitFor(() => {
+        expect(result.current.residentModelId).toBe('resident-model');
+      });
+      expect(result.current.keepModelLoaded).toBe(true);
+      expect(result.current.cachedModelId).toBe('resident-model');
+    });
+
+    test('setKeepModelLoaded saves the preference', async () => {
+      const { result } = renderHook(() => useWebLLM());
+      await waitFor(() => {
+        expect(storage.loadSetting).toHaveBeenCalled();
+      });
+
+      await act(async () => {
+        await result.current.setKeepModelLoaded(true);
+      });
+
+      expect(result.current.keepModelLoaded).toBe(true);
+      expect(storage.saveSetting).toHaveBeenCalledWith('keepModelLoaded', true);
+    });
+  });
 });
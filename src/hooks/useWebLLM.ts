@@ -1,19 +1,74 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { CompletionUsage } from '@mlc-ai/web-llm';
 import type {
   ChatMessage,
+  Citation,
+  Conversation,
   LLMStatus,
   LoadingProgress,
   ChatConfig,
   EngineMode,
+  ContextNotice,
+  ConversationSettings,
+  FinishReason,
+  QueuedPrompt,
 } from '../types/chat';
-import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import { DEFAULT_CHAT_CONFIG, DEFAULT_CONVERSATION_TITLE } from '../types/chat';
+import type { Memory } from '../types/memory';
+import type { Persona } from '../types/persona';
 import { checkGPUSupport, isTestEnvironment } from '../utils/gpu';
 import { getNextSmallerModel, getSmallestModel, getModelById } from '../utils/models';
 import {
-  saveMessages as saveMessagesToStorage,
   loadMessages as loadMessagesFromStorage,
+  loadConversations as loadConversationsFromStorage,
+  saveConversation as saveConversationToStorage,
+  deleteConversation as deleteConversationFromStorage,
+  loadSetting,
+  saveSetting,
 } from '../utils/storage';
 import { shouldUseLowResourceMode } from '../utils/device';
+import {
+  createSummaryMessage,
+  isSummary,
+  selectTurnsToSummarize,
+  splitAtLatestSummary,
+  summarizeTurns,
+  withSummary,
+  SUMMARY_PROMPT,
+} from '../utils/summary';
+import type { Turn } from '../utils/summary';
+import { createMessagePersister } from '../utils/persistence';
+import { getGenerationSettings, getSamplingParams } from '../utils/settings';
+import { buildGenerationStats, mergeGenerationStats } from '../utils/stats';
+import { withSources } from '../utils/documents';
+import { extractMemoryProposals, withMemories } from '../utils/memory';
+import { createStreamBuffer } from '../utils/streaming';
+import type { StreamBuffer } from '../utils/streaming';
+import {
+  getActiveBranch,
+  getBranchPositions,
+  getParentId,
+  selectMessage,
+  selectPathTo,
+  selectSibling,
+} from '../utils/tree';
+import type { BranchSelections } from '../utils/tree';
+import { countTokens, createEngine, getResidentModels } from '../utils/engine';
+import type { EngineHandle } from '../utils/engine';
+import {
+  CHARS_PER_TOKEN_ESTIMATE,
+  DEFAULT_CONTEXT_WINDOW_SIZE,
+  clampMaxTokens,
+  estimateTokens,
+  fitHistoryToContext,
+  getHistoryBudget,
+} from '../utils/context';
+
+/**
+ * Hidden turn asking the model to resume a reply that was cut off
+ */
+const CONTINUE_PROMPT =
+  'Continue your last reply exactly where it stopped. Do not repeat anything you already wrote.';
 
 // Simplified types for WebLLM engine to avoid strict type checking issues
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -31,11 +86,32 @@ const DEMO_RESPONSES = [
 ];
 
 /**
- * Maximum number of messages to keep in conversation history
- * This prevents memory issues with very long conversations
- * Keeps last N message pairs (user + assistant)
+ * Rest of the demo response a cut-off demo reply started
  */
-const MAX_CONVERSATION_MESSAGES = 50;
+function continueDemoResponse(content: string): string {
+  const response = DEMO_RESPONSES.find((r) => r.startsWith(content) && r.length > content.length);
+  return response ? response.slice(content.length) : ' That is all there is to this demo reply.';
+}
+
+/**
+ * Settings key for hosting the engine in the service worker across reloads
+ */
+const KEEP_MODEL_LOADED_SETTING = 'keepModelLoaded';
+
+/**
+ * Maximum length of a conversation title derived from its first message
+ */
+const MAX_TITLE_LENGTH = 40;
+
+/**
+ * Derive a conversation title from the first user message
+ */
+function titleFromContent(content: string): string {
+  const singleLine = content.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : singleLine;
+}
 
 /**
  * Format VRAM from MB to GB for display
@@ -44,12 +120,26 @@ function formatVRAMToGB(vramMB: number): string {
   return (Math.round((vramMB / 1024) * 10) / 10).toString();
 }
 
+export interface UseWebLLMOptions {
+  /** Find document passages relevant to a prompt, to send along with it */
+  retrieveSources?: (query: string) => Promise<Citation[]>;
+  /**
+   * Find remembered facts about the user relevant to a prompt, to send along with it.
+   * Leaving it out turns long-term memory off: the model is neither told facts nor asked for them.
+   */
+  retrieveMemories?: (query: string) => Promise<Memory[]>;
+  /** Offer the facts the model proposed in a reply for the user to review */
+  proposeMemories?: (facts: string[]) => Promise<void>;
+}
+
 /**
  * Custom hook for managing WebLLM chat interactions
  * Provides state management for chat messages and LLM operations
  * Supports both GPU-accelerated and demo mode
  */
-export function useWebLLM(config: Partial<ChatConfig> = {}) {
+export function useWebLLM(config: Partial<ChatConfig> = {}, options: UseWebLLMOptions = {}) {
+  const { retrieveSources, retrieveMemories, proposeMemories } = options;
+
   // Memoize the full config to avoid unnecessary re-renders
   const fullConfig: ChatConfig = useMemo(() => {
     return {
@@ -57,10 +147,34 @@ export function useWebLLM(config: Partial<ChatConfig> = {}) {
       systemPrompt: config.systemPrompt ?? DEFAULT_CHAT_CONFIG.systemPrompt,
       maxTokens: config.maxTokens ?? DEFAULT_CHAT_CONFIG.maxTokens,
       temperature: config.temperature ?? DEFAULT_CHAT_CONFIG.temperature,
+      topP: config.topP ?? DEFAULT_CHAT_CONFIG.topP,
+      frequencyPenalty: config.frequencyPenalty ?? DEFAULT_CHAT_CONFIG.frequencyPenalty,
+      presencePenalty: config.presencePenalty ?? DEFAULT_CHAT_CONFIG.presencePenalty,
+      seed: config.seed ?? DEFAULT_CHAT_CONFIG.seed,
+      stop: config.stop ?? DEFAULT_CHAT_CONFIG.stop,
+      logitBias: config.logitBias ?? DEFAULT_CHAT_CONFIG.logitBias,
+      summaryThreshold: config.summaryThreshold ?? DEFAULT_CHAT_CONFIG.summaryThreshold,
     };
-  }, [config.modelId, config.systemPrompt, config.maxTokens, config.temperature]);
+  }, [
+    config.modelId,
+    config.systemPrompt,
+    config.maxTokens,
+    config.temperature,
+    config.topP,
+    config.frequencyPenalty,
+    config.presencePenalty,
+    config.seed,
+    config.stop,
+    config.logitBias,
+    config.summaryThreshold,
+  ]);
 
+  // Every message of the active conversation, on all branches
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [branchSelections, setBranchSelections] = useState<BranchSelections>({});
+  const [queue, setQueue] = useState<QueuedPrompt[]>([]); // Prompts waiting for the current reply
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
   const [status, setStatus] = useState<LLMStatus>('idle');
   const [mode, setMode] = useState<EngineMode | null>(null);
   const [loadingProgress, setLoadingProgress] = useState<LoadingProgress>({
@@ -71,17 +185,40 @@ export function useWebLLM(config: Partial<ChatConfig> = {}) {
   const [gpuInfo, setGpuInfo] = useState<string | null>(null);
   const [suggestedModelId, setSuggestedModelId] = useState<string | null>(null);
   const [cachedModelId, setCachedModelId] = useState<string | null>(null);
+  const [keepModelLoaded, setKeepModelLoadedState] = useState(false);
+  const [residentModelId, setResidentModelId] = useState<string | null>(null);
+  const [contextNotice, setContextNotice] = useState<ContextNotice | null>(null);
 
   const engineRef = useRef<WebLLMEngine | null>(null);
+  const engineHandleRef = useRef<EngineHandle | null>(null); // Where the engine runs
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Set while generateReply runs, including the cleanup after a stopped reply
+  const replyingRef = useRef(false);
   const initializingRef = useRef<boolean>(false); // Track if initialization is in progress
   const demoResponseIndex = useRef(0);
+  const streamingMessageIdRef = useRef<string | null>(null); // Assistant message being streamed
+  const [persister] = useState(createMessagePersister);
 
-  // Load messages from IndexedDB on mount
+  // The branch shown in the chat and sent to the model
+  const activeBranch = useMemo(
+    () => getActiveBranch(messages, branchSelections),
+    [messages, branchSelections]
+  );
+  const branchPositions = useMemo(() => getBranchPositions(messages), [messages]);
+
+  // Load conversations from IndexedDB on mount and open the most recent one
   useEffect(() => {
-    const loadStoredMessages = async () => {
+    const loadStoredConversations = async () => {
       try {
-        const stored = await loadMessagesFromStorage();
+        const storedConversations = await loadConversationsFromStorage();
+        if (storedConversations.length === 0) {
+          return;
+        }
+        const [latest] = storedConversations;
+        const stored = await loadMessagesFromStorage(latest.id);
+        persister.load(latest.id, stored);
+        setConversations(storedConversations);
+        setActiveConversationId(latest.id);
         if (stored.length > 0) {
           setMessages(stored);
         }
@@ -90,15 +227,85 @@ export function useWebLLM(config: Partial<ChatConfig> = {}) {
         // Continue with empty messages - don't crash the app
       }
     };
-    loadStoredMessages();
-  }, []);
+    loadStoredConversations();
+  }, [persister]);
 
-  // Save messages to IndexedDB whenever they change (including when empty to clear storage)
+  // Find out whether a model is still loaded in the service worker from a previous visit
   useEffect(() => {
-    saveMessagesToStorage(messages).catch((err) => {
-      console.error('Failed to save messages:', err);
+    const detectResidentModel = async () => {
+      const enabled = (await loadSetting<boolean>(KEEP_MODEL_LOADED_SETTING)) ?? false;
+      setKeepModelLoadedState(enabled);
+      if (!enabled) {
+        return;
+      }
+      const [resident] = await getResidentModels();
+      if (resident) {
+        setResidentModelId(resident);
+        setCachedModelId(resident);
+      }
+    };
+    detectResidentModel().catch((err) => {
+      console.error('Failed to detect resident model:', err);
     });
-  }, [messages]);
+  }, []);
+
+  // Persist only the messages that were added, changed or removed since the last render
+  useEffect(() => {
+    if (!activeConversationId) {
+      return;
+    }
+    persister.sync(activeConversationId, messages, streamingMessageIdRef.current);
+  }, [persister, activeConversationId, messages]);
+
+  /**
+   * Apply changes to a conversation in state and storage
+   */
+  const updateConversation = useCallback(
+    (conversationId: string, changes: Partial<Omit<Conversation, 'id' | 'createdAt'>>) => {
+      const existing = conversations.find((c) => c.id === conversationId);
+      if (!existing) {
+        return;
+      }
+      const updated = { ...existing, updatedAt: new Date(), ...changes };
+      // Most recently updated conversations are listed first
+      setConversations((prev) => [updated, ...prev.filter((c) => c.id !== conversationId)]);
+      saveConversationToStorage(updated).catch((err) => {
+        console.error('Failed to save conversation:', err);
+      });
+    },
+    [conversations]
+  );
+
+  /**
+   * Start a new, empty conversation and make it active
+   * @param persona Persona whose prompt, settings and model the conversation starts with
+   */
+  const createConversation = useCallback(
+    async (
+      title: string = DEFAULT_CONVERSATION_TITLE,
+      persona?: Persona | null
+    ): Promise<Conversation> => {
+      const now = new Date();
+      const conversation: Conversation = {
+        id: crypto.randomUUID(),
+        title,
+        createdAt: now,
+        updatedAt: now,
+        // A persona's model is offered for loading like that of any other conversation
+        modelId: persona?.modelId ?? cachedModelId ?? fullConfig.modelId,
+        ...(persona && { personaId: persona.id, settings: { ...persona.settings } }),
+      };
+      setConversations((prev) => [conversation, ...prev]);
+      setActiveConversationId(conversation.id);
+      setMessages([]);
+      setBranchSelections({});
+      setQueue([]);
+      setContextNotice(null);
+      await saveConversationToStorage(conversation);
+      return conversation;
+    },
+    [cachedModelId, fullConfig.modelId]
+  );
 
   /**
    * Properly dispose of the WebLLM engine
@@ -125,99 +332,78 @@ export function useWebLLM(config: Partial<ChatConfig> = {}) {
         engineRef.current = null;
       }
     }
+
+    // Terminating the worker releases everything the engine held on its side
+    engineHandleRef.current?.worker?.terminate();
+    engineHandleRef.current = null;
   }, []);
 
   /**
    * Initialize the WebLLM engine or enter demo mode
+   * @param modelId Model to load, defaulting to the configured one
    */
-  const initializeEngine = useCallback(async () => {
-    // Prevent concurrent initializations
-    if (initializingRef.current) {
-      console.log('Initialization already in progress, skipping...');
-      return;
-    }
+  const initializeEngine = useCallback(
+    async (modelId: string = fullConfig.modelId) => {
+      // Prevent concurrent initializations
+      if (initializingRef.current) {
+        console.log('Initialization already in progress, skipping...');
+        return;
+      }
 
-    if (engineRef.current || status === 'loading' || status === 'demo') {
-      return;
-    }
+      if (engineRef.current || status === 'loading' || status === 'demo') {
+        return;
+      }
 
-    initializingRef.current = true;
+      initializingRef.current = true;
 
-    // If there's a cached model different from the selected one, clear it first
-    if (cachedModelId && cachedModelId !== fullConfig.modelId) {
-      setLoadingProgress({ text: 'Clearing cached model...', progress: 5 });
-      // Properly dispose of the old engine
-      await disposeEngine();
-      setCachedModelId(null);
-    }
+      // If there's a cached model different from the selected one, clear it first
+      if (cachedModelId && cachedModelId !== modelId) {
+        setLoadingProgress({ text: 'Clearing cached model...', progress: 5 });
+        // Properly dispose of the old engine
+        await disposeEngine();
+        setCachedModelId(null);
+      }
 
-    setStatus('loading');
-    setError(null);
-    setLoadingProgress({ text: 'Checking GPU support...', progress: 5 });
-
-    // Skip GPU check in test environment
-    if (isTestEnvironment()) {
-      setMode('demo');
-      setStatus('demo');
-      setGpuInfo('Test environment - Demo mode');
-      setLoadingProgress({ text: 'Demo mode active (test environment)', progress: 100 });
-      setCachedModelId(fullConfig.modelId);
-      initializingRef.current = false;
-      return;
-    }
+      setStatus('loading');
+      setError(null);
+      setLoadingProgress({ text: 'Checking GPU support...', progress: 5 });
 
-    // Check GPU support
-    const gpuStatus = await checkGPUSupport();
-
-    if (!gpuStatus.hasGPU) {
-      // Enter demo mode
-      setMode('demo');
-      setStatus('demo');
-      setGpuInfo(gpuStatus.error || 'No GPU available');
-      setLoadingProgress({
-        text: 'Demo mode active - No GPU detected',
-        progress: 100,
-      });
-      setCachedModelId(fullConfig.modelId);
-      initializingRef.current = false;
-      return;
-    }
+      // Skip GPU check in test environment
+      if (isTestEnvironment()) {
+        setMode('demo');
+        setStatus('demo');
+        setGpuInfo('Test environment - Demo mode');
+        setLoadingProgress({ text: 'Demo mode active (test environment)', progress: 100 });
+        setCachedModelId(modelId);
+        initializingRef.current = false;
+        return;
+      }
 
-    // GPU available - try to load the model
-    setMode('gpu');
-    setGpuInfo(gpuStatus.vendor || 'GPU detected');
-    setLoadingProgress({ text: 'Loading AI model...', progress: 10 });
-
-    try {
-      // Dynamic import to avoid issues during testing/SSR
-      const webllm = await import('@mlc-ai/web-llm');
-
-      // Custom appConfig for SmolLM2-135M-Instruct-q4f32_1-MLC
-      let engine;
-      if (fullConfig.modelId === 'SmolLM2-135M-Instruct-q4f32_1-MLC') {
-        const appConfig = {
-          model_list: [
-            {
-              model: 'https://huggingface.co',
-              model_id: 'SmolLM2-135M-Instruct-q4f32_1-MLC',
-              model_lib:
-                webllm.modelLibURLPrefix +
-                webllm.modelVersion +
-                '/SmolLM2-135M-Instruct-q4f32_1-ctx2k_cs1k-webgpu.wasm',
-            },
-          ],
-        };
-        engine = await webllm.CreateMLCEngine(fullConfig.modelId, {
-          appConfig,
-          initProgressCallback: (progress: { text: string; progress: number }) => {
-            setLoadingProgress({
-              text: progress.text,
-              progress: Math.round(10 + progress.progress * 90),
-            });
-          },
+      // Check GPU support
+      const gpuStatus = await checkGPUSupport();
+
+      if (!gpuStatus.hasGPU) {
+        // Enter demo mode
+        setMode('demo');
+        setStatus('demo');
+        setGpuInfo(gpuStatus.error || 'No GPU available');
+        setLoadingProgress({
+          text: 'Demo mode active - No GPU detected',
+          progress: 100,
         });
-      } else {
-        engine = await webllm.CreateMLCEngine(fullConfig.modelId, {
+        setCachedModelId(modelId);
+        initializingRef.current = false;
+        return;
+      }
+
+      // GPU available - try to load the model
+      setMode('gpu');
+      setGpuInfo(gpuStatus.vendor || 'GPU detected');
+      setLoadingProgress({ text: 'Loading AI model...', progress: 10 });
+
+      try {
+        const handle = await createEngine(modelId, {
+          useServiceWorker: keepModelLoaded,
           initProgressCallback: (progress: { text: string; progress: number }) => {
             setLoadingProgress({
               text: progress.text,
@@ -225,248 +411,823 @@ export function useWebLLM(config: Partial<ChatConfig> = {}) {
             });
           },
         });
-      }
 
-      engineRef.current = engine;
-      setStatus('ready');
-      setLoadingProgress({ text: 'Model loaded successfully!', progress: 100 });
-      setSuggestedModelId(null); // Clear any previous suggestions
-      setCachedModelId(fullConfig.modelId); // Mark this model as cached
-      initializingRef.current = false;
-    } catch (err) {
-      initializingRef.current = false;
-      const errorMessage = err instanceof Error ? err.message : 'Failed to initialize LLM';
-
-      // Check if it's a cache/network error (common with service worker issues)
-      const errorMessageLower = errorMessage.toLowerCase();
-      const isCacheError =
-        errorMessageLower.includes('cache') ||
-        errorMessageLower.includes('network error') ||
-        errorMessageLower.includes('networkerror') ||
-        errorMessageLower.includes('failed to fetch');
-
-      // Check if it's a memory/resource error (model too large)
-      const isMemoryError =
-        errorMessage.includes('memory') ||
-        errorMessage.includes('OOM') ||
-        errorMessage.includes('Out of memory') ||
-        errorMessage.includes('allocation') ||
-        errorMessage.includes('buffer');
-
-      // If it's a cache error, provide helpful guidance
-      if (isCacheError) {
-        setError(
-          'Failed to download model files. This may be due to network issues, ' +
-            'insufficient disk space, or browser cache limitations. ' +
-            'Try: (1) Ensure you have sufficient disk space (2GB+), ' +
-            '(2) Clear browser cache and reload, or (3) Try a different browser.'
-        );
-        setStatus('error');
-        console.error('WebLLM cache/network error:', err);
-        return;
-      }
+        engineHandleRef.current = handle;
+        engineRef.current = handle.engine;
+        setStatus('ready');
+        setLoadingProgress({ text: 'Model loaded successfully!', progress: 100 });
+        setSuggestedModelId(null); // Clear any previous suggestions
+        setCachedModelId(modelId); // Mark this model as cached
+        initializingRef.current = false;
+      } catch (err) {
+        initializingRef.current = false;
+        const errorMessage = err instanceof Error ? err.message : 'Failed to initialize LLM';
 
-      // If it's a GPU error, fall back to demo mode
-      if (
-        errorMessage.includes('GPU') ||
-        errorMessage.includes('WebGPU') ||
-        errorMessage.includes('adapter')
-      ) {
-        setMode('demo');
-        setStatus('demo');
-        setGpuInfo(errorMessage);
-        setLoadingProgress({
-          text: 'Demo mode active - GPU initialization failed',
-          progress: 100,
-        });
-        return;
-      }
+        // Check if it's a cache/network error (common with service worker issues)
+        const errorMessageLower = errorMessage.toLowerCase();
+        const isCacheError =
+          errorMessageLower.includes('cache') ||
+          errorMessageLower.includes('network error') ||
+          errorMessageLower.includes('networkerror') ||
+          errorMessageLower.includes('failed to fetch');
 
-      // If it's a memory error, suggest a smaller model
-      if (isMemoryError) {
-        const supportsShaderF16 = gpuStatus.supportsShaderF16;
-        const limitForMobile = shouldUseLowResourceMode();
-        const nextSmaller = getNextSmallerModel(
-          fullConfig.modelId,
-          supportsShaderF16,
-          limitForMobile
-        );
-        const smallestModel = getSmallestModel(supportsShaderF16, limitForMobile);
-        const currentModel = getModelById(fullConfig.modelId);
-        const currentModelName = currentModel?.name || 'Selected model';
+        // Check if it's a memory/resource error (model too large)
+        const isMemoryError =
+          errorMessage.includes('memory') ||
+          errorMessage.includes('OOM') ||
+          errorMessage.includes('Out of memory') ||
+          errorMessage.includes('allocation') ||
+          errorMessage.includes('buffer');
 
-        if (nextSmaller) {
-          setSuggestedModelId(nextSmaller.id);
+        // If it's a cache error, provide helpful guidance
+        if (isCacheError) {
           setError(
-            `Model "${currentModelName}" is too large for your device. ` +
-              `Try "${nextSmaller.name}" instead (requires ${formatVRAMToGB(nextSmaller.vramMB)}GB). ` +
-              `The smallest model "${smallestModel.name}" works on most devices.`
+            'Failed to download model files. This may be due to network issues, ' +
+              'insufficient disk space, or browser cache limitations. ' +
+              'Try: (1) Ensure you have sufficient disk space (2GB+), ' +
+              '(2) Clear browser cache and reload, or (3) Try a different browser.'
           );
-        } else {
-          // Already at smallest model, fall back to demo mode
+          setStatus('error');
+          console.error('WebLLM cache/network error:', err);
+          return;
+        }
+
+        // If it's a GPU error, fall back to demo mode
+        if (
+          errorMessage.includes('GPU') ||
+          errorMessage.includes('WebGPU') ||
+          errorMessage.includes('adapter')
+        ) {
           setMode('demo');
           setStatus('demo');
-          setGpuInfo('Insufficient memory for AI models');
+          setGpuInfo(errorMessage);
           setLoadingProgress({
-            text: 'Demo mode active - Insufficient memory',
+            text: 'Demo mode active - GPU initialization failed',
             progress: 100,
           });
           return;
         }
-      } else {
-        setError(errorMessage);
+
+        // If it's a memory error, suggest a smaller model
+        if (isMemoryError) {
+          const supportsShaderF16 = gpuStatus.supportsShaderF16;
+          const limitForMobile = shouldUseLowResourceMode();
+          const nextSmaller = getNextSmallerModel(modelId, supportsShaderF16, limitForMobile);
+          const smallestModel = getSmallestModel(supportsShaderF16, limitForMobile);
+          const currentModel = getModelById(modelId);
+          const currentModelName = currentModel?.name || 'Selected model';
+
+          if (nextSmaller) {
+            setSuggestedModelId(nextSmaller.id);
+            setError(
+              `Model "${currentModelName}" is too large for your device. ` +
+                `Try "${nextSmaller.name}" instead (requires ${formatVRAMToGB(nextSmaller.vramMB)}GB). ` +
+                `The smallest model "${smallestModel.name}" works on most devices.`
+            );
+          } else {
+            // Already at smallest model, fall back to demo mode
+            setMode('demo');
+            setStatus('demo');
+            setGpuInfo('Insufficient memory for AI models');
+            setLoadingProgress({
+              text: 'Demo mode active - Insufficient memory',
+              progress: 100,
+            });
+            return;
+          }
+        } else {
+          setError(errorMessage);
+        }
+
+        setStatus('error');
+        console.error('WebLLM initialization error:', err);
       }
+    },
+    [fullConfig.modelId, status, cachedModelId, keepModelLoaded, disposeEngine]
+  );
 
-      setStatus('error');
-      console.error('WebLLM initialization error:', err);
+  /**
+   * Mark streaming as done and write the final state of the streamed message
+   */
+  const finishStreaming = useCallback(() => {
+    streamingMessageIdRef.current = null;
+    persister.flush().catch((err) => {
+      console.error('Failed to save streamed message:', err);
+    });
+  }, [persister]);
+
+  /**
+   * Check whether a reply can be generated right now
+   * @throws When the engine is not ready
+   */
+  const canGenerate = useCallback((): boolean => {
+    // Prevent concurrent generation - critical race condition fix
+    if (status === 'generating' || replyingRef.current) {
+      console.warn('Generation already in progress, ignoring new request');
+      return false;
     }
-  }, [fullConfig.modelId, status, cachedModelId, disposeEngine]);
+    if (status !== 'demo' && (!engineRef.current || status !== 'ready')) {
+      throw new Error('Engine not ready');
+    }
+    return true;
+  }, [status]);
 
   /**
-   * Send a message and get a response (real or demo)
+   * Generate a reply to the last message of a branch (real or demo)
+   * @param branch Messages of the branch being answered, ending with the prompt
+   * @param continueLast Whether the branch ends with a reply that was cut off, which the new
+   *   text is appended to instead of starting another reply
    */
-  const sendMessage = useCallback(
-    async (content: string): Promise<void> => {
+  const generateReply = useCallback(
+    async (branch: ChatMessage[], continueLast: boolean = false): Promise<void> => {
       const isDemo = status === 'demo';
-      const isReady = status === 'ready';
-      const isGeneratingNow = status === 'generating';
-
-      // Prevent concurrent generation - critical race condition fix
-      if (isGeneratingNow) {
-        console.warn('Generation already in progress, ignoring new request');
-        return;
-      }
+      const last = branch[branch.length - 1];
 
-      if (!isDemo && (!engineRef.current || !isReady)) {
-        throw new Error('Engine not ready');
-      }
+      // The conversation's own settings take precedence over the global ones
+      const conversation = conversations.find((c) => c.id === activeConversationId);
+      const requestConfig: ChatConfig = { ...fullConfig, ...conversation?.settings };
 
-      const userMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: 'user',
-        content,
-        timestamp: new Date(),
+      /**
+       * Add the reply to the conversation, or pick up the one being continued
+       */
+      const startReply = (reply: ChatMessage): ChatMessage => {
+        if (continueLast) {
+          streamingMessageIdRef.current = last.id;
+          return last;
+        }
+        streamingMessageIdRef.current = reply.id;
+        setMessages((prev) => [...prev, reply]);
+        setBranchSelections((prev) => selectMessage(prev, reply));
+        return reply;
       };
 
-      setMessages((prev) => [...prev, userMessage]);
+      /**
+       * Show the reply's text as it streams in, once per frame
+       */
+      const bufferReply = (replyId: string): StreamBuffer =>
+        createStreamBuffer((content) =>
+          setMessages((prev) => prev.map((m) => (m.id === replyId ? { ...m, content } : m)))
+        );
+
+      // Each reply checks its own controller, so a stopped reply never sees the next one's
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      replyingRef.current = true;
 
       if (isDemo) {
         // Demo mode - provide simulated response
         setStatus('generating'); // Set generating state even in demo
-        const assistantMessage: ChatMessage = {
+        const assistantMessage = startReply({
           id: crypto.randomUUID(),
           role: 'assistant',
           content: '',
           timestamp: new Date(),
-        };
-
-        setMessages((prev) => [...prev, assistantMessage]);
+          parentId: last.id,
+        });
 
         // Simulate typing effect
-        const response = DEMO_RESPONSES[demoResponseIndex.current % DEMO_RESPONSES.length];
-        demoResponseIndex.current++;
+        let response: string;
+        if (continueLast) {
+          response = continueDemoResponse(last.content);
+        } else {
+          response = DEMO_RESPONSES[demoResponseIndex.current % DEMO_RESPONSES.length];
+          demoResponseIndex.current++;
+        }
+        // Cut at max tokens like a real reply, so continuing can be tried out
+        const limit = requestConfig.maxTokens * CHARS_PER_TOKEN_ESTIMATE;
+        const reply = response.slice(0, limit);
+        let finishReason: FinishReason = reply.length < response.length ? 'length' : 'stop';
 
-        for (let i = 0; i <= response.length; i++) {
-          // Check if aborted during typing
-          if (abortControllerRef.current?.signal.aborted) {
-            break;
+        const buffer = bufferReply(assistantMessage.id);
+        try {
+          for (let i = 0; i <= reply.length; i++) {
+            // Check if aborted during typing
+            if (controller.signal.aborted) {
+              finishReason = 'abort';
+              break;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 15));
+            buffer.push(assistantMessage.content + reply.slice(0, i));
           }
-          await new Promise((resolve) => setTimeout(resolve, 15));
+          buffer.flush();
+
+          const stats = mergeGenerationStats(assistantMessage.stats, { finishReason });
           setMessages((prev) =>
-            prev.map((m) =>
-              m.id === assistantMessage.id ? { ...m, content: response.slice(0, i) } : m
-            )
+            prev.map((m) => (m.id === assistantMessage.id ? { ...m, stats } : m))
           );
+        } finally {
+          finishStreaming();
+          replyingRef.current = false;
+          // Only now may the next queued prompt start
+          setStatus('demo');
         }
-
-        setStatus('demo'); // Return to demo status
         return;
       }
 
       // GPU mode - real inference
       setStatus('generating');
       setError(null);
-      abortControllerRef.current = new AbortController();
+      let buffer: StreamBuffer | null = null;
 
       try {
-        // Limit conversation history to prevent memory issues
-        // Keep only the most recent messages
-        const recentMessages =
-          messages.length > MAX_CONVERSATION_MESSAGES
-            ? messages.slice(-MAX_CONVERSATION_MESSAGES)
-            : messages;
+        const countHistoryTokens = (texts: string[]) =>
+          engineHandleRef.current
+            ? countTokens(engineHandleRef.current, texts)
+            : Promise.resolve(texts.map(estimateTokens));
+        // The model that is loaded, which may not be the one selected for the next load
+        const loadedModelId = cachedModelId ?? fullConfig.modelId;
+        const contextWindowSize =
+          getModelById(loadedModelId)?.contextWindowSize ?? DEFAULT_CONTEXT_WINDOW_SIZE;
+        const replyConfig: ChatConfig = {
+          ...requestConfig,
+          maxTokens: clampMaxTokens(requestConfig.maxTokens, contextWindowSize),
+        };
+
+        // Passages from the user's documents; a continued reply keeps the ones it started with
+        const citations = continueLast
+          ? (last.citations ?? [])
+          : ((await retrieveSources?.(last.content)) ?? []);
+        // Facts remembered from earlier chats go next to the system prompt
+        const memories = (await retrieveMemories?.(last.content)) ?? null;
+        const systemPrompt = withSources(
+          memories
+            ? withMemories(requestConfig.systemPrompt, memories)
+            : requestConfig.systemPrompt,
+          citations
+        );
+
+        // The latest summary is sent in place of every turn before it
+        const { summary: latestSummary, recent } = splitAtLatestSummary(branch);
+        let summary = latestSummary?.content ?? null;
+        let history: Turn[] = recent.map((m) => ({ role: m.role, content: m.content }));
+        if (continueLast) {
+          // The model only answers user turns, so ask it to pick up where it stopped
+          history.push({ role: 'user', content: CONTINUE_PROMPT });
+        }
+        const [systemPromptTokens, ...counts] = await countHistoryTokens([
+          systemPrompt,
+          summary ?? '',
+          ...history.map((m) => m.content),
+        ]);
+        let [summaryTokens, ...historyTokens] = counts;
+
+        // Fold the oldest turns into a new summary once the request grows too large
+        const summarizeCount = selectTurnsToSummarize(
+          historyTokens.slice(0, -1),
+          systemPromptTokens +
+            summaryTokens +
+            historyTokens[historyTokens.length - 1] +
+            replyConfig.maxTokens,
+          fullConfig.summaryThreshold * contextWindowSize
+        );
+        if (summarizeCount > 0) {
+          try {
+            const [summaryPromptTokens] = await countHistoryTokens([SUMMARY_PROMPT]);
+            const newSummary = await summarizeTurns(
+              engineRef.current,
+              summary,
+              history.slice(0, summarizeCount),
+              historyTokens.slice(0, summarizeCount),
+              summaryPromptTokens + summaryTokens,
+              contextWindowSize
+            );
+            if (newSummary) {
+              const lastSummarized = recent[summarizeCount - 1];
+              const summaryMessage = createSummaryMessage(newSummary, lastSummarized);
+              setMessages((prev) => {
+                const index = prev.findIndex((m) => m.id === lastSummarized.id);
+                return [...prev.slice(0, index + 1), summaryMessage, ...prev.slice(index + 1)];
+              });
+              summary = newSummary;
+              [summaryTokens] = await countHistoryTokens([newSummary]);
+              history = history.slice(summarizeCount);
+              historyTokens = historyTokens.slice(summarizeCount);
+            }
+          } catch (err) {
+            // Trimming below still keeps the request within the context window
+            console.error('Failed to summarize earlier messages:', err);
+          }
+        }
+
+        // Fit the history into the context window next to the system prompt and the reply
+        const fitted = fitHistoryToContext(
+          history,
+          historyTokens,
+          getHistoryBudget(
+            contextWindowSize,
+            systemPromptTokens + summaryTokens,
+            replyConfig.maxTokens
+          )
+        );
+        setContextNotice(
+          fitted.droppedCount > 0 || fitted.shortened
+            ? { droppedCount: fitted.droppedCount, shortened: fitted.shortened }
+            : null
+        );
 
         const conversationHistory = [
-          { role: 'system', content: fullConfig.systemPrompt },
-          ...recentMessages.map((m) => ({ role: m.role, content: m.content })),
-          { role: 'user', content },
+          { role: 'system', content: withSummary(systemPrompt, summary) },
+          ...fitted.messages,
         ];
 
-        const assistantMessage: ChatMessage = {
+        const assistantMessage = startReply({
           id: crypto.randomUUID(),
           role: 'assistant',
           content: '',
           timestamp: new Date(),
-        };
+          parentId: last.id,
+          modelId: loadedModelId,
+          settings: getGenerationSettings(replyConfig),
+          ...(citations.length > 0 && { citations }),
+        });
 
-        setMessages((prev) => [...prev, assistantMessage]);
+        const requestedAt = performance.now();
+        let firstTokenAt: number | null = null;
+        let usage: CompletionUsage | undefined;
+        let finishReason: FinishReason | undefined;
 
         const completion = await engineRef.current.chat.completions.create({
           messages: conversationHistory,
-          max_tokens: fullConfig.maxTokens,
-          temperature: fullConfig.temperature,
+          ...getSamplingParams(replyConfig),
           stream: true,
+          // The last chunk then reports token counts and speed
+          stream_options: { include_usage: true },
         });
 
-        let fullResponse = '';
+        let fullResponse = assistantMessage.content;
+        buffer = bufferReply(assistantMessage.id);
         for await (const chunk of completion) {
-          if (abortControllerRef.current?.signal.aborted) {
+          if (controller.signal.aborted) {
+            finishReason = 'abort';
             break;
           }
+          usage = chunk.usage ?? usage;
+          finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
           const delta = chunk.choices[0]?.delta?.content || '';
+          if (!delta) {
+            continue;
+          }
+          firstTokenAt ??= performance.now();
           fullResponse += delta;
-
-          setMessages((prev) =>
-            prev.map((m) => (m.id === assistantMessage.id ? { ...m, content: fullResponse } : m))
-          );
+          // Proposed facts are for the user to review, not part of the reply
+          buffer.push(memories ? extractMemoryProposals(fullResponse, true).content : fullResponse);
         }
+        if (memories) {
+          // What looked like the start of a proposal while streaming is kept once the reply ends
+          buffer.push(extractMemoryProposals(fullResponse).content);
+        }
+        buffer.flush();
 
-        setStatus('ready');
+        const stats = mergeGenerationStats(
+          assistantMessage.stats,
+          buildGenerationStats(
+            { requestedAt, firstTokenAt, finishedAt: performance.now() },
+            usage,
+            finishReason
+          )
+        );
+        setMessages((prev) =>
+          prev.map((m) => (m.id === assistantMessage.id ? { ...m, stats } : m))
+        );
+        if (memories) {
+          const { facts } = extractMemoryProposals(fullResponse);
+          if (facts.length > 0) {
+            proposeMemories?.(facts).catch((err) => {
+              console.error('Failed to save proposed memories:', err);
+            });
+          }
+        }
       } catch (err) {
         if (err instanceof Error && err.name === 'AbortError') {
-          setStatus('ready');
           return;
         }
 
         const errorMessage = err instanceof Error ? err.message : 'Failed to generate response';
         setError(errorMessage);
-        setStatus('ready');
         console.error('WebLLM generation error:', err);
+      } finally {
+        // Keep whatever streamed in before an error
+        buffer?.flush();
+        finishStreaming();
+        replyingRef.current = false;
+        // Only now may the next queued prompt start
+        setStatus('ready');
+      }
+    },
+    [
+      fullConfig,
+      status,
+      cachedModelId,
+      activeConversationId,
+      conversations,
+      finishStreaming,
+      retrieveSources,
+      retrieveMemories,
+      proposeMemories,
+    ]
+  );
+
+  /**
+   * Send a prompt after `parentId` and get a response, making it the shown branch
+   */
+  const sendPrompt = useCallback(
+    async (content: string, parentId: string | null): Promise<void> => {
+      if (!canGenerate()) {
+        return;
+      }
+
+      const userMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'user',
+        content,
+        timestamp: new Date(),
+        parentId,
+      };
+
+      // Every message belongs to a conversation - start one if none is open
+      const conversation = conversations.find((c) => c.id === activeConversationId);
+      if (!activeConversationId) {
+        await createConversation(titleFromContent(content));
+      } else {
+        updateConversation(activeConversationId, {
+          ...(conversation?.title === DEFAULT_CONVERSATION_TITLE && {
+            title: titleFromContent(content),
+          }),
+          // Remember the model the conversation continued with: the loaded one, not the selected one
+          ...(status !== 'demo' && { modelId: cachedModelId ?? fullConfig.modelId }),
+        });
+      }
+
+      const selections = selectMessage(branchSelections, userMessage);
+      setMessages((prev) => [...prev, userMessage]);
+      setBranchSelections(selections);
+
+      await generateReply(getActiveBranch([...messages, userMessage], selections));
+    },
+    [
+      cachedModelId,
+      fullConfig.modelId,
+      messages,
+      branchSelections,
+      status,
+      activeConversationId,
+      conversations,
+      canGenerate,
+      createConversation,
+      updateConversation,
+      generateReply,
+    ]
+  );
+
+  /**
+   * Send a message at the end of the shown branch and get a response (real or demo)
+   */
+  const sendMessage = useCallback(
+    async (content: string): Promise<void> => {
+      if (status === 'generating' || replyingRef.current) {
+        // Sent once the current reply and everything queued before it are done
+        setQueue((prev) => [...prev, { id: crypto.randomUUID(), content }]);
+        return;
+      }
+      const last = activeBranch.filter((m) => !isSummary(m)).at(-1);
+      await sendPrompt(content, last?.id ?? null);
+    },
+    [status, activeBranch, sendPrompt]
+  );
+
+  /**
+   * Send the prompt at the front of the queue
+   */
+  const sendNextQueued = useCallback(() => {
+    const [next, ...rest] = queue;
+    setQueue(rest);
+    sendMessage(next.content).catch((err) => {
+      console.error('Failed to send queued message:', err);
+    });
+  }, [queue, sendMessage]);
+
+  // Start the next queued prompt once the current reply is done, so it sees that reply
+  useEffect(() => {
+    if (queue.length > 0 && !replyingRef.current && (status === 'ready' || status === 'demo')) {
+      sendNextQueued();
+    }
+  }, [queue, status, sendNextQueued]);
+
+  /**
+   * Remove a prompt from the queue without sending it
+   */
+  const cancelQueuedPrompt = useCallback((promptId: string) => {
+    setQueue((prev) => prev.filter((p) => p.id !== promptId));
+  }, []);
+
+  /**
+   * Move a queued prompt `offset` places (e.g. -1 to send it one turn earlier)
+   */
+  const moveQueuedPrompt = useCallback((promptId: string, offset: number) => {
+    setQueue((prev) => {
+      const index = prev.findIndex((p) => p.id === promptId);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) {
+        return prev;
       }
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  /**
+   * Drop every queued prompt
+   */
+  const clearQueue = useCallback(() => {
+    setQueue([]);
+  }, []);
+
+  /**
+   * Send an edited copy of a user message as a new branch next to the original
+   */
+  const editMessage = useCallback(
+    async (messageId: string, content: string): Promise<void> => {
+      const trimmedContent = content.trim();
+      if (!trimmedContent) {
+        return;
+      }
+      await sendPrompt(trimmedContent, getParentId(messages, messageId));
     },
-    [fullConfig, messages, status]
+    [messages, sendPrompt]
+  );
+
+  /**
+   * Generate another reply next to an assistant message
+   */
+  const regenerateMessage = useCallback(
+    async (messageId: string): Promise<void> => {
+      const promptId = getParentId(messages, messageId);
+      const promptIndex = activeBranch.findIndex((m) => m.id === promptId);
+      if (promptIndex < 0 || !canGenerate()) {
+        return;
+      }
+      if (activeConversationId && status !== 'demo') {
+        updateConversation(activeConversationId, { modelId: cachedModelId ?? fullConfig.modelId });
+      }
+      await generateReply(activeBranch.slice(0, promptIndex + 1));
+    },
+    [
+      cachedModelId,
+      fullConfig.modelId,
+      messages,
+      activeBranch,
+      status,
+      activeConversationId,
+      canGenerate,
+      updateConversation,
+      generateReply,
+    ]
+  );
+
+  /**
+   * Resume a reply that was cut off at max tokens, appending to the same message
+   */
+  const continueMessage = useCallback(
+    async (messageId: string): Promise<void> => {
+      const index = activeBranch.findIndex((m) => m.id === messageId);
+      if (index < 0 || activeBranch[index].role !== 'assistant' || !canGenerate()) {
+        return;
+      }
+      await generateReply(activeBranch.slice(0, index + 1), true);
+    },
+    [activeBranch, canGenerate, generateReply]
+  );
+
+  /**
+   * Show the alternative `offset` places away from a message (e.g. -1 for the previous one)
+   */
+  const showSibling = useCallback(
+    (messageId: string, offset: number) => {
+      if (status === 'generating') {
+        console.warn('Cannot switch branches while generating');
+        return;
+      }
+      setBranchSelections((prev) => selectSibling(messages, prev, messageId, offset));
+    },
+    [messages, status]
   );
 
   /**
    * Stop the current generation
    */
   const stopGeneration = useCallback(() => {
+    // The reply returns the status to ready once it has wound down, which starts the queue
     abortControllerRef.current?.abort();
-    if (status === 'generating') {
-      setStatus('ready');
-    } else if (status === 'demo' && abortControllerRef.current) {
-      // In demo mode, return to demo status
-      setStatus('demo');
-    }
-  }, [status]);
+    // The worker keeps decoding after the stream loop exits unless told to stop
+    engineRef.current?.interruptGenerate?.();
+  }, []);
 
   /**
-   * Clear all messages from state and storage
+   * Clear all messages of the active conversation from state and storage
    */
   const clearMessages = useCallback(async () => {
+    // The persister deletes the removed messages from storage
     setMessages([]);
-    // Clear from storage using the centralized storage utility
-    await saveMessagesToStorage([]);
+    setBranchSelections({});
+    setQueue([]);
+  }, []);
+
+  /**
+   * Make a conversation whose messages were just loaded active
+   */
+  const openConversation = useCallback(
+    (conversationId: string, stored: ChatMessage[], selections: BranchSelections = {}) => {
+      persister.load(conversationId, stored);
+      setActiveConversationId(conversationId);
+      setMessages(stored);
+      setBranchSelections(selections);
+      setQueue([]);
+      setContextNotice(null);
+    },
+    [persister]
+  );
+
+  /**
+   * Make another conversation active and load its messages
+   */
+  const switchConversation = useCallback(
+    async (conversationId: string) => {
+      if (status === 'generating') {
+        console.warn('Cannot switch conversations while generating');
+        return;
+      }
+      if (conversationId === activeConversationId) {
+        return;
+      }
+      try {
+        openConversation(conversationId, await loadMessagesFromStorage(conversationId));
+      } catch (err) {
+        console.error('Failed to load conversation:', err);
+      }
+    },
+    [status, activeConversationId, openConversation]
+  );
+
+  /**
+   * Show a message, switching to its conversation and to the branch containing it
+   * @returns Whether the message was found
+   */
+  const showMessage = useCallback(
+    async (conversationId: string, messageId: string): Promise<boolean> => {
+      if (status === 'generating') {
+        console.warn('Cannot switch conversations while generating');
+        return false;
+      }
+      if (conversationId === activeConversationId) {
+        if (!messages.some((m) => m.id === messageId)) {
+          return false;
+        }
+        setBranchSelections((prev) => selectPathTo(messages, prev, messageId));
+        return true;
+      }
+      try {
+        const stored = await loadMessagesFromStorage(conversationId);
+        if (!stored.some((m) => m.id === messageId)) {
+          return false;
+        }
+        openConversation(conversationId, stored, selectPathTo(stored, {}, messageId));
+        return true;
+      } catch (err) {
+        console.error('Failed to load conversation:', err);
+        return false;
+      }
+    },
+    [status, activeConversationId, messages, openConversation]
+  );
+
+  /**
+   * Rename a conversation
+   */
+  const renameConversation = useCallback(
+    async (conversationId: string, title: string) => {
+      const trimmedTitle = title.trim();
+      if (!trimmedTitle) {
+        return;
+      }
+      updateConversation(conversationId, { title: trimmedTitle });
+    },
+    [updateConversation]
+  );
+
+  /**
+   * Override the global settings in one conversation, or pass undefined to follow them again
+   */
+  const setConversationSettings = useCallback(
+    (conversationId: string, settings: ConversationSettings | undefined) => {
+      updateConversation(conversationId, { settings });
+    },
+    [updateConversation]
+  );
+
+  /**
+   * Change the model a conversation is meant to continue with
+   */
+  const setConversationModel = useCallback(
+    (conversationId: string, modelId: string) => {
+      updateConversation(conversationId, { modelId });
+    },
+    [updateConversation]
+  );
+
+  /**
+   * Replace the text of a conversation summary, which is sent in place of the turns before it
+   */
+  const editSummary = useCallback((messageId: string, content: string) => {
+    const trimmedContent = content.trim();
+    if (!trimmedContent) {
+      return;
+    }
+    setMessages((prev) =>
+      prev.map((m) => (m.id === messageId && isSummary(m) ? { ...m, content: trimmedContent } : m))
+    );
+  }, []);
+
+  /**
+   * Add the output of a code block run at the end of the shown branch
+   * No reply is generated: the model reads the output along with the next message sent
+   */
+  const addCodeResult = useCallback(
+    (content: string) => {
+      if (status === 'generating') {
+        console.warn('Cannot add code output while generating');
+        return;
+      }
+      const last = activeBranch.filter((m) => !isSummary(m)).at(-1);
+      if (!last) {
+        return;
+      }
+      const resultMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'user',
+        content,
+        timestamp: new Date(),
+        kind: 'code-result',
+        parentId: last.id,
+      };
+      setMessages((prev) => [...prev, resultMessage]);
+      setBranchSelections((prev) => selectMessage(prev, resultMessage));
+    },
+    [status, activeBranch]
+  );
+
+  /**
+   * Delete a conversation and its messages, opening the next most recent one if it was active
+   */
+  const deleteConversation = useCallback(
+    async (conversationId: string) => {
+      if (status === 'generating' && conversationId === activeConversationId) {
+        console.warn('Cannot delete the conversation while generating');
+        return;
+      }
+      const remaining = conversations.filter((c) => c.id !== conversationId);
+      setConversations(remaining);
+      await deleteConversationFromStorage(conversationId);
+
+      if (conversationId !== activeConversationId) {
+        return;
+      }
+      const [next] = remaining;
+      if (next) {
+        const stored = await loadMessagesFromStorage(next.id);
+        persister.load(next.id, stored);
+        setActiveConversationId(next.id);
+        setMessages(stored);
+        setBranchSelections({});
+        setQueue([]);
+      } else {
+        setActiveConversationId(null);
+        setMessages([]);
+        setBranchSelections({});
+        setQueue([]);
+      }
+    },
+    [status, activeConversationId, conversations, persister]
+  );
+
+  /**
+   * Forget all conversations after storage has been wiped elsewhere (e.g. the Dashboard)
+   */
+  const clearAllConversations = useCallback(() => {
+    setConversations([]);
+    setActiveConversationId(null);
+    setMessages([]);
+    setBranchSelections({});
+    setQueue([]);
+  }, []);
+
+  /**
+   * Opt in or out of keeping the model loaded in the service worker across reloads.
+   * Takes effect the next time a model is loaded.
+   */
+  const setKeepModelLoaded = useCallback(async (enabled: boolean) => {
+    setKeepModelLoadedState(enabled);
+    await saveSetting(KEEP_MODEL_LOADED_SETTING, enabled);
   }, []);
 
   /**
@@ -495,6 +1256,9 @@ export function useWebLLM(config: Partial<ChatConfig> = {}) {
     return () => {
       abortControllerRef.current?.abort();
       initializingRef.current = false;
+      persister.flush().catch((err) => {
+        console.error('Error saving messages on unmount:', err);
+      });
       // Dispose engine on unmount - note: async cleanup in useEffect is tricky
       // but we can at least try to abort operations
       if (engineRef.current) {
@@ -503,10 +1267,14 @@ export function useWebLLM(config: Partial<ChatConfig> = {}) {
         });
       }
     };
-  }, [disposeEngine]);
+  }, [disposeEngine, persister]);
 
   return {
-    messages,
+    messages: activeBranch,
+    branchPositions,
+    queue,
+    conversations,
+    activeConversationId,
     status,
     mode,
     loadingProgress,
@@ -514,10 +1282,31 @@ export function useWebLLM(config: Partial<ChatConfig> = {}) {
     gpuInfo,
     suggestedModelId,
     cachedModelId,
+    residentModelId,
+    contextNotice,
+    keepModelLoaded,
+    setKeepModelLoaded,
     initializeEngine,
     sendMessage,
+    editMessage,
+    regenerateMessage,
+    continueMessage,
+    showSibling,
+    cancelQueuedPrompt,
+    moveQueuedPrompt,
+    clearQueue,
     stopGeneration,
     clearMessages,
+    createConversation,
+    switchConversation,
+    showMessage,
+    renameConversation,
+    setConversationSettings,
+    setConversationModel,
+    deleteConversation,
+    clearAllConversations,
+    editSummary,
+    addCodeResult,
     reset,
     isReady: status === 'ready' || status === 'demo' || status === 'generating',
     isLoading: status === 'loading',
@@ -0,0 +1,76 @@
+/**
+ * Service worker
+ * Precaches the app shell and, for the opt-in "keep model loaded" mode, hosts a
+ * WebLLM engine that outlives page reloads so the app can reattach to a loaded model
+ */
+
+/// <reference lib="webworker" />
+
+import { clientsClaim } from 'workbox-core';
+import { cleanupOutdatedCaches, precacheAndRoute } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { NetworkOnly } from 'workbox-strategies';
+import { ServiceWorkerMLCEngineHandler } from '@mlc-ai/web-llm';
+import { handleEngineRequest, isEngineRequest } from './workers/engineProtocol';
+
+declare let self: ServiceWorkerGlobalScope;
+
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// Exclude WebLLM CDN URLs (huggingface.co, jsdelivr.net) from caching
+// WebLLM handles its own model caching via IndexedDB
+registerRoute(/^https?:\/\/.*(huggingface\.co|jsdelivr\.net|hf\.co).*/i, new NetworkOnly());
+
+self.skipWaiting();
+clientsClaim();
+
+/**
+ * WebLLM's engine handler, started by the first engine message so nothing is loaded
+ * while "keep model loaded" is off
+ */
+let handler: ServiceWorkerMLCEngineHandler | null = null;
+let forwardToHandler: ((event: ExtendableMessageEvent) => void) | null = null;
+
+/**
+ * Check whether a message is one of WebLLM's engine messages (reload, chat completion, ...)
+ */
+function isWebLLMMessage(data: unknown): boolean {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as { kind?: unknown }).kind === 'string' &&
+    typeof (data as { uuid?: unknown }).uuid === 'string'
+  );
+}
+
+/**
+ * Start the engine handler
+ * It subscribes to messages itself, which a service worker may only do while its script first
+ * runs; its listener is taken instead, so the message that started it is handled too.
+ */
+function startHandler(): ServiceWorkerMLCEngineHandler {
+  const addEventListener = self.addEventListener;
+  self.addEventListener = ((type: string, listener: (event: ExtendableMessageEvent) => void) => {
+    if (type === 'message') {
+      forwardToHandler = listener;
+    }
+  }) as typeof self.addEventListener;
+  try {
+    return new ServiceWorkerMLCEngineHandler();
+  } finally {
+    self.addEventListener = addEventListener;
+  }
+}
+
+self.addEventListener('message', (event) => {
+  if (isEngineRequest(event.data)) {
+    // Without a handler nothing is loaded, which is what an empty state answers
+    event.ports[0]?.postMessage(handleEngineRequest(event.data, handler ?? { engine: null }));
+    return;
+  }
+  if (isWebLLMMessage(event.data)) {
+    handler ??= startHandler();
+    forwardToHandler?.(event);
+  }
+});
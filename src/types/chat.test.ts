@@ -79,6 +79,12 @@ describe('Chat Types', () => {
       expect(DEFAULT_CHAT_CONFIG.maxTokens).toBeGreaterThan(0);
       expect(DEFAULT_CHAT_CONFIG.temperature).toBeGreaterThanOrEqual(0);
       expect(DEFAULT_CHAT_CONFIG.temperature).toBeLessThanOrEqual(2);
+      expect(DEFAULT_CHAT_CONFIG.summaryThreshold).toBeGreaterThan(0);
+      expect(DEFAULT_CHAT_CONFIG.summaryThreshold).toBeLessThanOrEqual(1);
+      expect(DEFAULT_CHAT_CONFIG.topP).toBe(1);
+      expect(DEFAULT_CHAT_CONFIG.seed).toBeNull();
+      expect(DEFAULT_CHAT_CONFIG.stop).toEqual([]);
+      expect(DEFAULT_CHAT_CONFIG.logitBias).toEqual({});
     });
 
     test('can create custom config', () => {
@@ -87,6 +93,13 @@ describe('Chat Types', () => {
         systemPrompt: 'Custom system prompt',
         maxTokens: 1024,
         temperature: 0.5,
+        topP: 0.9,
+        frequencyPenalty: 0.5,
+        presencePenalty: 0,
+        seed: 42,
+        stop: ['###'],
+        logitBias: { '128': -100 },
+        summaryThreshold: 0.5,
       };
 
       expect(customConfig.modelId).toBe('custom-model');
@@ -1,3 +1,10 @@
+/**
+ * Special messages that are not ordinary conversation turns
+ * - summary: model-written summary of every turn before it, sent to the model in their place
+ * - code-result: output of running a code block from a reply, sent to the model as a user turn
+ */
+export type MessageKind = 'summary' | 'code-result';
+
 /**
  * Represents a single chat message in the conversation
  */
@@ -10,8 +17,97 @@ export interface ChatMessage {
   content: string;
   /** Timestamp when the message was created */
   timestamp: Date;
+  /** Set for special messages; ordinary turns leave it undefined */
+  kind?: MessageKind;
+  /**
+   * Message this one follows, null for a conversation's first message. Messages sharing a
+   * parent are alternate branches. Unset for messages saved before branching existed.
+   */
+  parentId?: string | null;
+  /** Model that wrote an assistant message; unset for demo replies */
+  modelId?: string;
+  /** Settings an assistant message was generated with */
+  settings?: GenerationSettings;
+  /** Token counts and timings of an assistant message */
+  stats?: GenerationStats;
+  /** Document passages an assistant message was given, numbered as the model cites them */
+  citations?: Citation[];
+}
+
+/**
+ * A document passage given to the model with a prompt
+ * Keeps a copy of the text, so it can still be shown after the document is removed
+ */
+export interface Citation {
+  /** Number the model cites the passage by, e.g. 1 for [1] */
+  number: number;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  /** Position of the passage in its document, from 0 */
+  chunkIndex: number;
+  text: string;
+}
+
+/**
+ * Why generation of a message ended
+ * - stop: the model finished or hit a stop sequence
+ * - length: the max tokens limit was reached
+ * - abort: the user stopped generation
+ */
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'abort';
+
+/**
+ * Token counts and timings recorded while generating a message
+ */
+export interface GenerationStats {
+  /** Tokens in the request sent to the model */
+  promptTokens?: number;
+  /** Tokens the model generated */
+  completionTokens?: number;
+  /** Milliseconds from sending the request to the first streamed token */
+  timeToFirstTokenMs?: number;
+  /** Decoding speed once the first token arrived */
+  tokensPerSecond?: number;
+  /** Why generation ended */
+  finishReason?: FinishReason;
+}
+
+/**
+ * A saved conversation; its messages are stored separately, keyed by the conversation id
+ */
+export interface Conversation {
+  /** Unique identifier for the conversation */
+  id: string;
+  /** Display title shown in the sidebar */
+  title: string;
+  /** Timestamp when the conversation was created */
+  createdAt: Date;
+  /** Timestamp of the last change to the conversation or its messages */
+  updatedAt: Date;
+  /** Model ID the conversation was last used with */
+  modelId: string;
+  /** Settings that differ from the global ChatConfig in this conversation */
+  settings?: ConversationSettings;
+  /** Persona the conversation was started with; unset for the default assistant */
+  personaId?: string;
+}
+
+/**
+ * A prompt sent while a reply was still generating, waiting for its turn
+ */
+export interface QueuedPrompt {
+  /** Unique identifier for the queued prompt */
+  id: string;
+  /** Text to send */
+  content: string;
 }
 
+/**
+ * Default title for a conversation that has not been named yet
+ */
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+
 /**
  * Status of the LLM engine
  */
@@ -44,8 +140,32 @@ export interface ChatConfig {
   maxTokens: number;
   /** Temperature for generation (0-2) */
   temperature: number;
+  /** Nucleus sampling: only sample from tokens within this probability mass (0-1] */
+  topP: number;
+  /** Penalize tokens by how often they already appeared (-2 to 2) */
+  frequencyPenalty: number;
+  /** Penalize tokens that already appeared at all (-2 to 2) */
+  presencePenalty: number;
+  /** Fixed seed for reproducible output, or null for random sampling */
+  seed: number | null;
+  /** Sequences that end generation when produced */
+  stop: string[];
+  /** Bias added to the logits of specific token ids (-100 to 100) */
+  logitBias: Record<string, number>;
+  /** Share of the context window (0-1) a request may fill before older turns are summarized */
+  summaryThreshold: number;
 }
 
+/**
+ * Settings that shape a single reply
+ */
+export type GenerationSettings = Omit<ChatConfig, 'modelId' | 'summaryThreshold'>;
+
+/**
+ * Settings a conversation can override; anything left unset follows the global ChatConfig
+ */
+export type ConversationSettings = Partial<GenerationSettings>;
+
 /**
  * Default chat configuration
  */
@@ -55,4 +175,21 @@ export const DEFAULT_CHAT_CONFIG: ChatConfig = {
     "You are TerziAI, a helpful local AI assistant. You are running directly in the user's browser using WebLLM. Be concise and helpful.",
   maxTokens: 512,
   temperature: 0.7,
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  seed: null,
+  stop: [],
+  logitBias: {},
+  summaryThreshold: 0.75,
 };
+
+/**
+ * Tells the UI that older turns were left out of the last request to fit the context window
+ */
+export interface ContextNotice {
+  /** Number of older messages that were not sent */
+  droppedCount: number;
+  /** Whether the oldest message sent was cut short */
+  shortened: boolean;
+}
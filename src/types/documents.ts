@@ -0,0 +1,40 @@
+/**
+ * A file imported into the document library
+ */
+export interface LibraryDocument {
+  id: string;
+  /** File name it was imported from */
+  name: string;
+  /** MIME type, or a type derived from the extension when the browser gives none */
+  type: string;
+  /** File size in bytes */
+  size: number;
+  importedAt: Date;
+  /** Number of chunks the text was split into */
+  chunkCount: number;
+}
+
+/**
+ * A passage of a document and its embedding, the unit that is retrieved into prompts
+ */
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  /** Position of the chunk in its document, from 0 */
+  index: number;
+  text: string;
+  /** Embedding of the text */
+  embedding: number[];
+  /** Embedding model the vector came from; vectors of different models cannot be compared */
+  embeddingModelId: string;
+}
+
+/**
+ * A chunk found relevant to a prompt
+ */
+export interface RetrievedChunk {
+  chunk: DocumentChunk;
+  document: LibraryDocument;
+  /** Cosine similarity between the chunk and the prompt, from -1 to 1 */
+  score: number;
+}
@@ -0,0 +1,12 @@
+/**
+ * A short fact about the user, remembered across conversations
+ */
+export interface Memory {
+  id: string;
+  /** The fact, e.g. "Prefers TypeScript examples" */
+  content: string;
+  /** Proposed facts wait for the user's approval; only approved ones are sent to the model */
+  status: 'proposed' | 'approved';
+  createdAt: Date;
+  updatedAt: Date;
+}
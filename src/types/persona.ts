@@ -0,0 +1,26 @@
+import type { GenerationSettings } from './chat';
+
+/**
+ * A named assistant with its own instructions, picked when starting a conversation
+ */
+export interface Persona {
+  id: string;
+  /** Name shown on the persona's replies */
+  name: string;
+  /** Emoji shown as the persona's avatar */
+  avatar: string;
+  /** Model conversations with the persona are offered, or null for the loaded one */
+  modelId: string | null;
+  /** System prompt and sampling options conversations with the persona start with */
+  settings: GenerationSettings;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * How the assistant is shown on conversations without a persona
+ */
+export const DEFAULT_PERSONA: Pick<Persona, 'name' | 'avatar'> = {
+  name: 'TerziAI',
+  avatar: '🤖',
+};
@@ -0,0 +1,42 @@
+import type { ChatMessage } from './chat';
+
+/**
+ * Narrows a history search; every filter left out matches all messages
+ */
+export interface SearchFilters {
+  role?: 'user' | 'assistant';
+  /** Model that wrote the reply */
+  modelId?: string;
+  /** Earliest message time, inclusive */
+  from?: Date;
+  /** Latest message time, exclusive */
+  to?: Date;
+}
+
+/**
+ * A stored message and the conversation it belongs to
+ */
+export interface ConversationMessage {
+  conversationId: string;
+  message: ChatMessage;
+}
+
+/**
+ * A stored message that matches a search
+ */
+export interface SearchResult extends ConversationMessage {
+  /** Relevance to the query: BM25 for words, cosine similarity for meaning; higher is closer */
+  score: number;
+}
+
+/**
+ * How far the background embedding of stored messages has got
+ */
+export interface SemanticIndexStats {
+  /** Messages that can be embedded - everything but summaries */
+  messageCount: number;
+  /** Messages embedded so far */
+  embeddedCount: number;
+  /** Approximate space the embeddings take up */
+  sizeBytes: number;
+}
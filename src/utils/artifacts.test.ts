@@ -0,0 +1,144 @@
+/**
+ * Tests for artifacts
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import type { ChatMessage } from '../types/chat';
+import {
+  ARTIFACT_CSP,
+  artifactNeedsScripts,
+  buildArtifactDocument,
+  collectArtifacts,
+} from './artifacts';
+
+const reply = (id: string, content: string): ChatMessage => ({
+  id,
+  role: 'assistant',
+  content,
+  timestamp: new Date(2024, 0, 1),
+});
+
+const fence = (info: string, code: string) => `\`\`\`${info}\n${code}\n\`\`\``;
+
+describe('artifacts', () => {
+  describe('collectArtifacts', () => {
+    test('finds HTML, SVG and JavaScript blocks in replies', () => {
+      const artifacts = collectArtifacts([
+        reply(
+          'a1',
+          [
+            'A page:',
+            fence('html', '<title>Clock</title><p>12:00</p>'),
+            fence('svg', '<svg viewBox="0 0 10 10"></svg>'),
+            fence('js', 'console.log(1)'),
+            fence('python', 'print(1)'),
+          ].join('\n\n')
+        ),
+      ]);
+
+      expect(artifacts.map((a) => [a.kind, a.title])).toEqual([
+        ['html', 'Clock'],
+        ['svg', 'SVG image 1'],
+        ['javascript', 'Script 1'],
+      ]);
+    });
+
+    test('treats SVG labelled as HTML or XML as an image', () => {
+      const [artifact] = collectArtifacts([reply('a1', fence('xml', '<svg></svg>'))]);
+      expect(artifact.kind).toBe('svg');
+    });
+
+    test('keeps revisions from later replies as versions', () => {
+      const artifacts = collectArtifacts([
+        reply('a1', fence('html', '<p>One</p>')),
+        { id: 'u1', role: 'user', content: fence('html', '<p>Mine</p>'), timestamp: new Date() },
+        reply('a2', fence('html', '<p>Two</p>')),
+        reply('a3', fence('html', '<p>Two</p>')),
+      ]);
+
+      expect(artifacts).toHaveLength(1);
+      expect(artifacts[0].versions).toEqual([
+        { messageId: 'a1', code: '<p>One</p>' },
+        { messageId: 'a2', code: '<p>Two</p>' },
+      ]);
+    });
+
+    test('matches revisions by file name when one is given', () => {
+      const artifacts = collectArtifacts([
+        reply('a1', [fence('html a.html', 'A'), fence('html b.html', 'B')].join('\n')),
+        reply('a2', fence('html b.html', 'B2')),
+      ]);
+
+      expect(artifacts.map((a) => [a.title, a.versions.length])).toEqual([
+        ['a.html', 1],
+        ['b.html', 2],
+      ]);
+    });
+
+    test('ignores code blocks that are not finished', () => {
+      expect(collectArtifacts([reply('a1', '```html\n<p>Half')])).toEqual([]);
+    });
+  });
+
+  describe('buildArtifactDocument', () => {
+    test('locks the document down with a content security policy first', () => {
+      const document = buildArtifactDocument('html', '<html><head></head><body>Hi</body></html>');
+
+      expect(document.indexOf('Content-Security-Policy')).toBeLessThan(document.indexOf('<html>'));
+      expect(ARTIFACT_CSP).toContain("default-src 'none'");
+      expect(ARTIFACT_CSP).not.toMatch(/connect-src|https?:/);
+    });
+
+    test('runs scripts with their output shown on the page', () => {
+      const document = buildArtifactDocument('javascript', 'console.log("</script><b>")');
+
+      expect(document).toContain('id="output"');
+      expect(document).toContain('console.log("<\\/script><b>")');
+    });
+
+    test('leaves scripts off for pages and images that do not need them', () => {
+      expect(artifactNeedsScripts('html', '<p>Hi</p>')).toBe(false);
+      expect(artifactNeedsScripts('svg', '<svg><circle r="4"/></svg>')).toBe(false);
+      expect(artifactNeedsScripts('html', '<script>tick()</script>')).toBe(true);
+      expect(artifactNeedsScripts('html', '<button onclick="go()">Go</button>')).toBe(true);
+      expect(artifactNeedsScripts('javascript', '1 + 1')).toBe(true);
+    });
+
+    test('drops refresh tags, which would navigate away from the policy', () => {
+      const document = buildArtifactDocument(
+        'html',
+        '<head><META HTTP-EQUIV="Refresh" content="0; url=https://example.com/?q=secret"></head>'
+      );
+
+      expect(document).not.toMatch(/refresh|example\.com/i);
+    });
+
+    test('cancels navigations of the frame when scripts run', () => {
+      const document = buildArtifactDocument(
+        'html',
+        '<script>location.href = "https://example.com"</script>'
+      );
+      const guard = document.slice(
+        document.indexOf('<script>') + '<script>'.length,
+        document.indexOf('</script>')
+      );
+      // Stand-in for the frame's Navigation API
+      let onNavigate: ((event: object) => void) | undefined;
+      const navigation = {
+        addEventListener: (_: string, listener: (event: object) => void) => {
+          onNavigate = listener;
+        },
+      };
+      new Function('window', 'navigation', guard)({ navigation }, navigation);
+
+      const away = { hashChange: false, cancelable: true, preventDefault: vi.fn() };
+      const jump = { hashChange: true, cancelable: true, preventDefault: vi.fn() };
+      onNavigate?.(away);
+      onNavigate?.(jump);
+
+      expect(document.indexOf(guard)).toBeLessThan(document.indexOf('location.href'));
+      expect(away.preventDefault).toHaveBeenCalled();
+      expect(jump.preventDefault).not.toHaveBeenCalled();
+    });
+  });
+});
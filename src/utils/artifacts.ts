@@ -0,0 +1,243 @@
+/**
+ * Artifacts
+ * Pages, images and scripts written by the model, picked out of the code blocks of its replies
+ * so they can be previewed in a sandbox
+ */
+
+import type { ChatMessage } from '../types/chat';
+
+/**
+ * What an artifact is previewed as
+ */
+export type ArtifactKind = 'html' | 'svg' | 'javascript';
+
+/**
+ * One revision of an artifact
+ */
+export interface ArtifactVersion {
+  /** The assistant message the code block is in */
+  messageId: string;
+  code: string;
+}
+
+/**
+ * An artifact and its revisions over the conversation, oldest first
+ */
+export interface Artifact {
+  id: string;
+  kind: ArtifactKind;
+  title: string;
+  versions: ArtifactVersion[];
+}
+
+/**
+ * Code block languages that are previewed
+ */
+const LANGUAGE_KINDS: Record<string, ArtifactKind> = {
+  html: 'html',
+  htm: 'html',
+  svg: 'svg',
+  js: 'javascript',
+  javascript: 'javascript',
+};
+
+const KIND_LABELS: Record<ArtifactKind, string> = {
+  html: 'HTML page',
+  svg: 'SVG image',
+  javascript: 'Script',
+};
+
+/**
+ * Everything the preview may load comes from the artifact itself: no requests leave the frame
+ */
+export const ARTIFACT_CSP = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline'",
+  "style-src 'unsafe-inline'",
+  'img-src data: blob:',
+  'font-src data:',
+  'media-src data: blob:',
+  "form-action 'none'",
+  "base-uri 'none'",
+].join('; ');
+
+/**
+ * A complete fenced code block
+ */
+interface FencedBlock {
+  language: string;
+  /** File name written after the language (e.g. ```html index.html), if any */
+  name: string | null;
+  code: string;
+}
+
+/**
+ * Find the complete fenced code blocks of a Markdown message
+ */
+function findFencedBlocks(markdown: string): FencedBlock[] {
+  const blocks: FencedBlock[] = [];
+  let open: { fence: string; info: string[]; lines: string[] } | null = null;
+
+  for (const line of markdown.split('\n')) {
+    if (!open) {
+      const match = /^ {0,3}(`{3,}|~{3,})\s*(.*)$/.exec(line);
+      if (match) {
+        open = { fence: match[1], info: match[2].trim().split(/\s+/), lines: [] };
+      }
+    } else if (line.trim().startsWith(open.fence) && /^(`+|~+)$/.test(line.trim())) {
+      blocks.push({
+        language: open.info[0]?.toLowerCase() ?? '',
+        name: open.info[1] ?? null,
+        code: open.lines.join('\n'),
+      });
+      open = null;
+    } else {
+      open.lines.push(line);
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Work out how a code block is previewed, if at all
+ */
+function getArtifactKind(block: FencedBlock): ArtifactKind | null {
+  // Models often label SVG as HTML or XML
+  if (/^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(block.code)) {
+    return 'svg';
+  }
+  return LANGUAGE_KINDS[block.language] ?? null;
+}
+
+/**
+ * Collect the artifacts in a conversation
+ * A later code block revises an earlier artifact when it has the same file name or, without one,
+ * when it is the same kind of block at the same position in its reply
+ */
+export function collectArtifacts(messages: ChatMessage[]): Artifact[] {
+  const artifacts = new Map<string, Artifact>();
+
+  for (const message of messages) {
+    if (message.role !== 'assistant' || message.kind === 'summary') {
+      continue;
+    }
+    const counts: Partial<Record<ArtifactKind, number>> = {};
+
+    for (const block of findFencedBlocks(message.content)) {
+      const kind = getArtifactKind(block);
+      if (!kind || !block.code.trim()) {
+        continue;
+      }
+      const ordinal = (counts[kind] ?? 0) + 1;
+      counts[kind] = ordinal;
+
+      const id = block.name ? `file:${block.name}` : `${kind}-${ordinal}`;
+      const title =
+        block.name ||
+        /<title>([^<]*)<\/title>/i.exec(block.code)?.[1].trim() ||
+        `${KIND_LABELS[kind]} ${ordinal}`;
+      const artifact = artifacts.get(id) ?? { id, kind, title, versions: [] };
+      // Repeating the same code is not a revision
+      if (artifact.versions.at(-1)?.code !== block.code) {
+        artifact.versions.push({ messageId: message.id, code: block.code });
+      }
+      artifacts.set(id, { ...artifact, kind, title });
+    }
+  }
+
+  return [...artifacts.values()];
+}
+
+/** Styles of the lines a script logs */
+const CONSOLE_STYLE =
+  'body{margin:0;padding:8px;font:13px ui-monospace,Menlo,Consolas,monospace}#output>div{padding:2px 0;border-bottom:1px solid #eee;white-space:pre-wrap}.warn{color:#b26a00}.error{color:#c62828}';
+
+/**
+ * Shows what a script logs, and its uncaught errors, in the preview
+ */
+const CONSOLE_SCRIPT = `(() => {
+  const output = document.getElementById('output');
+  const format = (value) => {
+    if (typeof value === 'string') return value;
+    try { return JSON.stringify(value) ?? String(value); } catch { return String(value); }
+  };
+  const print = (level, values) => {
+    const line = document.createElement('div');
+    line.className = level;
+    line.textContent = values.map(format).join(' ');
+    output.appendChild(line);
+  };
+  for (const level of ['log', 'info', 'warn', 'error']) {
+    const original = console[level].bind(console);
+    console[level] = (...values) => { print(level, values); original(...values); };
+  }
+  window.addEventListener('error', (event) => print('error', [event.message]));
+  window.addEventListener('unhandledrejection', (event) => print('error', [String(event.reason)]));
+})();`;
+
+/**
+ * Cancels every navigation of the preview's own frame except jumps within the page
+ * The policy only holds for the document it is in: a page the frame navigated to would load
+ * without it, network and all. Listening on the Navigation API rather than the window keeps the
+ * guard in place when a script calls document.open().
+ */
+const NAVIGATION_GUARD_SCRIPT = `(() => {
+  if (!('navigation' in window)) return;
+  navigation.addEventListener('navigate', (event) => {
+    if (!event.hashChange && event.cancelable) event.preventDefault();
+  });
+})();`;
+
+/**
+ * Refresh meta tags, which navigate the frame without a script
+ */
+const REFRESH_META = /<meta\b[^>]*http-equiv\s*=\s*["']?refresh\b[^>]*>/gi;
+
+/**
+ * Markup that only works with scripts enabled: script elements, event handler attributes and
+ * javascript: links
+ */
+const SCRIPTED_MARKUP = /<script\b|\son[a-z]+\s*=|javascript:/i;
+
+/**
+ * Whether a preview needs scripts to run; the others are shown with scripts off
+ */
+export function artifactNeedsScripts(kind: ArtifactKind, code: string): boolean {
+  switch (kind) {
+    case 'html':
+      return SCRIPTED_MARKUP.test(code);
+    case 'svg':
+      return false;
+    case 'javascript':
+      return true;
+  }
+}
+
+/**
+ * Build the document a version of an artifact is previewed in
+ */
+export function buildArtifactDocument(kind: ArtifactKind, code: string): string {
+  // Placed before anything else, so they apply to the whole document
+  const policy = `<meta http-equiv="Content-Security-Policy" content="${ARTIFACT_CSP}">`;
+  const head = artifactNeedsScripts(kind, code)
+    ? `${policy}<script>${NAVIGATION_GUARD_SCRIPT}</script>`
+    : policy;
+  const markup = code.replace(REFRESH_META, '');
+
+  switch (kind) {
+    case 'html':
+      return `<!DOCTYPE html>${head}${markup}`;
+    case 'svg':
+      return `<!DOCTYPE html><html><head>${head}<style>html,body{margin:0;height:100%}body{display:flex;align-items:center;justify-content:center}svg{max-width:100%;max-height:100%}</style></head><body>${markup}</body></html>`;
+    case 'javascript':
+      return `<!DOCTYPE html><html><head>${head}<style>${CONSOLE_STYLE}</style></head><body><div id="output"></div><script>${CONSOLE_SCRIPT}</script><script>${escapeScript(code)}</script></body></html>`;
+  }
+}
+
+/**
+ * Keep code from ending the script element it is placed in
+ */
+function escapeScript(code: string): string {
+  return code.replace(/<\/(script)/gi, '<\\/$1');
+}
@@ -0,0 +1,208 @@
+/**
+ * Tests for the code runner
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  CODE_RUN_MEMORY_LIMIT_BYTES,
+  CODE_RUNNER_CSP,
+  MEMORY_CHECK_INTERVAL_MS,
+  buildSandboxDocument,
+  createCodeRunnerSandbox,
+  formatCodeRunResult,
+  measurePageMemory,
+  runJavaScript,
+} from './codeRunner';
+import type { CodeRunnerSandbox } from './codeRunner';
+import type { CodeRunResponse } from '../workers/codeRunnerProtocol';
+
+/**
+ * Stand-in for the runner sandbox, answered by hand
+ */
+class FakeSandbox implements CodeRunnerSandbox {
+  onmessage: ((response: CodeRunResponse) => void) | null = null;
+  onerror: ((message: string) => void) | null = null;
+  postMessage = vi.fn();
+  terminate = vi.fn();
+
+  respond(response: CodeRunResponse) {
+    this.onmessage?.(response);
+  }
+
+  crash(message = '') {
+    this.onerror?.(message);
+  }
+}
+
+describe('codeRunner', () => {
+  let worker: FakeSandbox;
+  const createWorker = () => worker;
+
+  beforeEach(() => {
+    worker = new FakeSandbox();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('runJavaScript', () => {
+    test('sends the code to a sandbox and removes it once it answers', async () => {
+      const run = runJavaScript('1 + 1', 1000, createWorker);
+
+      expect(worker.postMessage).toHaveBeenCalledWith({ code: '1 + 1' });
+      worker.respond({ logs: [], result: '2' });
+
+      expect(await run).toEqual({ logs: [], result: '2', durationMs: expect.any(Number) });
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    test('stops a script that runs too long', async () => {
+      vi.useFakeTimers();
+      const run = runJavaScript('while (true) {}', 1000, createWorker);
+
+      vi.advanceTimersByTime(1000);
+
+      expect(await run).toEqual(
+        expect.objectContaining({ logs: [], error: 'Stopped after 1 s without finishing' })
+      );
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    test('stops and reports a worker the browser ends, as when it runs out of memory', async () => {
+      const run = runJavaScript('new Array(1e10).fill(0)', 1000, createWorker);
+
+      worker.crash();
+
+      expect((await run).error).toMatch(/may have run out of memory/);
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    test('reports the error a dying worker gives', async () => {
+      const run = runJavaScript('x', 1000, createWorker);
+
+      worker.crash('Uncaught RangeError: Array buffer allocation failed');
+
+      expect((await run).error).toBe('Uncaught RangeError: Array buffer allocation failed');
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+  });
+
+  describe('memory guard', () => {
+    test('only measures on cross-origin isolated pages', () => {
+      expect(measurePageMemory()).toBeNull();
+    });
+
+    test('stops a script once the page uses too much more memory than before it', async () => {
+      vi.useFakeTimers();
+      const measurements = [100e6, 150e6, 100e6 + CODE_RUN_MEMORY_LIMIT_BYTES + 1];
+      const measureMemory = vi.fn(() => Promise.resolve(measurements.shift()!));
+      const run = runJavaScript(
+        'const a = []; while (true) a.push(1)',
+        10_000,
+        createWorker,
+        measureMemory
+      );
+
+      await vi.advanceTimersByTimeAsync(MEMORY_CHECK_INTERVAL_MS * 2);
+
+      expect(await run).toEqual(
+        expect.objectContaining({
+          logs: [],
+          error: 'Stopped after using more than 256 MB of memory',
+        })
+      );
+      expect(measureMemory).toHaveBeenCalledTimes(3);
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    test('stops measuring once the script is done', async () => {
+      vi.useFakeTimers();
+      const measureMemory = vi.fn(() => Promise.resolve(100e6));
+      const run = runJavaScript('1', 10_000, createWorker, measureMemory);
+
+      await vi.advanceTimersByTimeAsync(0);
+      worker.respond({ logs: [], result: '1' });
+      await run;
+      await vi.advanceTimersByTimeAsync(MEMORY_CHECK_INTERVAL_MS * 4);
+
+      expect(measureMemory).toHaveBeenCalledTimes(1);
+    });
+
+    test('relies on the time limit where memory cannot be measured', async () => {
+      vi.useFakeTimers();
+      const measureMemory = vi.fn(() => null);
+      const run = runJavaScript('while (true) {}', 1000, createWorker, measureMemory);
+
+      vi.advanceTimersByTime(1000);
+
+      expect((await run).error).toBe('Stopped after 1 s without finishing');
+      expect(measureMemory).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createCodeRunnerSandbox', () => {
+    test('adds a hidden frame with an opaque origin and removes it once terminated', () => {
+      const sandbox = createCodeRunnerSandbox();
+
+      const frame = document.querySelector('iframe');
+      expect(frame).toHaveAttribute('sandbox', 'allow-scripts');
+      expect(frame?.hidden).toBe(true);
+      expect(frame?.srcdoc).toBe(buildSandboxDocument());
+
+      sandbox.terminate();
+      expect(document.querySelector('iframe')).toBeNull();
+    });
+  });
+
+  describe('buildSandboxDocument', () => {
+    test('blocks every request before the relay script runs', () => {
+      const html = buildSandboxDocument();
+
+      expect(CODE_RUNNER_CSP).toContain("default-src 'none'");
+      expect(html.indexOf(`content="${CODE_RUNNER_CSP}"`)).toBeLessThan(html.indexOf('<script>'));
+    });
+
+    test('keeps the worker source from ending the script element', () => {
+      const html = buildSandboxDocument();
+      const script = html.slice(html.indexOf('<script>') + '<script>'.length);
+
+      expect(script.indexOf('</script>')).toBe(script.length - '</script></body></html>'.length);
+      expect(script).toContain('const WORKER_SOURCE = "');
+    });
+  });
+
+  describe('formatCodeRunResult', () => {
+    test('lists output, result and error in code blocks', () => {
+      const text = formatCodeRunResult({
+        logs: [
+          { level: 'log', text: 'hello' },
+          { level: 'error', text: 'oops' },
+        ],
+        result: '42',
+        error: 'Error: late',
+        durationMs: 12,
+      });
+
+      expect(text).toBe(
+        [
+          '**Ran JavaScript** (12 ms)',
+          'Console output:\n```\nhello\n[error] oops\n```',
+          'Result:\n```\n42\n```',
+          'Error:\n```\nError: late\n```',
+        ].join('\n\n')
+      );
+    });
+
+    test('says when a script produced nothing', () => {
+      expect(formatCodeRunResult({ logs: [], durationMs: 1 })).toBe(
+        '**Ran JavaScript** (1 ms)\n\nNo output.'
+      );
+    });
+
+    test('uses a longer fence for output containing backticks', () => {
+      const text = formatCodeRunResult({ logs: [], result: '```js\nx\n```', durationMs: 1 });
+      expect(text).toContain('Result:\n````\n```js\nx\n```\n````');
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Code runner
+ * Runs JavaScript from assistant replies in a Web Worker started inside a hidden sandboxed frame.
+ * The frame has an opaque origin and a policy that blocks every request, so a script cannot
+ * block the page, reach the app's storage or use the network. The page enforces the limits from
+ * outside: it removes the frame, and the worker with it, after a time limit, once the script
+ * uses too much memory, and as soon as the worker dies. Memory can only be measured where the
+ * browser offers performance.measureUserAgentSpecificMemory (on cross-origin isolated pages);
+ * elsewhere a runaway allocation is only ended by the time limit or the browser itself.
+ */
+
+import { buildCodeRunnerWorkerSource } from '../workers/codeRunnerProtocol';
+import type { CodeRunRequest, CodeRunResponse } from '../workers/codeRunnerProtocol';
+
+/**
+ * How long a script may run before it is stopped
+ */
+export const CODE_RUN_TIMEOUT_MS = 5000;
+
+/**
+ * Memory a script may use on top of what the page used when it started
+ */
+export const CODE_RUN_MEMORY_LIMIT_BYTES = 256 * 1024 * 1024;
+
+/**
+ * How often memory is measured while a script runs
+ */
+export const MEMORY_CHECK_INTERVAL_MS = 250;
+
+/**
+ * Nothing may be loaded or connected to: the frame only runs its own relay, the worker it makes
+ * from a blob, and the script the worker evaluates
+ */
+export const CODE_RUNNER_CSP = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline' 'unsafe-eval'",
+  'worker-src blob:',
+  "form-action 'none'",
+  "base-uri 'none'",
+].join('; ');
+
+/**
+ * What running a script produced
+ */
+export interface CodeRunResult extends CodeRunResponse {
+  durationMs: number;
+}
+
+/**
+ * A place to run one script
+ */
+export interface CodeRunnerSandbox {
+  /** Called with what the script did */
+  onmessage: ((response: CodeRunResponse) => void) | null;
+  /** Called when the worker dies before answering, with the browser's message if it gave one */
+  onerror: ((message: string) => void) | null;
+  postMessage(request: CodeRunRequest): void;
+  /** Stop the worker and remove the frame */
+  terminate(): void;
+}
+
+/**
+ * What the frame passes back from its worker
+ */
+type SandboxMessage = { response: CodeRunResponse } | { error: string };
+
+/**
+ * Script of the sandbox frame: starts the worker once the page hands over a message port,
+ * then relays requests to it and its answers and errors back
+ */
+const RELAY_SCRIPT = `addEventListener('message', (event) => {
+  const [port] = event.ports;
+  if (!port) return;
+  try {
+    const blob = new Blob([WORKER_SOURCE], { type: 'text/javascript' });
+    const worker = new Worker(URL.createObjectURL(blob));
+    worker.onmessage = (e) => port.postMessage({ response: e.data });
+    worker.onerror = (e) => {
+      e.preventDefault();
+      port.postMessage({ error: e.message || '' });
+    };
+    port.onmessage = (e) => worker.postMessage(e.data);
+  } catch (err) {
+    port.postMessage({ error: String(err) });
+  }
+});`;
+
+/**
+ * Document loaded into the sandbox frame
+ */
+export function buildSandboxDocument(): string {
+  // Escaped so the source cannot end the script element it is placed in
+  const workerSource = JSON.stringify(buildCodeRunnerWorkerSource()).replace(/</g, '\\u003c');
+  return `<!DOCTYPE html><html><head><meta http-equiv="Content-Security-Policy" content="${CODE_RUNNER_CSP}"></head><body><script>const WORKER_SOURCE = ${workerSource};\n${RELAY_SCRIPT}</script></body></html>`;
+}
+
+/**
+ * Add a hidden sandboxed frame to run one script in
+ * Without allow-same-origin the frame gets an opaque origin, and so does the worker it starts.
+ */
+export function createCodeRunnerSandbox(): CodeRunnerSandbox {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('sandbox', 'allow-scripts');
+  frame.hidden = true;
+  frame.srcdoc = buildSandboxDocument();
+
+  const channel = new MessageChannel();
+  const sandbox: CodeRunnerSandbox = {
+    onmessage: null,
+    onerror: null,
+    // Held in the channel until the frame takes its end
+    postMessage: (request) => channel.port1.postMessage(request),
+    terminate: () => {
+      channel.port1.close();
+      frame.remove();
+    },
+  };
+
+  channel.port1.onmessage = (event: MessageEvent<SandboxMessage>) => {
+    if ('response' in event.data) {
+      sandbox.onmessage?.(event.data.response);
+    } else {
+      sandbox.onerror?.(event.data.error);
+    }
+  };
+  frame.addEventListener(
+    'load',
+    () => {
+      // The frame's origin is opaque, so it can only be addressed as '*'
+      frame.contentWindow?.postMessage(null, '*', [channel.port2]);
+    },
+    { once: true }
+  );
+  document.body.appendChild(frame);
+
+  return sandbox;
+}
+
+/**
+ * Bytes the page uses, its frames and workers included
+ * @returns null where the browser cannot measure it
+ */
+export function measurePageMemory(): Promise<number> | null {
+  const measure = (
+    performance as Performance & {
+      measureUserAgentSpecificMemory?: () => Promise<{ bytes: number }>;
+    }
+  ).measureUserAgentSpecificMemory;
+  if (typeof measure !== 'function' || !globalThis.crossOriginIsolated) {
+    return null;
+  }
+  return measure.call(performance).then((measurement) => measurement.bytes);
+}
+
+/**
+ * Run a script in a fresh sandbox
+ * The sandbox is removed once the script is done, times out or crashes, so timers it left behind
+ * never fire
+ */
+export function runJavaScript(
+  code: string,
+  timeoutMs = CODE_RUN_TIMEOUT_MS,
+  createSandbox: () => CodeRunnerSandbox = createCodeRunnerSandbox,
+  measureMemory: () => Promise<number> | null = measurePageMemory
+): Promise<CodeRunResult> {
+  const startedAt = performance.now();
+  const sandbox = createSandbox();
+
+  return new Promise((resolve) => {
+    let done = false;
+    let memoryCheck: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (response: CodeRunResponse) => {
+      if (done) {
+        return;
+      }
+      done = true;
+      clearTimeout(timer);
+      clearTimeout(memoryCheck);
+      sandbox.terminate();
+      resolve({ ...response, durationMs: Math.round(performance.now() - startedAt) });
+    };
+
+    const timer = setTimeout(() => {
+      finish({ logs: [], error: `Stopped after ${timeoutMs / 1000} s without finishing` });
+    }, timeoutMs);
+
+    // Measured against the page's use before the script had a chance to allocate anything
+    let baseline: number | null = null;
+    const checkMemory = async () => {
+      try {
+        const measurement = measureMemory();
+        if (!measurement) {
+          return;
+        }
+        const bytes = await measurement;
+        baseline ??= bytes;
+        if (done) {
+          return;
+        }
+        if (bytes - baseline > CODE_RUN_MEMORY_LIMIT_BYTES) {
+          finish({
+            logs: [],
+            error: `Stopped after using more than ${CODE_RUN_MEMORY_LIMIT_BYTES / 1024 / 1024} MB of memory`,
+          });
+          return;
+        }
+        memoryCheck = setTimeout(checkMemory, MEMORY_CHECK_INTERVAL_MS);
+      } catch (err) {
+        // The time limit still applies
+        console.warn('Could not measure memory used by the script:', err);
+      }
+    };
+    checkMemory();
+
+    sandbox.onmessage = finish;
+    sandbox.onerror = (message) => {
+      finish({
+        logs: [],
+        error: message || 'The script stopped unexpectedly (it may have run out of memory)',
+      });
+    };
+
+    sandbox.postMessage({ code });
+  });
+}
+
+/**
+ * Write up a run as a chat message the model can read
+ */
+export function formatCodeRunResult(result: CodeRunResult): string {
+  const sections = [`**Ran JavaScript** (${result.durationMs} ms)`];
+
+  if (result.logs.length > 0) {
+    const lines = result.logs.map((log) =>
+      log.level === 'log' || log.level === 'info' ? log.text : `[${log.level}] ${log.text}`
+    );
+    sections.push(`Console output:\n${fence(lines.join('\n'))}`);
+  }
+  if (result.result !== undefined) {
+    sections.push(`Result:\n${fence(result.result)}`);
+  }
+  if (result.error !== undefined) {
+    sections.push(`Error:\n${fence(result.error)}`);
+  }
+  if (sections.length === 1) {
+    sections.push('No output.');
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Fence text as a code block, with a fence longer than any backtick run inside it
+ */
+function fence(text: string): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}\n${text}\n${marker}`;
+}
@@ -0,0 +1,93 @@
+/**
+ * Tests for context window budgeting
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  clampMaxTokens,
+  estimateTokens,
+  fitHistoryToContext,
+  getHistoryBudget,
+  MESSAGE_OVERHEAD_TOKENS,
+} from './context';
+
+const message = (content: string) => ({ role: 'user', content });
+
+describe('context', () => {
+  test('estimateTokens uses about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  test('getHistoryBudget reserves the system prompt and the reply', () => {
+    expect(getHistoryBudget(1024, 100, 512)).toBe(1024 - 100 - 512 - MESSAGE_OVERHEAD_TOKENS);
+  });
+
+  test('clampMaxTokens leaves half the context window for the prompt', () => {
+    expect(clampMaxTokens(4096, 1024)).toBe(512);
+    expect(clampMaxTokens(256, 1024)).toBe(256);
+    expect(clampMaxTokens(4096, 32768)).toBe(4096);
+  });
+
+  describe('fitHistoryToContext', () => {
+    test('keeps everything when it fits', () => {
+      const history = [message('a'), message('b'), message('c')];
+
+      const fitted = fitHistoryToContext(history, [10, 10, 10], 1000);
+
+      expect(fitted).toEqual({ messages: history, droppedCount: 0, shortened: false });
+    });
+
+    test('drops the oldest messages first', () => {
+      const history = [message('oldest'), message('middle'), message('newest')];
+      const cost = 100 + MESSAGE_OVERHEAD_TOKENS;
+
+      const fitted = fitHistoryToContext(history, [100, 100, 100], cost * 2 + 10);
+
+      expect(fitted.messages.map((m) => m.content)).toEqual(['middle', 'newest']);
+      expect(fitted.droppedCount).toBe(1);
+      expect(fitted.shortened).toBe(false);
+    });
+
+    test('cuts short the oldest message that partly fits', () => {
+      const long = 'x'.repeat(400);
+      const history = [message(long), message('newest')];
+
+      const fitted = fitHistoryToContext(history, [100, 10], 10 + 2 * MESSAGE_OVERHEAD_TOKENS + 50);
+
+      expect(fitted.messages).toHaveLength(2);
+      expect(fitted.messages[0].content).toBe(`${'x'.repeat(200)}…`);
+      expect(fitted.droppedCount).toBe(0);
+      expect(fitted.shortened).toBe(true);
+    });
+
+    test('drops a message when too little of it would remain', () => {
+      const history = [message('x'.repeat(400)), message('newest')];
+
+      const fitted = fitHistoryToContext(history, [100, 10], 10 + 2 * MESSAGE_OVERHEAD_TOKENS + 5);
+
+      expect(fitted.messages.map((m) => m.content)).toEqual(['newest']);
+      expect(fitted.droppedCount).toBe(1);
+      expect(fitted.shortened).toBe(false);
+    });
+
+    test('always sends the newest message, shortened if need be', () => {
+      const history = [message('older'), message('y'.repeat(400))];
+
+      const fitted = fitHistoryToContext(history, [5, 100], MESSAGE_OVERHEAD_TOKENS + 10);
+
+      expect(fitted.messages).toEqual([message(`${'y'.repeat(40)}…`)]);
+      expect(fitted.droppedCount).toBe(1);
+      expect(fitted.shortened).toBe(true);
+    });
+
+    test('does not mutate the original messages', () => {
+      const history = [message('x'.repeat(400)), message('newest')];
+
+      fitHistoryToContext(history, [100, 10], 10 + 2 * MESSAGE_OVERHEAD_TOKENS + 50);
+
+      expect(history[0].content).toHaveLength(400);
+    });
+  });
+});
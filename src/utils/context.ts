@@ -0,0 +1,112 @@
+/**
+ * Context window budgeting
+ * Fits the system prompt, conversation history and reply into the model's context window
+ */
+
+/**
+ * Context window assumed for models that are not in AVAILABLE_MODELS
+ */
+export const DEFAULT_CONTEXT_WINDOW_SIZE = 4096;
+
+/**
+ * Rough characters-per-token ratio, used when the model's tokenizer is unavailable
+ */
+export const CHARS_PER_TOKEN_ESTIMATE = 4;
+
+/**
+ * Tokens the chat template adds around each message (role markers, separators)
+ */
+export const MESSAGE_OVERHEAD_TOKENS = 8;
+
+/**
+ * Largest share of the context window a reply may reserve, so the prompt always has room
+ */
+export const MAX_REPLY_SHARE = 0.5;
+
+/**
+ * Smallest remaining budget worth keeping a shortened message for
+ */
+const MIN_SHORTENED_TOKENS = 32;
+
+/**
+ * Estimate the token count of a text without a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN_ESTIMATE);
+}
+
+/**
+ * Result of fitting history into a token budget
+ */
+export interface FittedHistory<T> {
+  /** Messages to send, oldest first */
+  messages: T[];
+  /** Number of older messages left out entirely */
+  droppedCount: number;
+  /** Whether the oldest message sent was cut short */
+  shortened: boolean;
+}
+
+/**
+ * Keep the most recent messages that fit into `budget` tokens.
+ * Older messages are dropped first; the oldest one that only partly fits is cut short.
+ * @param history Messages oldest first
+ * @param tokenCounts Token count of each message's content, in the same order
+ * @param budget Tokens available for the history
+ */
+export function fitHistoryToContext<T extends { content: string }>(
+  history: T[],
+  tokenCounts: number[],
+  budget: number
+): FittedHistory<T> {
+  const kept: T[] = [];
+  let remaining = budget;
+  let shortened = false;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = tokenCounts[i] + MESSAGE_OVERHEAD_TOKENS;
+    if (cost <= remaining) {
+      kept.unshift(history[i]);
+      remaining -= cost;
+      continue;
+    }
+
+    // The newest message is always sent, shortened if need be
+    const available = remaining - MESSAGE_OVERHEAD_TOKENS;
+    if (available >= MIN_SHORTENED_TOKENS || kept.length === 0) {
+      const message = history[i];
+      const keepChars = Math.floor(
+        (message.content.length * Math.max(available, 0)) / Math.max(tokenCounts[i], 1)
+      );
+      kept.unshift({ ...message, content: `${message.content.slice(0, keepChars)}…` });
+      shortened = true;
+    }
+    break;
+  }
+
+  return {
+    messages: kept,
+    droppedCount: history.length - kept.length,
+    shortened,
+  };
+}
+
+/**
+ * Tokens left for the history once the system prompt and the reply are reserved
+ */
+export function getHistoryBudget(
+  contextWindowSize: number,
+  systemPromptTokens: number,
+  maxTokens: number
+): number {
+  return contextWindowSize - maxTokens - systemPromptTokens - MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Cap a reply's max tokens at its share of the context window
+ * Max tokens is validated against the largest models; a short-context model would otherwise
+ * reserve its whole window for the reply and leave no room for the prompt.
+ */
+export function clampMaxTokens(maxTokens: number, contextWindowSize: number): number {
+  return Math.min(maxTokens, Math.floor(contextWindowSize * MAX_REPLY_SHARE));
+}
@@ -0,0 +1,209 @@
+/**
+ * Tests for the document library utilities
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import {
+  chunkText,
+  cosineSimilarity,
+  getCitedNumbers,
+  isSupportedDocument,
+  rankChunks,
+  readDocumentText,
+  toCitations,
+  withSources,
+} from './documents';
+import type { DocumentChunk, LibraryDocument } from '../types/documents';
+
+vi.mock('pdfjs-dist', () => ({
+  GlobalWorkerOptions: {},
+  getDocument: vi.fn(() => ({
+    promise: Promise.resolve({
+      numPages: 2,
+      getPage: async (pageNumber: number) => ({
+        getTextContent: async () => ({
+          items: [
+            { str: `Page ${pageNumber} title`, hasEOL: true },
+            { str: 'Body text', hasEOL: false },
+          ],
+        }),
+      }),
+      destroy: vi.fn(),
+    }),
+  })),
+}));
+
+const document: LibraryDocument = {
+  id: 'doc-1',
+  name: 'handbook.md',
+  type: 'text/markdown',
+  size: 100,
+  importedAt: new Date('2024-01-01'),
+  chunkCount: 3,
+};
+
+/**
+ * Create a file that can be read (jsdom files have no text() or arrayBuffer())
+ */
+function createFile(content: string, name: string, type = ''): File {
+  const file = new File([content], name, { type });
+  const bytes = new TextEncoder().encode(content);
+  return Object.assign(file, {
+    text: async () => content,
+    arrayBuffer: async () => bytes.buffer,
+  });
+}
+
+function createChunk(index: number, embedding: number[], overrides: Partial<DocumentChunk> = {}) {
+  return {
+    id: `chunk-${index}`,
+    documentId: 'doc-1',
+    index,
+    text: `Passage ${index}`,
+    embedding,
+    embeddingModelId: 'embed',
+    ...overrides,
+  };
+}
+
+describe('documents', () => {
+  describe('chunkText', () => {
+    test('keeps short text in one passage', () => {
+      expect(chunkText('First paragraph.\n\nSecond paragraph.')).toEqual([
+        'First paragraph.\n\nSecond paragraph.',
+      ]);
+    });
+
+    test('splits at paragraphs, repeating the end of the previous passage', () => {
+      const chunks = chunkText('one two three four\n\nfive six seven eight', 30, 10);
+
+      expect(chunks).toEqual(['one two three four', 'four\n\nfive six seven eight']);
+    });
+
+    test('breaks long paragraphs at sentence ends', () => {
+      const chunks = chunkText('First sentence here. Second sentence here. Third one.', 30, 0);
+
+      expect(chunks).toEqual(['First sentence here.', 'Second sentence here.', 'Third one.']);
+    });
+
+    test('never exceeds the passage size', () => {
+      const text = Array.from({ length: 50 }, (_, i) => `Sentence number ${i} goes here.`).join(
+        ' '
+      );
+      const chunks = chunkText(`${text}\n\n${'x'.repeat(250)}`, 100, 20);
+
+      expect(chunks.length).toBeGreaterThan(10);
+      chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(100));
+    });
+
+    test('returns nothing for blank text', () => {
+      expect(chunkText(' \n\n \r\n')).toEqual([]);
+    });
+  });
+
+  describe('cosineSimilarity', () => {
+    test('compares directions', () => {
+      expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+      expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+    });
+
+    test('is 0 for vectors that cannot be compared', () => {
+      expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+      expect(cosineSimilarity([], [])).toBe(0);
+    });
+  });
+
+  describe('rankChunks', () => {
+    test('returns the most similar passages first, up to top-k', () => {
+      const chunks = [
+        createChunk(0, [0, 1]),
+        createChunk(1, [1, 0]),
+        createChunk(2, [1, 0.2]),
+        createChunk(3, [0.8, 0.6]),
+      ];
+
+      const ranked = rankChunks([1, 0], 'embed', chunks, [document], 2);
+
+      expect(ranked.map((r) => r.chunk.id)).toEqual(['chunk-1', 'chunk-2']);
+      expect(ranked[0].document).toBe(document);
+      expect(ranked[0].score).toBeCloseTo(1);
+    });
+
+    test('skips unrelated passages, other models and removed documents', () => {
+      const chunks = [
+        createChunk(0, [0, 1]),
+        createChunk(1, [1, 0], { embeddingModelId: 'other' }),
+        createChunk(2, [1, 0], { documentId: 'removed' }),
+        createChunk(3, [1, 0]),
+      ];
+
+      const ranked = rankChunks([1, 0], 'embed', chunks, [document]);
+
+      expect(ranked.map((r) => r.chunk.id)).toEqual(['chunk-3']);
+    });
+  });
+
+  describe('citations', () => {
+    const citations = toCitations([
+      { chunk: createChunk(2, [1, 0]), document, score: 0.9 },
+      { chunk: createChunk(0, [1, 0]), document, score: 0.5 },
+    ]);
+
+    test('numbers passages in order', () => {
+      expect(citations).toEqual([
+        {
+          number: 1,
+          documentId: 'doc-1',
+          documentName: 'handbook.md',
+          chunkId: 'chunk-2',
+          chunkIndex: 2,
+          text: 'Passage 2',
+        },
+        expect.objectContaining({ number: 2, chunkId: 'chunk-0' }),
+      ]);
+    });
+
+    test('adds numbered passages to the system prompt', () => {
+      const prompt = withSources('You are helpful.', citations);
+
+      expect(prompt.startsWith('You are helpful.\n\n')).toBe(true);
+      expect(prompt).toContain('[1] handbook.md (part 3):\nPassage 2');
+      expect(prompt).toContain('[2] handbook.md (part 1):\nPassage 0');
+      expect(withSources('You are helpful.', [])).toBe('You are helpful.');
+    });
+
+    test('finds the numbers a reply cites', () => {
+      expect(getCitedNumbers('See [1] and [3], not [x].')).toEqual(new Set([1, 3]));
+    });
+  });
+
+  describe('reading files', () => {
+    test('accepts text, Markdown and PDF files', () => {
+      expect(isSupportedDocument('notes.TXT')).toBe(true);
+      expect(isSupportedDocument('readme.md')).toBe(true);
+      expect(isSupportedDocument('report.pdf')).toBe(true);
+      expect(isSupportedDocument('sheet.xlsx')).toBe(false);
+    });
+
+    test('reads text files as they are', async () => {
+      const file = createFile('# Title\n\nBody', 'readme.md', 'text/markdown');
+      await expect(readDocumentText(file)).resolves.toBe('# Title\n\nBody');
+    });
+
+    test('extracts the text of each PDF page', async () => {
+      const file = createFile('%PDF', 'report.pdf');
+
+      await expect(readDocumentText(file)).resolves.toBe(
+        'Page 1 title\nBody text\n\nPage 2 title\nBody text'
+      );
+    });
+
+    test('rejects other file types', async () => {
+      await expect(readDocumentText(createFile('x', 'image.png'))).rejects.toThrow(
+        'Unsupported file type: image.png'
+      );
+    });
+  });
+});
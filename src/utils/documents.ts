@@ -0,0 +1,267 @@
+/**
+ * Document library
+ * Reads imported files, splits them into passages and picks the passages relevant to a prompt,
+ * so the model can answer from the user's own documents without anything leaving the browser
+ */
+
+import type { Citation } from '../types/chat';
+import type { DocumentChunk, LibraryDocument, RetrievedChunk } from '../types/documents';
+
+/**
+ * File types that can be imported
+ */
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.txt', '.md', '.pdf'];
+
+/**
+ * Longest passage, in characters - about 250 tokens, well within the embedding model's window
+ */
+export const CHUNK_SIZE = 1000;
+
+/**
+ * Characters a passage repeats from the end of the one before it, so no sentence loses its context
+ */
+export const CHUNK_OVERLAP = 150;
+
+/**
+ * Passages sent with each prompt
+ */
+export const RETRIEVAL_TOP_K = 4;
+
+/**
+ * Lowest similarity at which a passage is worth sending, so unrelated prompts get none
+ */
+export const MIN_SIMILARITY = 0.2;
+
+/**
+ * A paragraph, or part of one, and what joins it to the text before it
+ */
+interface Piece {
+  text: string;
+  separator: string;
+}
+
+/**
+ * Split text into paragraphs, breaking paragraphs longer than `maxChars` at sentence ends
+ * and, failing that, every `maxChars` characters
+ */
+function splitIntoPieces(text: string, maxChars: number): Piece[] {
+  const pieces: Piece[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) {
+      continue;
+    }
+    if (trimmed.length <= maxChars) {
+      pieces.push({ text: trimmed, separator: '\n\n' });
+      continue;
+    }
+    let separator = '\n\n';
+    for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+      for (let start = 0; start < sentence.length; start += maxChars) {
+        pieces.push({ text: sentence.slice(start, start + maxChars), separator });
+        separator = ' ';
+      }
+    }
+  }
+  return pieces;
+}
+
+/**
+ * The last words of a passage, up to `maxChars` characters
+ */
+function getOverlap(text: string, maxChars: number): string {
+  if (maxChars <= 0) {
+    return '';
+  }
+  const tail = text.slice(-maxChars);
+  // Start at a word boundary
+  const space = tail.search(/\s/);
+  return space >= 0 ? tail.slice(space + 1).trim() : '';
+}
+
+/**
+ * Split a document's text into passages of at most `maxChars` characters
+ * Passages end at paragraph or sentence boundaries where possible, and each starts with the
+ * last words of the one before it
+ */
+export function chunkText(
+  text: string,
+  maxChars: number = CHUNK_SIZE,
+  overlapChars: number = CHUNK_OVERLAP
+): string[] {
+  const pieces = splitIntoPieces(text.replace(/\r\n?/g, '\n'), maxChars);
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const { text: piece, separator } of pieces) {
+    if (!current) {
+      current = piece;
+    } else if (current.length + separator.length + piece.length <= maxChars) {
+      current += separator + piece;
+    } else {
+      chunks.push(current);
+      const overlap = getOverlap(current, overlapChars);
+      current =
+        overlap && overlap.length + separator.length + piece.length <= maxChars
+          ? overlap + separator + piece
+          : piece;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Cosine similarity of two vectors, or 0 when they cannot be compared
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Find the passages most similar to a prompt
+ * @param queryEmbedding Embedding of the prompt
+ * @param embeddingModelId Model the prompt was embedded with; passages embedded with another
+ *   model are skipped
+ * @returns Up to `topK` passages at or above `minSimilarity`, most similar first
+ */
+export function rankChunks(
+  queryEmbedding: number[],
+  embeddingModelId: string,
+  chunks: DocumentChunk[],
+  documents: LibraryDocument[],
+  topK: number = RETRIEVAL_TOP_K,
+  minSimilarity: number = MIN_SIMILARITY
+): RetrievedChunk[] {
+  const documentsById = new Map(documents.map((d) => [d.id, d]));
+  const ranked: RetrievedChunk[] = [];
+
+  for (const chunk of chunks) {
+    const document = documentsById.get(chunk.documentId);
+    if (!document || chunk.embeddingModelId !== embeddingModelId) {
+      continue;
+    }
+    const score = cosineSimilarity(queryEmbedding, chunk.embedding);
+    if (score >= minSimilarity) {
+      ranked.push({ chunk, document, score });
+    }
+  }
+
+  return ranked.sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+/**
+ * Number retrieved passages for the model to cite
+ */
+export function toCitations(retrieved: RetrievedChunk[]): Citation[] {
+  return retrieved.map(({ chunk, document }, i) => ({
+    number: i + 1,
+    documentId: document.id,
+    documentName: document.name,
+    chunkId: chunk.id,
+    chunkIndex: chunk.index,
+    text: chunk.text,
+  }));
+}
+
+/**
+ * Add numbered document passages to the system prompt
+ */
+export function withSources(systemPrompt: string, citations: Citation[]): string {
+  if (citations.length === 0) {
+    return systemPrompt;
+  }
+  const sources = citations.map(
+    (c) => `[${c.number}] ${c.documentName} (part ${c.chunkIndex + 1}):\n${c.text}`
+  );
+  return (
+    `${systemPrompt}\n\nExcerpts from the user's documents that may help. Answer from them ` +
+    `when they are relevant and cite the ones you use by number, like [1].\n\n` +
+    sources.join('\n\n')
+  );
+}
+
+/**
+ * Numbers of the sources a reply cites as [n]
+ */
+export function getCitedNumbers(content: string): Set<number> {
+  return new Set([...content.matchAll(/\[(\d+)\]/g)].map((match) => Number(match[1])));
+}
+
+/**
+ * Check whether a file can be imported
+ */
+export function isSupportedDocument(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return SUPPORTED_DOCUMENT_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+type PdfJs = typeof import('pdfjs-dist');
+
+/** The PDF reader, loaded the first time a PDF is imported */
+let loadingPdfJs: Promise<PdfJs> | null = null;
+
+/**
+ * Load the PDF reader and point it at its worker
+ */
+function loadPdfJs(): Promise<PdfJs> {
+  loadingPdfJs ??= import('pdfjs-dist').then((pdfjs) => {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      'pdfjs-dist/build/pdf.worker.min.mjs',
+      import.meta.url
+    ).toString();
+    return pdfjs;
+  });
+  return loadingPdfJs;
+}
+
+/**
+ * Extract the text of a PDF, page by page
+ */
+async function readPdfText(data: ArrayBuffer): Promise<string> {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(
+        content.items
+          .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+          .join('')
+      );
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages.join('\n\n');
+}
+
+/**
+ * Read the text of an imported file
+ * @throws When the file type is not supported
+ */
+export async function readDocumentText(file: File): Promise<string> {
+  if (!isSupportedDocument(file.name)) {
+    throw new Error(`Unsupported file type: ${file.name}`);
+  }
+  if (file.name.toLowerCase().endsWith('.pdf')) {
+    return readPdfText(await file.arrayBuffer());
+  }
+  return file.text();
+}
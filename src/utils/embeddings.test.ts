@@ -0,0 +1,73 @@
+/**
+ * Tests for text embeddings
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { EMBEDDING_MODEL_ID, QUERY_PREFIX, createEmbedder, embedQuery } from './embeddings';
+import { createEngine } from './engine';
+
+vi.mock('./engine', () => ({
+  createEngine: vi.fn(),
+}));
+
+describe('embeddings', () => {
+  const create = vi.fn();
+  const unload = vi.fn();
+  const worker = { terminate: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createEngine).mockResolvedValue({
+      engine: { embeddings: { create }, unload } as never,
+      worker: worker as unknown as Worker,
+      host: 'worker',
+    });
+  });
+
+  test('loads the embedding model in an engine of its own', async () => {
+    const onProgress = vi.fn();
+    const embedder = await createEmbedder(onProgress);
+
+    expect(createEngine).toHaveBeenCalledWith(EMBEDDING_MODEL_ID, {
+      initProgressCallback: onProgress,
+    });
+    expect(embedder.modelId).toBe(EMBEDDING_MODEL_ID);
+  });
+
+  test('returns embeddings in the order of the texts', async () => {
+    create.mockResolvedValue({
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+    });
+    const embedder = await createEmbedder();
+
+    await expect(embedder.embed(['a', 'b'])).resolves.toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    expect(create).toHaveBeenCalledWith({ input: ['a', 'b'], model: EMBEDDING_MODEL_ID });
+    await expect(embedder.embed([])).resolves.toEqual([]);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  test('marks search queries for the model', async () => {
+    create.mockResolvedValue({ data: [{ index: 0, embedding: [0.5] }] });
+    const embedder = await createEmbedder();
+
+    await expect(embedQuery(embedder, 'holiday policy')).resolves.toEqual([0.5]);
+    expect(create).toHaveBeenCalledWith({
+      input: [`${QUERY_PREFIX}holiday policy`],
+      model: EMBEDDING_MODEL_ID,
+    });
+  });
+
+  test('unloads the model and stops its worker', async () => {
+    const embedder = await createEmbedder();
+    await embedder.dispose();
+
+    expect(unload).toHaveBeenCalled();
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+});
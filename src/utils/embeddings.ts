@@ -0,0 +1,72 @@
+/**
+ * Text embeddings
+ * Runs a small embedding model next to the chat model, in a worker of its own, to turn
+ * document passages and prompts into vectors that can be compared
+ */
+
+import type { InitProgressReport } from '@mlc-ai/web-llm';
+import { createEngine } from './engine';
+
+/**
+ * Embedding model used for the document library
+ */
+export const EMBEDDING_MODEL_ID = 'snowflake-arctic-embed-s-q0f32-MLC-b4';
+
+/**
+ * Instruction the model expects in front of search queries (but not passages)
+ */
+export const QUERY_PREFIX = 'Represent this sentence for searching relevant passages: ';
+
+/**
+ * Longest query embedded, in characters, so long prompts stay within the model's window
+ */
+const MAX_QUERY_CHARS = 1000;
+
+/**
+ * A loaded embedding model
+ */
+export interface Embedder {
+  modelId: string;
+  /** Embed texts, returning one vector per text in the same order */
+  embed: (texts: string[]) => Promise<number[][]>;
+  /** Unload the model and stop its worker */
+  dispose: () => Promise<void>;
+}
+
+/**
+ * Load the embedding model
+ */
+export async function createEmbedder(
+  initProgressCallback?: (report: InitProgressReport) => void
+): Promise<Embedder> {
+  const handle = await createEngine(EMBEDDING_MODEL_ID, { initProgressCallback });
+
+  return {
+    modelId: EMBEDDING_MODEL_ID,
+    embed: async (texts) => {
+      if (texts.length === 0) {
+        return [];
+      }
+      const response = await handle.engine.embeddings.create({
+        input: texts,
+        model: EMBEDDING_MODEL_ID,
+      });
+      return [...response.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+    dispose: async () => {
+      try {
+        await handle.engine.unload();
+      } finally {
+        handle.worker?.terminate();
+      }
+    },
+  };
+}
+
+/**
+ * Embed a search query
+ */
+export async function embedQuery(embedder: Embedder, query: string): Promise<number[]> {
+  const [embedding] = await embedder.embed([QUERY_PREFIX + query.slice(0, MAX_QUERY_CHARS)]);
+  return embedding;
+}
@@ -0,0 +1,220 @@
+/**
+ * Tests for WebLLM engine creation
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { countTokens, createEngine, getResidentModels, isWorkerSupported } from './engine';
+import type { EngineHandle } from './engine';
+
+vi.mock('@mlc-ai/web-llm', () => ({
+  CreateMLCEngine: vi.fn(),
+  CreateWebWorkerMLCEngine: vi.fn(),
+  CreateServiceWorkerMLCEngine: vi.fn(),
+  modelLibURLPrefix: 'https://example.com/',
+  modelVersion: 'v0',
+}));
+
+/**
+ * Minimal stand-in for a module worker
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  terminate = vi.fn();
+  postMessage = vi.fn();
+  options?: WorkerOptions;
+
+  constructor(_url: URL | string, options?: WorkerOptions) {
+    this.options = options;
+    FakeWorker.instances.push(this);
+  }
+}
+
+/**
+ * Make a service worker control the page, or remove it with `null`
+ */
+function setServiceWorkerController(controller: Partial<ServiceWorker> | null) {
+  Object.defineProperty(navigator, 'serviceWorker', {
+    value: { controller },
+    configurable: true,
+  });
+}
+
+describe('engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    FakeWorker.instances = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setServiceWorkerController(null);
+  });
+
+  describe('createEngine', () => {
+    test('hosts the engine in a module worker when workers are available', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const { CreateWebWorkerMLCEngine, CreateMLCEngine } = await import('@mlc-ai/web-llm');
+      const engine = { chat: {} };
+      vi.mocked(CreateWebWorkerMLCEngine).mockResolvedValue(engine as never);
+      const initProgressCallback = vi.fn();
+
+      const handle = await createEngine('test-model', { initProgressCallback });
+
+      expect(FakeWorker.instances).toHaveLength(1);
+      expect(FakeWorker.instances[0].options).toEqual({ type: 'module' });
+      expect(CreateWebWorkerMLCEngine).toHaveBeenCalledWith(
+        FakeWorker.instances[0],
+        'test-model',
+        expect.objectContaining({ initProgressCallback })
+      );
+      expect(CreateMLCEngine).not.toHaveBeenCalled();
+      expect(handle).toEqual({ engine, worker: FakeWorker.instances[0], host: 'worker' });
+    });
+
+    test('falls back to the main thread when workers are unavailable', async () => {
+      vi.stubGlobal('Worker', undefined);
+      const { CreateWebWorkerMLCEngine, CreateMLCEngine } = await import('@mlc-ai/web-llm');
+      const engine = { chat: {} };
+      vi.mocked(CreateMLCEngine).mockResolvedValue(engine as never);
+
+      const handle = await createEngine('test-model');
+
+      expect(CreateMLCEngine).toHaveBeenCalledWith('test-model', expect.any(Object));
+      expect(CreateWebWorkerMLCEngine).not.toHaveBeenCalled();
+      expect(handle).toEqual({ engine, worker: null, host: 'main-thread' });
+    });
+
+    test('terminates the worker when loading fails', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const { CreateWebWorkerMLCEngine } = await import('@mlc-ai/web-llm');
+      vi.mocked(CreateWebWorkerMLCEngine).mockRejectedValue(new Error('Out of memory'));
+
+      await expect(createEngine('test-model')).rejects.toThrow('Out of memory');
+      expect(FakeWorker.instances[0].terminate).toHaveBeenCalledTimes(1);
+    });
+
+    test('passes a custom appConfig for SmolLM2-135M', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const { CreateWebWorkerMLCEngine } = await import('@mlc-ai/web-llm');
+      vi.mocked(CreateWebWorkerMLCEngine).mockResolvedValue({} as never);
+
+      await createEngine('SmolLM2-135M-Instruct-q4f32_1-MLC');
+
+      const [, , engineConfig] = vi.mocked(CreateWebWorkerMLCEngine).mock.calls[0];
+      expect(engineConfig?.appConfig?.model_list[0]).toEqual(
+        expect.objectContaining({
+          model_id: 'SmolLM2-135M-Instruct-q4f32_1-MLC',
+          model_lib: 'https://example.com/v0/SmolLM2-135M-Instruct-q4f32_1-ctx2k_cs1k-webgpu.wasm',
+        })
+      );
+    });
+  });
+
+  describe('service worker engine', () => {
+    test('hosts the engine in the service worker when opted in', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      setServiceWorkerController({ postMessage: vi.fn() });
+      const { CreateServiceWorkerMLCEngine } = await import('@mlc-ai/web-llm');
+      const engine = { chat: {} };
+      vi.mocked(CreateServiceWorkerMLCEngine).mockResolvedValue(engine as never);
+
+      const handle = await createEngine('test-model', { useServiceWorker: true });
+
+      expect(CreateServiceWorkerMLCEngine).toHaveBeenCalledWith('test-model', expect.any(Object));
+      expect(FakeWorker.instances).toHaveLength(0);
+      expect(handle).toEqual({ engine, worker: null, host: 'service-worker' });
+    });
+
+    test('loads in the page when no service worker controls it', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const { CreateServiceWorkerMLCEngine, CreateWebWorkerMLCEngine } =
+        await import('@mlc-ai/web-llm');
+      vi.mocked(CreateWebWorkerMLCEngine).mockResolvedValue({} as never);
+
+      const handle = await createEngine('test-model', { useServiceWorker: true });
+
+      expect(CreateServiceWorkerMLCEngine).not.toHaveBeenCalled();
+      expect(handle.host).toBe('worker');
+    });
+
+    test('loads in the page when the service worker cannot host the engine', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      setServiceWorkerController({ postMessage: vi.fn() });
+      const { CreateServiceWorkerMLCEngine, CreateWebWorkerMLCEngine } =
+        await import('@mlc-ai/web-llm');
+      vi.mocked(CreateServiceWorkerMLCEngine).mockRejectedValue(
+        new Error('Cannot find WebGPU in the environment')
+      );
+      vi.mocked(CreateWebWorkerMLCEngine).mockResolvedValue({} as never);
+
+      const handle = await createEngine('test-model', { useServiceWorker: true });
+
+      expect(handle.host).toBe('worker');
+    });
+
+    test('getResidentModels asks the service worker over a dedicated port', async () => {
+      const postMessage = vi.fn((_message: unknown, [port]: MessagePort[]) => {
+        port.postMessage({ modelIds: ['test-model'] });
+      });
+      setServiceWorkerController({ postMessage } as Partial<ServiceWorker>);
+
+      await expect(getResidentModels()).resolves.toEqual(['test-model']);
+      expect(postMessage).toHaveBeenCalledWith({ kind: 'terziai:getLoadedModels' }, [
+        expect.any(MessagePort),
+      ]);
+    });
+
+    test('getResidentModels is empty without a service worker', async () => {
+      await expect(getResidentModels()).resolves.toEqual([]);
+    });
+  });
+
+  describe('countTokens', () => {
+    /**
+     * Engine exposing the internal pipeline map the tokenizer is read from
+     */
+    const engineWithTokenizer = () => ({
+      loadedModelIdToPipeline: new Map([
+        ['test-model', { tokenizer: { encode: (text: string) => text.split(' ') } }],
+      ]),
+    });
+
+    test('uses the loaded tokenizer on the main thread', async () => {
+      const handle = { engine: engineWithTokenizer(), worker: null, host: 'main-thread' };
+
+      await expect(
+        countTokens(handle as unknown as EngineHandle, ['one two three', 'four'])
+      ).resolves.toEqual([3, 1]);
+    });
+
+    test('asks the engine worker for counts', async () => {
+      const worker = new FakeWorker('engine.worker.ts');
+      worker.postMessage.mockImplementation((_message: unknown, [port]: MessagePort[]) => {
+        port.postMessage({ counts: [7] });
+      });
+      const handle = { engine: {}, worker, host: 'worker' };
+
+      await expect(countTokens(handle as unknown as EngineHandle, ['hello'])).resolves.toEqual([7]);
+      expect(worker.postMessage).toHaveBeenCalledWith(
+        { kind: 'terziai:countTokens', texts: ['hello'] },
+        [expect.any(MessagePort)]
+      );
+    });
+
+    test('estimates when no tokenizer is reachable', async () => {
+      const handle = { engine: {}, worker: null, host: 'main-thread' };
+
+      await expect(countTokens(handle as unknown as EngineHandle, ['abcdefgh'])).resolves.toEqual([
+        2,
+      ]);
+    });
+  });
+
+  test('isWorkerSupported reflects the Worker global', () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    expect(isWorkerSupported()).toBe(true);
+    vi.stubGlobal('Worker', undefined);
+    expect(isWorkerSupported()).toBe(false);
+  });
+});
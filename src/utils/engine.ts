@@ -0,0 +1,170 @@
+/**
+ * WebLLM engine creation
+ * Hosts the engine in a dedicated Web Worker so model loading and decoding
+ * do not block rendering, falling back to the main thread where workers are unavailable.
+ * Optionally hosts it in the service worker instead, where it survives page reloads.
+ */
+
+import type { AppConfig, InitProgressReport, MLCEngineInterface } from '@mlc-ai/web-llm';
+import { countTokensWithEngine, sendEngineRequest } from '../workers/engineProtocol';
+import { estimateTokens } from './context';
+
+/**
+ * Where the engine runs
+ */
+export type EngineHost = 'main-thread' | 'worker' | 'service-worker';
+
+/**
+ * A running engine and the worker hosting it, if any
+ */
+export interface EngineHandle {
+  engine: MLCEngineInterface;
+  /** Dedicated worker hosting the engine, or null when it runs elsewhere */
+  worker: Worker | null;
+  host: EngineHost;
+}
+
+export interface CreateEngineOptions {
+  initProgressCallback?: (report: InitProgressReport) => void;
+  /** Host the engine in the service worker so it survives page reloads */
+  useServiceWorker?: boolean;
+}
+
+/**
+ * Check whether dedicated module workers can be created
+ */
+export function isWorkerSupported(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+/**
+ * Get the active service worker controlling this page, if any
+ */
+function getServiceWorkerController(): ServiceWorker | null {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return null;
+  }
+  return navigator.serviceWorker.controller;
+}
+
+/**
+ * Check whether a service worker controls the page and can host the engine
+ */
+export function isServiceWorkerEngineAvailable(): boolean {
+  return getServiceWorkerController() !== null;
+}
+
+/**
+ * Spawn the worker that hosts the engine
+ */
+export function createEngineWorker(): Worker {
+  return new Worker(new URL('../workers/engine.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+}
+
+/**
+ * Custom appConfig for models that are not in WebLLM's prebuilt list
+ */
+function getAppConfig(
+  modelId: string,
+  webllm: typeof import('@mlc-ai/web-llm')
+): AppConfig | undefined {
+  if (modelId === 'SmolLM2-135M-Instruct-q4f32_1-MLC') {
+    return {
+      model_list: [
+        {
+          model: 'https://huggingface.co',
+          model_id: 'SmolLM2-135M-Instruct-q4f32_1-MLC',
+          model_lib:
+            webllm.modelLibURLPrefix +
+            webllm.modelVersion +
+            '/SmolLM2-135M-Instruct-q4f32_1-ctx2k_cs1k-webgpu.wasm',
+        },
+      ],
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Create an engine with the given model loaded.
+ * The worker is terminated if loading fails, so callers only own it on success.
+ */
+export async function createEngine(
+  modelId: string,
+  options: CreateEngineOptions = {}
+): Promise<EngineHandle> {
+  // Dynamic import to avoid issues during testing/SSR
+  const webllm = await import('@mlc-ai/web-llm');
+  const engineConfig = {
+    appConfig: getAppConfig(modelId, webllm),
+    initProgressCallback: options.initProgressCallback,
+  };
+
+  if (options.useServiceWorker && isServiceWorkerEngineAvailable()) {
+    try {
+      // Reattaches without reloading when the service worker already has this model
+      const engine = await webllm.CreateServiceWorkerMLCEngine(modelId, engineConfig);
+      return { engine, worker: null, host: 'service-worker' };
+    } catch (err) {
+      // e.g. no WebGPU inside service workers - load in the page instead
+      console.warn('Service worker engine unavailable, loading in page:', err);
+    }
+  }
+
+  if (!isWorkerSupported()) {
+    const engine = await webllm.CreateMLCEngine(modelId, engineConfig);
+    return { engine, worker: null, host: 'main-thread' };
+  }
+
+  const worker = createEngineWorker();
+  try {
+    const engine = await webllm.CreateWebWorkerMLCEngine(worker, modelId, engineConfig);
+    return { engine, worker, host: 'worker' };
+  } catch (err) {
+    worker.terminate();
+    throw err;
+  }
+}
+
+/**
+ * Ask the service worker which models stay resident across reloads
+ * @returns The loaded model ids, or an empty list when no service worker engine is reachable
+ */
+export async function getResidentModels(): Promise<string[]> {
+  const controller = getServiceWorkerController();
+  if (!controller) {
+    return [];
+  }
+  try {
+    const { modelIds } = await sendEngineRequest(controller, {
+      kind: 'terziai:getLoadedModels',
+    });
+    return modelIds;
+  } catch (err) {
+    console.error('Failed to query the service worker engine:', err);
+    return [];
+  }
+}
+
+/**
+ * Count tokens with the loaded model's tokenizer, wherever the engine runs
+ * Falls back to an estimate when the tokenizer cannot be reached.
+ */
+export async function countTokens(handle: EngineHandle, texts: string[]): Promise<number[]> {
+  let counts: number[] | null = null;
+  try {
+    if (handle.host === 'main-thread') {
+      counts = countTokensWithEngine(handle.engine, texts);
+    } else {
+      const target = handle.worker ?? getServiceWorkerController();
+      if (target) {
+        ({ counts } = await sendEngineRequest(target, { kind: 'terziai:countTokens', texts }));
+      }
+    }
+  } catch (err) {
+    console.error('Failed to count tokens, estimating instead:', err);
+  }
+  return counts ?? texts.map(estimateTokens);
+}
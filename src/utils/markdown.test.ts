@@ -0,0 +1,38 @@
+/**
+ * Tests for Markdown helpers
+ */
+
+import { describe, test, expect } from 'vitest';
+import { closeOpenMarkdown } from './markdown';
+
+describe('markdown', () => {
+  describe('closeOpenMarkdown', () => {
+    test('leaves complete Markdown alone', () => {
+      const text = '**Bold** and `code`\n\n```js\nconst a = 1;\n```\n\nDone ~~not~~';
+      expect(closeOpenMarkdown(text)).toBe(text);
+    });
+
+    test('closes an open code block', () => {
+      expect(closeOpenMarkdown('Try:\n\n```python\nprint(1)')).toBe(
+        'Try:\n\n```python\nprint(1)\n```'
+      );
+      expect(closeOpenMarkdown('~~~~\nx')).toBe('~~~~\nx\n~~~~');
+    });
+
+    test('closes open inline formatting, innermost first', () => {
+      expect(closeOpenMarkdown('Some **bold')).toBe('Some **bold**');
+      expect(closeOpenMarkdown('**bold ~~gone')).toBe('**bold ~~gone~~**');
+      expect(closeOpenMarkdown('Run `npm i')).toBe('Run `npm i`');
+    });
+
+    test('ignores markers inside code spans and earlier paragraphs', () => {
+      expect(closeOpenMarkdown('Use `**` for bold')).toBe('Use `**` for bold');
+      expect(closeOpenMarkdown('An **odd one\n\nNext')).toBe('An **odd one\n\nNext');
+    });
+
+    test('drops a marker with nothing after it yet', () => {
+      expect(closeOpenMarkdown('Some **')).toBe('Some ');
+      expect(closeOpenMarkdown('Run `')).toBe('Run ');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Markdown helpers
+ * Messages are rendered as Markdown while they are still streaming in, so formatting that has
+ * been opened but not yet closed is closed early rather than shown as raw markers
+ */
+
+/** Opening line of a fenced code block */
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/** Inline markers that come in pairs, besides code spans */
+const EMPHASIS_MARKERS = ['**', '~~'];
+
+/**
+ * Close the code block and inline formatting left open at the end of a partial message
+ */
+export function closeOpenMarkdown(text: string): string {
+  const lines = text.split('\n');
+  let fence: string | null = null;
+  let paragraphStart = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (fence) {
+      if (line.startsWith(fence) && /^(`+|~+)$/.test(line)) {
+        fence = null;
+        paragraphStart = i + 1;
+      }
+    } else if (FENCE_PATTERN.test(lines[i])) {
+      fence = FENCE_PATTERN.exec(lines[i])![1];
+    } else if (line === '') {
+      paragraphStart = i + 1;
+    }
+  }
+
+  if (fence) {
+    return `${text}\n${fence}`;
+  }
+
+  const paragraph = lines.slice(paragraphStart).join('\n');
+  // An open code span holds everything after it, formatting included
+  if ((paragraph.match(/`/g)?.length ?? 0) % 2 === 1) {
+    return paragraph.trimEnd().endsWith('`') ? text.replace(/`\s*$/, '') : `${text}\``;
+  }
+
+  const prose = paragraph.replace(/`[^`]*`/g, '');
+  const open = EMPHASIS_MARKERS.filter((marker) => prose.split(marker).length % 2 === 0)
+    // The marker opened last is closed first
+    .sort((a, b) => prose.lastIndexOf(b) - prose.lastIndexOf(a));
+
+  let closed = text;
+  for (const marker of open) {
+    // A marker with nothing after it yet is left out rather than closed around nothing
+    if (closed.trimEnd().endsWith(marker)) {
+      closed = closed.trimEnd().slice(0, -marker.length);
+    } else {
+      closed += marker;
+    }
+  }
+  return closed;
+}
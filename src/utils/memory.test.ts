@@ -0,0 +1,153 @@
+import { describe, test, expect } from 'vitest';
+import {
+  extractMemoryProposals,
+  formatMemoryExport,
+  isKnownMemory,
+  normalizeMemory,
+  selectMemories,
+  withMemories,
+} from './memory';
+import type { Memory } from '../types/memory';
+
+function createMemory(
+  id: string,
+  content: string,
+  updatedAt = '2024-01-01',
+  status: Memory['status'] = 'approved'
+): Memory {
+  return {
+    id,
+    content,
+    status,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date(updatedAt),
+  };
+}
+
+describe('memory', () => {
+  describe('normalizeMemory', () => {
+    test('keeps one line without quotes or a closing full stop', () => {
+      expect(normalizeMemory('  "Prefers\n TypeScript examples."  ')).toBe(
+        'Prefers TypeScript examples'
+      );
+    });
+
+    test('limits the length', () => {
+      expect(normalizeMemory('a'.repeat(500))).toHaveLength(200);
+    });
+  });
+
+  describe('extractMemoryProposals', () => {
+    test('takes proposed facts out of a reply', () => {
+      expect(
+        extractMemoryProposals(
+          'Here is the example.\n\n<memory>Prefers TypeScript examples.</memory>\n<memory> Lives in Lisbon </memory>'
+        )
+      ).toEqual({
+        content: 'Here is the example.',
+        facts: ['Prefers TypeScript examples', 'Lives in Lisbon'],
+      });
+    });
+
+    test('hides a proposal that is still being written', () => {
+      expect(extractMemoryProposals('Sure!\n<memory>Prefers Type', true)).toEqual({
+        content: 'Sure!',
+        facts: [],
+      });
+      expect(extractMemoryProposals('Sure!\n<mem', true).content).toBe('Sure!');
+    });
+
+    test('keeps the end of a finished reply that only looks like a proposal', () => {
+      expect(extractMemoryProposals('Compare with a <m').content).toBe('Compare with a <m');
+      expect(extractMemoryProposals('Sure!\n<memory>Prefers Type')).toEqual({
+        content: 'Sure!\n<memory>Prefers Type',
+        facts: [],
+      });
+    });
+
+    test('leaves tags in fenced code alone', () => {
+      const code = '```xml\n<memory>Not a fact</memory>\n```';
+
+      expect(extractMemoryProposals(`Here:\n${code}\n<memory>Writes XML</memory>`)).toEqual({
+        content: `Here:\n${code}`,
+        facts: ['Writes XML'],
+      });
+      // Including a block still being streamed
+      expect(extractMemoryProposals('Here:\n```xml\n<memory>Not', true).content).toBe(
+        'Here:\n```xml\n<memory>Not'
+      );
+    });
+
+    test('leaves replies without proposals alone', () => {
+      expect(extractMemoryProposals('Use a < b to compare.')).toEqual({
+        content: 'Use a < b to compare.',
+        facts: [],
+      });
+    });
+
+    test('skips empty proposals', () => {
+      expect(extractMemoryProposals('Ok <memory>  </memory>').facts).toEqual([]);
+    });
+  });
+
+  describe('selectMemories', () => {
+    test('sends every approved fact while there are few', () => {
+      const memories = [
+        createMemory('1', 'Prefers TypeScript'),
+        createMemory('2', 'Has a dog', '2024-01-01', 'proposed'),
+      ];
+
+      expect(selectMemories(memories, 'anything')).toEqual([memories[0]]);
+    });
+
+    test('prefers facts sharing words with the prompt, then recent ones', () => {
+      const memories = [
+        createMemory('old', 'Works as a nurse', '2024-01-01'),
+        createMemory('recent', 'Has two cats', '2024-03-01'),
+        createMemory('match', 'Prefers TypeScript examples', '2024-02-01'),
+      ];
+
+      expect(
+        selectMemories(memories, 'Show me some TypeScript examples', 2).map((m) => m.id)
+      ).toEqual(['match', 'recent']);
+    });
+  });
+
+  describe('withMemories', () => {
+    test('lists remembered facts after the system prompt', () => {
+      const prompt = withMemories('You are helpful.', [createMemory('1', 'Prefers TypeScript')]);
+
+      expect(prompt.startsWith('You are helpful.\n\n')).toBe(true);
+      expect(prompt).toContain('<memory>short fact</memory>');
+      expect(prompt.endsWith('earlier conversations:\n- Prefers TypeScript')).toBe(true);
+    });
+
+    test('still explains how to propose facts when none are remembered', () => {
+      const prompt = withMemories('You are helpful.', []);
+
+      expect(prompt).toContain('<memory>short fact</memory>');
+      expect(prompt).not.toContain('earlier conversations');
+    });
+  });
+
+  test('recognizes facts already remembered', () => {
+    const memories = [createMemory('1', 'Prefers TypeScript examples')];
+
+    expect(isKnownMemory(memories, 'prefers typescript examples.')).toBe(true);
+    expect(isKnownMemory(memories, 'Prefers Python examples')).toBe(false);
+  });
+
+  test('exports memories as JSON', () => {
+    const exported = JSON.parse(formatMemoryExport([createMemory('1', 'Prefers TypeScript')]));
+
+    expect(exported.memories).toEqual([
+      {
+        content: 'Prefers TypeScript',
+        status: 'approved',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+    ]);
+    expect(typeof exported.exportedAt).toBe('string');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Long-term memory
+ * Lets the model propose short facts about the user, picks the approved facts relevant to a
+ * prompt and adds them to the system prompt, so chats can build on what earlier ones learned
+ */
+
+import type { Memory } from '../types/memory';
+import { tokenize } from './search';
+
+/**
+ * Approved facts sent with each prompt; when there are no more than this, all of them are sent
+ */
+export const MEMORY_TOP_K = 10;
+
+/**
+ * Longest fact kept from a proposal, in characters
+ */
+export const MAX_MEMORY_LENGTH = 200;
+
+/**
+ * A fact the model proposes, as it writes it in a reply
+ */
+const MEMORY_TAG = /<memory>([\s\S]*?)<\/memory>/gi;
+
+/**
+ * A proposal still being written at the end of a streaming reply, or the start of its tag
+ */
+const PARTIAL_MEMORY_TAG = /(?:<memory>[\s\S]*|<m(?:e(?:m(?:o(?:r(?:y)?)?)?)?)?)$/i;
+
+/**
+ * Line opening or closing a fenced code block, with its fence
+ */
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * How the model is asked to propose facts
+ */
+const MEMORY_INSTRUCTIONS =
+  'You can remember facts about the user for future conversations. When the user shares a ' +
+  'lasting fact about themselves or their preferences that is not listed below, add it at the ' +
+  'very end of your reply as <memory>short fact</memory>. The user reviews these before they ' +
+  'are kept, so do not mention them otherwise.';
+
+/**
+ * Tidy a fact: one line, without surrounding quotes or punctuation, within the length limit
+ */
+export function normalizeMemory(content: string): string {
+  return content
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^["'“”‘’-]+|["'“”‘’]+$/g, '')
+    .replace(/[.;,]+$/, '')
+    .trim()
+    .slice(0, MAX_MEMORY_LENGTH);
+}
+
+/**
+ * Split a reply into prose and fenced code blocks, in order
+ * A block still open at the end counts as code, so a block being streamed is never touched.
+ */
+function splitFencedCode(text: string): { text: string; code: boolean }[] {
+  const parts: { text: string; code: boolean }[] = [];
+  let fence: string | null = null;
+  let current = '';
+
+  for (const line of text.split(/(?<=\n)/)) {
+    const marker = line.match(FENCE_LINE)?.[1];
+    if (fence === null && marker) {
+      parts.push({ text: current, code: false });
+      current = line;
+      fence = marker;
+    } else if (
+      fence !== null &&
+      marker?.[0] === fence[0] &&
+      marker.length >= fence.length &&
+      line.trim() === marker
+    ) {
+      parts.push({ text: current + line, code: true });
+      current = '';
+      fence = null;
+    } else {
+      current += line;
+    }
+  }
+  parts.push({ text: current, code: fence !== null });
+
+  return parts.filter((part) => part.text !== '');
+}
+
+/**
+ * Take the facts the model proposed out of a reply
+ * Tags inside fenced code blocks are part of the code and left alone.
+ * @param streaming Whether the reply is still being written: a proposal or tag cut off at the
+ * end is then hidden too, so tags never flash up in the chat
+ * @returns The reply without proposals, and the proposed facts in order
+ */
+export function extractMemoryProposals(
+  text: string,
+  streaming: boolean = false
+): { content: string; facts: string[] } {
+  const facts: string[] = [];
+  const parts = splitFencedCode(text);
+
+  const content = parts
+    .map((part, index) => {
+      if (part.code) {
+        return part.text;
+      }
+      const prose = part.text.replace(MEMORY_TAG, (_, proposal: string) => {
+        const fact = normalizeMemory(proposal);
+        if (fact) {
+          facts.push(fact);
+        }
+        return '';
+      });
+      return streaming && index === parts.length - 1
+        ? prose.replace(PARTIAL_MEMORY_TAG, '')
+        : prose;
+    })
+    .join('')
+    .trimEnd();
+
+  return { content, facts };
+}
+
+/**
+ * Pick the approved facts most relevant to a prompt
+ * Facts sharing the most words with the prompt come first, then the most recently updated.
+ */
+export function selectMemories(
+  memories: Memory[],
+  query: string,
+  topK: number = MEMORY_TOP_K
+): Memory[] {
+  const approved = memories.filter((m) => m.status === 'approved');
+  if (approved.length <= topK) {
+    return approved;
+  }
+  const queryTerms = new Set(tokenize(query));
+  const overlap = (memory: Memory) =>
+    new Set(tokenize(memory.content).filter((term) => queryTerms.has(term))).size;
+  return approved
+    .map((memory) => ({ memory, score: overlap(memory) }))
+    .sort(
+      (a, b) => b.score - a.score || b.memory.updatedAt.getTime() - a.memory.updatedAt.getTime()
+    )
+    .slice(0, topK)
+    .map(({ memory }) => memory);
+}
+
+/**
+ * Add remembered facts, and how to propose new ones, to the system prompt
+ */
+export function withMemories(systemPrompt: string, memories: Memory[]): string {
+  const known =
+    memories.length > 0
+      ? `\n\nWhat you remember about the user from earlier conversations:\n` +
+        memories.map((m) => `- ${m.content}`).join('\n')
+      : '';
+  return `${systemPrompt}\n\n${MEMORY_INSTRUCTIONS}${known}`;
+}
+
+/**
+ * Check whether a fact is already remembered or proposed, ignoring case and punctuation
+ */
+export function isKnownMemory(memories: Memory[], content: string): boolean {
+  const key = normalizeMemory(content).toLowerCase();
+  return memories.some((m) => normalizeMemory(m.content).toLowerCase() === key);
+}
+
+/**
+ * Serialize memories for download, so they can be kept or moved elsewhere
+ */
+export function formatMemoryExport(memories: Memory[]): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      memories: memories.map(({ content, status, createdAt, updatedAt }) => ({
+        content,
+        status,
+        createdAt: createdAt.toISOString(),
+        updatedAt: updatedAt.toISOString(),
+      })),
+    },
+    null,
+    2
+  );
+}
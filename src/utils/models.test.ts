@@ -41,6 +41,13 @@ describe('models utility', () => {
         expect(model.description).toBeTruthy();
         expect(typeof model.lowResource).toBe('boolean');
         expect(['f16', 'f32']).toContain(model.shaderType);
+        expect(model.contextWindowSize).toBeGreaterThan(0);
+      });
+    });
+
+    it('should give -1k models a 1k context window', () => {
+      AVAILABLE_MODELS.filter((m) => m.id.endsWith('-1k')).forEach((model) => {
+        expect(model.contextWindowSize).toBe(1024);
       });
     });
   });
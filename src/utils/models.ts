@@ -20,6 +20,8 @@ export interface ModelInfo {
   lowResource: boolean;
   /** Shader type required (f16 or f32) */
   shaderType: 'f16' | 'f32';
+  /** Context window length in tokens (prompt and completion combined) */
+  contextWindowSize: number;
 }
 
 /**
@@ -48,6 +50,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Tiny "smol" model for testing and minimal resource use (f32, compatible)',
     lowResource: true,
     shaderType: 'f32',
+    contextWindowSize: 2048,
   },
   {
     id: 'Llama-3.2-1B-Instruct-q4f32_1-MLC',
@@ -57,6 +60,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Modern small model from Meta (f32, compatible)',
     lowResource: true,
     shaderType: 'f32',
+    contextWindowSize: 4096,
   },
   {
     id: 'Llama-3.2-3B-Instruct-q4f32_1-MLC',
@@ -66,6 +70,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Medium model with better reasoning (f32, compatible)',
     lowResource: true,
     shaderType: 'f32',
+    contextWindowSize: 4096,
   },
   {
     id: 'Phi-3.5-mini-instruct-q4f32_1-MLC',
@@ -75,6 +80,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'High-quality medium model from Microsoft (f32)',
     lowResource: true,
     shaderType: 'f32',
+    contextWindowSize: 4096,
   },
   {
     id: 'Llama-3.1-8B-Instruct-q4f32_1-MLC-1k',
@@ -84,6 +90,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Large model (shorter context, f32 compatible)',
     lowResource: true,
     shaderType: 'f32',
+    contextWindowSize: 1024,
   },
   {
     id: 'Llama-3.1-8B-Instruct-q4f32_1-MLC',
@@ -93,6 +100,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Large model with excellent quality (f32, more memory)',
     lowResource: false,
     shaderType: 'f32',
+    contextWindowSize: 4096,
   },
   // F16 models (require shader-f16 support, more efficient)
   {
@@ -103,6 +111,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Smallest model, fastest responses (needs shader-f16)',
     lowResource: true,
     shaderType: 'f16',
+    contextWindowSize: 4096,
   },
   {
     id: 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC-1k',
@@ -112,6 +121,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Small model with better quality (needs shader-f16)',
     lowResource: true,
     shaderType: 'f16',
+    contextWindowSize: 1024,
   },
   {
     id: 'Llama-3.2-1B-Instruct-q4f16_1-MLC',
@@ -121,6 +131,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Modern small model from Meta (needs shader-f16)',
     lowResource: true,
     shaderType: 'f16',
+    contextWindowSize: 4096,
   },
   {
     id: 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC',
@@ -130,6 +141,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'High quality small model (needs shader-f16)',
     lowResource: true,
     shaderType: 'f16',
+    contextWindowSize: 4096,
   },
   {
     id: 'Llama-3.2-3B-Instruct-q4f16_1-MLC',
@@ -139,6 +151,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Medium model with better reasoning (needs shader-f16)',
     lowResource: true,
     shaderType: 'f16',
+    contextWindowSize: 4096,
   },
   {
     id: 'Qwen2.5-3B-Instruct-q4f16_1-MLC',
@@ -148,6 +161,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Excellent medium-sized model (needs shader-f16)',
     lowResource: true,
     shaderType: 'f16',
+    contextWindowSize: 4096,
   },
   {
     id: 'Phi-3.5-mini-instruct-q4f16_1-MLC-1k',
@@ -157,6 +171,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'High-quality medium model from Microsoft (needs shader-f16)',
     lowResource: true,
     shaderType: 'f16',
+    contextWindowSize: 1024,
   },
   {
     id: 'Llama-3.1-8B-Instruct-q4f16_1-MLC-1k',
@@ -166,6 +181,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Large model (shorter context, needs shader-f16)',
     lowResource: true,
     shaderType: 'f16',
+    contextWindowSize: 1024,
   },
   {
     id: 'Llama-3.1-8B-Instruct-q4f16_1-MLC',
@@ -175,6 +191,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'Large model with excellent quality (needs shader-f16)',
     lowResource: false,
     shaderType: 'f16',
+    contextWindowSize: 4096,
   },
   {
     id: 'Qwen2.5-7B-Instruct-q4f16_1-MLC',
@@ -184,6 +201,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     description: 'High-quality large model for complex tasks (needs shader-f16)',
     lowResource: false,
     shaderType: 'f16',
+    contextWindowSize: 4096,
   },
 ];
 
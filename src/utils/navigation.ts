@@ -2,7 +2,14 @@
  * Page types and navigation utilities
  */
 
-export type PageType = 'home' | 'chat' | 'dashboard';
+export type PageType =
+  | 'home'
+  | 'chat'
+  | 'documents'
+  | 'memory'
+  | 'personas'
+  | 'settings'
+  | 'dashboard';
 
 export interface NavigationState {
   currentPage: PageType;
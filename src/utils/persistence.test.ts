@@ -0,0 +1,166 @@
+/**
+ * Tests for incremental message persistence
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMessagePersister } from './persistence';
+import { putMessage, deleteMessage } from './storage';
+import type { ChatMessage } from '../types/chat';
+
+vi.mock('./storage', () => ({
+  putMessage: vi.fn().mockResolvedValue(undefined),
+  deleteMessage: vi.fn().mockResolvedValue(undefined),
+}));
+
+function createHistory(length: number): ChatMessage[] {
+  return Array.from({ length }, (_, i) => ({
+    id: `msg-${i}`,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `Message ${i}`,
+    timestamp: new Date(2024, 0, 1, 0, 0, i),
+  }));
+}
+
+function createMessage(id: string, content: string): ChatMessage {
+  return { id, role: 'assistant', content, timestamp: new Date() };
+}
+
+describe('createMessagePersister', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('does not write back messages that were loaded from storage', () => {
+    const persister = createMessagePersister();
+    const history = createHistory(10);
+
+    persister.load('conv-1', history);
+    persister.sync('conv-1', history);
+
+    expect(putMessage).not.toHaveBeenCalled();
+    expect(deleteMessage).not.toHaveBeenCalled();
+  });
+
+  test('writes every message of a conversation that was never loaded', () => {
+    const persister = createMessagePersister();
+
+    persister.sync('conv-new', createHistory(3));
+
+    expect(putMessage).toHaveBeenCalledTimes(3);
+  });
+
+  test.each([10, 100, 5000])(
+    'appending a message to a history of %i writes exactly once',
+    (length) => {
+      const persister = createMessagePersister();
+      const history = createHistory(length);
+      persister.load('conv-1', history);
+
+      const reply = createMessage('reply', 'Hello');
+      persister.sync('conv-1', [...history, reply]);
+
+      expect(putMessage).toHaveBeenCalledTimes(1);
+      expect(putMessage).toHaveBeenCalledWith('conv-1', reply);
+    }
+  );
+
+  test.each([10, 100, 5000])(
+    'streaming 200 tokens after a history of %i writes a constant number of times',
+    async (length) => {
+      const persister = createMessagePersister(500);
+      const history = createHistory(length);
+      persister.load('conv-1', history);
+
+      let content = '';
+      for (let i = 0; i < 200; i++) {
+        content += 'token ';
+        persister.sync('conv-1', [...history, createMessage('reply', content)], 'reply');
+      }
+      expect(putMessage).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(500);
+      await persister.flush();
+
+      expect(putMessage).toHaveBeenCalledTimes(1);
+      expect(putMessage).toHaveBeenCalledWith('conv-1', expect.objectContaining({ content }));
+    }
+  );
+
+  test('writes a streaming message at most once per interval', () => {
+    const persister = createMessagePersister(500);
+    persister.load('conv-1', []);
+
+    for (let i = 0; i < 10; i++) {
+      persister.sync('conv-1', [createMessage('reply', `chunk ${i}`)], 'reply');
+      vi.advanceTimersByTime(100);
+    }
+
+    // 1000ms of streaming at a 500ms interval
+    expect(putMessage).toHaveBeenCalledTimes(2);
+  });
+
+  test('flush writes the latest streaming content immediately', async () => {
+    const persister = createMessagePersister(500);
+    persister.load('conv-1', []);
+
+    persister.sync('conv-1', [createMessage('reply', 'partial')], 'reply');
+    persister.sync('conv-1', [createMessage('reply', 'partial answer')], 'reply');
+    await persister.flush();
+
+    expect(putMessage).toHaveBeenCalledTimes(1);
+    expect(putMessage).toHaveBeenCalledWith(
+      'conv-1',
+      expect.objectContaining({ content: 'partial answer' })
+    );
+
+    // Nothing is left to write when the timer would have fired
+    vi.advanceTimersByTime(500);
+    expect(putMessage).toHaveBeenCalledTimes(1);
+  });
+
+  test('deletes only the removed message', () => {
+    const persister = createMessagePersister();
+    const history = createHistory(50);
+    persister.load('conv-1', history);
+
+    persister.sync(
+      'conv-1',
+      history.filter((m) => m.id !== 'msg-7')
+    );
+
+    expect(deleteMessage).toHaveBeenCalledTimes(1);
+    expect(deleteMessage).toHaveBeenCalledWith('msg-7');
+    expect(putMessage).not.toHaveBeenCalled();
+  });
+
+  test('writes an edited message once', () => {
+    const persister = createMessagePersister();
+    const history = createHistory(50);
+    persister.load('conv-1', history);
+
+    const edited = history.map((m) => (m.id === 'msg-3' ? { ...m, content: 'Edited' } : m));
+    persister.sync('conv-1', edited);
+
+    expect(putMessage).toHaveBeenCalledTimes(1);
+    expect(putMessage).toHaveBeenCalledWith('conv-1', edited[3]);
+  });
+
+  test('loading another conversation flushes the pending streaming write to its own conversation', () => {
+    const persister = createMessagePersister(500);
+    persister.load('conv-1', []);
+    persister.sync('conv-1', [createMessage('reply', 'partial')], 'reply');
+
+    persister.load('conv-2', createHistory(5));
+
+    expect(putMessage).toHaveBeenCalledTimes(1);
+    expect(putMessage).toHaveBeenCalledWith(
+      'conv-1',
+      expect.objectContaining({ content: 'partial' })
+    );
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Incremental message persistence
+ * Compares each messages snapshot with what was last written and issues only the
+ * puts and deletes needed, so long histories are not rewritten on every change
+ */
+
+import type { ChatMessage } from '../types/chat';
+import { putMessage, deleteMessage } from './storage';
+
+/**
+ * Minimum delay between writes of the message that is currently streaming
+ */
+export const STREAMING_SAVE_INTERVAL_MS = 500;
+
+/**
+ * Keeps IndexedDB in sync with the in-memory messages of the active conversation
+ */
+export interface MessagePersister {
+  /**
+   * Record messages that were just loaded from storage, so they are not written back
+   */
+  load(conversationId: string, messages: ChatMessage[]): void;
+  /**
+   * Persist the difference between `messages` and the previous snapshot
+   * @param streamingMessageId Message being streamed; its writes are coalesced
+   */
+  sync(conversationId: string, messages: ChatMessage[], streamingMessageId?: string | null): void;
+  /** Write any pending streaming update immediately */
+  flush(): Promise<void>;
+}
+
+/**
+ * Create a persister that tracks messages by object identity.
+ * State updates replace only the message objects that changed, so an unchanged
+ * message is never written again no matter how long the history grows.
+ */
+export function createMessagePersister(
+  streamingSaveIntervalMs: number = STREAMING_SAVE_INTERVAL_MS
+): MessagePersister {
+  let currentConversationId: string | null = null;
+  let persisted = new Map<string, ChatMessage>();
+  let pending: { conversationId: string; message: ChatMessage } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const logError = (err: unknown) => {
+    console.error('Failed to persist message:', err);
+  };
+
+  const cancelPending = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    pending = null;
+  };
+
+  const writePending = async () => {
+    const write = pending;
+    cancelPending();
+    if (write) {
+      await putMessage(write.conversationId, write.message).catch(logError);
+    }
+  };
+
+  return {
+    load(conversationId, messages) {
+      void writePending();
+      currentConversationId = conversationId;
+      persisted = new Map(messages.map((m) => [m.id, m]));
+    },
+
+    sync(conversationId, messages, streamingMessageId = null) {
+      if (conversationId !== currentConversationId) {
+        // Nothing of a conversation that was never loaded is in storage yet
+        void writePending();
+        currentConversationId = conversationId;
+        persisted = new Map();
+      }
+
+      const next = new Map<string, ChatMessage>();
+      for (const message of messages) {
+        next.set(message.id, message);
+        if (persisted.get(message.id) === message) {
+          continue;
+        }
+
+        if (message.id === streamingMessageId) {
+          // Coalesce per-token updates into at most one write per interval
+          pending = { conversationId, message };
+          if (!timer) {
+            timer = setTimeout(() => void writePending(), streamingSaveIntervalMs);
+          }
+        } else {
+          if (pending?.message.id === message.id) {
+            cancelPending();
+          }
+          putMessage(conversationId, message).catch(logError);
+        }
+      }
+
+      for (const id of persisted.keys()) {
+        if (!next.has(id)) {
+          if (pending?.message.id === id) {
+            cancelPending();
+          }
+          deleteMessage(id).catch(logError);
+        }
+      }
+
+      persisted = next;
+    },
+
+    flush() {
+      return writePending();
+    },
+  };
+}
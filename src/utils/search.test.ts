@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import { bm25Score, countTerms, createSnippet, tokenize, toTerm } from './search';
+
+describe('tokenize', () => {
+  test('splits text into lowercase terms without common words', () => {
+    expect(tokenize('The quick, brown fox — and 42 dogs!')).toEqual([
+      'quick',
+      'brown',
+      'fox',
+      '42',
+      'dog',
+    ]);
+  });
+
+  test('indexes plurals under their singular', () => {
+    expect(toTerm('Recipes')).toBe('recipe');
+    expect(toTerm('stories')).toBe('story');
+    expect(toTerm('glass')).toBe('glass');
+    expect(toTerm('bus')).toBe('bus');
+  });
+
+  test('keeps words in any script', () => {
+    expect(tokenize('Grüße aus Köln, 東京')).toEqual(['grüße', 'aus', 'köln', '東京']);
+  });
+});
+
+describe('countTerms', () => {
+  test('counts each term and the total', () => {
+    const { counts, length } = countTerms('Cats and cats and a dog');
+
+    expect(counts).toEqual(
+      new Map([
+        ['cat', 2],
+        ['dog', 1],
+      ])
+    );
+    expect(length).toBe(3);
+  });
+});
+
+describe('bm25Score', () => {
+  const totals = { documentCount: 100, totalLength: 1000 };
+
+  test('scores rare terms above common ones', () => {
+    expect(bm25Score(1, 10, 2, totals)).toBeGreaterThan(bm25Score(1, 10, 50, totals));
+  });
+
+  test('scores repeated terms higher, with diminishing returns', () => {
+    const once = bm25Score(1, 10, 5, totals);
+    const twice = bm25Score(2, 10, 5, totals);
+    const thrice = bm25Score(3, 10, 5, totals);
+
+    expect(twice).toBeGreaterThan(once);
+    expect(thrice - twice).toBeLessThan(twice - once);
+  });
+
+  test('scores a match in a short message above one in a long message', () => {
+    expect(bm25Score(1, 5, 5, totals)).toBeGreaterThan(bm25Score(1, 50, 5, totals));
+  });
+
+  test('never scores below zero', () => {
+    expect(bm25Score(1, 10, 100, totals)).toBeGreaterThan(0);
+  });
+});
+
+describe('createSnippet', () => {
+  test('marks every word that matches the query', () => {
+    expect(createSnippet('Bake the bread, then slice the Bread.', 'bread')).toEqual([
+      { text: 'Bake the ', match: false },
+      { text: 'bread', match: true },
+      { text: ', then slice the ', match: false },
+      { text: 'Bread', match: true },
+      { text: '.', match: false },
+    ]);
+  });
+
+  test('matches plurals of the query', () => {
+    expect(createSnippet('Two recipes', 'recipe')).toEqual([
+      { text: 'Two ', match: false },
+      { text: 'recipes', match: true },
+    ]);
+  });
+
+  test('shows the part of a long message around the first match', () => {
+    const content = `${'word '.repeat(100)}the sourdough starter ${'more '.repeat(100)}`;
+
+    const parts = createSnippet(content, 'sourdough', 60);
+    const text = parts.map((p) => p.text).join('');
+
+    expect(parts[0]).toEqual({ text: '…', match: false });
+    expect(parts.at(-1)).toEqual({ text: '…', match: false });
+    expect(parts.find((p) => p.match)?.text).toBe('sourdough');
+    expect(text.length).toBeLessThanOrEqual(62);
+    expect(text).toMatch(/^…word word the sourdough starter more/);
+  });
+
+  test('shows the start of a message without matches', () => {
+    const parts = createSnippet('a '.repeat(100), 'missing', 20);
+
+    expect(parts.every((p) => !p.match)).toBe(true);
+    expect(parts.at(-1)).toEqual({ text: '…', match: false });
+  });
+});
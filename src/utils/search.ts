@@ -0,0 +1,200 @@
+/**
+ * Full-text search
+ * Splits messages into terms for the inverted index in IndexedDB, ranks matches with BM25
+ * and picks the part of a message to show for a match
+ */
+
+/**
+ * Most results a search returns
+ */
+export const SEARCH_RESULT_LIMIT = 50;
+
+/**
+ * BM25 term frequency saturation: how quickly repeating a term stops adding to the score
+ */
+const BM25_K1 = 1.2;
+
+/**
+ * BM25 length normalization: how much long messages are penalized for containing a term
+ */
+const BM25_B = 0.75;
+
+/**
+ * Longest snippet shown for a result, in characters
+ */
+export const SNIPPET_LENGTH = 160;
+
+/**
+ * Words too common to be worth indexing - they would match most messages
+ */
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'for',
+  'if',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'so',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'with',
+]);
+
+/**
+ * Runs of letters and digits in any script
+ */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Reduce a word to the term it is indexed under, so plurals find their singular
+ * @returns The term, or null for words that are not indexed
+ */
+export function toTerm(word: string): string | null {
+  const lower = word.toLowerCase();
+  if (STOP_WORDS.has(lower)) {
+    return null;
+  }
+  if (lower.length > 4 && lower.endsWith('ies')) {
+    return lower.slice(0, -3) + 'y';
+  }
+  if (lower.length > 3 && lower.endsWith('s') && !lower.endsWith('ss')) {
+    return lower.slice(0, -1);
+  }
+  return lower;
+}
+
+/**
+ * Split text into the terms it is indexed under, in order
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const [word] of text.matchAll(WORD_PATTERN)) {
+    const term = toTerm(word);
+    if (term) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Count how often each term appears in a text
+ * @returns The count of each term and the number of terms in the text
+ */
+export function countTerms(text: string): { counts: Map<string, number>; length: number } {
+  const terms = tokenize(text);
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return { counts, length: terms.length };
+}
+
+/**
+ * What the ranking needs to know about the whole index
+ */
+export interface IndexTotals {
+  /** Messages in the index */
+  documentCount: number;
+  /** Terms across all of them */
+  totalLength: number;
+}
+
+/**
+ * Score one query term's match in a message with BM25
+ * @param termFrequency Times the term appears in the message
+ * @param length Terms in the message
+ * @param documentFrequency Messages containing the term
+ */
+export function bm25Score(
+  termFrequency: number,
+  length: number,
+  documentFrequency: number,
+  { documentCount, totalLength }: IndexTotals
+): number {
+  const averageLength = documentCount > 0 ? totalLength / documentCount : 1;
+  // Rare terms count for more; the +1 keeps terms in most messages from scoring below zero
+  const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  const saturation =
+    termFrequency + BM25_K1 * (1 - BM25_B + (BM25_B * length) / (averageLength || 1));
+  return (idf * termFrequency * (BM25_K1 + 1)) / saturation;
+}
+
+/**
+ * A piece of a snippet; matched pieces are highlighted
+ */
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Pick the part of a message around the first word that matches a query, marking every match
+ */
+export function createSnippet(
+  content: string,
+  query: string,
+  maxLength: number = SNIPPET_LENGTH
+): SnippetPart[] {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const queryTerms = new Set(tokenize(query));
+  const matches = [...text.matchAll(WORD_PATTERN)]
+    .filter(([word]) => {
+      const term = toTerm(word);
+      return term !== null && queryTerms.has(term);
+    })
+    .map((match) => ({ start: match.index, end: match.index + match[0].length }));
+
+  // Show some context before the first match, starting at a word
+  let start = 0;
+  if (matches.length > 0 && text.length > maxLength) {
+    start = Math.max(0, Math.min(matches[0].start - maxLength / 4, text.length - maxLength));
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space >= 0 && space < matches[0].start ? space + 1 : start;
+    }
+  }
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const parts: SnippetPart[] = [];
+  const push = (part: string, match: boolean) => {
+    if (part) {
+      parts.push({ text: part, match });
+    }
+  };
+  if (start > 0) {
+    push('…', false);
+  }
+  let position = start;
+  for (const match of matches) {
+    if (match.end <= start || match.start >= end) {
+      continue;
+    }
+    push(text.slice(position, match.start), false);
+    push(text.slice(match.start, match.end), true);
+    position = match.end;
+  }
+  push(text.slice(position, end), false);
+  if (end < text.length) {
+    push('…', false);
+  }
+  return parts;
+}
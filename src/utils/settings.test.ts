@@ -0,0 +1,226 @@
+/**
+ * Tests for chat settings validation and persistence
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import {
+  CHAT_CONFIG_SETTING,
+  formatLogitBias,
+  getSamplingParams,
+  loadChatConfig,
+  parseLogitBias,
+  parseStopSequences,
+  saveChatConfig,
+  toConversationSettings,
+  validateChatConfig,
+} from './settings';
+import * as storage from './storage';
+
+vi.mock('./storage', () => ({
+  loadSetting: vi.fn(),
+  saveSetting: vi.fn().mockResolvedValue(undefined),
+}));
+
+describe('settings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('validateChatConfig', () => {
+    test('accepts the defaults', () => {
+      expect(validateChatConfig(DEFAULT_CHAT_CONFIG)).toEqual({});
+    });
+
+    test('accepts the ends of each range', () => {
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, temperature: 0 })).toEqual({});
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, temperature: 2 })).toEqual({});
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, maxTokens: 1 })).toEqual({});
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, summaryThreshold: 1 })).toEqual({});
+    });
+
+    test('rejects a temperature outside 0-2', () => {
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, temperature: 2.1 })).toEqual({
+        temperature: 'Temperature must be between 0 and 2',
+      });
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, temperature: -1 })).toHaveProperty(
+        'temperature'
+      );
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, temperature: NaN })).toHaveProperty(
+        'temperature'
+      );
+    });
+
+    test('rejects max tokens that are not a positive whole number', () => {
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, maxTokens: 0 })).toHaveProperty(
+        'maxTokens'
+      );
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, maxTokens: 10.5 })).toHaveProperty(
+        'maxTokens'
+      );
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, maxTokens: 5000 })).toHaveProperty(
+        'maxTokens'
+      );
+    });
+
+    test('rejects an out-of-range summary threshold and unknown models', () => {
+      expect(
+        validateChatConfig({ ...DEFAULT_CHAT_CONFIG, summaryThreshold: 0, modelId: 'gone' })
+      ).toEqual({
+        modelId: 'Unknown model',
+        summaryThreshold: 'Summary threshold must be between 10% and 100%',
+      });
+    });
+  });
+
+  describe('validateChatConfig - sampling', () => {
+    test('top P must be above 0 and at most 1', () => {
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, topP: 0.5 })).toEqual({});
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, topP: 0 })).toHaveProperty('topP');
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, topP: 1.1 })).toHaveProperty('topP');
+    });
+
+    test('penalties must be between -2 and 2', () => {
+      expect(
+        validateChatConfig({ ...DEFAULT_CHAT_CONFIG, frequencyPenalty: -2, presencePenalty: 2 })
+      ).toEqual({});
+      expect(
+        validateChatConfig({ ...DEFAULT_CHAT_CONFIG, frequencyPenalty: 2.5, presencePenalty: -3 })
+      ).toEqual({
+        frequencyPenalty: 'Frequency penalty must be between -2 and 2',
+        presencePenalty: 'Presence penalty must be between -2 and 2',
+      });
+    });
+
+    test('seed must be a non-negative whole number', () => {
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, seed: 42 })).toEqual({});
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, seed: 1.5 })).toHaveProperty('seed');
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, seed: -1 })).toHaveProperty('seed');
+    });
+
+    test('allows up to four non-empty stop sequences', () => {
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, stop: ['a', 'b', 'c', 'd'] })).toEqual(
+        {}
+      );
+      expect(
+        validateChatConfig({ ...DEFAULT_CHAT_CONFIG, stop: ['a', 'b', 'c', 'd', 'e'] })
+      ).toHaveProperty('stop');
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, stop: [''] })).toHaveProperty('stop');
+    });
+
+    test('logit bias needs token ids and biases between -100 and 100', () => {
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, logitBias: { '12': -100 } })).toEqual({});
+      expect(
+        validateChatConfig({ ...DEFAULT_CHAT_CONFIG, logitBias: { '12': 101 } })
+      ).toHaveProperty('logitBias');
+      expect(validateChatConfig({ ...DEFAULT_CHAT_CONFIG, logitBias: { abc: 1 } })).toHaveProperty(
+        'logitBias'
+      );
+    });
+  });
+
+  describe('getSamplingParams', () => {
+    test('leaves out options that are not set', () => {
+      expect(getSamplingParams(DEFAULT_CHAT_CONFIG)).toEqual({
+        max_tokens: DEFAULT_CHAT_CONFIG.maxTokens,
+        temperature: DEFAULT_CHAT_CONFIG.temperature,
+        top_p: 1,
+        frequency_penalty: 0,
+        presence_penalty: 0,
+      });
+    });
+
+    test('includes seed, stop sequences and logit bias when set', () => {
+      expect(
+        getSamplingParams({
+          ...DEFAULT_CHAT_CONFIG,
+          seed: 0,
+          stop: ['###'],
+          logitBias: { '12': -100 },
+        })
+      ).toEqual(expect.objectContaining({ seed: 0, stop: ['###'], logit_bias: { '12': -100 } }));
+    });
+  });
+
+  describe('toConversationSettings', () => {
+    test('keeps only the settings that differ from the global ones', () => {
+      expect(
+        toConversationSettings(
+          {
+            ...DEFAULT_CHAT_CONFIG,
+            temperature: 0.2,
+            stop: ['###'],
+            logitBias: { ...DEFAULT_CHAT_CONFIG.logitBias },
+          },
+          DEFAULT_CHAT_CONFIG
+        )
+      ).toEqual({ temperature: 0.2, stop: ['###'] });
+    });
+
+    test('is undefined when nothing differs', () => {
+      expect(toConversationSettings({ maxTokens: 512 }, DEFAULT_CHAT_CONFIG)).toBeUndefined();
+    });
+
+    test('never includes the model or the summary threshold', () => {
+      expect(
+        toConversationSettings({ modelId: 'other', summaryThreshold: 0.5 }, DEFAULT_CHAT_CONFIG)
+      ).toBeUndefined();
+    });
+  });
+
+  describe('text fields', () => {
+    test('parseStopSequences reads one sequence per line', () => {
+      expect(parseStopSequences('###\n\nEND ')).toEqual(['###', 'END ']);
+      expect(parseStopSequences('')).toEqual([]);
+    });
+
+    test('logit bias round-trips through text', () => {
+      const logitBias = { '12': -100, '7': 2.5 };
+
+      expect(parseLogitBias(formatLogitBias(logitBias))).toEqual(logitBias);
+      expect(parseLogitBias(' 12 : -100 \n\n')).toEqual({ '12': -100 });
+      expect(parseLogitBias('')).toEqual({});
+    });
+
+    test('parseLogitBias rejects lines that are not pairs', () => {
+      expect(parseLogitBias('12 -100')).toBeNull();
+      expect(parseLogitBias('token: 5')).toBeNull();
+    });
+  });
+
+  describe('loadChatConfig', () => {
+    test('returns the defaults when nothing is saved', async () => {
+      vi.mocked(storage.loadSetting).mockResolvedValue(undefined);
+
+      await expect(loadChatConfig()).resolves.toEqual(DEFAULT_CHAT_CONFIG);
+      expect(storage.loadSetting).toHaveBeenCalledWith(CHAT_CONFIG_SETTING);
+    });
+
+    test('fills in fields missing from saved settings', async () => {
+      vi.mocked(storage.loadSetting).mockResolvedValue({ temperature: 1.5 });
+
+      await expect(loadChatConfig()).resolves.toEqual({
+        ...DEFAULT_CHAT_CONFIG,
+        temperature: 1.5,
+      });
+    });
+
+    test('replaces invalid saved values with the defaults', async () => {
+      vi.mocked(storage.loadSetting).mockResolvedValue({
+        modelId: 'removed-model',
+        temperature: 9,
+        maxTokens: 256,
+      });
+
+      await expect(loadChatConfig()).resolves.toEqual({ ...DEFAULT_CHAT_CONFIG, maxTokens: 256 });
+    });
+  });
+
+  test('saveChatConfig stores the whole config', async () => {
+    const config = { ...DEFAULT_CHAT_CONFIG, systemPrompt: 'Be brief.' };
+
+    await saveChatConfig(config);
+
+    expect(storage.saveSetting).toHaveBeenCalledWith(CHAT_CONFIG_SETTING, config);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Chat settings validation and persistence
+ */
+
+import type { ChatCompletionRequestBase } from '@mlc-ai/web-llm';
+import type { ChatConfig, ConversationSettings, GenerationSettings } from '../types/chat';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import { getModelById } from './models';
+import { loadSetting, saveSetting } from './storage';
+
+/**
+ * Settings store key for the chat configuration
+ */
+export const CHAT_CONFIG_SETTING = 'chatConfig';
+
+/**
+ * Allowed ranges for numeric settings (inclusive)
+ */
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const MAX_TOKENS_RANGE = { min: 1, max: 4096 };
+export const SUMMARY_THRESHOLD_RANGE = { min: 0.1, max: 1 };
+export const PENALTY_RANGE = { min: -2, max: 2 };
+export const LOGIT_BIAS_RANGE = { min: -100, max: 100 };
+
+/**
+ * Maximum number of stop sequences
+ */
+export const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Sampling fields of a chat completion request
+ */
+export type SamplingParams = Pick<
+  ChatCompletionRequestBase,
+  | 'max_tokens'
+  | 'temperature'
+  | 'top_p'
+  | 'frequency_penalty'
+  | 'presence_penalty'
+  | 'seed'
+  | 'stop'
+  | 'logit_bias'
+>;
+
+/**
+ * Validation messages keyed by the invalid field
+ */
+export type ChatConfigErrors = Partial<Record<keyof ChatConfig, string>>;
+
+/**
+ * Check whether a number lies within an inclusive range
+ */
+function isInRange(value: number, range: { min: number; max: number }): boolean {
+  return Number.isFinite(value) && value >= range.min && value <= range.max;
+}
+
+/**
+ * Check a chat configuration for values the engine cannot use
+ * @returns Messages for the invalid fields, empty when the config is valid
+ */
+export function validateChatConfig(config: ChatConfig): ChatConfigErrors {
+  const errors: ChatConfigErrors = {};
+
+  if (!getModelById(config.modelId)) {
+    errors.modelId = 'Unknown model';
+  }
+  if (!Number.isInteger(config.maxTokens) || !isInRange(config.maxTokens, MAX_TOKENS_RANGE)) {
+    errors.maxTokens = `Max tokens must be a whole number from ${MAX_TOKENS_RANGE.min} to ${MAX_TOKENS_RANGE.max}`;
+  }
+  if (!isInRange(config.temperature, TEMPERATURE_RANGE)) {
+    errors.temperature = `Temperature must be between ${TEMPERATURE_RANGE.min} and ${TEMPERATURE_RANGE.max}`;
+  }
+  // Zero would leave no tokens to sample from
+  if (!isInRange(config.topP, { min: 0, max: 1 }) || config.topP === 0) {
+    errors.topP = 'Top P must be greater than 0 and at most 1';
+  }
+  if (!isInRange(config.frequencyPenalty, PENALTY_RANGE)) {
+    errors.frequencyPenalty = `Frequency penalty must be between ${PENALTY_RANGE.min} and ${PENALTY_RANGE.max}`;
+  }
+  if (!isInRange(config.presencePenalty, PENALTY_RANGE)) {
+    errors.presencePenalty = `Presence penalty must be between ${PENALTY_RANGE.min} and ${PENALTY_RANGE.max}`;
+  }
+  if (config.seed !== null && (!Number.isSafeInteger(config.seed) || config.seed < 0)) {
+    errors.seed = 'Seed must be a whole number of at least 0';
+  }
+  if (config.stop.length > MAX_STOP_SEQUENCES || config.stop.some((sequence) => !sequence)) {
+    errors.stop = `Use up to ${MAX_STOP_SEQUENCES} non-empty stop sequences`;
+  }
+  if (
+    Object.entries(config.logitBias).some(
+      ([tokenId, bias]) => !/^\d+$/.test(tokenId) || !isInRange(bias, LOGIT_BIAS_RANGE)
+    )
+  ) {
+    errors.logitBias = `Logit bias needs whole-number token ids and biases between ${LOGIT_BIAS_RANGE.min} and ${LOGIT_BIAS_RANGE.max}`;
+  }
+  if (!isInRange(config.summaryThreshold, SUMMARY_THRESHOLD_RANGE)) {
+    errors.summaryThreshold = `Summary threshold must be between ${SUMMARY_THRESHOLD_RANGE.min * 100}% and ${SUMMARY_THRESHOLD_RANGE.max * 100}%`;
+  }
+
+  return errors;
+}
+
+/**
+ * Load the saved chat configuration
+ * Fields that are missing or invalid (e.g. a model that was removed) fall back to the defaults.
+ */
+export async function loadChatConfig(): Promise<ChatConfig> {
+  const stored = await loadSetting<Partial<ChatConfig>>(CHAT_CONFIG_SETTING);
+  const config: ChatConfig = { ...DEFAULT_CHAT_CONFIG, ...stored };
+  const fallbacks = Object.fromEntries(
+    (Object.keys(validateChatConfig(config)) as (keyof ChatConfig)[]).map((field) => [
+      field,
+      DEFAULT_CHAT_CONFIG[field],
+    ])
+  );
+  return { ...config, ...fallbacks };
+}
+
+/**
+ * Save the chat configuration so it survives restarts
+ */
+export async function saveChatConfig(config: ChatConfig): Promise<void> {
+  await saveSetting(CHAT_CONFIG_SETTING, config);
+}
+
+/**
+ * Keep only the settings that differ from the global ones, so the rest keep following them
+ * @returns The conversation's own settings, or undefined when nothing differs
+ */
+export function toConversationSettings(
+  changes: Partial<ChatConfig>,
+  globalConfig: ChatConfig
+): ConversationSettings | undefined {
+  const settings = Object.fromEntries(
+    (Object.keys(changes) as (keyof ChatConfig)[])
+      .filter((field) => field !== 'modelId' && field !== 'summaryThreshold')
+      // Stop sequences and logit bias are plain JSON, so comparing serializations is enough
+      .filter((field) => JSON.stringify(changes[field]) !== JSON.stringify(globalConfig[field]))
+      .map((field) => [field, changes[field]])
+  ) as ConversationSettings;
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * Take the settings that shape a reply, to record them with the generated message
+ */
+export function getGenerationSettings(config: ChatConfig): GenerationSettings {
+  return {
+    systemPrompt: config.systemPrompt,
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+    topP: config.topP,
+    frequencyPenalty: config.frequencyPenalty,
+    presencePenalty: config.presencePenalty,
+    seed: config.seed,
+    stop: config.stop,
+    logitBias: config.logitBias,
+  };
+}
+
+/**
+ * Build the sampling fields of a chat completion request, leaving out unset options
+ */
+export function getSamplingParams(config: ChatConfig): SamplingParams {
+  return {
+    max_tokens: config.maxTokens,
+    temperature: config.temperature,
+    top_p: config.topP,
+    frequency_penalty: config.frequencyPenalty,
+    presence_penalty: config.presencePenalty,
+    ...(config.seed !== null && { seed: config.seed }),
+    ...(config.stop.length > 0 && { stop: config.stop }),
+    ...(Object.keys(config.logitBias).length > 0 && { logit_bias: config.logitBias }),
+  };
+}
+
+/**
+ * Parse stop sequences entered one per line, ignoring blank lines
+ */
+export function parseStopSequences(text: string): string[] {
+  return text.split('\n').filter((line) => line.trim() !== '');
+}
+
+/**
+ * Format a logit bias map as one "token id: bias" pair per line
+ */
+export function formatLogitBias(logitBias: Record<string, number>): string {
+  return Object.entries(logitBias)
+    .map(([tokenId, bias]) => `${tokenId}: ${bias}`)
+    .join('\n');
+}
+
+/**
+ * Parse "token id: bias" pairs entered one per line
+ * @returns The logit bias map, or null when a line is not a pair
+ */
+export function parseLogitBias(text: string): Record<string, number> | null {
+  const logitBias: Record<string, number> = {};
+  for (const line of text.split('\n')) {
+    if (line.trim() === '') {
+      continue;
+    }
+    const match = /^\s*(\d+)\s*:\s*(-?\d+(?:\.\d+)?)\s*$/.exec(line);
+    if (!match) {
+      return null;
+    }
+    logitBias[match[1]] = Number(match[2]);
+  }
+  return logitBias;
+}
@@ -0,0 +1,98 @@
+/**
+ * Tests for generation statistics
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { CompletionUsage } from '@mlc-ai/web-llm';
+import { buildGenerationStats, describeFinishReason, mergeGenerationStats } from './stats';
+
+const usage = (extra: Partial<CompletionUsage['extra']> = {}): CompletionUsage =>
+  ({
+    prompt_tokens: 120,
+    completion_tokens: 40,
+    total_tokens: 160,
+    extra,
+  }) as CompletionUsage;
+
+describe('stats', () => {
+  describe('buildGenerationStats', () => {
+    test('combines the usage report with measured timings', () => {
+      const stats = buildGenerationStats(
+        { requestedAt: 1000, firstTokenAt: 1250.4, finishedAt: 3250.4 },
+        usage({ decode_tokens_per_s: 25 }),
+        'stop'
+      );
+
+      expect(stats).toEqual({
+        promptTokens: 120,
+        completionTokens: 40,
+        timeToFirstTokenMs: 250,
+        tokensPerSecond: 25,
+        finishReason: 'stop',
+      });
+    });
+
+    test('measures the speed when the engine does not report it', () => {
+      const stats = buildGenerationStats(
+        { requestedAt: 0, firstTokenAt: 500, finishedAt: 2500 },
+        usage(),
+        'length'
+      );
+
+      expect(stats.tokensPerSecond).toBe(20);
+    });
+
+    test('keeps only the timings when generation was stopped before the usage report', () => {
+      const stats = buildGenerationStats(
+        { requestedAt: 0, firstTokenAt: 300, finishedAt: 900 },
+        undefined,
+        'abort'
+      );
+
+      expect(stats).toEqual({ timeToFirstTokenMs: 300, finishReason: 'abort' });
+    });
+
+    test('leaves out the time to first token when no token arrived', () => {
+      const stats = buildGenerationStats(
+        { requestedAt: 0, firstTokenAt: null, finishedAt: 900 },
+        undefined,
+        undefined
+      );
+
+      expect(stats).toEqual({});
+    });
+  });
+
+  describe('mergeGenerationStats', () => {
+    test('adds up the tokens and keeps the first wait for a continuation', () => {
+      const stats = mergeGenerationStats(
+        {
+          promptTokens: 100,
+          completionTokens: 512,
+          timeToFirstTokenMs: 400,
+          finishReason: 'length',
+        },
+        { promptTokens: 640, completionTokens: 80, timeToFirstTokenMs: 90, finishReason: 'stop' }
+      );
+
+      expect(stats).toEqual({
+        promptTokens: 640,
+        completionTokens: 592,
+        timeToFirstTokenMs: 400,
+        finishReason: 'stop',
+      });
+    });
+
+    test('uses the new stats when there were none before', () => {
+      expect(mergeGenerationStats(undefined, { finishReason: 'stop' })).toEqual({
+        finishReason: 'stop',
+      });
+    });
+  });
+
+  test('describeFinishReason explains why generation ended', () => {
+    expect(describeFinishReason('stop')).toBe('Completed');
+    expect(describeFinishReason('length')).toBe('Reached max tokens');
+    expect(describeFinishReason('abort')).toBe('Stopped');
+  });
+});
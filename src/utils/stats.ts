@@ -0,0 +1,94 @@
+/**
+ * Generation statistics
+ * Combines WebLLM's usage report with timings measured in the page
+ */
+
+import type { CompletionUsage } from '@mlc-ai/web-llm';
+import type { FinishReason, GenerationStats } from '../types/chat';
+
+/**
+ * Times recorded around a streamed completion, in milliseconds (e.g. from performance.now())
+ */
+export interface GenerationTimings {
+  /** When the request was sent */
+  requestedAt: number;
+  /** When the first token arrived, or null if none did */
+  firstTokenAt: number | null;
+  /** When the stream ended */
+  finishedAt: number;
+}
+
+/**
+ * Build the statistics of a generated message
+ * @param usage Usage report from the final stream chunk; missing when generation was stopped
+ */
+export function buildGenerationStats(
+  timings: GenerationTimings,
+  usage: CompletionUsage | undefined,
+  finishReason: FinishReason | undefined
+): GenerationStats {
+  const stats: GenerationStats = {};
+
+  if (timings.firstTokenAt !== null) {
+    stats.timeToFirstTokenMs = Math.round(timings.firstTokenAt - timings.requestedAt);
+  }
+  if (usage) {
+    stats.promptTokens = usage.prompt_tokens;
+    stats.completionTokens = usage.completion_tokens;
+    // The engine's own decode speed leaves out the time spent passing chunks to the page
+    const decodeSpeed = usage.extra?.decode_tokens_per_s;
+    const decodeSeconds =
+      timings.firstTokenAt !== null ? (timings.finishedAt - timings.firstTokenAt) / 1000 : 0;
+    if (decodeSpeed && Number.isFinite(decodeSpeed)) {
+      stats.tokensPerSecond = decodeSpeed;
+    } else if (decodeSeconds > 0) {
+      stats.tokensPerSecond = usage.completion_tokens / decodeSeconds;
+    }
+  }
+  if (finishReason) {
+    stats.finishReason = finishReason;
+  }
+
+  return stats;
+}
+
+/**
+ * Combine the statistics of a message with those of a continuation appended to it
+ */
+export function mergeGenerationStats(
+  previous: GenerationStats | undefined,
+  continuation: GenerationStats
+): GenerationStats {
+  if (!previous) {
+    return continuation;
+  }
+  const completionTokens =
+    previous.completionTokens !== undefined && continuation.completionTokens !== undefined
+      ? previous.completionTokens + continuation.completionTokens
+      : undefined;
+  return {
+    ...previous,
+    ...continuation,
+    // The wait for the first token is only felt once
+    ...(previous.timeToFirstTokenMs !== undefined && {
+      timeToFirstTokenMs: previous.timeToFirstTokenMs,
+    }),
+    ...(completionTokens !== undefined && { completionTokens }),
+  };
+}
+
+/**
+ * Describe why generation ended, for display
+ */
+export function describeFinishReason(finishReason: FinishReason): string {
+  switch (finishReason) {
+    case 'stop':
+      return 'Completed';
+    case 'length':
+      return 'Reached max tokens';
+    case 'abort':
+      return 'Stopped';
+    case 'tool_calls':
+      return 'Tool call';
+  }
+}
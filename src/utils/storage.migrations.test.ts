@@ -0,0 +1,262 @@
+/**
+ * Tests for IndexedDB schema migrations
+ * Runs against an in-memory IndexedDB so real upgrade transactions are exercised
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  MIGRATIONS,
+  DB_VERSION,
+  loadConversations,
+  loadMessages,
+  putMessage,
+  loadSetting,
+  saveSetting,
+  saveDocument,
+  loadDocuments,
+  loadDocumentChunks,
+  deleteDocument,
+  saveMemories,
+  loadMemories,
+  deleteMemory,
+  clearMemories,
+  savePersona,
+  loadPersonas,
+  deletePersona,
+} from './storage';
+import type { DocumentChunk, LibraryDocument } from '../types/documents';
+import type { Memory } from '../types/memory';
+import type { Persona } from '../types/persona';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import { getGenerationSettings } from './settings';
+
+interface LegacyMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string;
+}
+
+/**
+ * Create a database exactly as the v1 schema did and seed it with messages
+ */
+function seedV1Database(messages: LegacyMessage[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('TerziAI', 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore('messages', { keyPath: 'id' });
+      messages.forEach((message) => store.add(message));
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open the database without upgrading and report its version and stores
+ */
+function inspectDatabase(): Promise<{ version: number; stores: string[] }> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('TerziAI');
+    request.onsuccess = () => {
+      const db = request.result;
+      const info = { version: db.version, stores: Array.from(db.objectStoreNames) };
+      db.close();
+      resolve(info);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('storage migrations', () => {
+  beforeEach(() => {
+    // Fresh in-memory database for every test
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('migrations are registered in strictly increasing order starting at 1', () => {
+    expect(MIGRATIONS[0].version).toBe(1);
+    MIGRATIONS.forEach((migration, i) => {
+      if (i > 0) {
+        expect(migration.version).toBe(MIGRATIONS[i - 1].version + 1);
+      }
+    });
+    expect(DB_VERSION).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+  });
+
+  test('a fresh install runs every migration', async () => {
+    await loadConversations();
+
+    const { version, stores } = await inspectDatabase();
+    expect(version).toBe(DB_VERSION);
+    expect(stores).toContain('messages');
+    expect(stores).toContain('conversations');
+    expect(stores).toContain('settings');
+    expect(stores).toContain('documents');
+    expect(stores).toContain('chunks');
+    expect(stores).toContain('searchPostings');
+    expect(stores).toContain('searchStats');
+    expect(stores).toContain('messageEmbeddings');
+    expect(stores).toContain('memories');
+    expect(stores).toContain('personas');
+  });
+
+  test('a fresh install starts without conversations', async () => {
+    await expect(loadConversations()).resolves.toEqual([]);
+  });
+
+  test('upgrading a v1 database keeps every message in an imported conversation', async () => {
+    await seedV1Database([
+      { id: 'm1', role: 'user', content: 'Hello', timestamp: '2024-01-01T10:00:00.000Z' },
+      { id: 'm2', role: 'assistant', content: 'Hi there!', timestamp: '2024-01-01T10:00:05.000Z' },
+      { id: 'm3', role: 'user', content: 'Thanks', timestamp: '2024-01-02T09:00:00.000Z' },
+    ]);
+
+    const conversations = await loadConversations();
+
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].title).toBe('Imported chat');
+    expect(conversations[0].createdAt).toEqual(new Date('2024-01-01T10:00:00.000Z'));
+    expect(conversations[0].updatedAt).toEqual(new Date('2024-01-02T09:00:00.000Z'));
+
+    const messages = await loadMessages(conversations[0].id);
+    expect(messages).toEqual([
+      { id: 'm1', role: 'user', content: 'Hello', timestamp: new Date('2024-01-01T10:00:00.000Z') },
+      {
+        id: 'm2',
+        role: 'assistant',
+        content: 'Hi there!',
+        timestamp: new Date('2024-01-01T10:00:05.000Z'),
+      },
+      {
+        id: 'm3',
+        role: 'user',
+        content: 'Thanks',
+        timestamp: new Date('2024-01-02T09:00:00.000Z'),
+      },
+    ]);
+
+    const { version } = await inspectDatabase();
+    expect(version).toBe(DB_VERSION);
+  });
+
+  test('upgrading an empty v1 database does not create an imported conversation', async () => {
+    await seedV1Database([]);
+
+    await expect(loadConversations()).resolves.toEqual([]);
+  });
+
+  test('an upgraded database accepts new messages', async () => {
+    await seedV1Database([
+      { id: 'm1', role: 'user', content: 'Hello', timestamp: '2024-01-01T10:00:00.000Z' },
+    ]);
+    const [imported] = await loadConversations();
+
+    await putMessage(imported.id, {
+      id: 'm2',
+      role: 'assistant',
+      content: 'Welcome back',
+      timestamp: new Date('2024-03-01T10:00:00.000Z'),
+    });
+
+    const messages = await loadMessages(imported.id);
+    expect(messages.map((m) => m.id)).toEqual(['m1', 'm2']);
+  });
+
+  test('settings round-trip and default to undefined', async () => {
+    await expect(loadSetting('keepModelLoaded')).resolves.toBeUndefined();
+
+    await saveSetting('keepModelLoaded', true);
+
+    await expect(loadSetting<boolean>('keepModelLoaded')).resolves.toBe(true);
+  });
+
+  test('documents and their chunks are saved, loaded and deleted together', async () => {
+    const createDocument = (id: string, importedAt: string): LibraryDocument => ({
+      id,
+      name: `${id}.md`,
+      type: 'text/markdown',
+      size: 10,
+      importedAt: new Date(importedAt),
+      chunkCount: 1,
+    });
+    const createChunk = (documentId: string): DocumentChunk => ({
+      id: `${documentId}-chunk`,
+      documentId,
+      index: 0,
+      text: 'Passage',
+      embedding: [0.1, 0.2],
+      embeddingModelId: 'embed',
+    });
+
+    await saveDocument(createDocument('older', '2024-01-01'), [createChunk('older')]);
+    await saveDocument(createDocument('newer', '2024-02-01'), [createChunk('newer')]);
+
+    const documents = await loadDocuments();
+    expect(documents.map((d) => d.id)).toEqual(['newer', 'older']);
+    expect(documents[0].importedAt).toEqual(new Date('2024-02-01'));
+    expect(await loadDocumentChunks()).toHaveLength(2);
+
+    await deleteDocument('older');
+
+    expect((await loadDocuments()).map((d) => d.id)).toEqual(['newer']);
+    expect(await loadDocumentChunks()).toEqual([createChunk('newer')]);
+  });
+
+  test('saves, updates and forgets memories', async () => {
+    const createMemory = (id: string, updatedAt: string): Memory => ({
+      id,
+      content: `Fact ${id}`,
+      status: 'approved',
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date(updatedAt),
+    });
+
+    await saveMemories([createMemory('older', '2024-01-01'), createMemory('newer', '2024-02-01')]);
+    await saveMemories([{ ...createMemory('older', '2024-01-01'), content: 'Edited' }]);
+
+    const memories = await loadMemories();
+    expect(memories.map((m) => m.id)).toEqual(['newer', 'older']);
+    expect(memories[0].updatedAt).toEqual(new Date('2024-02-01'));
+    expect(memories[1].content).toBe('Edited');
+
+    await deleteMemory('newer');
+    expect((await loadMemories()).map((m) => m.id)).toEqual(['older']);
+
+    await clearMemories();
+    expect(await loadMemories()).toEqual([]);
+  });
+
+  test('saves, updates and deletes personas', async () => {
+    const createPersona = (id: string, createdAt: string): Persona => ({
+      id,
+      name: `Persona ${id}`,
+      avatar: '🦉',
+      modelId: null,
+      settings: getGenerationSettings(DEFAULT_CHAT_CONFIG),
+      createdAt: new Date(createdAt),
+      updatedAt: new Date(createdAt),
+    });
+
+    await savePersona(createPersona('newer', '2024-02-01'));
+    await savePersona(createPersona('older', '2024-01-01'));
+    await savePersona({ ...createPersona('older', '2024-01-01'), name: 'Tutor' });
+
+    const personas = await loadPersonas();
+    expect(personas.map((p) => p.id)).toEqual(['older', 'newer']);
+    expect(personas[0].name).toBe('Tutor');
+    expect(personas[0].createdAt).toEqual(new Date('2024-01-01'));
+
+    await deletePersona('older');
+    expect((await loadPersonas()).map((p) => p.id)).toEqual(['newer']);
+  });
+});
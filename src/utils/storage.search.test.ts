@@ -0,0 +1,297 @@
+/**
+ * Tests for the full-text search index and message embeddings
+ * Runs against an in-memory IndexedDB so the indexes are kept up to date by real transactions
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  clearMessages,
+  deleteConversation,
+  deleteMessage,
+  getSemanticIndexStats,
+  loadConversations,
+  loadEmbeddingBacklog,
+  loadMessageEmbedding,
+  loadMessagesById,
+  putMessage,
+  saveMessageEmbeddings,
+  searchMessages,
+  searchSimilarMessages,
+} from './storage';
+import type { ChatMessage } from '../types/chat';
+
+function createMessage(
+  id: string,
+  content: string,
+  overrides: Partial<ChatMessage> = {}
+): ChatMessage {
+  return {
+    id,
+    role: 'user',
+    content,
+    timestamp: new Date('2024-03-01T10:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+/**
+ * Ids of the messages a search finds, most relevant first
+ */
+async function searchIds(...args: Parameters<typeof searchMessages>): Promise<string[]> {
+  return (await searchMessages(...args)).map((result) => result.message.id);
+}
+
+describe('message search', () => {
+  beforeEach(() => {
+    // Fresh in-memory database for every test
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('finds saved messages by their words', async () => {
+    await putMessage('c1', createMessage('m1', 'How do I bake sourdough bread?'));
+    await putMessage(
+      'c1',
+      createMessage('m2', 'Start with an active starter.', { role: 'assistant' })
+    );
+    await putMessage('c2', createMessage('m3', 'Plan a trip to Lisbon'));
+
+    const results = await searchMessages('Sourdough');
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      conversationId: 'c1',
+      message: createMessage('m1', 'How do I bake sourdough bread?'),
+    });
+    await expect(searchIds('starters')).resolves.toEqual(['m2']);
+    await expect(searchIds('the')).resolves.toEqual([]);
+  });
+
+  test('ranks messages with more and rarer matches first', async () => {
+    await putMessage('c1', createMessage('m1', 'Bread recipe'));
+    await putMessage('c1', createMessage('m2', 'Sourdough bread recipe'));
+    await putMessage('c1', createMessage('m3', 'A recipe for soup'));
+
+    await expect(searchIds('sourdough bread recipe')).resolves.toEqual(['m2', 'm1', 'm3']);
+  });
+
+  test('keeps the index in step with edits and deletions', async () => {
+    await putMessage('c1', createMessage('m1', 'Draft about cats'));
+    await putMessage('c1', createMessage('m1', 'Final text about dogs'));
+
+    await expect(searchIds('cats')).resolves.toEqual([]);
+    await expect(searchIds('dogs')).resolves.toEqual(['m1']);
+
+    await deleteMessage('m1');
+    await expect(searchIds('dogs')).resolves.toEqual([]);
+  });
+
+  test('forgets deleted conversations and cleared history', async () => {
+    await putMessage('c1', createMessage('m1', 'Lisbon trip'));
+    await putMessage('c2', createMessage('m2', 'Porto trip'));
+
+    await deleteConversation('c1');
+    await expect(searchIds('trip')).resolves.toEqual(['m2']);
+
+    await clearMessages();
+    await expect(searchIds('trip')).resolves.toEqual([]);
+  });
+
+  test('leaves summaries out', async () => {
+    await putMessage(
+      'c1',
+      createMessage('m1', 'The user asked about Lisbon', { role: 'system', kind: 'summary' })
+    );
+
+    await expect(searchIds('Lisbon')).resolves.toEqual([]);
+  });
+
+  test('filters by role, model and date', async () => {
+    await putMessage('c1', createMessage('m1', 'Weather in March'));
+    await putMessage(
+      'c1',
+      createMessage('m2', 'March weather is mild', {
+        role: 'assistant',
+        modelId: 'model-a',
+        timestamp: new Date('2024-03-02T10:00:00.000Z'),
+      })
+    );
+    await putMessage(
+      'c1',
+      createMessage('m3', 'Weather next week', {
+        role: 'assistant',
+        modelId: 'model-b',
+        timestamp: new Date('2024-04-01T10:00:00.000Z'),
+      })
+    );
+
+    await expect(searchIds('weather', { role: 'user' })).resolves.toEqual(['m1']);
+    await expect(searchIds('weather', { modelId: 'model-b' })).resolves.toEqual(['m3']);
+    const march = await searchIds('weather', {
+      from: new Date('2024-03-02T00:00:00.000Z'),
+      to: new Date('2024-04-01T00:00:00.000Z'),
+    });
+    expect(march).toEqual(['m2']);
+  });
+
+  test('returns at most the requested number of results', async () => {
+    for (let i = 0; i < 5; i++) {
+      await putMessage('c1', createMessage(`m${i}`, `Note number ${i}`));
+    }
+
+    await expect(searchIds('note', {}, 3)).resolves.toHaveLength(3);
+  });
+
+  test('upgrading a v1 database indexes the messages it kept', async () => {
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open('TerziAI', 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore('messages', { keyPath: 'id' }).add({
+          id: 'm1',
+          role: 'user',
+          content: 'Old recipe',
+          timestamp: '2024-01-01T10:00:00.000Z',
+        });
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    const results = await searchMessages('recipe');
+    const [imported] = await loadConversations();
+
+    expect(results.map((r) => r.message.id)).toEqual(['m1']);
+    expect(results[0].conversationId).toBe(imported.id);
+  });
+});
+
+describe('message embeddings', () => {
+  const MODEL = 'embed';
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Save messages and embed them with the given vectors
+   */
+  async function saveEmbedded(entries: Array<[ChatMessage, number[]]>, conversationId = 'c1') {
+    for (const [message] of entries) {
+      await putMessage(conversationId, message);
+    }
+    await saveMessageEmbeddings(
+      entries.map(([message, embedding]) => ({ message: { conversationId, message }, embedding })),
+      MODEL
+    );
+  }
+
+  test('lists the messages still to embed, leaving out summaries', async () => {
+    await putMessage('c1', createMessage('m1', 'Hello'));
+    await putMessage('c1', createMessage('m2', 'Hi!', { role: 'assistant' }));
+    await putMessage('c1', createMessage('s1', 'Summary', { role: 'system', kind: 'summary' }));
+
+    expect((await loadEmbeddingBacklog(MODEL)).sort()).toEqual(['m1', 'm2']);
+
+    await saveMessageEmbeddings(
+      [
+        {
+          message: { conversationId: 'c1', message: createMessage('m1', 'Hello') },
+          embedding: [1, 0],
+        },
+      ],
+      MODEL
+    );
+
+    await expect(loadEmbeddingBacklog(MODEL)).resolves.toEqual(['m2']);
+    await expect(loadEmbeddingBacklog('other-model')).resolves.toHaveLength(2);
+  });
+
+  test('loads messages by id with their conversation', async () => {
+    await putMessage('c2', createMessage('m1', 'Hello'));
+
+    await expect(loadMessagesById(['m1', 'missing'])).resolves.toEqual([
+      { conversationId: 'c2', message: createMessage('m1', 'Hello') },
+    ]);
+  });
+
+  test('an edited message is embedded again, but new details alone keep the embedding', async () => {
+    await saveEmbedded([[createMessage('m1', 'Hello'), [1, 0]]]);
+
+    await putMessage('c1', createMessage('m1', 'Hello', { modelId: 'model-a' }));
+    const embedding = await loadMessageEmbedding('m1', MODEL);
+    expect(Array.from(embedding ?? [])).toEqual([1, 0]);
+
+    await putMessage('c1', createMessage('m1', 'Hello again'));
+    await expect(loadMessageEmbedding('m1', MODEL)).resolves.toBeUndefined();
+    await expect(loadEmbeddingBacklog(MODEL)).resolves.toEqual(['m1']);
+  });
+
+  test('does not save embeddings of text that changed while it was embedded', async () => {
+    await putMessage('c1', createMessage('m1', 'New text'));
+
+    await saveMessageEmbeddings(
+      [
+        {
+          message: { conversationId: 'c1', message: createMessage('m1', 'Old text') },
+          embedding: [1],
+        },
+      ],
+      MODEL
+    );
+
+    await expect(loadMessageEmbedding('m1', MODEL)).resolves.toBeUndefined();
+  });
+
+  test('finds the messages closest in meaning', async () => {
+    await saveEmbedded([
+      [createMessage('m1', 'Cats'), [1, 0]],
+      [createMessage('m2', 'Kittens', { role: 'assistant' }), [0.9, 0.1]],
+      [createMessage('m3', 'Taxes'), [0, 1]],
+    ]);
+
+    const results = await searchSimilarMessages([1, 0], MODEL);
+    expect(results.map((r) => r.message.id)).toEqual(['m1', 'm2', 'm3']);
+    expect(results[0]).toMatchObject({ conversationId: 'c1', score: 1 });
+
+    const similar = await searchSimilarMessages([1, 0], MODEL, { role: 'assistant' }, 5, 'm1');
+    expect(similar.map((r) => r.message.id)).toEqual(['m2']);
+    await expect(searchSimilarMessages([1, 0], MODEL, {}, 1)).resolves.toHaveLength(1);
+    await expect(searchSimilarMessages([1, 0], 'other-model')).resolves.toEqual([]);
+  });
+
+  test('reports how much of the history is embedded and its size', async () => {
+    await putMessage('c1', createMessage('m1', 'Hello'));
+    await saveEmbedded([[createMessage('m2', 'Hi'), [0.1, 0.2, 0.3]]]);
+
+    await expect(getSemanticIndexStats(MODEL)).resolves.toEqual({
+      messageCount: 2,
+      embeddedCount: 1,
+      sizeBytes: 12,
+    });
+  });
+
+  test('forgets the embeddings of deleted messages', async () => {
+    await saveEmbedded([[createMessage('m1', 'Hello'), [1, 0]]], 'c1');
+    await saveEmbedded([[createMessage('m2', 'Hello'), [1, 0]]], 'c2');
+    await saveEmbedded([[createMessage('m3', 'Hello'), [1, 0]]], 'c3');
+
+    await deleteMessage('m1');
+    await deleteConversation('c2');
+    await expect(getSemanticIndexStats(MODEL)).resolves.toMatchObject({ embeddedCount: 1 });
+
+    await clearMessages();
+    await expect(getSemanticIndexStats(MODEL)).resolves.toMatchObject({ embeddedCount: 0 });
+  });
+});
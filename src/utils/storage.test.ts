@@ -3,7 +3,21 @@
  */
 
 import { describe, test, expect, beforeEach, vi } from 'vitest';
-import { saveMessages, loadMessages, clearMessages } from './storage';
+import {
+  putMessage,
+  deleteMessage,
+  loadMessages,
+  clearMessages,
+  loadConversations,
+  saveConversation,
+  deleteConversation,
+  loadSetting,
+  saveSetting,
+  saveDocument,
+  loadDocuments,
+  loadDocumentChunks,
+  deleteDocument,
+} from './storage';
 import type { ChatMessage } from '../types/chat';
 
 describe('storage utilities', () => {
@@ -12,22 +26,25 @@ describe('storage utilities', () => {
   });
 
   describe('when IndexedDB is not available', () => {
-    test('saveMessages handles missing IndexedDB gracefully', async () => {
-      const messages: ChatMessage[] = [
-        {
-          id: '1',
-          role: 'user',
-          content: 'Hello',
-          timestamp: new Date('2024-01-01'),
-        },
-      ];
+    test('putMessage handles missing IndexedDB gracefully', async () => {
+      const message: ChatMessage = {
+        id: '1',
+        role: 'user',
+        content: 'Hello',
+        timestamp: new Date('2024-01-01'),
+      };
+
+      // Should not throw
+      await expect(putMessage('conv-1', message)).resolves.toBeUndefined();
+    });
 
+    test('deleteMessage handles missing IndexedDB gracefully', async () => {
       // Should not throw
-      await expect(saveMessages(messages)).resolves.toBeUndefined();
+      await expect(deleteMessage('1')).resolves.toBeUndefined();
     });
 
     test('loadMessages returns empty array when IndexedDB is not available', async () => {
-      const messages = await loadMessages();
+      const messages = await loadMessages('conv-1');
       expect(messages).toEqual([]);
     });
 
@@ -36,34 +53,67 @@ describe('storage utilities', () => {
       await expect(clearMessages()).resolves.toBeUndefined();
     });
 
-    test('saveMessages handles empty array gracefully', async () => {
-      // Should not throw when saving empty array (used to clear storage)
-      await expect(saveMessages([])).resolves.toBeUndefined();
+    test('multiple put operations complete without errors', async () => {
+      const first: ChatMessage = {
+        id: '1',
+        role: 'user',
+        content: 'First',
+        timestamp: new Date('2024-01-01'),
+      };
+
+      // Should not throw for rapid successive writes
+      await expect(putMessage('conv-1', first)).resolves.toBeUndefined();
+      await expect(
+        putMessage('conv-1', { ...first, content: 'First, edited' })
+      ).resolves.toBeUndefined();
+      await expect(deleteMessage('1')).resolves.toBeUndefined();
     });
 
-    test('multiple save operations complete without errors', async () => {
-      const messages1: ChatMessage[] = [
-        {
-          id: '1',
-          role: 'user',
-          content: 'First',
-          timestamp: new Date('2024-01-01'),
-        },
-      ];
+    test('loadConversations returns empty array when IndexedDB is not available', async () => {
+      await expect(loadConversations()).resolves.toEqual([]);
+    });
 
-      const messages2: ChatMessage[] = [
-        {
-          id: '2',
-          role: 'assistant',
-          content: 'Second',
-          timestamp: new Date('2024-01-02'),
-        },
-      ];
+    test('saveConversation handles missing IndexedDB gracefully', async () => {
+      await expect(
+        saveConversation({
+          id: 'conv-1',
+          title: 'Test chat',
+          createdAt: new Date('2024-01-01'),
+          updatedAt: new Date('2024-01-01'),
+          modelId: 'test-model',
+        })
+      ).resolves.toBeUndefined();
+    });
+
+    test('deleteConversation handles missing IndexedDB gracefully', async () => {
+      await expect(deleteConversation('conv-1')).resolves.toBeUndefined();
+    });
+
+    test('loadSetting returns undefined when IndexedDB is not available', async () => {
+      await expect(loadSetting('keepModelLoaded')).resolves.toBeUndefined();
+    });
+
+    test('saveSetting handles missing IndexedDB gracefully', async () => {
+      await expect(saveSetting('keepModelLoaded', true)).resolves.toBeUndefined();
+    });
+
+    test('the document library is empty when IndexedDB is not available', async () => {
+      await expect(loadDocuments()).resolves.toEqual([]);
+      await expect(loadDocumentChunks()).resolves.toEqual([]);
+      await expect(deleteDocument('doc-1')).resolves.toBeUndefined();
+    });
+
+    test('saveDocument reports that documents cannot be kept', async () => {
+      const document = {
+        id: 'doc-1',
+        name: 'notes.txt',
+        type: 'text/plain',
+        size: 5,
+        importedAt: new Date('2024-01-01'),
+        chunkCount: 0,
+      };
 
-      // Should not throw for rapid successive saves
-      await expect(saveMessages(messages1)).resolves.toBeUndefined();
-      await expect(saveMessages(messages2)).resolves.toBeUndefined();
-      await expect(saveMessages([])).resolves.toBeUndefined();
+      await expect(saveDocument(document, [])).rejects.toThrow('IndexedDB not available');
     });
   });
 
@@ -3,11 +3,47 @@
  * Stores chat history locally in the browser
  */
 
-import type { ChatMessage } from '../types/chat';
+import type {
+  ChatMessage,
+  Citation,
+  Conversation,
+  ConversationSettings,
+  GenerationSettings,
+  GenerationStats,
+  MessageKind,
+} from '../types/chat';
+import { DEFAULT_CHAT_CONFIG } from '../types/chat';
+import type { DocumentChunk, LibraryDocument } from '../types/documents';
+import type { Memory } from '../types/memory';
+import type { Persona } from '../types/persona';
+import type {
+  ConversationMessage,
+  SearchFilters,
+  SearchResult,
+  SemanticIndexStats,
+} from '../types/search';
+import { cosineSimilarity } from './documents';
+import { bm25Score, countTerms, SEARCH_RESULT_LIMIT, tokenize } from './search';
+import type { IndexTotals } from './search';
 
 const DB_NAME = 'TerziAI';
-const DB_VERSION = 1;
 const MESSAGES_STORE = 'messages';
+const CONVERSATIONS_STORE = 'conversations';
+const SETTINGS_STORE = 'settings';
+const DOCUMENTS_STORE = 'documents';
+const CHUNKS_STORE = 'chunks';
+const POSTINGS_STORE = 'searchPostings';
+const SEARCH_STATS_STORE = 'searchStats';
+const EMBEDDINGS_STORE = 'messageEmbeddings';
+const MEMORIES_STORE = 'memories';
+const PERSONAS_STORE = 'personas';
+const CONVERSATION_INDEX = 'conversationId';
+const DOCUMENT_INDEX = 'documentId';
+const MESSAGE_INDEX = 'messageId';
+const ROLE_INDEX = 'role';
+const EMBEDDING_MODEL_INDEX = 'embeddingModelId';
+const SEARCH_TOTALS_KEY = 'totals';
+const IMPORTED_CONVERSATION_TITLE = 'Imported chat';
 const DB_TIMEOUT_MS = 10000; // 10 second timeout for database operations
 
 // Track ongoing operations to prevent concurrent access issues
@@ -77,20 +113,424 @@ function openDatabase(): Promise<IDBDatabase> {
     };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
+      const db = request.result;
+      const transaction = request.transaction!;
+      runMigrations(db, transaction, event.oldVersion);
+    };
+  });
+}
 
-      // Create messages store if it doesn't exist
-      if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
-        db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
-      }
+/**
+ * A single schema change, applied when upgrading a database past `version`
+ */
+export interface Migration {
+  /** Schema version this migration produces */
+  version: number;
+  /** What the migration changes */
+  description: string;
+  /** Apply the change inside the version change transaction */
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * Ordered registry of schema migrations.
+ * Every store or index change must be added here as a new version - never edit a
+ * released migration, since existing users have already run it.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'Create the messages store',
+    upgrade: (db) => {
+      db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Group messages into conversations',
+    upgrade: (db, transaction) => {
+      db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+      transaction
+        .objectStore(MESSAGES_STORE)
+        .createIndex(CONVERSATION_INDEX, CONVERSATION_INDEX, { unique: false });
+      importLegacyMessages(transaction);
+    },
+  },
+  {
+    version: 3,
+    description: 'Create the settings store',
+    upgrade: (db) => {
+      db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+    },
+  },
+  {
+    version: 4,
+    description: 'Create the document library stores',
+    upgrade: (db) => {
+      db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+      db.createObjectStore(CHUNKS_STORE, { keyPath: 'id' }).createIndex(
+        DOCUMENT_INDEX,
+        DOCUMENT_INDEX,
+        { unique: false }
+      );
+    },
+  },
+  {
+    version: 5,
+    description: 'Create the full-text search index',
+    upgrade: (db, transaction) => {
+      db.createObjectStore(POSTINGS_STORE, { keyPath: ['term', 'messageId'] }).createIndex(
+        MESSAGE_INDEX,
+        MESSAGE_INDEX,
+        { unique: false }
+      );
+      db.createObjectStore(SEARCH_STATS_STORE, { keyPath: 'key' });
+      indexExistingMessages(transaction);
+    },
+  },
+  {
+    version: 6,
+    description: 'Create the message embeddings store',
+    upgrade: (db, transaction) => {
+      db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'messageId' }).createIndex(
+        EMBEDDING_MODEL_INDEX,
+        EMBEDDING_MODEL_INDEX,
+        { unique: false }
+      );
+      transaction.objectStore(MESSAGES_STORE).createIndex(ROLE_INDEX, ROLE_INDEX, {
+        unique: false,
+      });
+    },
+  },
+  {
+    version: 7,
+    description: 'Create the memories store',
+    upgrade: (db) => {
+      db.createObjectStore(MEMORIES_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 8,
+    description: 'Create the personas store',
+    upgrade: (db) => {
+      db.createObjectStore(PERSONAS_STORE, { keyPath: 'id' });
+    },
+  },
+];
+
+/**
+ * Current schema version - the version of the last registered migration
+ */
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Apply every migration newer than the database's current version, in order
+ */
+function runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+  MIGRATIONS.filter((migration) => migration.version > oldVersion).forEach((migration) => {
+    migration.upgrade(db, transaction);
+  });
+}
+
+/**
+ * Move messages saved by the single-thread v1 schema into an "Imported chat" conversation.
+ * Runs inside the version change transaction so the upgrade is all-or-nothing.
+ */
+function importLegacyMessages(transaction: IDBTransaction): void {
+  const messagesStore = transaction.objectStore(MESSAGES_STORE);
+  const request = messagesStore.getAll();
+
+  request.onsuccess = () => {
+    const legacyMessages = request.result as StoredMessage[];
+    if (legacyMessages.length === 0) {
+      return;
+    }
+
+    const timestamps = legacyMessages.map((msg) => new Date(msg.timestamp).getTime());
+    const conversation: StoredConversation = {
+      id: crypto.randomUUID(),
+      title: IMPORTED_CONVERSATION_TITLE,
+      createdAt: new Date(timestamps.reduce((a, b) => Math.min(a, b))).toISOString(),
+      updatedAt: new Date(timestamps.reduce((a, b) => Math.max(a, b))).toISOString(),
+      modelId: DEFAULT_CHAT_CONFIG.modelId,
+    };
+
+    transaction.objectStore(CONVERSATIONS_STORE).add(conversation);
+    legacyMessages.forEach((msg) => {
+      messagesStore.put({ ...msg, conversationId: conversation.id });
+    });
+  };
+}
+
+/**
+ * Add every stored message to the search index.
+ * Runs inside the version change transaction, after earlier migrations have written their messages.
+ */
+function indexExistingMessages(transaction: IDBTransaction): void {
+  const messagesStore = transaction.objectStore(MESSAGES_STORE);
+  // Requests run in order, so reading from a later request sees the writes that earlier
+  // migrations queued when their own reads completed
+  messagesStore.count().onsuccess = () => {
+    const request = messagesStore.getAll();
+    request.onsuccess = () => {
+      const postingsStore = transaction.objectStore(POSTINGS_STORE);
+      const totals: StoredSearchTotals = {
+        key: SEARCH_TOTALS_KEY,
+        documentCount: 0,
+        totalLength: 0,
+      };
+      (request.result as StoredMessage[]).forEach((message) => {
+        const length = addToSearchIndex(postingsStore, message);
+        if (length > 0) {
+          totals.documentCount++;
+          totals.totalLength += length;
+        }
+      });
+      transaction.objectStore(SEARCH_STATS_STORE).put(totals);
+    };
+  };
+}
+
+/**
+ * Shape of a message record in IndexedDB
+ */
+interface StoredMessage {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string;
+  kind?: MessageKind;
+  parentId?: string | null;
+  modelId?: string;
+  settings?: GenerationSettings;
+  stats?: GenerationStats;
+  citations?: Citation[];
+}
+
+/**
+ * Shape of a conversation record in IndexedDB
+ */
+interface StoredConversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  modelId: string;
+  settings?: ConversationSettings;
+  personaId?: string;
+}
+
+/**
+ * Shape of a document record in IndexedDB; its chunks are stored separately
+ */
+interface StoredDocument extends Omit<LibraryDocument, 'importedAt'> {
+  importedAt: string;
+}
+
+/**
+ * Shape of a memory as persisted in IndexedDB (dates as ISO strings)
+ */
+interface StoredMemory extends Omit<Memory, 'createdAt' | 'updatedAt'> {
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Shape of a persona as persisted in IndexedDB (dates as ISO strings)
+ */
+interface StoredPersona extends Omit<Persona, 'createdAt' | 'updatedAt'> {
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Shape of a search index entry: one term of one message, with what ranking and filtering
+ * need so a search never has to read the messages it skips
+ */
+interface StoredPosting {
+  term: string;
+  messageId: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  timestamp: string;
+  modelId?: string;
+  /** Times the term appears in the message */
+  termFrequency: number;
+  /** Terms in the message */
+  length: number;
+}
+
+/**
+ * Shape of a message embedding record in IndexedDB, with what filtering needs
+ */
+interface StoredMessageEmbedding {
+  messageId: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  timestamp: string;
+  modelId?: string;
+  /** Single precision halves the space of a large history at no cost to ranking */
+  embedding: Float32Array;
+  embeddingModelId: string;
+}
+
+/**
+ * Shape of the search index totals record in IndexedDB
+ */
+interface StoredSearchTotals extends IndexTotals {
+  key: typeof SEARCH_TOTALS_KEY;
+}
+
+/**
+ * Shape of a settings record in IndexedDB
+ */
+interface StoredSetting {
+  key: string;
+  value: unknown;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Add a message's terms to the search index; summaries are left out
+ * @returns The number of terms indexed, 0 when the message was not indexed
+ */
+function addToSearchIndex(store: IDBObjectStore, message: StoredMessage): number {
+  const { role } = message;
+  if (role === 'system') {
+    return 0;
+  }
+  const { counts, length } = countTerms(message.content);
+  counts.forEach((termFrequency, term) => {
+    const posting: StoredPosting = {
+      term,
+      messageId: message.id,
+      conversationId: message.conversationId,
+      role,
+      timestamp: message.timestamp,
+      ...(message.modelId && { modelId: message.modelId }),
+      termFrequency,
+      length,
     };
+    store.put(posting);
   });
+  return length;
+}
+
+/**
+ * Remove a message's terms from the search index
+ * @returns The number of terms removed, 0 when the message was not indexed
+ */
+async function removeFromSearchIndex(store: IDBObjectStore, messageId: string): Promise<number> {
+  const postings = await requestToPromise<StoredPosting[]>(
+    store.index(MESSAGE_INDEX).getAll(IDBKeyRange.only(messageId))
+  );
+  await Promise.all(postings.map((p) => requestToPromise(store.delete([p.term, p.messageId]))));
+  return postings[0]?.length ?? 0;
+}
+
+/**
+ * Read the search index totals
+ */
+async function loadSearchTotals(transaction: IDBTransaction): Promise<StoredSearchTotals> {
+  const stored = await requestToPromise<StoredSearchTotals | undefined>(
+    transaction.objectStore(SEARCH_STATS_STORE).get(SEARCH_TOTALS_KEY)
+  );
+  return stored ?? { key: SEARCH_TOTALS_KEY, documentCount: 0, totalLength: 0 };
 }
 
 /**
- * Save chat messages to IndexedDB with atomic transaction
+ * Replace the indexed terms of messages, keeping the totals in step
+ * @param removedIds Messages whose old terms are removed
+ * @param added Messages whose current terms are added
  */
-export async function saveMessages(messages: ChatMessage[]): Promise<void> {
+async function updateSearchIndex(
+  transaction: IDBTransaction,
+  removedIds: string[],
+  added: StoredMessage[]
+): Promise<void> {
+  const postingsStore = transaction.objectStore(POSTINGS_STORE);
+  const totals = await loadSearchTotals(transaction);
+  for (const messageId of removedIds) {
+    const length = await removeFromSearchIndex(postingsStore, messageId);
+    if (length > 0) {
+      totals.documentCount--;
+      totals.totalLength -= length;
+    }
+  }
+  for (const message of added) {
+    const length = addToSearchIndex(postingsStore, message);
+    if (length > 0) {
+      totals.documentCount++;
+      totals.totalLength += length;
+    }
+  }
+  await requestToPromise(transaction.objectStore(SEARCH_STATS_STORE).put(totals));
+}
+
+/**
+ * Delete every message that belongs to a conversation, and its search index entries
+ */
+async function deleteConversationMessages(transaction: IDBTransaction, conversationId: string) {
+  const store = transaction.objectStore(MESSAGES_STORE);
+  const keys = await requestToPromise(
+    store.index(CONVERSATION_INDEX).getAllKeys(IDBKeyRange.only(conversationId))
+  );
+  const embeddingsStore = transaction.objectStore(EMBEDDINGS_STORE);
+  await Promise.all([
+    ...keys.map((key) => requestToPromise(store.delete(key))),
+    ...keys.map((key) => requestToPromise(embeddingsStore.delete(key))),
+  ]);
+  await updateSearchIndex(transaction, keys as string[], []);
+}
+
+/**
+ * Convert a stored message back into a message and its conversation
+ */
+function fromStoredMessage({ conversationId, ...msg }: StoredMessage): ConversationMessage {
+  return { conversationId, message: { ...msg, timestamp: new Date(msg.timestamp) } };
+}
+
+function toStoredConversation(conversation: Conversation): StoredConversation {
+  return {
+    ...conversation,
+    createdAt: conversation.createdAt.toISOString(),
+    updatedAt: conversation.updatedAt.toISOString(),
+  };
+}
+
+function fromStoredConversation(stored: StoredConversation): Conversation {
+  return {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+}
+
+/**
+ * Insert or update a single message of a conversation in IndexedDB
+ */
+export async function putMessage(conversationId: string, message: ChatMessage): Promise<void> {
   if (!isIndexedDBAvailable()) {
     return; // Silently skip in environments without IndexedDB
   }
@@ -99,56 +539,48 @@ export async function saveMessages(messages: ChatMessage[]): Promise<void> {
     let db: IDBDatabase | null = null;
     try {
       db = await openDatabase();
-      const transaction = db.transaction([MESSAGES_STORE], 'readwrite');
+      const transaction = db.transaction(
+        [MESSAGES_STORE, POSTINGS_STORE, SEARCH_STATS_STORE, EMBEDDINGS_STORE],
+        'readwrite'
+      );
       const store = transaction.objectStore(MESSAGES_STORE);
+      const storableMessage: StoredMessage = {
+        ...message,
+        conversationId,
+        timestamp: message.timestamp.toISOString(),
+      };
+      const previous = await requestToPromise<StoredMessage | undefined>(store.get(message.id));
 
-      // Clear existing messages first
       await new Promise<void>((resolve, reject) => {
-        const clearRequest = store.clear();
-        clearRequest.onsuccess = () => resolve();
-        clearRequest.onerror = () => reject(clearRequest.error);
-      });
-
-      // Add all messages in a single atomic transaction
-      const addPromises = messages.map((message) => {
-        const storableMessage = {
-          ...message,
-          timestamp: message.timestamp.toISOString(),
-        };
-        return new Promise<void>((resolve, reject) => {
-          try {
-            const addRequest = store.add(storableMessage);
-            addRequest.onsuccess = () => resolve();
-            addRequest.onerror = () => {
-              // Handle quota exceeded error
-              if (addRequest.error?.name === 'QuotaExceededError') {
-                reject(new Error('Storage quota exceeded. Please clear old messages.'));
-              } else {
-                reject(addRequest.error);
-              }
-            };
-          } catch (err) {
-            // Catch synchronous errors like QuotaExceededError
-            if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+        try {
+          const putRequest = store.put(storableMessage);
+          putRequest.onsuccess = () => resolve();
+          putRequest.onerror = () => {
+            // Handle quota exceeded error
+            if (putRequest.error?.name === 'QuotaExceededError') {
               reject(new Error('Storage quota exceeded. Please clear old messages.'));
             } else {
-              reject(err);
+              reject(putRequest.error);
             }
+          };
+        } catch (err) {
+          // Catch synchronous errors like QuotaExceededError
+          if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+            reject(new Error('Storage quota exceeded. Please clear old messages.'));
+          } else {
+            reject(err);
           }
-        });
+        }
       });
 
-      // Wait for all adds to complete
-      await Promise.all(addPromises);
-
-      // Wait for transaction to complete
-      await new Promise<void>((resolve, reject) => {
-        transaction.oncomplete = () => resolve();
-        transaction.onerror = () => reject(transaction.error);
-        transaction.onabort = () => reject(new Error('Transaction aborted'));
-      });
+      await updateSearchIndex(transaction, [message.id], [storableMessage]);
+      // The embedding of the old text no longer says what the message means
+      if (previous && previous.content !== message.content) {
+        await requestToPromise(transaction.objectStore(EMBEDDINGS_STORE).delete(message.id));
+      }
+      await transactionComplete(transaction);
     } catch (error) {
-      console.error('Failed to save messages:', error);
+      console.error('Failed to save message:', error);
       // Re-throw quota errors so they can be handled by the UI
       if (error instanceof Error && error.message.includes('quota')) {
         throw error;
@@ -163,9 +595,42 @@ export async function saveMessages(messages: ChatMessage[]): Promise<void> {
 }
 
 /**
- * Load chat messages from IndexedDB
+ * Delete a single message from IndexedDB
+ */
+export async function deleteMessage(messageId: string): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction(
+        [MESSAGES_STORE, POSTINGS_STORE, SEARCH_STATS_STORE, EMBEDDINGS_STORE],
+        'readwrite'
+      );
+      await Promise.all([
+        requestToPromise(transaction.objectStore(MESSAGES_STORE).delete(messageId)),
+        requestToPromise(transaction.objectStore(EMBEDDINGS_STORE).delete(messageId)),
+      ]);
+      await updateSearchIndex(transaction, [messageId], []);
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to delete message:', error);
+      // Don't throw - fail gracefully
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Load a conversation's chat messages from IndexedDB
  */
-export async function loadMessages(): Promise<ChatMessage[]> {
+export async function loadMessages(conversationId: string): Promise<ChatMessage[]> {
   if (!isIndexedDBAvailable()) {
     return []; // Return empty array in environments without IndexedDB
   }
@@ -176,19 +641,15 @@ export async function loadMessages(): Promise<ChatMessage[]> {
       db = await openDatabase();
       const transaction = db.transaction([MESSAGES_STORE], 'readonly');
       const store = transaction.objectStore(MESSAGES_STORE);
-      const request = store.getAll();
+      const request = store.index(CONVERSATION_INDEX).getAll(IDBKeyRange.only(conversationId));
 
       const messages = await new Promise<ChatMessage[]>((resolve, reject) => {
         request.onsuccess = () => {
           // Convert ISO strings back to Date objects and sort by timestamp
           const messages = request.result
             .map(
-              (msg: {
-                id: string;
-                role: 'user' | 'assistant' | 'system';
-                content: string;
-                timestamp: string;
-              }) => ({
+              // eslint-disable-next-line @typescript-eslint/no-unused-vars
+              ({ conversationId: _conversationId, ...msg }: StoredMessage): ChatMessage => ({
                 ...msg,
                 timestamp: new Date(msg.timestamp),
               })
@@ -212,7 +673,7 @@ export async function loadMessages(): Promise<ChatMessage[]> {
 }
 
 /**
- * Clear all chat messages from IndexedDB
+ * Clear all conversations and chat messages from IndexedDB
  */
 export async function clearMessages(): Promise<void> {
   if (!isIndexedDBAvailable()) {
@@ -223,14 +684,18 @@ export async function clearMessages(): Promise<void> {
     let db: IDBDatabase | null = null;
     try {
       db = await openDatabase();
-      const transaction = db.transaction([MESSAGES_STORE], 'readwrite');
-      const store = transaction.objectStore(MESSAGES_STORE);
+      const transaction = db.transaction(
+        [MESSAGES_STORE, CONVERSATIONS_STORE, POSTINGS_STORE, SEARCH_STATS_STORE, EMBEDDINGS_STORE],
+        'readwrite'
+      );
 
-      await new Promise<void>((resolve, reject) => {
-        const clearRequest = store.clear();
-        clearRequest.onsuccess = () => resolve();
-        clearRequest.onerror = () => reject(clearRequest.error);
-      });
+      await Promise.all([
+        requestToPromise(transaction.objectStore(MESSAGES_STORE).clear()),
+        requestToPromise(transaction.objectStore(CONVERSATIONS_STORE).clear()),
+        requestToPromise(transaction.objectStore(POSTINGS_STORE).clear()),
+        requestToPromise(transaction.objectStore(SEARCH_STATS_STORE).clear()),
+        requestToPromise(transaction.objectStore(EMBEDDINGS_STORE).clear()),
+      ]);
 
       // Wait for transaction to complete
       await new Promise<void>((resolve, reject) => {
@@ -248,3 +713,843 @@ export async function clearMessages(): Promise<void> {
     }
   });
 }
+
+/**
+ * Load all conversations from IndexedDB, most recently updated first
+ */
+export async function loadConversations(): Promise<Conversation[]> {
+  if (!isIndexedDBAvailable()) {
+    return []; // Return empty array in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([CONVERSATIONS_STORE], 'readonly');
+      const stored = await requestToPromise<StoredConversation[]>(
+        transaction.objectStore(CONVERSATIONS_STORE).getAll()
+      );
+
+      return stored
+        .map(fromStoredConversation)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+      return [];
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Create or update a conversation in IndexedDB
+ */
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([CONVERSATIONS_STORE], 'readwrite');
+      transaction.objectStore(CONVERSATIONS_STORE).put(toStoredConversation(conversation));
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to save conversation:', error);
+      // Don't throw - fail gracefully
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Delete a conversation and all of its messages from IndexedDB
+ */
+export async function deleteConversation(conversationId: string): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction(
+        [MESSAGES_STORE, CONVERSATIONS_STORE, POSTINGS_STORE, SEARCH_STATS_STORE, EMBEDDINGS_STORE],
+        'readwrite'
+      );
+
+      await Promise.all([
+        deleteConversationMessages(transaction, conversationId),
+        requestToPromise(transaction.objectStore(CONVERSATIONS_STORE).delete(conversationId)),
+      ]);
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      // Don't throw - fail gracefully
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Check whether a search index entry passes the filters
+ */
+function matchesFilters(
+  entry: Pick<StoredPosting, 'role' | 'modelId' | 'timestamp'>,
+  { role, modelId, from, to }: SearchFilters
+) {
+  return (
+    (!role || entry.role === role) &&
+    (!modelId || entry.modelId === modelId) &&
+    (!from || entry.timestamp >= from.toISOString()) &&
+    (!to || entry.timestamp < to.toISOString())
+  );
+}
+
+/**
+ * Search every stored conversation for messages containing the words of a query
+ * Only the index entries of the query's terms are read, so a search stays fast however
+ * long the history grows.
+ * @returns Up to `limit` matching messages, most relevant first
+ */
+export async function searchMessages(
+  query: string,
+  filters: SearchFilters = {},
+  limit: number = SEARCH_RESULT_LIMIT
+): Promise<SearchResult[]> {
+  const terms = [...new Set(tokenize(query))];
+  if (!isIndexedDBAvailable() || terms.length === 0) {
+    return [];
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction(
+        [MESSAGES_STORE, POSTINGS_STORE, SEARCH_STATS_STORE],
+        'readonly'
+      );
+      const postingsStore = transaction.objectStore(POSTINGS_STORE);
+      const totals = await loadSearchTotals(transaction);
+
+      const scores = new Map<string, { conversationId: string; score: number }>();
+      for (const term of terms) {
+        const postings = await requestToPromise<StoredPosting[]>(
+          postingsStore.getAll(IDBKeyRange.bound([term, ''], [term, '\uffff']))
+        );
+        for (const posting of postings) {
+          if (!matchesFilters(posting, filters)) {
+            continue;
+          }
+          const score = bm25Score(posting.termFrequency, posting.length, postings.length, totals);
+          const match = scores.get(posting.messageId);
+          if (match) {
+            match.score += score;
+          } else {
+            scores.set(posting.messageId, { conversationId: posting.conversationId, score });
+          }
+        }
+      }
+
+      const best = [...scores.entries()].sort((a, b) => b[1].score - a[1].score).slice(0, limit);
+      const messagesStore = transaction.objectStore(MESSAGES_STORE);
+      const stored = await Promise.all(
+        best.map(([messageId]) =>
+          requestToPromise<StoredMessage | undefined>(messagesStore.get(messageId))
+        )
+      );
+
+      return best.flatMap(([, { score }], i): SearchResult[] =>
+        stored[i] ? [{ ...fromStoredMessage(stored[i]), score }] : []
+      );
+    } catch (error) {
+      console.error('Failed to search messages:', error);
+      return [];
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Find the messages that still need an embedding from a model
+ * @returns Ids of every message but summaries without one
+ */
+export async function loadEmbeddingBacklog(embeddingModelId: string): Promise<string[]> {
+  if (!isIndexedDBAvailable()) {
+    return [];
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([MESSAGES_STORE, EMBEDDINGS_STORE], 'readonly');
+      const roleIndex = transaction.objectStore(MESSAGES_STORE).index(ROLE_INDEX);
+      const [userIds, assistantIds, embeddedIds] = await Promise.all([
+        requestToPromise(roleIndex.getAllKeys(IDBKeyRange.only('user'))),
+        requestToPromise(roleIndex.getAllKeys(IDBKeyRange.only('assistant'))),
+        requestToPromise(
+          transaction
+            .objectStore(EMBEDDINGS_STORE)
+            .index(EMBEDDING_MODEL_INDEX)
+            .getAllKeys(IDBKeyRange.only(embeddingModelId))
+        ),
+      ]);
+      const embedded = new Set(embeddedIds);
+      return [...userIds, ...assistantIds].filter((id) => !embedded.has(id)) as string[];
+    } catch (error) {
+      console.error('Failed to load embedding backlog:', error);
+      return [];
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Load stored messages by id, from any conversation
+ * @returns The messages that still exist, in the order asked for
+ */
+export async function loadMessagesById(messageIds: string[]): Promise<ConversationMessage[]> {
+  if (!isIndexedDBAvailable()) {
+    return [];
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const store = db.transaction([MESSAGES_STORE], 'readonly').objectStore(MESSAGES_STORE);
+      const stored = await Promise.all(
+        messageIds.map((id) => requestToPromise<StoredMessage | undefined>(store.get(id)))
+      );
+      return stored.flatMap((message) => (message ? [fromStoredMessage(message)] : []));
+    } catch (error) {
+      console.error('Failed to load messages:', error);
+      return [];
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Save the embeddings of messages
+ * Messages deleted or edited since they were embedded are skipped, as their embedding is stale.
+ */
+export async function saveMessageEmbeddings(
+  embedded: Array<{ message: ConversationMessage; embedding: number[] }>,
+  embeddingModelId: string
+): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([MESSAGES_STORE, EMBEDDINGS_STORE], 'readwrite');
+      const messagesStore = transaction.objectStore(MESSAGES_STORE);
+      const embeddingsStore = transaction.objectStore(EMBEDDINGS_STORE);
+
+      await Promise.all(
+        embedded.map(async ({ message: { conversationId, message }, embedding }) => {
+          const current = await requestToPromise<StoredMessage | undefined>(
+            messagesStore.get(message.id)
+          );
+          if (!current || current.content !== message.content || current.role === 'system') {
+            return;
+          }
+          const record: StoredMessageEmbedding = {
+            messageId: message.id,
+            conversationId,
+            role: current.role,
+            timestamp: current.timestamp,
+            ...(current.modelId && { modelId: current.modelId }),
+            embedding: Float32Array.from(embedding),
+            embeddingModelId,
+          };
+          await requestToPromise(embeddingsStore.put(record));
+        })
+      );
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to save message embeddings:', error);
+      // Don't throw - the messages are embedded again on the next pass
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Load the embedding of a message, if it has one from the given model
+ */
+export async function loadMessageEmbedding(
+  messageId: string,
+  embeddingModelId: string
+): Promise<Float32Array | undefined> {
+  if (!isIndexedDBAvailable()) {
+    return undefined;
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([EMBEDDINGS_STORE], 'readonly');
+      const stored = await requestToPromise<StoredMessageEmbedding | undefined>(
+        transaction.objectStore(EMBEDDINGS_STORE).get(messageId)
+      );
+      return stored?.embeddingModelId === embeddingModelId ? stored.embedding : undefined;
+    } catch (error) {
+      console.error('Failed to load message embedding:', error);
+      return undefined;
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Embeddings compared per read, so a large history is never all in memory at once
+ */
+const EMBEDDING_PAGE_SIZE = 1000;
+
+/**
+ * Find the stored messages closest in meaning to an embedding
+ * @param excludeMessageId Message left out of the results, e.g. the one similar messages are
+ *   found for
+ * @returns Up to `limit` messages, most similar first
+ */
+export async function searchSimilarMessages(
+  embedding: ArrayLike<number>,
+  embeddingModelId: string,
+  filters: SearchFilters = {},
+  limit: number = SEARCH_RESULT_LIMIT,
+  excludeMessageId?: string
+): Promise<SearchResult[]> {
+  if (!isIndexedDBAvailable()) {
+    return [];
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([MESSAGES_STORE, EMBEDDINGS_STORE], 'readonly');
+      const embeddingsStore = transaction.objectStore(EMBEDDINGS_STORE);
+
+      let best: Array<{ messageId: string; score: number }> = [];
+      let after: string | null = null;
+      for (;;) {
+        const page: StoredMessageEmbedding[] = await requestToPromise(
+          embeddingsStore.getAll(
+            after === null ? null : IDBKeyRange.lowerBound(after, true),
+            EMBEDDING_PAGE_SIZE
+          )
+        );
+        for (const entry of page) {
+          if (
+            entry.embeddingModelId === embeddingModelId &&
+            entry.messageId !== excludeMessageId &&
+            matchesFilters(entry, filters)
+          ) {
+            best.push({
+              messageId: entry.messageId,
+              score: cosineSimilarity(embedding, entry.embedding),
+            });
+          }
+        }
+        // Keep only what could still make the cut
+        if (best.length > limit * 4) {
+          best = best.sort((a, b) => b.score - a.score).slice(0, limit);
+        }
+        if (page.length < EMBEDDING_PAGE_SIZE) {
+          break;
+        }
+        after = page[page.length - 1].messageId;
+      }
+
+      best = best.sort((a, b) => b.score - a.score).slice(0, limit);
+      const messagesStore = transaction.objectStore(MESSAGES_STORE);
+      const stored = await Promise.all(
+        best.map(({ messageId }) =>
+          requestToPromise<StoredMessage | undefined>(messagesStore.get(messageId))
+        )
+      );
+      return best.flatMap(({ score }, i): SearchResult[] =>
+        stored[i] ? [{ ...fromStoredMessage(stored[i]), score }] : []
+      );
+    } catch (error) {
+      console.error('Failed to search messages by meaning:', error);
+      return [];
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Count the messages embedded with a model against all messages that can be
+ */
+export async function getSemanticIndexStats(embeddingModelId: string): Promise<SemanticIndexStats> {
+  const empty: SemanticIndexStats = { messageCount: 0, embeddedCount: 0, sizeBytes: 0 };
+  if (!isIndexedDBAvailable()) {
+    return empty;
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([MESSAGES_STORE, EMBEDDINGS_STORE], 'readonly');
+      const roleIndex = transaction.objectStore(MESSAGES_STORE).index(ROLE_INDEX);
+      const modelIndex = transaction.objectStore(EMBEDDINGS_STORE).index(EMBEDDING_MODEL_INDEX);
+      const [userCount, assistantCount, embeddedCount, [sample]] = await Promise.all([
+        requestToPromise(roleIndex.count(IDBKeyRange.only('user'))),
+        requestToPromise(roleIndex.count(IDBKeyRange.only('assistant'))),
+        requestToPromise(modelIndex.count(IDBKeyRange.only(embeddingModelId))),
+        requestToPromise<StoredMessageEmbedding[]>(
+          modelIndex.getAll(IDBKeyRange.only(embeddingModelId), 1)
+        ),
+      ]);
+      return {
+        messageCount: userCount + assistantCount,
+        embeddedCount,
+        sizeBytes: embeddedCount * (sample?.embedding.byteLength ?? 0),
+      };
+    } catch (error) {
+      console.error('Failed to load semantic index stats:', error);
+      return empty;
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Load a single user setting from IndexedDB
+ * @returns The stored value, or undefined if it was never saved
+ */
+export async function loadSetting<T>(key: string): Promise<T | undefined> {
+  if (!isIndexedDBAvailable()) {
+    return undefined;
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([SETTINGS_STORE], 'readonly');
+      const stored = (await requestToPromise(transaction.objectStore(SETTINGS_STORE).get(key))) as
+        | StoredSetting
+        | undefined;
+      return stored?.value as T | undefined;
+    } catch (error) {
+      console.error('Failed to load setting:', error);
+      return undefined;
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Save a single user setting to IndexedDB
+ */
+export async function saveSetting<T>(key: string, value: T): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([SETTINGS_STORE], 'readwrite');
+      const setting: StoredSetting = { key, value };
+      await requestToPromise(transaction.objectStore(SETTINGS_STORE).put(setting));
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to save setting:', error);
+      // Don't throw - fail gracefully
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Save an imported document and its chunks in one transaction
+ * @throws When the document cannot be saved, so the import can report it
+ */
+export async function saveDocument(
+  document: LibraryDocument,
+  chunks: DocumentChunk[]
+): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    throw new Error('IndexedDB not available');
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([DOCUMENTS_STORE, CHUNKS_STORE], 'readwrite');
+      const stored: StoredDocument = { ...document, importedAt: document.importedAt.toISOString() };
+      transaction.objectStore(DOCUMENTS_STORE).put(stored);
+      const chunksStore = transaction.objectStore(CHUNKS_STORE);
+      chunks.forEach((chunk) => chunksStore.put(chunk));
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to save document:', error);
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new Error('Storage quota exceeded. Please remove some documents.');
+      }
+      throw error;
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Load every document in the library, most recently imported first
+ */
+export async function loadDocuments(): Promise<LibraryDocument[]> {
+  if (!isIndexedDBAvailable()) {
+    return [];
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([DOCUMENTS_STORE], 'readonly');
+      const stored = await requestToPromise<StoredDocument[]>(
+        transaction.objectStore(DOCUMENTS_STORE).getAll()
+      );
+      return stored
+        .map((document) => ({ ...document, importedAt: new Date(document.importedAt) }))
+        .sort((a, b) => b.importedAt.getTime() - a.importedAt.getTime());
+    } catch (error) {
+      console.error('Failed to load documents:', error);
+      return [];
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Load the chunks of every document in the library
+ */
+export async function loadDocumentChunks(): Promise<DocumentChunk[]> {
+  if (!isIndexedDBAvailable()) {
+    return [];
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([CHUNKS_STORE], 'readonly');
+      return await requestToPromise<DocumentChunk[]>(
+        transaction.objectStore(CHUNKS_STORE).getAll()
+      );
+    } catch (error) {
+      console.error('Failed to load document chunks:', error);
+      return [];
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Delete a document and all of its chunks from IndexedDB
+ */
+export async function deleteDocument(documentId: string): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([DOCUMENTS_STORE, CHUNKS_STORE], 'readwrite');
+      const chunksStore = transaction.objectStore(CHUNKS_STORE);
+      const chunkKeys = await requestToPromise(
+        chunksStore.index(DOCUMENT_INDEX).getAllKeys(IDBKeyRange.only(documentId))
+      );
+      await Promise.all([
+        ...chunkKeys.map((key) => requestToPromise(chunksStore.delete(key))),
+        requestToPromise(transaction.objectStore(DOCUMENTS_STORE).delete(documentId)),
+      ]);
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to delete document:', error);
+      // Don't throw - fail gracefully
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Load every remembered fact, most recently updated first
+ */
+export async function loadMemories(): Promise<Memory[]> {
+  if (!isIndexedDBAvailable()) {
+    return [];
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([MEMORIES_STORE], 'readonly');
+      const stored = await requestToPromise<StoredMemory[]>(
+        transaction.objectStore(MEMORIES_STORE).getAll()
+      );
+      return stored
+        .map((memory) => ({
+          ...memory,
+          createdAt: new Date(memory.createdAt),
+          updatedAt: new Date(memory.updatedAt),
+        }))
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    } catch (error) {
+      console.error('Failed to load memories:', error);
+      return [];
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Create or update remembered facts in one transaction
+ * @throws When the facts cannot be saved, so the user is not told they are kept
+ */
+export async function saveMemories(memories: Memory[]): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([MEMORIES_STORE], 'readwrite');
+      const store = transaction.objectStore(MEMORIES_STORE);
+      memories.forEach((memory) => {
+        const stored: StoredMemory = {
+          ...memory,
+          createdAt: memory.createdAt.toISOString(),
+          updatedAt: memory.updatedAt.toISOString(),
+        };
+        store.put(stored);
+      });
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to save memories:', error);
+      throw error;
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Forget a remembered fact
+ * @throws When the memory cannot be deleted, so it is not hidden while still stored
+ */
+export async function deleteMemory(memoryId: string): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([MEMORIES_STORE], 'readwrite');
+      transaction.objectStore(MEMORIES_STORE).delete(memoryId);
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to delete memory:', error);
+      throw error;
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Forget every remembered fact
+ * @throws When the memories cannot be deleted, so the user is not told they are gone
+ */
+export async function clearMemories(): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([MEMORIES_STORE], 'readwrite');
+      transaction.objectStore(MEMORIES_STORE).clear();
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to clear memories:', error);
+      throw error;
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Load every persona, oldest first so the list keeps its order as personas are edited
+ */
+export async function loadPersonas(): Promise<Persona[]> {
+  if (!isIndexedDBAvailable()) {
+    return [];
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([PERSONAS_STORE], 'readonly');
+      const stored = await requestToPromise<StoredPersona[]>(
+        transaction.objectStore(PERSONAS_STORE).getAll()
+      );
+      return stored
+        .map((persona) => ({
+          ...persona,
+          createdAt: new Date(persona.createdAt),
+          updatedAt: new Date(persona.updatedAt),
+        }))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      console.error('Failed to load personas:', error);
+      return [];
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Create or update a persona
+ */
+export async function savePersona(persona: Persona): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([PERSONAS_STORE], 'readwrite');
+      const stored: StoredPersona = {
+        ...persona,
+        createdAt: persona.createdAt.toISOString(),
+        updatedAt: persona.updatedAt.toISOString(),
+      };
+      transaction.objectStore(PERSONAS_STORE).put(stored);
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to save persona:', error);
+      // Don't throw - fail gracefully
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
+
+/**
+ * Delete a persona; conversations started with it keep their settings
+ */
+export async function deletePersona(personaId: string): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    return; // Silently skip in environments without IndexedDB
+  }
+
+  return withDatabaseOperation(async () => {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+      const transaction = db.transaction([PERSONAS_STORE], 'readwrite');
+      transaction.objectStore(PERSONAS_STORE).delete(personaId);
+      await transactionComplete(transaction);
+    } catch (error) {
+      console.error('Failed to delete persona:', error);
+      // Don't throw - fail gracefully
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  });
+}
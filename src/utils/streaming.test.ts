@@ -0,0 +1,84 @@
+/**
+ * Tests for the streaming text buffer
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { createStreamBuffer } from './streaming';
+import type { FrameScheduler } from './streaming';
+
+/**
+ * A scheduler whose frames run only when the test says so
+ */
+const manualFrames = () => {
+  let callbacks: (() => void)[] = [];
+  const schedule: FrameScheduler = vi.fn((callback: () => void) => {
+    callbacks.push(callback);
+    return () => {
+      callbacks = callbacks.filter((c) => c !== callback);
+    };
+  });
+  const runFrame = () => {
+    const due = callbacks;
+    callbacks = [];
+    due.forEach((callback) => callback());
+  };
+  return { schedule, runFrame };
+};
+
+describe('streaming', () => {
+  test('writes only the latest text once per frame', () => {
+    const write = vi.fn();
+    const { schedule, runFrame } = manualFrames();
+    const buffer = createStreamBuffer(write, schedule);
+
+    buffer.push('Hel');
+    buffer.push('Hello');
+    buffer.push('Hello there');
+    expect(write).not.toHaveBeenCalled();
+
+    runFrame();
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith('Hello there');
+    expect(schedule).toHaveBeenCalledTimes(1);
+
+    buffer.push('Hello there!');
+    runFrame();
+    expect(write).toHaveBeenLastCalledWith('Hello there!');
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+
+  test('flush writes pending text immediately and cancels the frame', () => {
+    const write = vi.fn();
+    const { schedule, runFrame } = manualFrames();
+    const buffer = createStreamBuffer(write, schedule);
+
+    buffer.push('Done');
+    buffer.flush();
+    expect(write).toHaveBeenCalledWith('Done');
+
+    runFrame();
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  test('flush writes nothing when no text is pending', () => {
+    const write = vi.fn();
+    const buffer = createStreamBuffer(write, manualFrames().schedule);
+
+    buffer.flush();
+    buffer.push('Once');
+    buffer.flush();
+    buffer.flush();
+
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  test('falls back to the browser frame scheduler by default', async () => {
+    const write = vi.fn();
+    const buffer = createStreamBuffer(write);
+
+    buffer.push('Later');
+    expect(write).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(write).toHaveBeenCalledWith('Later'));
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Streaming text buffer
+ * Models can emit tokens far faster than the screen refreshes, so streamed text is
+ * collected and handed to React at most once per animation frame
+ */
+
+/**
+ * Schedules a callback before the next repaint
+ */
+export type FrameScheduler = (callback: () => void) => () => void;
+
+/**
+ * Run a callback before the next repaint, falling back to a timer where frames are unavailable
+ * @returns A function that cancels the callback
+ */
+export const scheduleFrame: FrameScheduler = (callback) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const frame = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(frame);
+  }
+  const timer = setTimeout(callback, 16);
+  return () => clearTimeout(timer);
+};
+
+/**
+ * Collects the latest text of a streaming message between frames
+ */
+export interface StreamBuffer {
+  /** Record the full text so far; it is written on the next frame */
+  push(content: string): void;
+  /** Write any pending text immediately, e.g. when the stream ends */
+  flush(): void;
+}
+
+/**
+ * Create a buffer that writes the latest pushed text at most once per frame
+ * @param write Receives the full text so far
+ */
+export function createStreamBuffer(
+  write: (content: string) => void,
+  schedule: FrameScheduler = scheduleFrame
+): StreamBuffer {
+  let pending: string | null = null;
+  let cancelFrame: (() => void) | null = null;
+
+  const flush = () => {
+    cancelFrame?.();
+    cancelFrame = null;
+    if (pending !== null) {
+      const content = pending;
+      pending = null;
+      write(content);
+    }
+  };
+
+  return {
+    push(content) {
+      pending = content;
+      cancelFrame ??= schedule(flush);
+    },
+    flush,
+  };
+}
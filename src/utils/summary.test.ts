@@ -0,0 +1,126 @@
+/**
+ * Tests for rolling summarization
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import type { MLCEngineInterface } from '@mlc-ai/web-llm';
+import type { ChatMessage } from '../types/chat';
+import { MESSAGE_OVERHEAD_TOKENS } from './context';
+import {
+  createSummaryMessage,
+  selectTurnsToSummarize,
+  splitAtLatestSummary,
+  summarizeTurns,
+  SUMMARY_MAX_TOKENS,
+  SUMMARY_PROMPT,
+  withSummary,
+} from './summary';
+
+const message = (id: string, overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  role: 'user',
+  content: id,
+  timestamp: new Date(1000),
+  ...overrides,
+});
+
+/**
+ * Engine whose non-streaming completion returns `content`
+ */
+const engineReturning = (content: string | null) => {
+  const create = vi.fn().mockResolvedValue({ choices: [{ message: { content } }] });
+  return { engine: { chat: { completions: { create } } } as unknown as MLCEngineInterface, create };
+};
+
+describe('summary', () => {
+  describe('splitAtLatestSummary', () => {
+    test('returns every message when there is no summary', () => {
+      const messages = [message('a'), message('b')];
+
+      expect(splitAtLatestSummary(messages)).toEqual({ summary: null, recent: messages });
+    });
+
+    test('splits at the latest summary', () => {
+      const first = message('s1', { role: 'system', kind: 'summary' });
+      const latest = message('s2', { role: 'system', kind: 'summary' });
+      const messages = [message('a'), first, message('b'), latest, message('c')];
+
+      const { summary, recent } = splitAtLatestSummary(messages);
+
+      expect(summary).toBe(latest);
+      expect(recent.map((m) => m.id)).toEqual(['c']);
+    });
+  });
+
+  describe('selectTurnsToSummarize', () => {
+    test('summarizes nothing while under the limit', () => {
+      expect(selectTurnsToSummarize([100, 100], 100, 1000)).toBe(0);
+    });
+
+    test('keeps the newest turns within half of the remaining budget', () => {
+      const turnTokens = Array(8).fill(100 - MESSAGE_OVERHEAD_TOKENS);
+
+      // (900 - 200) / 2 leaves room for three turns of 100 tokens each
+      expect(selectTurnsToSummarize(turnTokens, 200, 900)).toBe(5);
+    });
+
+    test('does not summarize a single turn', () => {
+      expect(selectTurnsToSummarize([500, 10], 100, 550)).toBe(0);
+    });
+  });
+
+  test('withSummary appends the summary to the system prompt', () => {
+    expect(withSummary('Be brief.', null)).toBe('Be brief.');
+    expect(withSummary('Be brief.', 'They met in Lisbon.')).toBe(
+      'Be brief.\n\nSummary of the earlier conversation:\nThey met in Lisbon.'
+    );
+  });
+
+  test('createSummaryMessage sorts right after the last summarized turn', () => {
+    const summary = createSummaryMessage('Earlier turns', message('a'));
+
+    expect(summary).toEqual(
+      expect.objectContaining({ role: 'system', content: 'Earlier turns', kind: 'summary' })
+    );
+    expect(summary.timestamp.getTime()).toBe(1001);
+  });
+
+  describe('summarizeTurns', () => {
+    const turns = [
+      { role: 'user' as const, content: 'Where should I go?' },
+      { role: 'assistant' as const, content: 'Try Lisbon.' },
+    ];
+
+    test('asks the model for a summary of the transcript', async () => {
+      const { engine, create } = engineReturning('  They chose Lisbon.  ');
+
+      const summary = await summarizeTurns(engine, null, turns, [5, 3], 40, 4096);
+
+      expect(summary).toBe('They chose Lisbon.');
+      const request = create.mock.calls[0][0];
+      expect(request).toEqual(
+        expect.objectContaining({ max_tokens: SUMMARY_MAX_TOKENS, stream: false })
+      );
+      expect(request.messages).toEqual([
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: 'User: Where should I go?\n\nAssistant: Try Lisbon.' },
+      ]);
+    });
+
+    test('builds on the previous summary', async () => {
+      const { engine, create } = engineReturning('Updated');
+
+      await summarizeTurns(engine, 'They like the sea.', turns, [5, 3], 40, 4096);
+
+      expect(create.mock.calls[0][0].messages[0].content).toBe(
+        `${SUMMARY_PROMPT}\n\nSummary so far:\nThey like the sea.`
+      );
+    });
+
+    test('returns null when the model writes nothing', async () => {
+      const { engine } = engineReturning('   ');
+
+      await expect(summarizeTurns(engine, null, turns, [5, 3], 40, 4096)).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Rolling summarization of old conversation turns
+ * Once a request would fill too much of the context window, the oldest turns are folded
+ * into a model-written summary message that is sent in their place from then on
+ */
+
+import type { MLCEngineInterface } from '@mlc-ai/web-llm';
+import type { ChatMessage } from '../types/chat';
+import { fitHistoryToContext, MESSAGE_OVERHEAD_TOKENS } from './context';
+
+/**
+ * Maximum length of a generated summary
+ */
+export const SUMMARY_MAX_TOKENS = 256;
+
+/**
+ * Instructions for writing a summary
+ */
+export const SUMMARY_PROMPT =
+  'Summarize the conversation below in a few short paragraphs. Keep names, facts, ' +
+  'decisions and open questions. Write only the summary.';
+
+/**
+ * Minimum number of turns worth folding into a summary
+ */
+const MIN_TURNS_TO_SUMMARIZE = 2;
+
+/**
+ * A turn as sent to the model
+ */
+export interface Turn {
+  role: ChatMessage['role'];
+  content: string;
+}
+
+/**
+ * Check whether a message is a conversation summary
+ */
+export function isSummary(message: ChatMessage): boolean {
+  return message.kind === 'summary';
+}
+
+/**
+ * Split messages at the latest summary, which stands in for everything before it
+ * @returns The latest summary (if any) and the turns after it
+ */
+export function splitAtLatestSummary(messages: ChatMessage[]): {
+  summary: ChatMessage | null;
+  recent: ChatMessage[];
+} {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (isSummary(messages[i])) {
+      return { summary: messages[i], recent: messages.slice(i + 1) };
+    }
+  }
+  return { summary: null, recent: messages };
+}
+
+/**
+ * Decide how many of the oldest turns to fold into a summary
+ * @param turnTokens Token count of each earlier turn, oldest first (excluding the new prompt)
+ * @param fixedTokens Tokens every request needs regardless of history: system prompt,
+ *   current summary, new prompt and the reply
+ * @param limit Tokens a request may use before summarizing
+ * @returns Number of oldest turns to summarize, or 0 when no summary is needed
+ */
+export function selectTurnsToSummarize(
+  turnTokens: number[],
+  fixedTokens: number,
+  limit: number
+): number {
+  const costs = turnTokens.map((tokens) => tokens + MESSAGE_OVERHEAD_TOKENS);
+  const total = costs.reduce((sum, cost) => sum + cost, fixedTokens);
+  if (total <= limit) {
+    return 0;
+  }
+
+  // Keep the newest turns within half of what is left, so summaries don't run every turn
+  const keepBudget = Math.max(limit - fixedTokens, 0) / 2;
+  let kept = 0;
+  let keptTokens = 0;
+  for (let i = costs.length - 1; i >= 0 && keptTokens + costs[i] <= keepBudget; i--) {
+    keptTokens += costs[i];
+    kept++;
+  }
+
+  const count = costs.length - kept;
+  return count >= MIN_TURNS_TO_SUMMARIZE ? count : 0;
+}
+
+/**
+ * Build the system prompt with the conversation summary appended
+ */
+export function withSummary(systemPrompt: string, summary: string | null): string {
+  return summary
+    ? `${systemPrompt}\n\nSummary of the earlier conversation:\n${summary}`
+    : systemPrompt;
+}
+
+/**
+ * Create the summary message that replaces every turn up to and including `lastSummarized`
+ */
+export function createSummaryMessage(content: string, lastSummarized: ChatMessage): ChatMessage {
+  return {
+    id: crypto.randomUUID(),
+    role: 'system',
+    content,
+    // Sorts right after the last summarized turn when loaded from storage
+    timestamp: new Date(lastSummarized.timestamp.getTime() + 1),
+    kind: 'summary',
+    parentId: lastSummarized.id,
+  };
+}
+
+/**
+ * Have the loaded model summarize turns, building on the previous summary
+ * @param turnTokens Token count of each turn, used to fit them into the context window
+ * @param instructionTokens Token count of the summarization prompt plus the previous summary
+ * @returns The summary, or null if the model produced nothing
+ */
+export async function summarizeTurns(
+  engine: MLCEngineInterface,
+  previousSummary: string | null,
+  turns: Turn[],
+  turnTokens: number[],
+  instructionTokens: number,
+  contextWindowSize: number
+): Promise<string | null> {
+  const budget =
+    contextWindowSize - SUMMARY_MAX_TOKENS - instructionTokens - 2 * MESSAGE_OVERHEAD_TOKENS;
+  const { messages } = fitHistoryToContext(turns, turnTokens, budget);
+  const transcript = messages
+    .map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n\n');
+
+  const instructions = previousSummary
+    ? `${SUMMARY_PROMPT}\n\nSummary so far:\n${previousSummary}`
+    : SUMMARY_PROMPT;
+
+  const completion = await engine.chat.completions.create({
+    messages: [
+      { role: 'system', content: instructions },
+      { role: 'user', content: transcript },
+    ],
+    max_tokens: SUMMARY_MAX_TOKENS,
+    temperature: 0.3,
+    stream: false,
+  });
+
+  const summary = completion.choices[0]?.message?.content?.trim();
+  return summary || null;
+}
@@ -0,0 +1,130 @@
+/**
+ * Tests for the message tree
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { ChatMessage } from '../types/chat';
+import {
+  getActiveBranch,
+  getBranchPositions,
+  getParentId,
+  selectMessage,
+  selectPathTo,
+  selectSibling,
+} from './tree';
+
+const message = (
+  id: string,
+  parentId: string | null | undefined,
+  time: number,
+  overrides: Partial<ChatMessage> = {}
+): ChatMessage => ({
+  id,
+  role: 'user',
+  content: id,
+  timestamp: new Date(time),
+  ...(parentId !== undefined && { parentId }),
+  ...overrides,
+});
+
+/**
+ * q1 ─ a1 ─ q2
+ *    └ a1b
+ * q1b ─ a3
+ */
+const tree = [
+  message('q1', null, 1),
+  message('a1', 'q1', 2, { role: 'assistant' }),
+  message('q2', 'a1', 3),
+  message('a1b', 'q1', 4, { role: 'assistant' }),
+  message('q1b', null, 5),
+  message('a3', 'q1b', 6, { role: 'assistant' }),
+];
+
+const ids = (messages: ChatMessage[]) => messages.map((m) => m.id);
+
+describe('tree', () => {
+  describe('getActiveBranch', () => {
+    test('shows the most recent alternative where nothing was selected', () => {
+      expect(ids(getActiveBranch(tree, {}))).toEqual(['q1b', 'a3']);
+    });
+
+    test('follows the selected alternatives', () => {
+      expect(ids(getActiveBranch(tree, { '': 'q1' }))).toEqual(['q1', 'a1b']);
+      expect(ids(getActiveBranch(tree, { '': 'q1', q1: 'a1' }))).toEqual(['q1', 'a1', 'q2']);
+    });
+
+    test('links messages saved without a parent to the turn before them', () => {
+      const legacy = [message('b', undefined, 2), message('a', undefined, 1)];
+
+      expect(ids(getActiveBranch(legacy, {}))).toEqual(['a', 'b']);
+      expect(getParentId(legacy, 'b')).toBe('a');
+      expect(getParentId(legacy, 'a')).toBeNull();
+    });
+
+    test('shows a summary after the turn it hangs off, on every branch through it', () => {
+      const summary = message('s', 'q1', 2.5, { role: 'system', kind: 'summary' });
+      const messages = [...tree, summary];
+
+      expect(ids(getActiveBranch(messages, { '': 'q1', q1: 'a1' }))).toEqual([
+        'q1',
+        's',
+        'a1',
+        'q2',
+      ]);
+      expect(ids(getActiveBranch(messages, { '': 'q1' }))).toEqual(['q1', 's', 'a1b']);
+      expect(ids(getActiveBranch(messages, {}))).toEqual(['q1b', 'a3']);
+    });
+  });
+
+  test('getBranchPositions counts the alternatives of each message', () => {
+    const positions = getBranchPositions(tree);
+
+    expect(positions.q1).toEqual({ index: 0, count: 2 });
+    expect(positions.q1b).toEqual({ index: 1, count: 2 });
+    expect(positions.a1b).toEqual({ index: 1, count: 2 });
+    expect(positions.q2).toEqual({ index: 0, count: 1 });
+  });
+
+  describe('selectSibling', () => {
+    test('selects the neighbouring alternative', () => {
+      expect(selectSibling(tree, {}, 'q1b', -1)).toEqual({ '': 'q1' });
+      expect(selectSibling(tree, { '': 'q1' }, 'a1b', -1)).toEqual({ '': 'q1', q1: 'a1' });
+    });
+
+    test('keeps the selections when there is no alternative in that direction', () => {
+      const selections = { '': 'q1' };
+
+      expect(selectSibling(tree, selections, 'q1', -1)).toBe(selections);
+      expect(selectSibling(tree, selections, 'q2', 1)).toBe(selections);
+      expect(selectSibling(tree, selections, 'missing', 1)).toBe(selections);
+    });
+  });
+
+  test('selectMessage shows a new message after its parent', () => {
+    expect(selectMessage({}, message('q3', 'a1', 7))).toEqual({ a1: 'q3' });
+    expect(selectMessage({ a1: 'q2' }, message('q0', null, 7))).toEqual({ a1: 'q2', '': 'q0' });
+  });
+
+  describe('selectPathTo', () => {
+    test('selects every alternative on the way to a message', () => {
+      const selections = selectPathTo(tree, {}, 'q2');
+
+      expect(selections).toEqual({ '': 'q1', q1: 'a1', a1: 'q2' });
+      expect(ids(getActiveBranch(tree, selections))).toEqual(['q1', 'a1', 'q2']);
+    });
+
+    test('shows the branch through the turn a summary hangs off', () => {
+      const summary = message('s', 'a1b', 4.5, { role: 'system', kind: 'summary' });
+      const messages = [...tree, summary];
+
+      const selections = selectPathTo(messages, { '': 'q1b' }, 's');
+
+      expect(ids(getActiveBranch(messages, selections))).toEqual(['q1', 'a1b', 's']);
+    });
+
+    test('keeps the selections for a message that is not in the tree', () => {
+      expect(selectPathTo(tree, { '': 'q1' }, 'missing')).toEqual({ '': 'q1' });
+    });
+  });
+});
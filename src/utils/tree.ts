@@ -0,0 +1,169 @@
+/**
+ * Message tree
+ * Every message points at the message it follows. Messages that follow the same message are
+ * alternate branches (an edited prompt or a regenerated reply), and the chat shows one
+ * branch at a time. Summaries hang off the last turn they replace and show on every branch
+ * through that turn.
+ */
+
+import type { ChatMessage } from '../types/chat';
+import { isSummary } from './summary';
+
+/**
+ * Child chosen at each branching point, keyed by parent id ('' for the first message)
+ */
+export type BranchSelections = Record<string, string>;
+
+/**
+ * Where a message sits among its alternatives
+ */
+export interface BranchPosition {
+  /** Zero-based index among the messages sharing its parent, oldest first */
+  index: number;
+  /** Number of messages sharing its parent */
+  count: number;
+}
+
+/**
+ * Key of the (missing) parent of a conversation's first messages
+ */
+const ROOT_KEY = '';
+
+/**
+ * Messages grouped by the message they follow
+ */
+interface TreeIndex {
+  /** Turns following each message, oldest first */
+  children: Map<string, ChatMessage[]>;
+  /** Summaries hanging off each message */
+  summaries: Map<string, ChatMessage[]>;
+  /** Parent key of every message */
+  parentKeys: Map<string, string>;
+}
+
+/**
+ * Group messages by their parent
+ */
+function indexTree(messages: ChatMessage[]): TreeIndex {
+  const index: TreeIndex = { children: new Map(), summaries: new Map(), parentKeys: new Map() };
+  const sorted = [...messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  let previous: ChatMessage | null = null;
+  for (const message of sorted) {
+    // Messages saved before branching existed follow the turn before them
+    const key =
+      message.parentId !== undefined ? (message.parentId ?? ROOT_KEY) : (previous?.id ?? ROOT_KEY);
+    index.parentKeys.set(message.id, key);
+
+    const groups = isSummary(message) ? index.summaries : index.children;
+    groups.set(key, [...(groups.get(key) ?? []), message]);
+    if (!isSummary(message)) {
+      previous = message;
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Find the message a message follows
+ * @returns The parent id, or null for a conversation's first message
+ */
+export function getParentId(messages: ChatMessage[], messageId: string): string | null {
+  return indexTree(messages).parentKeys.get(messageId) || null;
+}
+
+/**
+ * Follow the selected branch from the first message to the end of the conversation
+ * Where nothing was selected, the most recent alternative is shown.
+ */
+export function getActiveBranch(
+  messages: ChatMessage[],
+  selections: BranchSelections
+): ChatMessage[] {
+  const { children, summaries } = indexTree(messages);
+  const branch: ChatMessage[] = [];
+
+  let key = ROOT_KEY;
+  for (;;) {
+    const alternatives = children.get(key);
+    if (!alternatives) {
+      return branch;
+    }
+    const chosen =
+      alternatives.find((message) => message.id === selections[key]) ?? alternatives.at(-1)!;
+    branch.push(chosen, ...(summaries.get(chosen.id) ?? []));
+    key = chosen.id;
+  }
+}
+
+/**
+ * Find where each message sits among its alternatives
+ */
+export function getBranchPositions(messages: ChatMessage[]): Record<string, BranchPosition> {
+  const { children } = indexTree(messages);
+  const positions: Record<string, BranchPosition> = {};
+  for (const alternatives of children.values()) {
+    alternatives.forEach((message, index) => {
+      positions[message.id] = { index, count: alternatives.length };
+    });
+  }
+  return positions;
+}
+
+/**
+ * Pick the alternative `offset` places away from a message (e.g. -1 for the previous one)
+ * @returns The updated selections, or the same selections if there is no such alternative
+ */
+export function selectSibling(
+  messages: ChatMessage[],
+  selections: BranchSelections,
+  messageId: string,
+  offset: number
+): BranchSelections {
+  const { children, parentKeys } = indexTree(messages);
+  const key = parentKeys.get(messageId);
+  if (key === undefined) {
+    return selections;
+  }
+  const alternatives = children.get(key) ?? [];
+  const index = alternatives.findIndex((m) => m.id === messageId);
+  const sibling = index >= 0 ? alternatives[index + offset] : undefined;
+  return sibling ? { ...selections, [key]: sibling.id } : selections;
+}
+
+/**
+ * Make a new message the shown alternative after its parent
+ */
+export function selectMessage(
+  selections: BranchSelections,
+  message: ChatMessage
+): BranchSelections {
+  return { ...selections, [message.parentId ?? ROOT_KEY]: message.id };
+}
+
+/**
+ * Pick the alternatives that lead to a message, so the chat shows the branch containing it
+ * A summary is shown on the branch through the turn it hangs off.
+ */
+export function selectPathTo(
+  messages: ChatMessage[],
+  selections: BranchSelections,
+  messageId: string
+): BranchSelections {
+  const { parentKeys, summaries } = indexTree(messages);
+  const isSummaryId = [...summaries.values()].some((group) =>
+    group.some((m) => m.id === messageId)
+  );
+  const next = { ...selections };
+  let id = isSummaryId ? parentKeys.get(messageId) : messageId;
+  while (id) {
+    const key = parentKeys.get(id);
+    if (key === undefined) {
+      break;
+    }
+    next[key] = id;
+    id = key;
+  }
+  return next;
+}
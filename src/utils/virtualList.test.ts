@@ -0,0 +1,36 @@
+/**
+ * Tests for list windowing
+ */
+
+import { describe, test, expect } from 'vitest';
+import { getItemOffsets, getVisibleRange, isScrolledToBottom } from './virtualList';
+
+describe('virtualList', () => {
+  test('getItemOffsets uses measured heights and estimates the rest', () => {
+    expect(getItemOffsets(['a', 'b', 'c'], { b: 40 }, 100)).toEqual([0, 100, 140, 240]);
+    expect(getItemOffsets([], {}, 100)).toEqual([0]);
+  });
+
+  describe('getVisibleRange', () => {
+    // Four items of 100px
+    const offsets = [0, 100, 200, 300, 400];
+
+    test('includes every item overlapping the span', () => {
+      expect(getVisibleRange(offsets, 150, 250)).toEqual({ start: 1, end: 3 });
+      expect(getVisibleRange(offsets, 100, 200)).toEqual({ start: 1, end: 2 });
+    });
+
+    test('stays within the list', () => {
+      expect(getVisibleRange(offsets, -500, 50)).toEqual({ start: 0, end: 1 });
+      expect(getVisibleRange(offsets, 350, 900)).toEqual({ start: 3, end: 4 });
+      expect(getVisibleRange(offsets, 500, 900)).toEqual({ start: 4, end: 4 });
+      expect(getVisibleRange([0], 0, 600)).toEqual({ start: 0, end: 0 });
+    });
+  });
+
+  test('isScrolledToBottom allows for a little slack', () => {
+    expect(isScrolledToBottom(400, 600, 1000)).toBe(true);
+    expect(isScrolledToBottom(370, 600, 1000)).toBe(true);
+    expect(isScrolledToBottom(300, 600, 1000)).toBe(false);
+  });
+});
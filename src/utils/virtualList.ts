@@ -0,0 +1,77 @@
+/**
+ * List windowing
+ * Works out which items of a long scrolled list are on screen, so only those are rendered
+ */
+
+/** Distance from the end of a list, in pixels, that still counts as being at the bottom */
+export const BOTTOM_THRESHOLD = 40;
+
+/**
+ * Items to render, from `start` up to but not including `end`
+ */
+export interface VisibleRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find where each item of a list starts
+ * @param heights Measured item heights by key; items not measured yet use `estimatedHeight`
+ * @returns The top of each item, followed by the height of the whole list
+ */
+export function getItemOffsets(
+  keys: string[],
+  heights: Record<string, number>,
+  estimatedHeight: number
+): number[] {
+  const offsets = [0];
+  for (const key of keys) {
+    offsets.push(offsets[offsets.length - 1] + (heights[key] ?? estimatedHeight));
+  }
+  return offsets;
+}
+
+/**
+ * Find the first offset from `from` on that passes `test`; offsets only grow, so a binary search works
+ * @returns The index found, or the number of offsets when none passes
+ */
+function findFirstOffset(offsets: number[], from: number, test: (offset: number) => boolean) {
+  let low = from;
+  let high = offsets.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (test(offsets[middle])) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Find the items that overlap the span from `top` to `bottom`
+ * @param offsets Item tops and total height, as returned by getItemOffsets
+ */
+export function getVisibleRange(offsets: number[], top: number, bottom: number): VisibleRange {
+  const count = offsets.length - 1;
+  // The first item whose bottom edge is below `top`
+  const start = Math.min(findFirstOffset(offsets, 1, (offset) => offset > top) - 1, count);
+  // Items up to the first one that starts at or below `bottom`
+  const end = Math.min(
+    findFirstOffset(offsets, start, (offset) => offset >= bottom),
+    count
+  );
+  return { start, end: Math.max(start, end) };
+}
+
+/**
+ * Whether a scrolled element is showing the end of its content
+ */
+export function isScrolledToBottom(
+  scrollTop: number,
+  viewportHeight: number,
+  scrollHeight: number
+): boolean {
+  return scrollHeight - scrollTop - viewportHeight <= BOTTOM_THRESHOLD;
+}
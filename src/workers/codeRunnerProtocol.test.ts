@@ -0,0 +1,98 @@
+/**
+ * Tests for the code runner protocol
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import {
+  MAX_OUTPUT_CHARS,
+  buildCodeRunnerWorkerSource,
+  executeCode,
+  formatValue,
+} from './codeRunnerProtocol';
+
+describe('codeRunnerProtocol', () => {
+  describe('buildCodeRunnerWorkerSource', () => {
+    test('builds a worker that needs nothing from this module', async () => {
+      // Stand-in for the worker's global scope
+      const scope = {
+        onmessage: undefined as ((event: { data: { code: string } }) => Promise<void>) | undefined,
+        postMessage: vi.fn(),
+      };
+      new Function('self', buildCodeRunnerWorkerSource())(scope);
+
+      await scope.onmessage?.({ data: { code: "console.log('hi');\n1 + 1" } });
+
+      expect(scope.postMessage).toHaveBeenCalledWith({
+        logs: [{ level: 'log', text: 'hi' }],
+        result: '2',
+      });
+    });
+  });
+
+  describe('formatValue', () => {
+    test('shows values the way a console would', () => {
+      expect(formatValue('text')).toBe('text');
+      expect(formatValue(42)).toBe('42');
+      expect(formatValue({ a: [1, 2] })).toBe('{\n  "a": [\n    1,\n    2\n  ]\n}');
+      expect(formatValue(new TypeError('Bad'))).toBe('TypeError: Bad');
+      expect(formatValue(function double() {})).toBe('[Function double]');
+      expect(formatValue(10n)).toBe('10n');
+      expect(formatValue(undefined)).toBe('undefined');
+    });
+
+    test('falls back to String for values JSON cannot hold', () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      expect(formatValue(circular)).toBe('[object Object]');
+    });
+  });
+
+  describe('executeCode', () => {
+    test('captures console output and the value of the last expression', async () => {
+      const response = await executeCode(
+        "console.log('sum', 1 + 2);\nconsole.warn('careful');\nconst x = 5;\nx * 2"
+      );
+
+      expect(response).toEqual({
+        logs: [
+          { level: 'log', text: 'sum 3' },
+          { level: 'warn', text: 'careful' },
+        ],
+        result: '10',
+      });
+    });
+
+    test('leaves out an undefined result', async () => {
+      expect(await executeCode("console.log('hi');")).toEqual({
+        logs: [{ level: 'log', text: 'hi' }],
+      });
+    });
+
+    test('waits for a returned promise', async () => {
+      const response = await executeCode('Promise.resolve(7)');
+      expect(response.result).toBe('7');
+
+      const rejected = await executeCode("Promise.reject(new Error('Nope'))");
+      expect(rejected.error).toBe('Error: Nope');
+    });
+
+    test('reports thrown and syntax errors with the output before them', async () => {
+      const thrown = await executeCode("console.log('before');\nnull.x");
+      expect(thrown.logs).toEqual([{ level: 'log', text: 'before' }]);
+      expect(thrown.error).toMatch(/^TypeError: /);
+
+      const syntax = await executeCode('const = 1');
+      expect(syntax.error).toMatch(/^SyntaxError: /);
+    });
+
+    test('truncates long output', async () => {
+      const response = await executeCode(
+        `for (let i = 0; i < 1000; i++) console.log('${'x'.repeat(100)}');`
+      );
+
+      const total = response.logs.reduce((sum, log) => sum + log.text.length, 0);
+      expect(total).toBeLessThanOrEqual(MAX_OUTPUT_CHARS + 100);
+      expect(response.logs.at(-1)).toEqual({ level: 'warn', text: '… output truncated' });
+    });
+  });
+});
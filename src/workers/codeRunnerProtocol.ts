@@ -0,0 +1,124 @@
+/**
+ * Message protocol and execution for the code runner worker
+ * The page sends a script, the worker runs it and answers with what it logged, its value
+ * and any error. The worker is built from the source of createCodeExecutor inside a sandboxed
+ * frame, so execution lives here where it can also be tested.
+ */
+
+/**
+ * Ask the worker to run a script
+ */
+export interface CodeRunRequest {
+  code: string;
+}
+
+/**
+ * A line the script logged
+ */
+export interface CodeRunLog {
+  level: 'log' | 'info' | 'warn' | 'error';
+  text: string;
+}
+
+/**
+ * What a script did
+ */
+export interface CodeRunResponse {
+  logs: CodeRunLog[];
+  /** The value of the script's last expression, formatted for display; unset when undefined */
+  result?: string;
+  /** Error thrown by the script (or by a promise it returned) */
+  error?: string;
+}
+
+/**
+ * Most characters of output kept, so a chatty script cannot flood the conversation
+ */
+export const MAX_OUTPUT_CHARS = 10_000;
+
+/**
+ * Build the functions that run scripts
+ * Must only use what it defines and the global scope: the worker is made from its source text.
+ */
+export function createCodeExecutor(maxOutputChars: number) {
+  /**
+   * Format a value the way a console would show it
+   */
+  function formatValue(value: unknown): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (value instanceof Error) {
+      return `${value.name}: ${value.message}`;
+    }
+    if (typeof value === 'function') {
+      return `[Function ${value.name || 'anonymous'}]`;
+    }
+    if (typeof value === 'bigint') {
+      return `${value}n`;
+    }
+    try {
+      return JSON.stringify(value, null, 2) ?? String(value);
+    } catch {
+      // Circular structures and the like
+      return String(value);
+    }
+  }
+
+  /**
+   * Run a script and capture what it does
+   * The script sees a console that records its output; everything else is the global scope
+   */
+  async function executeCode(code: string): Promise<CodeRunResponse> {
+    const logs: CodeRunLog[] = [];
+    let outputChars = 0;
+    let truncated = false;
+
+    const record = (level: CodeRunLog['level'], values: unknown[]) => {
+      if (truncated) {
+        return;
+      }
+      const text = values.map(formatValue).join(' ');
+      outputChars += text.length;
+      if (outputChars > maxOutputChars) {
+        truncated = true;
+        logs.push({ level: 'warn', text: '… output truncated' });
+        return;
+      }
+      logs.push({ level, text });
+    };
+    const capturedConsole = {
+      log: (...values: unknown[]) => record('log', values),
+      info: (...values: unknown[]) => record('info', values),
+      warn: (...values: unknown[]) => record('warn', values),
+      error: (...values: unknown[]) => record('error', values),
+      debug: (...values: unknown[]) => record('log', values),
+    };
+
+    try {
+      // A direct eval inside the function returns the value of the last expression
+      const run = new Function('console', 'return eval(arguments[1]);');
+      let value: unknown = run(capturedConsole, code);
+      if (value instanceof Promise) {
+        value = await value;
+      }
+      return { logs, ...(value !== undefined && { result: formatValue(value) }) };
+    } catch (err) {
+      return { logs, error: formatValue(err) };
+    }
+  }
+
+  return { formatValue, executeCode };
+}
+
+export const { formatValue, executeCode } = createCodeExecutor(MAX_OUTPUT_CHARS);
+
+/**
+ * Source of the worker: answers each run request with what the script did
+ */
+export function buildCodeRunnerWorkerSource(): string {
+  return [
+    `const { executeCode } = (${createCodeExecutor.toString()})(${MAX_OUTPUT_CHARS});`,
+    'self.onmessage = async (event) => self.postMessage(await executeCode(event.data.code));',
+  ].join('\n');
+}
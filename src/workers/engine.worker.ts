@@ -0,0 +1,17 @@
+/**
+ * Web Worker hosting the WebLLM engine
+ * Keeps model loading, prefill and decoding off the main thread so rendering stays responsive
+ */
+
+import { WebWorkerMLCEngineHandler } from '@mlc-ai/web-llm';
+import { handleEngineRequest, isEngineRequest } from './engineProtocol';
+
+const handler = new WebWorkerMLCEngineHandler();
+
+self.onmessage = (event: MessageEvent) => {
+  if (isEngineRequest(event.data)) {
+    event.ports[0]?.postMessage(handleEngineRequest(event.data, handler));
+    return;
+  }
+  handler.onmessage(event);
+};
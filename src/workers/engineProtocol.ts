@@ -0,0 +1,139 @@
+/**
+ * Typed message protocol between the page and the engine worker
+ * WebLLM's own messages (reload, chat completion, progress, ...) pass through its
+ * worker handler untouched. TerziAI's requests are namespaced so they never collide,
+ * and each is answered on a dedicated MessagePort so WebLLM's client never sees the reply.
+ */
+
+/**
+ * Prefix shared by all TerziAI engine requests
+ */
+export const ENGINE_REQUEST_PREFIX = 'terziai:';
+
+/**
+ * Maximum time to wait for the worker to answer a request
+ */
+export const ENGINE_REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Ask which models the engine currently has loaded
+ */
+export interface GetLoadedModelsRequest {
+  kind: 'terziai:getLoadedModels';
+}
+
+/**
+ * Count tokens with the loaded model's tokenizer
+ */
+export interface CountTokensRequest {
+  kind: 'terziai:countTokens';
+  texts: string[];
+}
+
+/**
+ * Requests understood by the engine worker in addition to WebLLM's
+ */
+export type EngineRequest = GetLoadedModelsRequest | CountTokensRequest;
+
+/**
+ * Response payloads, keyed by request kind
+ */
+export interface EngineResponses {
+  'terziai:getLoadedModels': { modelIds: string[] };
+  /** `counts` is null when no model (and so no tokenizer) is loaded */
+  'terziai:countTokens': { counts: number[] | null };
+}
+
+/**
+ * Anything that can receive a request together with a reply port
+ * (a Worker or a ServiceWorker)
+ */
+export interface EngineRequestTarget {
+  postMessage(message: EngineRequest, transfer: Transferable[]): void;
+}
+
+/**
+ * The part of WebLLM's engine handler that TerziAI requests read from
+ */
+export interface EngineHandlerState {
+  modelId?: string[];
+  engine: unknown;
+}
+
+/**
+ * Internal MLCEngine state the tokenizer is reached through.
+ * WebLLM exposes no public tokenizer API, so this mirrors its private fields.
+ */
+interface EngineInternals {
+  loadedModelIdToPipeline?: Map<
+    string,
+    { tokenizer?: { encode(text: string): ArrayLike<number> } }
+  >;
+}
+
+/**
+ * Count tokens with the tokenizer of the model loaded in an MLCEngine
+ * @returns Token count per text, or null when no tokenizer is reachable
+ */
+export function countTokensWithEngine(engine: unknown, texts: string[]): number[] | null {
+  const pipelines = (engine as EngineInternals | null)?.loadedModelIdToPipeline;
+  const tokenizer = pipelines?.values().next().value?.tokenizer;
+  if (!tokenizer) {
+    return null;
+  }
+  return texts.map((text) => tokenizer.encode(text).length);
+}
+
+/**
+ * Check whether a message is a TerziAI engine request rather than a WebLLM one
+ */
+export function isEngineRequest(data: unknown): data is EngineRequest {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'kind' in data &&
+    typeof data.kind === 'string' &&
+    data.kind.startsWith(ENGINE_REQUEST_PREFIX)
+  );
+}
+
+/**
+ * Answer a TerziAI engine request from inside the worker hosting the engine
+ */
+export function handleEngineRequest(
+  request: EngineRequest,
+  handler: EngineHandlerState
+): EngineResponses[EngineRequest['kind']] {
+  switch (request.kind) {
+    case 'terziai:getLoadedModels':
+      return { modelIds: handler.modelId ?? [] };
+    case 'terziai:countTokens':
+      return { counts: countTokensWithEngine(handler.engine, request.texts) };
+  }
+}
+
+/**
+ * Send a request to the engine host and wait for its reply
+ */
+export function sendEngineRequest<K extends EngineRequest['kind']>(
+  target: EngineRequestTarget,
+  request: Extract<EngineRequest, { kind: K }>,
+  timeoutMs: number = ENGINE_REQUEST_TIMEOUT_MS
+): Promise<EngineResponses[K]> {
+  const channel = new MessageChannel();
+
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      channel.port1.close();
+      reject(new Error(`Engine request timed out: ${request.kind}`));
+    }, timeoutMs);
+
+    channel.port1.onmessage = (event: MessageEvent<EngineResponses[K]>) => {
+      clearTimeout(timeout);
+      channel.port1.close();
+      resolve(event.data);
+    };
+
+    target.postMessage(request, [channel.port2]);
+  });
+}
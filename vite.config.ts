@@ -15,19 +15,14 @@ export default defineConfig({
       registerType: 'autoUpdate',
       includeAssets: ['icons/*.svg', 'icons/*.png'],
       manifest: false, // Using external manifest.json
-      workbox: {
+      // Custom service worker so it can also host the WebLLM engine (see src/sw.ts)
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
+      injectManifest: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
         // Increase size limit for local app assets
         maximumFileSizeToCacheInBytes: 100 * 1024 * 1024, // 100MB for app assets
-        // Exclude external CDN URLs from service worker caching
-        // WebLLM handles its own model caching via IndexedDB
-        runtimeCaching: [
-          {
-            // Exclude WebLLM CDN URLs (huggingface.co, jsdelivr.net) from caching
-            urlPattern: /^https?:\/\/.*(huggingface\.co|jsdelivr\.net|hf\.co).*/i,
-            handler: 'NetworkOnly',
-          },
-        ],
       },
     }),
   ],